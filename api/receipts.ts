@@ -0,0 +1,46 @@
+/**
+ * =============================================================================
+ * Receipt Downloads - Vercel Serverless Function
+ * =============================================================================
+ *
+ * Serves the PDF receipts of the server package (server/src/downloads.ts),
+ * which the standalone server answers at the same paths:
+ *
+ *   GET /receipts/contributions/:id.pdf
+ *   GET /receipts/donors/:donorId/:year.pdf
+ *
+ * vercel.json rewrites /receipts/... here with the rest of the path in the
+ * `path` query parameter.
+ *
+ * Endpoint: /api/receipts
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendReceipt } from '../server/src/downloads.js';
+import { sendHttpError } from '../server/src/http.js';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle CORS preflight; the download carries a bearer token
+  const method = req.method as string;
+  if (method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization');
+    res.status(200).end();
+    return;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  if (method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    res.status(405).end();
+    return;
+  }
+
+  const path = [req.query['path'] ?? []].flat().join('/');
+  try {
+    await sendReceipt(req, res, `/receipts/${path}`);
+  } catch (error) {
+    sendHttpError(res, error);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * =============================================================================
+ * Recurring Grants - Vercel Cron Function
+ * =============================================================================
+ *
+ * Runs the recurring grant job of the server package
+ * (server/src/lib/recurringGrants.ts) once a day, as scheduled in the
+ * `crons` section of vercel.json. The standalone server runs the same job
+ * on a timer instead.
+ *
+ * Vercel calls crons with `Authorization: Bearer <CRON_SECRET>`; any other
+ * caller is refused, and the function refuses everyone while CRON_SECRET
+ * is unset.
+ *
+ * Endpoint: /api/recurring-grants
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { prisma } from '../server/src/context.js';
+import { runRecurringGrants } from '../server/src/lib/recurringGrants.js';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const secret = process.env['CRON_SECRET'];
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    const summary = await runRecurringGrants(prisma);
+    res.status(200).json(summary);
+  } catch (error) {
+    console.error('Recurring grant run failed:', error);
+    res.status(500).json({ error: 'Recurring grant run failed' });
+  }
+}
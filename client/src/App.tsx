@@ -17,6 +17,7 @@ import { TechStackPage } from './pages/TechStackPage';
 import { GrantLandingPage } from './pages/GrantLandingPage';
 import { Dashboard } from './pages/Dashboard';
 import { MinistriesPage } from './pages/MinistriesPage';
+import { MinistryImportPage } from './pages/MinistryImportPage';
 import { GrantsPage } from './pages/GrantsPage';
 import { DonorsPage } from './pages/DonorsPage';
 import { DemoLayout } from './layouts/DemoLayout';
@@ -40,6 +41,7 @@ export default function App() {
         <Route element={<DemoLayout />}>
           <Route path="/demo" element={<Dashboard />} />
           <Route path="/ministries" element={<MinistriesPage />} />
+          <Route path="/ministries/import" element={<MinistryImportPage />} />
           <Route path="/grants" element={<GrantsPage />} />
           <Route path="/donors" element={<DonorsPage />} />
         </Route>
@@ -0,0 +1,13 @@
+/**
+ * Types for apollo-upload-client, which ships none
+ * Only the createUploadLink options used by lib/apollo.ts are declared.
+ */
+declare module 'apollo-upload-client/createUploadLink.mjs' {
+  import type { ApolloLink } from '@apollo/client';
+
+  export default function createUploadLink(options?: {
+    uri?: string;
+    credentials?: RequestCredentials;
+    headers?: Record<string, string>;
+  }): ApolloLink;
+}
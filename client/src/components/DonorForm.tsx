@@ -0,0 +1,168 @@
+/**
+ * =============================================================================
+ * Donor Form Component
+ * =============================================================================
+ *
+ * Form for editing a donor's name, contact details and postal address.
+ * Styled for the premium dark theme.
+ */
+
+import { useState, useEffect } from 'react';
+
+type Donor = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  country: string;
+};
+
+interface DonorFormProps {
+  donor: Donor;
+  onSubmit: (data: Record<string, unknown>) => Promise<void>;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+export function DonorForm({
+  donor,
+  onSubmit,
+  onCancel,
+  loading = false,
+}: DonorFormProps) {
+  const [formData, setFormData] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    addressLine1: '',
+    addressLine2: '',
+    city: '',
+    state: '',
+    postalCode: '',
+    country: 'USA',
+  });
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Populate form from the donor being edited
+  useEffect(() => {
+    setFormData({
+      firstName: donor.firstName,
+      lastName: donor.lastName,
+      email: donor.email,
+      phone: donor.phone || '',
+      addressLine1: donor.addressLine1 || '',
+      addressLine2: donor.addressLine2 || '',
+      city: donor.city || '',
+      state: donor.state || '',
+      postalCode: donor.postalCode || '',
+      country: donor.country || 'USA',
+    });
+  }, [donor]);
+
+  // Handle input change
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    // Clear error when field is edited
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  // Validate form
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (!formData.firstName.trim()) {
+      newErrors.firstName = 'First name is required';
+    }
+    if (!formData.lastName.trim()) {
+      newErrors.lastName = 'Last name is required';
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      newErrors.email = 'Enter a valid email address';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission; blank optional fields are cleared on the server
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+    await onSubmit(formData);
+  };
+
+  const inputClasses = "w-full px-4 py-2.5 bg-slate-50 dark:bg-midnight-800 border border-black/10 dark:border-white/10 rounded-xl text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-500 focus:border-electric-blue-500 focus:ring-2 focus:ring-electric-blue-500/20 transition-all";
+  const labelClasses = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5";
+
+  // Text input with its label and validation message
+  const field = (name: keyof typeof formData, label: string, placeholder = '', type = 'text') => (
+    <div>
+      <label className={labelClasses}>{label}</label>
+      <input
+        type={type}
+        name={name}
+        value={formData[name]}
+        onChange={handleChange}
+        className={`${inputClasses} ${errors[name] ? 'border-red-500 focus:border-red-500' : ''}`}
+        placeholder={placeholder}
+      />
+      {errors[name] && (
+        <p className="mt-1.5 text-sm text-red-400">{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {/* Name */}
+      <div className="grid grid-cols-2 gap-4">
+        {field('firstName', 'First Name')}
+        {field('lastName', 'Last Name')}
+      </div>
+
+      {/* Contact */}
+      <div className="grid grid-cols-2 gap-4">
+        {field('email', 'Email', 'name@example.com', 'email')}
+        {field('phone', 'Phone', '555-123-4567', 'tel')}
+      </div>
+
+      {/* Postal Address */}
+      {field('addressLine1', 'Street Address', '123 Main St')}
+      {field('addressLine2', 'Address Line 2', 'Apartment, suite, etc.')}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {field('city', 'City')}
+        {field('state', 'State')}
+        {field('postalCode', 'ZIP Code')}
+        {field('country', 'Country')}
+      </div>
+
+      {/* Form Actions */}
+      <div className="flex justify-end space-x-3 pt-4 border-t border-black/10 dark:border-white/10">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="btn-outline px-5 py-2.5"
+          disabled={loading}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="btn-primary px-5 py-2.5"
+          disabled={loading}
+        >
+          {loading ? 'Saving...' : 'Update Donor'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -5,15 +5,113 @@
  *
  * Displays error messages with optional details.
  * Provides consistent error UI across the application.
+ *
+ * Pass the ApolloError as `error` to render by the server's error code
+ * (extensions.code) instead of the raw message text.
  */
 
+import { ApolloError } from "@apollo/client";
+
 interface ErrorMessageProps {
   message: string;
   details?: string;
+  /** Error from a query or mutation; rendered by its error code */
+  error?: unknown;
   onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * Error codes returned by the API in extensions.code
+ */
+type ErrorCode =
+  | "NOT_FOUND"
+  | "VALIDATION_FAILED"
+  | "INVALID_TRANSITION"
+  | "INSUFFICIENT_FUNDS"
+  | "SCREENING_HOLD"
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "INTERNAL_SERVER_ERROR";
+
+interface ErrorContent {
+  title: string;
+  detail: string;
+}
+
+/**
+ * Format currency helper
+ */
+function formatCurrency(value: unknown): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(parseFloat(String(value)));
+}
+
+/**
+ * Builds the heading and detail text for a coded API error
+ */
+function describeError(error: unknown): ErrorContent | null {
+  if (!(error instanceof ApolloError)) {
+    return null;
+  }
+
+  if (error.networkError) {
+    return {
+      title: "Unable to reach the server",
+      detail: "Check your connection and try again.",
+    };
+  }
+
+  const first = error.graphQLErrors[0];
+  if (!first) {
+    return null;
+  }
+
+  const extensions = first.extensions ?? {};
+  switch (extensions.code as ErrorCode | undefined) {
+    case "INSUFFICIENT_FUNDS":
+      return {
+        title: "Insufficient funds",
+        detail: `Available ${formatCurrency(extensions.available)}, required ${formatCurrency(extensions.required)}.`,
+      };
+    case "SCREENING_HOLD":
+      return { title: "Sanctions screening hold", detail: first.message };
+    case "INVALID_TRANSITION":
+      return { title: "Action not allowed", detail: first.message };
+    case "VALIDATION_FAILED":
+      return { title: "Please check your input", detail: first.message };
+    case "NOT_FOUND":
+      return { title: "Not found", detail: first.message };
+    case "UNAUTHENTICATED":
+      return { title: "Sign in required", detail: first.message };
+    case "FORBIDDEN":
+      return { title: "Access denied", detail: first.message };
+    case "INTERNAL_SERVER_ERROR":
+      return {
+        title: "Something went wrong",
+        detail: "An unexpected error occurred. Please try again.",
+      };
+    default:
+      return null;
+  }
 }
 
-export function ErrorMessage({ message, details, onRetry }: ErrorMessageProps) {
+export function ErrorMessage({
+  message,
+  details,
+  error,
+  onRetry,
+  onDismiss,
+}: ErrorMessageProps) {
+  const described = describeError(error);
+  const title = described?.title ?? message;
+  const detail =
+    described?.detail ??
+    details ??
+    (error instanceof Error ? error.message : undefined);
+
   return (
     <div className="rounded-lg bg-red-50 border border-red-200 p-6">
       <div className="flex items-start">
@@ -33,9 +131,9 @@ export function ErrorMessage({ message, details, onRetry }: ErrorMessageProps) {
           </svg>
         </div>
         <div className="ml-4 flex-1">
-          <h3 className="text-sm font-medium text-red-800">{message}</h3>
-          {details && (
-            <p className="mt-2 text-sm text-red-700">{details}</p>
+          <h3 className="text-sm font-medium text-red-800">{title}</h3>
+          {detail && (
+            <p className="mt-2 text-sm text-red-700">{detail}</p>
           )}
           {onRetry && (
             <button
@@ -46,6 +144,17 @@ export function ErrorMessage({ message, details, onRetry }: ErrorMessageProps) {
             </button>
           )}
         </div>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="ml-4 flex-shrink-0 text-red-500 hover:text-red-700"
+            title="Dismiss"
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -8,12 +8,16 @@
  *   - Loading related entities (ministries, giving funds)
  *   - Cascading selections (donor -> giving fund)
  *   - Form validation with business rules
+ *
+ * Choosing a cadence under "Repeat" schedules the grant instead; the server
+ * then requests it on each run from the start date.
  */
 
 import { useState } from 'react';
 import { useQuery } from '@apollo/client';
 import { LIST_MINISTRIES, LIST_DONORS } from '../graphql/queries';
 import { LoadingSpinner } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
 
 interface GrantRequestFormProps {
   onSubmit: (data: {
@@ -21,11 +25,32 @@ interface GrantRequestFormProps {
     givingFundId: number;
     amount: string;
     purpose: string;
+    /** Empty for a one-time grant */
+    cadence: GrantCadence | '';
+    /** First run, YYYY-MM-DD (recurring grants) */
+    startDate: string;
+    /** Last date a run may fall on, YYYY-MM-DD; empty for none */
+    endDate: string;
   }) => Promise<void>;
   onCancel: () => void;
   loading?: boolean;
+  /** Error returned by the last submit attempt */
+  error?: unknown;
 }
 
+export type GrantCadence = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY';
+
+const CADENCE_OPTIONS: { value: GrantCadence | ''; label: string }[] = [
+  { value: '', label: 'One-time' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'QUARTERLY', label: 'Quarterly' },
+  { value: 'ANNUALLY', label: 'Annually' },
+];
+
+/** Today as YYYY-MM-DD; schedule dates are whole UTC days */
+const today = () => new Date().toISOString().slice(0, 10);
+
 type Ministry = {
   id: number;
   name: string;
@@ -36,6 +61,7 @@ type GivingFund = {
   id: number;
   name: string;
   balance: string;
+  availableBalance: string;
 };
 
 type Donor = {
@@ -49,6 +75,7 @@ export function GrantRequestForm({
   onSubmit,
   onCancel,
   loading = false,
+  error,
 }: GrantRequestFormProps) {
   const [formData, setFormData] = useState({
     ministryId: 0,
@@ -56,7 +83,11 @@ export function GrantRequestForm({
     givingFundId: 0,
     amount: '',
     purpose: '',
+    cadence: '' as GrantCadence | '',
+    startDate: today(),
+    endDate: '',
   });
+  const recurring = formData.cadence !== '';
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -66,14 +97,19 @@ export function GrantRequestForm({
     { variables: { first: 100, filter: { verified: true } } }
   );
 
-  const { data: donorData, loading: loadingDonors } = useQuery(LIST_DONORS);
+  const { data: donorData, loading: loadingDonors } = useQuery(LIST_DONORS, {
+    variables: { first: 100 },
+  });
 
   // Get ministries and donors from query results
   const ministries: Ministry[] =
     ministryData?.ministries?.edges?.map(
       (edge: { node: Ministry }) => edge.node
     ) || [];
-  const donors: Donor[] = donorData?.donors || [];
+  const donors: Donor[] =
+    donorData?.donorsConnection?.edges?.map(
+      (edge: { node: Donor }) => edge.node
+    ) || [];
 
   // Get giving funds for selected donor
   const selectedDonor = donors.find((d) => d.id === formData.donorId);
@@ -129,9 +165,17 @@ export function GrantRequestForm({
     if (!formData.purpose.trim()) {
       newErrors.purpose = 'Please enter the purpose of the grant';
     }
+    if (recurring) {
+      if (!formData.startDate || formData.startDate < today()) {
+        newErrors.startDate = 'Start date cannot be in the past';
+      }
+      if (formData.endDate && formData.endDate < formData.startDate) {
+        newErrors.endDate = 'End date cannot be before the start date';
+      }
+    }
 
-    // Check balance
-    if (selectedFund && parseFloat(formData.amount) > parseFloat(selectedFund.balance)) {
+    // Check balance not already committed to approved grants
+    if (selectedFund && parseFloat(formData.amount) > parseFloat(selectedFund.availableBalance)) {
       newErrors.amount = 'Amount exceeds available fund balance';
     }
 
@@ -149,6 +193,9 @@ export function GrantRequestForm({
       givingFundId: formData.givingFundId,
       amount: formData.amount,
       purpose: formData.purpose,
+      cadence: formData.cadence,
+      startDate: formData.startDate,
+      endDate: formData.endDate,
     });
   };
 
@@ -260,7 +307,7 @@ export function GrantRequestForm({
                   </option>
                   {givingFunds.map((fund) => (
                     <option key={fund.id} value={fund.id}>
-                      {fund.name} ({formatCurrency(fund.balance)} available)
+                      {fund.name} ({formatCurrency(fund.availableBalance)} available)
                     </option>
                   ))}
                 </select>
@@ -298,11 +345,82 @@ export function GrantRequestForm({
               )}
               {selectedFund && (
                 <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
-                  Available balance: {formatCurrency(selectedFund.balance)}
+                  Available balance: {formatCurrency(selectedFund.availableBalance)}
+                  {selectedFund.availableBalance !== selectedFund.balance && (
+                    <> of {formatCurrency(selectedFund.balance)} (remainder committed to approved grants)</>
+                  )}
+                </p>
+              )}
+            </div>
+
+            {/* Repeat */}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Repeat
+              </label>
+              <div className="relative">
+                <select
+                  name="cadence"
+                  value={formData.cadence}
+                  onChange={handleChange}
+                  className="input-premium w-full appearance-none pr-10 cursor-pointer"
+                >
+                  {CADENCE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
+                  <svg className="h-5 w-5 text-slate-400" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </div>
+              </div>
+              {recurring && (
+                <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+                  A pending request is made on each run, starting on the start date
                 </p>
               )}
             </div>
 
+            {recurring && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Start Date <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    type="date"
+                    name="startDate"
+                    value={formData.startDate}
+                    onChange={handleChange}
+                    min={today()}
+                    className={`input-premium w-full ${errors.startDate ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  />
+                  {errors.startDate && (
+                    <p className="mt-1 text-sm text-red-400">{errors.startDate}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    End Date
+                  </label>
+                  <input
+                    type="date"
+                    name="endDate"
+                    value={formData.endDate}
+                    onChange={handleChange}
+                    min={formData.startDate}
+                    className={`input-premium w-full ${errors.endDate ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  />
+                  {errors.endDate && (
+                    <p className="mt-1 text-sm text-red-400">{errors.endDate}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Purpose */}
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
@@ -323,6 +441,13 @@ export function GrantRequestForm({
           </form>
         )}
 
+        {/* Submit Error */}
+        {error != null && (
+          <div className="px-6 pb-4">
+            <ErrorMessage message="Unable to create grant request" error={error} />
+          </div>
+        )}
+
         {/* Footer */}
         <div className="px-6 py-4 border-t border-black/10 dark:border-white/10 flex justify-end space-x-3">
           <button
@@ -338,7 +463,7 @@ export function GrantRequestForm({
             className="btn-primary"
             disabled={loading || isLoading}
           >
-            {loading ? 'Creating...' : 'Create Request'}
+            {loading ? 'Creating...' : recurring ? 'Create Schedule' : 'Create Request'}
           </button>
         </div>
       </div>
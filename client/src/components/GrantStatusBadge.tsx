@@ -8,7 +8,7 @@
  */
 
 interface GrantStatusBadgeProps {
-  status: 'PENDING' | 'APPROVED' | 'FUNDED' | 'REJECTED' | string;
+  status: 'PENDING' | 'APPROVED' | 'FUNDED' | 'REJECTED' | 'REVERSED' | string;
 }
 
 const statusConfig: Record<string, { className: string; label: string }> = {
@@ -16,6 +16,7 @@ const statusConfig: Record<string, { className: string; label: string }> = {
   APPROVED: { className: 'badge-approved', label: 'Approved' },
   FUNDED: { className: 'badge-funded', label: 'Funded' },
   REJECTED: { className: 'badge-rejected', label: 'Rejected' },
+  REVERSED: { className: 'badge-reversed', label: 'Reversed' },
 };
 
 export function GrantStatusBadge({ status }: GrantStatusBadgeProps) {
@@ -0,0 +1,48 @@
+/**
+ * =============================================================================
+ * Highlighted Text Component
+ * =============================================================================
+ *
+ * Renders search highlights returned by the API (HTML-escaped text whose
+ * only markup is <mark>) without using innerHTML.
+ */
+
+interface HighlightedTextProps {
+  /** Escaped text with <mark>…</mark> around matched words */
+  text: string;
+  className?: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+};
+
+function unescape(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#39);/g, (entity) => ENTITIES[entity] ?? entity);
+}
+
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  // Odd-numbered parts sit between <mark> and </mark>
+  const parts = text.split(/<mark>|<\/mark>/);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            className="bg-cyber-gold-400/30 text-inherit rounded px-0.5"
+          >
+            {unescape(part)}
+          </mark>
+        ) : (
+          unescape(part)
+        )
+      )}
+    </span>
+  );
+}
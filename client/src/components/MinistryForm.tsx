@@ -105,8 +105,9 @@ export function MinistryForm({
     if (!formData.name.trim()) {
       newErrors.name = 'Ministry name is required';
     }
-    if (formData.ein && !/^\d{2}-\d{7}$/.test(formData.ein)) {
-      newErrors.ein = 'EIN must be in format XX-XXXXXXX';
+    // The server also checks the IRS prefix and stores it as XX-XXXXXXX
+    if (formData.ein && !/^\d{2}-?\d{7}$/.test(formData.ein.trim())) {
+      newErrors.ein = 'EIN must be nine digits, e.g. XX-XXXXXXX';
     }
     if (formData.website && !/^https?:\/\/.+/.test(formData.website)) {
       newErrors.website = 'Website must be a valid URL';
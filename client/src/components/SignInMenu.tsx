@@ -0,0 +1,183 @@
+/**
+ * =============================================================================
+ * Sign In Menu Component
+ * =============================================================================
+ *
+ * Header control for signing in and out of the demo.
+ * Shows the current user and role when signed in, otherwise a button
+ * that opens the sign-in dialog. The access token is kept in local
+ * storage and attached to every request by the Apollo auth link.
+ */
+
+import { useState } from 'react';
+import { useApolloClient, useMutation, useQuery } from '@apollo/client';
+import { GET_ME } from '../graphql/queries';
+import { LOGIN } from '../graphql/mutations';
+import { AUTH_TOKEN_KEY } from '../lib/apollo';
+
+interface SignInMenuProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Seeded demo accounts (see server/prisma/seed.ts)
+ */
+const DEMO_ACCOUNTS = [
+  { label: 'Admin', email: 'admin@example.com' },
+  { label: 'Advisor', email: 'advisor@example.com' },
+  { label: 'Donor', email: 'robert.thompson@example.com' },
+];
+
+const DEMO_PASSWORD = 'demo-password';
+
+export function SignInMenu({ className = '' }: SignInMenuProps) {
+  const client = useApolloClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+
+  const { data } = useQuery(GET_ME);
+  const me = data?.me;
+
+  const [login, { loading }] = useMutation(LOGIN);
+
+  // Store the token and refetch everything with the new identity
+  const signIn = async (credentials: { email: string; password: string }) => {
+    setError('');
+    try {
+      const result = await login({ variables: credentials });
+      localStorage.setItem(AUTH_TOKEN_KEY, result.data.login.token);
+      setIsOpen(false);
+      setPassword('');
+      await client.resetStore();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    signIn({ email, password });
+  };
+
+  const signOut = async () => {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    await client.resetStore();
+  };
+
+  if (me) {
+    return (
+      <div className={`items-center gap-2 ${className}`}>
+        <div className="text-right leading-tight">
+          <p className="text-sm font-medium text-slate-900 dark:text-white">
+            {me.name}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {me.role.charAt(0) + me.role.slice(1).toLowerCase()}
+          </p>
+        </div>
+        <button onClick={signOut} className="btn-outline text-sm px-3 py-1.5">
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`btn-primary text-sm px-4 py-1.5 ${className}`}
+      >
+        Sign in
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 dark:bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-midnight-900 rounded-xl shadow-2xl w-full max-w-sm border border-black/10 dark:border-white/10">
+            {/* Header */}
+            <div className="px-6 py-4 border-b border-black/10 dark:border-white/10">
+              <h2 className="text-xl font-semibold text-slate-900 dark:text-white">
+                Sign In
+              </h2>
+              <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+                Donors see their own funds; advisors manage grants
+              </p>
+            </div>
+
+            {/* Form */}
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="username"
+                  className="input-premium w-full"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  className="input-premium w-full"
+                  required
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              {/* Demo accounts */}
+              <div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                  Or use a demo account:
+                </p>
+                <div className="flex gap-2">
+                  {DEMO_ACCOUNTS.map((account) => (
+                    <button
+                      key={account.email}
+                      type="button"
+                      disabled={loading}
+                      onClick={() =>
+                        signIn({ email: account.email, password: DEMO_PASSWORD })
+                      }
+                      className="btn-outline text-sm px-3 py-1.5"
+                    >
+                      {account.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="pt-2 flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setIsOpen(false)}
+                  className="btn-outline"
+                  disabled={loading}
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={loading}>
+                  {loading ? 'Signing in...' : 'Sign In'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
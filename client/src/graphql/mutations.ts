@@ -20,8 +20,34 @@ import {
   MINISTRY_CORE_FIELDS,
   GIVING_FUND_CORE_FIELDS,
   GRANT_CORE_FIELDS,
+  DONOR_CORE_FIELDS,
+  DONOR_CONTACT_FIELDS,
 } from './queries';
 
+// =============================================================================
+// Auth Mutations
+// =============================================================================
+
+/**
+ * Sign in with email and password
+ * Store the returned token under AUTH_TOKEN_KEY to authenticate requests
+ */
+export const LOGIN = gql`
+  mutation Login($email: String!, $password: String!) {
+    login(email: $email, password: $password) {
+      token
+      expiresAt
+      user {
+        id
+        email
+        name
+        role
+        donorId
+      }
+    }
+  }
+`;
+
 // =============================================================================
 // Ministry Mutations
 // =============================================================================
@@ -53,9 +79,9 @@ export const UPDATE_MINISTRY = gql`
 `;
 
 /**
- * Delete a ministry
- * Returns true if deletion was successful
- * Note: Cannot delete ministries with active grants
+ * Delete (archive) a ministry
+ * Returns true if the ministry was archived
+ * Note: Cannot archive ministries with pending or approved grants
  */
 export const DELETE_MINISTRY = gql`
   mutation DeleteMinistry($id: Int!) {
@@ -63,6 +89,46 @@ export const DELETE_MINISTRY = gql`
   }
 `;
 
+/**
+ * Import ministries from a CSV or XLSX file
+ * A dry run validates every row without creating anything; a real import
+ * creates all ministries or none
+ */
+export const IMPORT_MINISTRIES = gql`
+  mutation ImportMinistries($file: Upload!, $dryRun: Boolean) {
+    importMinistries(file: $file, dryRun: $dryRun) {
+      dryRun
+      committed
+      totalRows
+      validRows
+      invalidRows
+      duplicateEinRows
+      createdCount
+      ignoredColumns
+      rows {
+        rowNumber
+        name
+        ein
+        category
+        valid
+        errors {
+          field
+          message
+        }
+        duplicateOfRow
+        existingMinistry {
+          id
+          name
+        }
+        ministry {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
+
 // =============================================================================
 // Giving Fund Mutations
 // =============================================================================
@@ -97,6 +163,38 @@ export const ADD_FUNDS = gql`
   }
 `;
 
+/**
+ * Move money between two giving funds
+ * Posts a debit and a credit ledger entry in one transaction
+ */
+export const TRANSFER_BETWEEN_FUNDS = gql`
+  ${GIVING_FUND_CORE_FIELDS}
+  mutation TransferBetweenFunds(
+    $fromFundId: Int!
+    $toFundId: Int!
+    $amount: Decimal!
+    $memo: String
+  ) {
+    transferBetweenFunds(
+      fromFundId: $fromFundId
+      toFundId: $toFundId
+      amount: $amount
+      memo: $memo
+    ) {
+      id
+      amount
+      memo
+      createdAt
+      fromFund {
+        ...GivingFundCoreFields
+      }
+      toFund {
+        ...GivingFundCoreFields
+      }
+    }
+  }
+`;
+
 // =============================================================================
 // Grant Mutations - Full Workflow
 // =============================================================================
@@ -123,6 +221,31 @@ export const CREATE_GRANT_REQUEST = gql`
   }
 `;
 
+/**
+ * Schedule a grant to be requested every week, month, quarter or year
+ * Each run makes a PENDING grant, starting on the start date
+ */
+export const CREATE_RECURRING_GRANT = gql`
+  mutation CreateRecurringGrant($input: CreateRecurringGrantInput!) {
+    createRecurringGrant(input: $input) {
+      id
+      amount
+      cadence
+      startDate
+      endDate
+      nextRunDate
+      ministry {
+        id
+        name
+      }
+      givingFund {
+        id
+        name
+      }
+    }
+  }
+`;
+
 /**
  * Approve a pending grant request
  * Transitions grant from PENDING to APPROVED
@@ -182,6 +305,26 @@ export const FUND_GRANT = gql`
   }
 `;
 
+/**
+ * Reverse a funded grant (bounced check, returned gift)
+ * Credits the amount back to the giving fund
+ * Omitting amount reverses the full outstanding amount (FUNDED → REVERSED);
+ * partial reversals leave the grant FUNDED
+ */
+export const REVERSE_GRANT = gql`
+  ${GRANT_CORE_FIELDS}
+  mutation ReverseGrant($id: Int!, $reason: String!, $amount: Decimal) {
+    reverseGrant(id: $id, reason: $reason, amount: $amount) {
+      ...GrantCoreFields
+      givingFund {
+        id
+        name
+        balance
+      }
+    }
+  }
+`;
+
 // =============================================================================
 // Donor Mutations
 // =============================================================================
@@ -202,3 +345,62 @@ export const CREATE_DONOR = gql`
     }
   }
 `;
+
+/**
+ * Update a donor's name, contact details and postal address
+ * Supports partial updates - only provided fields are changed
+ */
+export const UPDATE_DONOR = gql`
+  ${DONOR_CORE_FIELDS}
+  mutation UpdateDonor($id: Int!, $input: UpdateDonorInput!) {
+    updateDonor(id: $id, input: $input) {
+      ...DonorCoreFields
+    }
+  }
+`;
+
+/**
+ * Deactivate a donor
+ * Their funds stay visible but take no new money or grants
+ */
+export const DEACTIVATE_DONOR = gql`
+  mutation DeactivateDonor($id: Int!) {
+    deactivateDonor(id: $id) {
+      id
+      active
+    }
+  }
+`;
+
+/**
+ * Reactivate a deactivated donor
+ */
+export const REACTIVATE_DONOR = gql`
+  mutation ReactivateDonor($id: Int!) {
+    reactivateDonor(id: $id) {
+      id
+      active
+    }
+  }
+`;
+
+/**
+ * Add a household contact, such as a spouse, to a donor
+ */
+export const ADD_DONOR_CONTACT = gql`
+  ${DONOR_CONTACT_FIELDS}
+  mutation AddDonorContact($donorId: Int!, $input: DonorContactInput!) {
+    addDonorContact(donorId: $donorId, input: $input) {
+      ...DonorContactFields
+    }
+  }
+`;
+
+/**
+ * Remove a household contact
+ */
+export const REMOVE_DONOR_CONTACT = gql`
+  mutation RemoveDonorContact($id: Int!) {
+    removeDonorContact(id: $id)
+  }
+`;
@@ -35,6 +35,7 @@ export const MINISTRY_CORE_FIELDS = gql`
     city
     state
     verified
+    verificationExpiresAt
     active
     createdAt
     updatedAt
@@ -51,10 +52,31 @@ export const DONOR_CORE_FIELDS = gql`
     lastName
     email
     phone
+    addressLine1
+    addressLine2
+    city
+    state
+    postalCode
+    country
+    active
     createdAt
   }
 `;
 
+/**
+ * Household contact fields
+ */
+export const DONOR_CONTACT_FIELDS = gql`
+  fragment DonorContactFields on DonorContact {
+    id
+    firstName
+    lastName
+    relationship
+    email
+    phone
+  }
+`;
+
 /**
  * Core giving fund fields
  */
@@ -64,7 +86,11 @@ export const GIVING_FUND_CORE_FIELDS = gql`
     name
     description
     balance
+    committedAmount
+    availableBalance
     active
+    closingAt
+    closedAt
     createdAt
   }
 `;
@@ -83,6 +109,28 @@ export const GRANT_CORE_FIELDS = gql`
     approvedAt
     fundedAt
     rejectedAt
+    reversedAt
+    reversedAmount
+  }
+`;
+
+// =============================================================================
+// Auth Queries
+// =============================================================================
+
+/**
+ * Fetch the signed-in user
+ * Returns null when no valid token is stored
+ */
+export const GET_ME = gql`
+  query GetMe {
+    me {
+      id
+      email
+      name
+      role
+      donorId
+    }
   }
 `;
 
@@ -113,7 +161,8 @@ export const GET_DASHBOARD_STATS = gql`
 
 /**
  * List ministries with cursor-based pagination
- * Supports filtering by category, verification status, and search term
+ * Supports filtering by category, verification status, and search term,
+ * and ordering by name, state, creation date or total funded
  */
 export const LIST_MINISTRIES = gql`
   ${MINISTRY_CORE_FIELDS}
@@ -121,8 +170,14 @@ export const LIST_MINISTRIES = gql`
     $first: Int
     $after: String
     $filter: MinistryFilter
+    $orderBy: MinistryOrder
   ) {
-    ministries(first: $first, after: $after, filter: $filter) {
+    ministries(
+      first: $first
+      after: $after
+      filter: $filter
+      orderBy: $orderBy
+    ) {
       edges {
         cursor
         node {
@@ -140,6 +195,25 @@ export const LIST_MINISTRIES = gql`
   }
 `;
 
+/**
+ * Full-text ministry search
+ * Returns ranked matches with highlighted name and snippet
+ */
+export const SEARCH_MINISTRIES = gql`
+  ${MINISTRY_CORE_FIELDS}
+  query SearchMinistries($query: String!, $filter: MinistryFilter, $first: Int) {
+    searchMinistries(query: $query, filter: $filter, first: $first) {
+      rank
+      highlightedName
+      snippet
+      ministry {
+        ...MinistryCoreFields
+        totalFunded
+      }
+    }
+  }
+`;
+
 /**
  * Get a single ministry by ID
  * Includes related grants for detail view
@@ -167,17 +241,42 @@ export const GET_MINISTRY = gql`
 // =============================================================================
 
 /**
- * List all donors with their giving funds
+ * List donors with their giving funds
+ * Uses Relay-style cursor pagination
  */
 export const LIST_DONORS = gql`
   ${DONOR_CORE_FIELDS}
+  ${DONOR_CONTACT_FIELDS}
   ${GIVING_FUND_CORE_FIELDS}
-  query ListDonors {
-    donors {
-      ...DonorCoreFields
-      totalBalance
-      givingFunds {
-        ...GivingFundCoreFields
+  query ListDonors(
+    $first: Int
+    $after: String
+    $filter: DonorFilter
+    $orderBy: DonorOrder
+  ) {
+    donorsConnection(
+      first: $first
+      after: $after
+      filter: $filter
+      orderBy: $orderBy
+    ) {
+      edges {
+        cursor
+        node {
+          ...DonorCoreFields
+          totalBalance
+          contacts {
+            ...DonorContactFields
+          }
+          givingFunds {
+            ...GivingFundCoreFields
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+        totalCount
       }
     }
   }
@@ -189,12 +288,16 @@ export const LIST_DONORS = gql`
  */
 export const GET_DONOR = gql`
   ${DONOR_CORE_FIELDS}
+  ${DONOR_CONTACT_FIELDS}
   ${GIVING_FUND_CORE_FIELDS}
   ${GRANT_CORE_FIELDS}
   query GetDonor($id: Int!) {
     donor(id: $id) {
       ...DonorCoreFields
       totalBalance
+      contacts {
+        ...DonorContactFields
+      }
       givingFunds {
         ...GivingFundCoreFields
         grants {
@@ -239,33 +342,78 @@ export const GET_GIVING_FUND = gql`
   }
 `;
 
+/**
+ * List contributions to a giving fund, newest first
+ * Includes each contribution's receipt number once one has been issued
+ */
+export const GET_FUND_CONTRIBUTIONS = gql`
+  query GetFundContributions($id: Int!) {
+    givingFund(id: $id) {
+      id
+      contributions {
+        id
+        assetType
+        description
+        fairMarketValue
+        liquidationStatus
+        receivedAt
+        receipt {
+          id
+          number
+        }
+      }
+    }
+  }
+`;
+
 // =============================================================================
 // Grant Queries
 // =============================================================================
 
 /**
  * List grants with optional filtering
- * Supports filtering by status and ministry
+ * Supports filtering by status, ministry, donor, amount and date ranges
+ * Uses Relay-style cursor pagination
  */
 export const LIST_GRANTS = gql`
   ${GRANT_CORE_FIELDS}
-  query ListGrants($status: GrantStatus, $ministryId: Int) {
-    grants(status: $status, ministryId: $ministryId) {
-      ...GrantCoreFields
-      ministry {
-        id
-        name
-        category
-      }
-      givingFund {
-        id
-        name
-        donor {
-          id
-          firstName
-          lastName
+  query ListGrants(
+    $first: Int
+    $after: String
+    $filter: GrantFilter
+    $orderBy: GrantOrder
+  ) {
+    grantsConnection(
+      first: $first
+      after: $after
+      filter: $filter
+      orderBy: $orderBy
+    ) {
+      edges {
+        cursor
+        node {
+          ...GrantCoreFields
+          ministry {
+            id
+            name
+            category
+          }
+          givingFund {
+            id
+            name
+            donor {
+              id
+              firstName
+              lastName
+            }
+          }
         }
       }
+      pageInfo {
+        hasNextPage
+        endCursor
+        totalCount
+      }
     }
   }
 `;
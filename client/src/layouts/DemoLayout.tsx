@@ -9,6 +9,7 @@
 
 import { NavLink, Outlet, Link } from "react-router-dom";
 import { MobileNav } from "../components/MobileNav";
+import { SignInMenu } from "../components/SignInMenu";
 import { ThemeToggle } from "../components/ThemeToggle";
 
 /**
@@ -94,6 +95,9 @@ export function DemoLayout() {
               {/* Theme Toggle */}
               <ThemeToggle className="hidden md:flex" />
 
+              {/* Sign In / Current User */}
+              <SignInMenu className="flex" />
+
               {/* GitHub Link */}
               <a
                 href="https://github.com/tomhundley/ncf-grant-demo"
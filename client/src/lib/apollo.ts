@@ -4,7 +4,9 @@
  * =============================================================================
  *
  * Sets up the Apollo Client for GraphQL operations with:
- *   - HTTP link to the GraphQL server
+ *   - Upload link to the GraphQL server (plain POSTs, or GraphQL multipart
+ *     requests when variables contain files)
+ *   - Bearer token authentication from the stored login token
  *   - In-memory cache with type policies
  *   - Error handling for network and GraphQL errors
  *
@@ -19,26 +21,49 @@
 import {
   ApolloClient,
   InMemoryCache,
-  HttpLink,
   from,
 } from '@apollo/client';
 import { onError } from '@apollo/client/link/error';
+import { setContext } from '@apollo/client/link/context';
 import { relayStylePagination } from '@apollo/client/utilities';
+import createUploadLink from 'apollo-upload-client/createUploadLink.mjs';
 
 /**
  * GraphQL server endpoint
  * In development, this is proxied by Vite to localhost:5051
  * In production, this should be the deployed API URL
  */
-const GRAPHQL_URI = import.meta.env.VITE_GRAPHQL_URI ?? '/graphql';
+export const GRAPHQL_URI = import.meta.env.VITE_GRAPHQL_URI ?? '/graphql';
 
 /**
  * HTTP link for sending GraphQL operations
+ * Sends a multipart request when the variables contain a File (e.g. the
+ * ministry import); the server only accepts those with this header
  */
-const httpLink = new HttpLink({
+const httpLink = createUploadLink({
   uri: GRAPHQL_URI,
   // Include credentials for cookie-based auth (if implemented)
   credentials: 'same-origin',
+  headers: { 'Apollo-Require-Preflight': 'true' },
+});
+
+/**
+ * Local storage key for the access token returned by the login mutation
+ */
+export const AUTH_TOKEN_KEY = 'ncf-auth-token';
+
+/**
+ * Auth link
+ * Attaches the stored access token as a bearer Authorization header
+ */
+const authLink = setContext((_, { headers }) => {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY);
+  return {
+    headers: {
+      ...headers,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  };
 });
 
 /**
@@ -68,7 +93,9 @@ const cache = new InMemoryCache({
     Query: {
       fields: {
         // Use Relay-style pagination for ministries list
-        ministries: relayStylePagination(['filter']),
+        ministries: relayStylePagination(['filter', 'orderBy']),
+        grantsConnection: relayStylePagination(['filter', 'orderBy']),
+        donorsConnection: relayStylePagination(['filter', 'orderBy']),
       },
     },
     // Define key fields for proper cache normalization
@@ -92,7 +119,7 @@ const cache = new InMemoryCache({
  * Exported for use throughout the application
  */
 export const apolloClient = new ApolloClient({
-  link: from([errorLink, httpLink]),
+  link: from([errorLink, authLink, httpLink]),
   cache,
   // Enable Apollo DevTools in development
   connectToDevTools: import.meta.env.DEV,
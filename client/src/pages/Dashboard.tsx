@@ -43,7 +43,7 @@ export function Dashboard() {
     loading: grantsLoading,
     error: grantsError,
   } = useQuery(LIST_GRANTS, {
-    variables: { status: "PENDING" },
+    variables: { filter: { status: ["PENDING"] } },
   });
 
   // Handle loading state
@@ -60,13 +60,15 @@ export function Dashboard() {
     return (
       <ErrorMessage
         message="Failed to load dashboard data"
-        details={statsError?.message || grantsError?.message}
+        error={statsError ?? grantsError}
       />
     );
   }
 
   const stats = statsData?.dashboardStats;
-  const pendingGrants = grantsData?.grants || [];
+  const pendingGrants =
+    grantsData?.grantsConnection?.edges?.map((edge: any) => edge.node) || [];
+  const pendingCount = grantsData?.grantsConnection?.pageInfo?.totalCount ?? 0;
 
   return (
     <div className="space-y-8 animate-fade-in-up">
@@ -157,7 +159,7 @@ export function Dashboard() {
             Pending Grant Requests
           </h2>
           <span className="badge-pending">
-            {pendingGrants.length} Awaiting Action
+            {pendingCount} Awaiting Action
           </span>
         </div>
 
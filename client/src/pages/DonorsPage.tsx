@@ -5,23 +5,71 @@
  *
  * Page for viewing donors and their giving funds.
  * Refactored for the new premium dark aesthetic.
+ *
+ * The donor detail view shows a donor's address and household contacts,
+ * and is where a donor is edited, deactivated or reactivated.
+ * The fund modal adds money to a fund or moves it to another of the
+ * donor's funds, and lists its recent contributions with their receipts.
+ * Year-end summaries are downloaded from the donor detail view.
  */
 
 import { useState } from "react";
 import { useQuery, useMutation } from "@apollo/client";
-import { LIST_DONORS, GET_DASHBOARD_STATS } from "../graphql/queries";
-import { ADD_FUNDS } from "../graphql/mutations";
+import {
+  LIST_DONORS,
+  GET_DASHBOARD_STATS,
+  GET_FUND_CONTRIBUTIONS,
+} from "../graphql/queries";
+import {
+  ADD_FUNDS,
+  TRANSFER_BETWEEN_FUNDS,
+  UPDATE_DONOR,
+  DEACTIVATE_DONOR,
+  REACTIVATE_DONOR,
+  ADD_DONOR_CONTACT,
+  REMOVE_DONOR_CONTACT,
+} from "../graphql/mutations";
 import { LoadingSpinner } from "../components/LoadingSpinner";
 import { ErrorMessage } from "../components/ErrorMessage";
 import { ViewToggle } from "../components/ViewToggle";
 import { ExportModal } from "../components/ExportModal";
+import { ConfirmModal } from "../components/ConfirmModal";
+import { DonorForm } from "../components/DonorForm";
+import {
+  annualSummaryPath,
+  contributionReceiptPath,
+  downloadReceipt,
+} from "../utils/receipts";
 
 type GivingFund = {
   id: number;
   name: string;
   description: string | null;
   balance: string;
+  committedAmount: string;
+  availableBalance: string;
   active: boolean;
+  closingAt: string | null;
+  closedAt: string | null;
+};
+
+type FundContribution = {
+  id: number;
+  assetType: string;
+  description: string;
+  fairMarketValue: string;
+  liquidationStatus: string;
+  receivedAt: string;
+  receipt: { id: number; number: string } | null;
+};
+
+type DonorContact = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  relationship: string;
+  email: string | null;
+  phone: string | null;
 };
 
 type Donor = {
@@ -30,10 +78,58 @@ type Donor = {
   lastName: string;
   email: string;
   phone: string | null;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  country: string;
+  active: boolean;
   totalBalance: string;
+  contacts: DonorContact[];
   givingFunds: GivingFund[];
 };
 
+const RELATIONSHIPS = [
+  { value: "SPOUSE", label: "Spouse" },
+  { value: "PARTNER", label: "Partner" },
+  { value: "CHILD", label: "Child" },
+  { value: "PARENT", label: "Parent" },
+  { value: "SIBLING", label: "Sibling" },
+  { value: "OTHER", label: "Other" },
+];
+
+/** Contributions listed in the fund modal */
+const RECENT_CONTRIBUTIONS = 5;
+
+/** Years offered for year-end summaries, newest first */
+const RECEIPT_YEARS = Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - i);
+
+const EMPTY_CONTACT = {
+  firstName: "",
+  lastName: "",
+  relationship: "SPOUSE",
+  email: "",
+};
+
+/**
+ * Formats a donor's postal address as lines, skipping blank parts
+ */
+function addressLines(donor: Donor): string[] {
+  const locality = [
+    [donor.city, donor.state].filter(Boolean).join(", "),
+    donor.postalCode,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return [
+    donor.addressLine1,
+    donor.addressLine2,
+    locality,
+    donor.country !== "USA" ? donor.country : null,
+  ].filter((line): line is string => !!line);
+}
+
 /**
  * Donors Page Component
  */
@@ -41,22 +137,139 @@ export function DonorsPage() {
   // View mode state
   const [viewMode, setViewMode] = useState<'card' | 'list'>('card');
 
-  // State for add funds modal
+  // State for add funds / transfer modal
   const [selectedFund, setSelectedFund] = useState<GivingFund | null>(null);
   const [addAmount, setAddAmount] = useState("");
+  const [transferTargets, setTransferTargets] = useState<GivingFund[]>([]);
+  const [transferToId, setTransferToId] = useState("");
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Donor detail state
+  const [detailDonorId, setDetailDonorId] = useState<number | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [contactForm, setContactForm] = useState(EMPTY_CONTACT);
+  const [isStatusConfirmOpen, setIsStatusConfirmOpen] = useState(false);
+
+  // Receipt downloads: the summary year, the download in progress and any error
+  const [receiptYear, setReceiptYear] = useState(RECEIPT_YEARS[1]!);
+  const [downloadingReceipt, setDownloadingReceipt] = useState<string | null>(null);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
 
   // Fetch donors with their giving funds
-  const { data, loading, error } = useQuery(LIST_DONORS);
+  const { data, loading, error, fetchMore } = useQuery(LIST_DONORS);
+
+  // Recent contributions to the fund in the modal
+  const { data: contributionData, refetch: refetchContributions } = useQuery(
+    GET_FUND_CONTRIBUTIONS,
+    {
+      variables: { id: selectedFund?.id },
+      skip: !selectedFund,
+      // Contributions added since the modal was last open must show
+      fetchPolicy: "cache-and-network",
+    }
+  );
+  const fundContributions: FundContribution[] = (
+    contributionData?.givingFund?.contributions ?? []
+  ).slice(0, RECENT_CONTRIBUTIONS);
+
+  // Close the fund modal and reset its fields
+  const closeFundModal = () => {
+    setSelectedFund(null);
+    setAddAmount("");
+    setTransferToId("");
+    setReceiptError(null);
+  };
 
   // Add funds mutation
   const [addFunds, { loading: adding }] = useMutation(ADD_FUNDS, {
     refetchQueries: [{ query: LIST_DONORS }, { query: GET_DASHBOARD_STATS }],
-    onCompleted: () => {
-      setSelectedFund(null);
-      setAddAmount("");
-    },
+    onCompleted: () => closeFundModal(),
+  });
+
+  // Transfer between funds mutation
+  const [transferFunds, { loading: transferring, error: transferError }] = useMutation(
+    TRANSFER_BETWEEN_FUNDS,
+    {
+      refetchQueries: [{ query: LIST_DONORS }],
+      onCompleted: () => closeFundModal(),
+    }
+  );
+
+  // Donor detail mutations
+  const [updateDonor, { loading: updating, error: updateError }] = useMutation(UPDATE_DONOR, {
+    onCompleted: () => setIsEditing(false),
+  });
+  const [deactivateDonor, { loading: deactivating }] = useMutation(DEACTIVATE_DONOR, {
+    onCompleted: () => setIsStatusConfirmOpen(false),
+  });
+  const [reactivateDonor, { loading: reactivating }] = useMutation(REACTIVATE_DONOR, {
+    onCompleted: () => setIsStatusConfirmOpen(false),
   });
+  const [addContact, { loading: addingContact, error: contactError }] = useMutation(
+    ADD_DONOR_CONTACT,
+    {
+      refetchQueries: [{ query: LIST_DONORS }],
+      onCompleted: () => setContactForm(EMPTY_CONTACT),
+    }
+  );
+  const [removeContact] = useMutation(REMOVE_DONOR_CONTACT, {
+    refetchQueries: [{ query: LIST_DONORS }],
+  });
+
+  // Open or close the donor detail view
+  const openDetail = (donor: Donor) => {
+    setDetailDonorId(donor.id);
+    setIsEditing(false);
+    setContactForm(EMPTY_CONTACT);
+    setReceiptError(null);
+  };
+  const closeDetail = () => {
+    setDetailDonorId(null);
+    setIsEditing(false);
+  };
+
+  // Handle donor edit submission
+  const handleUpdateDonor = async (formData: Record<string, unknown>) => {
+    if (!detailDonor) return;
+    await updateDonor({ variables: { id: detailDonor.id, input: formData } });
+  };
+
+  // Confirm deactivation or reactivation
+  const handleStatusConfirm = async () => {
+    if (!detailDonor) return;
+    const variables = { id: detailDonor.id };
+    if (detailDonor.active) {
+      await deactivateDonor({ variables });
+    } else {
+      await reactivateDonor({ variables });
+    }
+  };
+
+  // Handle adding a household contact
+  const handleAddContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!detailDonor) return;
+    await addContact({
+      variables: {
+        donorId: detailDonor.id,
+        input: {
+          firstName: contactForm.firstName,
+          lastName: contactForm.lastName,
+          relationship: contactForm.relationship,
+          email: contactForm.email || null,
+        },
+      },
+    });
+  };
+
+  // Open the fund modal; the donor's other open funds can receive transfers
+  const openFundModal = (fund: GivingFund, donorFunds: GivingFund[]) => {
+    setSelectedFund(fund);
+    setTransferTargets(
+      donorFunds.filter((other) => other.id !== fund.id && other.active && !other.closingAt)
+    );
+  };
 
   // Handle add funds
   const handleAddFunds = async () => {
@@ -69,6 +282,57 @@ export function DonorsPage() {
     });
   };
 
+  // Handle transfer to another of the donor's funds
+  const handleTransfer = async () => {
+    if (!selectedFund || !addAmount || !transferToId) return;
+    try {
+      await transferFunds({
+        variables: {
+          fromFundId: selectedFund.id,
+          toFundId: parseInt(transferToId, 10),
+          amount: addAmount,
+        },
+      });
+    } catch {
+      // Shown from transferError
+    }
+  };
+
+  // Download a receipt PDF; the key marks which button is busy
+  const handleDownloadReceipt = async (key: string, path: string, filename: string) => {
+    setReceiptError(null);
+    setDownloadingReceipt(key);
+    try {
+      await downloadReceipt(path, filename);
+    } catch (err) {
+      setReceiptError(err instanceof Error ? err.message : "Download failed");
+    } finally {
+      setDownloadingReceipt(null);
+    }
+  };
+
+  // Download a contribution's receipt; the first download numbers it
+  const handleContributionReceipt = async (contribution: FundContribution) => {
+    await handleDownloadReceipt(
+      `contribution-${contribution.id}`,
+      contributionReceiptPath(contribution.id),
+      `receipt-contribution-${contribution.id}.pdf`
+    );
+    if (!contribution.receipt) {
+      await refetchContributions();
+    }
+  };
+
+  // Download the donor's year-end summary for the selected year
+  const handleAnnualSummary = async () => {
+    if (!detailDonor) return;
+    await handleDownloadReceipt(
+      "summary",
+      annualSummaryPath(detailDonor.id, receiptYear),
+      `contribution-summary-${receiptYear}-${detailDonor.lastName.toLowerCase()}.pdf`
+    );
+  };
+
   // Format currency
   const formatCurrency = (value: string) => {
     return new Intl.NumberFormat("en-US", {
@@ -78,7 +342,29 @@ export function DonorsPage() {
     }).format(parseFloat(value));
   };
 
-  const donors: Donor[] = data?.donors || [];
+  // Handle load more
+  const handleLoadMore = async () => {
+    if (data?.donorsConnection?.pageInfo?.hasNextPage && !loadingMore) {
+      setLoadingMore(true);
+      try {
+        await fetchMore({
+          variables: {
+            after: data.donorsConnection.pageInfo.endCursor,
+          },
+        });
+      } finally {
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const donors: Donor[] =
+    data?.donorsConnection?.edges?.map(
+      (edge: { node: Donor }) => edge.node
+    ) || [];
+
+  // Read from the list so the detail view shows refetched data
+  const detailDonor = donors.find((donor) => donor.id === detailDonorId) ?? null;
 
   return (
     <div className="space-y-6 animate-fade-in-up">
@@ -113,7 +399,7 @@ export function DonorsPage() {
           <LoadingSpinner />
         </div>
       ) : error ? (
-        <ErrorMessage message="Failed to load donors" details={error.message} />
+        <ErrorMessage message="Failed to load donors" error={error} />
       ) : donors.length === 0 ? (
         <div className="glass-panel text-center py-12">
           <p className="text-slate-500 italic">No donors found.</p>
@@ -132,9 +418,21 @@ export function DonorsPage() {
                     <div>
                       <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
                         {donor.firstName} {donor.lastName}
-                        <span className="inline-block px-2 py-0.5 rounded text-xs bg-electric-blue-500/20 text-electric-blue-600 dark:text-electric-blue-400 font-normal">
-                          Donor
-                        </span>
+                        {donor.active ? (
+                          <span className="inline-block px-2 py-0.5 rounded text-xs bg-electric-blue-500/20 text-electric-blue-600 dark:text-electric-blue-400 font-normal">
+                            Donor
+                          </span>
+                        ) : (
+                          <span className="inline-block px-2 py-0.5 rounded text-xs bg-slate-700/50 text-slate-400 font-normal">
+                            Inactive
+                          </span>
+                        )}
+                        <button
+                          onClick={() => openDetail(donor)}
+                          className="btn-outline text-xs px-3 py-1 ml-2"
+                        >
+                          Details
+                        </button>
                       </h2>
                       <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-2 text-sm text-slate-600 dark:text-slate-400">
                         <span className="flex items-center">
@@ -207,12 +505,18 @@ export function DonorsPage() {
                             </div>
                             <span
                               className={`px-2 py-0.5 rounded text-xs font-semibold uppercase ${
-                                fund.active
+                                fund.active && !fund.closingAt
                                   ? "bg-neon-green-500/10 text-neon-green-400 border border-neon-green-500/20"
                                   : "bg-slate-700/50 text-slate-400"
                               }`}
                             >
-                              {fund.active ? "Active" : "Inactive"}
+                              {fund.closedAt
+                                ? "Closed"
+                                : fund.closingAt
+                                  ? "Closing"
+                                  : fund.active
+                                    ? "Active"
+                                    : "Inactive"}
                             </span>
                           </div>
 
@@ -224,9 +528,15 @@ export function DonorsPage() {
                               <p className="text-2xl font-bold text-slate-900 dark:text-white">
                                 {formatCurrency(fund.balance)}
                               </p>
+                              {parseFloat(fund.committedAmount) > 0 && (
+                                <p className="text-xs text-slate-500 mt-0.5">
+                                  {formatCurrency(fund.availableBalance)} available ·{" "}
+                                  {formatCurrency(fund.committedAmount)} committed
+                                </p>
+                              )}
                             </div>
                             <button
-                              onClick={() => setSelectedFund(fund)}
+                              onClick={() => openFundModal(fund, donor.givingFunds)}
                               className="btn-outline text-xs px-3 py-1.5 border-black/20 dark:border-white/20 hover:bg-electric-blue-600 hover:border-electric-blue-600 hover:text-white text-slate-600 dark:text-slate-300"
                             >
                               Add Funds
@@ -265,9 +575,15 @@ export function DonorsPage() {
                     {donors.map((donor) => (
                       <tr key={donor.id} className="hover:bg-black/5 dark:hover:bg-white/5 transition-colors">
                         <td className="px-6 py-4">
-                          <div className="font-bold text-slate-900 dark:text-white">
+                          <button
+                            onClick={() => openDetail(donor)}
+                            className="font-bold text-slate-900 dark:text-white hover:text-electric-blue-600 dark:hover:text-electric-blue-400 transition-colors text-left"
+                          >
                             {donor.firstName} {donor.lastName}
-                          </div>
+                          </button>
+                          {!donor.active && (
+                            <div className="text-xs text-slate-500 uppercase">Inactive</div>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <div className="text-sm text-slate-600 dark:text-slate-400">
@@ -282,7 +598,7 @@ export function DonorsPage() {
                             {donor.givingFunds.map((fund) => (
                               <button
                                 key={fund.id}
-                                onClick={() => setSelectedFund(fund)}
+                                onClick={() => openFundModal(fund, donor.givingFunds)}
                                 className={`inline-flex items-center px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors hover:border-electric-blue-500/50 ${
                                   fund.active
                                     ? "bg-slate-100 dark:bg-midnight-800 border-black/10 dark:border-white/10 text-slate-900 dark:text-white"
@@ -309,6 +625,31 @@ export function DonorsPage() {
               </div>
             </div>
           )}
+
+          {/* Load More Button */}
+          {data?.donorsConnection?.pageInfo?.hasNextPage && (
+            <div className="flex justify-center pt-4">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="btn-outline flex items-center gap-2 min-w-[200px] justify-center"
+              >
+                {loadingMore ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-electric-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                    Loading...
+                  </>
+                ) : (
+                  <>
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    Load More Donors
+                  </>
+                )}
+              </button>
+            </div>
+          )}
         </>
       )}
 
@@ -318,18 +659,17 @@ export function DonorsPage() {
           {/* Backdrop */}
           <div
             className="absolute inset-0 bg-black/50 dark:bg-black/80 backdrop-blur-sm"
-            onClick={() => {
-              setSelectedFund(null);
-              setAddAmount("");
-            }}
+            onClick={closeFundModal}
           ></div>
 
           {/* Modal Content */}
           <div className="relative z-10 w-full max-w-md bg-white dark:bg-midnight-900 border border-black/10 dark:border-white/20 rounded-2xl shadow-2xl overflow-hidden animate-fade-in-up">
             <div className="p-6">
-              <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Add Funds</h2>
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">
+                {transferToId ? "Transfer Funds" : "Add Funds"}
+              </h2>
               <p className="text-slate-600 dark:text-slate-400 mb-6">
-                Adding to{" "}
+                {transferToId ? "Moving from" : "Adding to"}{" "}
                 <span className="text-electric-blue-600 dark:text-electric-blue-400 font-bold">
                   {selectedFund.name}
                 </span>
@@ -342,11 +682,36 @@ export function DonorsPage() {
                 <p className="text-2xl font-serif font-bold text-slate-900 dark:text-white">
                   {formatCurrency(selectedFund.balance)}
                 </p>
+                {transferToId && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {formatCurrency(selectedFund.availableBalance)} available to transfer
+                  </p>
+                )}
               </div>
 
+              {transferTargets.length > 0 && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Destination
+                  </label>
+                  <select
+                    value={transferToId}
+                    onChange={(e) => setTransferToId(e.target.value)}
+                    className="input-premium w-full"
+                  >
+                    <option value="">New contribution to this fund</option>
+                    {transferTargets.map((fund) => (
+                      <option key={fund.id} value={fund.id}>
+                        Transfer to {fund.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div className="mb-6">
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Amount to Add
+                  {transferToId ? "Amount to Transfer" : "Amount to Add"}
                 </label>
                 <div className="relative">
                   <span className="absolute left-4 top-3 text-slate-500 text-lg">
@@ -365,22 +730,65 @@ export function DonorsPage() {
                 </div>
               </div>
 
+              {transferToId && transferError && (
+                <p className="mb-4 text-sm text-red-400">{transferError.message}</p>
+              )}
+
+              {fundContributions.length > 0 && (
+                <div className="mb-6">
+                  <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold mb-2">
+                    Recent Contributions
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {fundContributions.map((contribution) => (
+                      <li
+                        key={contribution.id}
+                        className="flex justify-between items-center gap-3"
+                      >
+                        <span className="text-slate-600 dark:text-slate-400 truncate">
+                          {new Date(contribution.receivedAt).toLocaleDateString()} ·{" "}
+                          {contribution.assetType === "CASH"
+                            ? formatCurrency(contribution.fairMarketValue)
+                            : contribution.description}
+                        </span>
+                        {contribution.liquidationStatus === "CANCELLED" ? (
+                          <span className="text-xs text-slate-500 uppercase">Cancelled</span>
+                        ) : (
+                          <button
+                            onClick={() => handleContributionReceipt(contribution)}
+                            disabled={downloadingReceipt !== null}
+                            className="text-xs text-electric-blue-600 dark:text-electric-blue-400 hover:opacity-80 disabled:opacity-50 whitespace-nowrap"
+                          >
+                            {downloadingReceipt === `contribution-${contribution.id}`
+                              ? "Downloading..."
+                              : contribution.receipt
+                                ? `Receipt ${contribution.receipt.number}`
+                                : "Receipt"}
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {receiptError && (
+                <p className="mb-4 text-sm text-red-400">{receiptError}</p>
+              )}
+
               <div className="flex justify-end space-x-3">
                 <button
-                  onClick={() => {
-                    setSelectedFund(null);
-                    setAddAmount("");
-                  }}
+                  onClick={closeFundModal}
                   className="btn-outline text-sm"
                 >
                   Cancel
                 </button>
                 <button
-                  onClick={handleAddFunds}
-                  disabled={!addAmount || adding}
+                  onClick={transferToId ? handleTransfer : handleAddFunds}
+                  disabled={!addAmount || adding || transferring}
                   className="btn-primary flex-1 justify-center"
                 >
-                  {adding ? "Processing..." : "Confirm Transaction"}
+                  {adding || transferring ? "Processing..." : "Confirm Transaction"}
                 </button>
               </div>
             </div>
@@ -388,6 +796,235 @@ export function DonorsPage() {
         </div>
       )}
 
+      {/* Donor Detail Modal */}
+      {detailDonor && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/50 dark:bg-black/80 backdrop-blur-sm"
+            onClick={closeDetail}
+          ></div>
+
+          {/* Modal Content */}
+          <div className="relative z-10 w-full max-w-2xl bg-white dark:bg-midnight-900 border border-black/10 dark:border-white/20 rounded-2xl shadow-2xl overflow-hidden animate-fade-in-up">
+            <div className="px-6 py-4 border-b border-black/10 dark:border-white/10 flex justify-between items-center bg-slate-50 dark:bg-midnight-800/50">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">
+                {isEditing
+                  ? "Edit Donor"
+                  : `${detailDonor.firstName} ${detailDonor.lastName}`}
+              </h2>
+              <button
+                onClick={closeDetail}
+                className="text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white transition-colors text-2xl leading-none"
+              >
+                &times;
+              </button>
+            </div>
+            <div className="p-6 pb-20 md:pb-6 max-h-[70vh] md:max-h-[80vh] overflow-y-auto">
+              {isEditing ? (
+                <>
+                  {updateError && (
+                    <ErrorMessage message="Failed to update donor" error={updateError} />
+                  )}
+                  <DonorForm
+                    donor={detailDonor}
+                    onSubmit={handleUpdateDonor}
+                    onCancel={() => setIsEditing(false)}
+                    loading={updating}
+                  />
+                </>
+              ) : (
+                <div className="space-y-6">
+                  {/* Contact and Address */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold mb-1">
+                        Contact
+                      </p>
+                      <p className="text-slate-900 dark:text-white">{detailDonor.email}</p>
+                      {detailDonor.phone && (
+                        <p className="text-slate-600 dark:text-slate-400">{detailDonor.phone}</p>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold mb-1">
+                        Mailing Address
+                      </p>
+                      {addressLines(detailDonor).length > 0 ? (
+                        addressLines(detailDonor).map((line) => (
+                          <p key={line} className="text-slate-900 dark:text-white">
+                            {line}
+                          </p>
+                        ))
+                      ) : (
+                        <p className="text-slate-500 italic">No address on file</p>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Household Contacts */}
+                  <div>
+                    <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3 border-b border-black/5 dark:border-white/5 pb-2">
+                      Household
+                    </h3>
+                    {detailDonor.contacts.length === 0 ? (
+                      <p className="text-sm text-slate-500 italic mb-4">No household contacts.</p>
+                    ) : (
+                      <ul className="space-y-2 mb-4">
+                        {detailDonor.contacts.map((contact) => (
+                          <li
+                            key={contact.id}
+                            className="flex justify-between items-center bg-slate-100/80 dark:bg-midnight-800/80 border border-black/5 dark:border-white/5 rounded-lg px-4 py-2 text-sm"
+                          >
+                            <div>
+                              <span className="font-medium text-slate-900 dark:text-white">
+                                {contact.firstName} {contact.lastName}
+                              </span>
+                              <span className="ml-2 text-xs text-slate-500 uppercase">
+                                {RELATIONSHIPS.find((r) => r.value === contact.relationship)?.label ??
+                                  contact.relationship}
+                              </span>
+                              {contact.email && (
+                                <span className="ml-3 text-slate-600 dark:text-slate-400">
+                                  {contact.email}
+                                </span>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => removeContact({ variables: { id: contact.id } })}
+                              className="text-xs text-red-500 hover:text-red-400 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {/* Add Contact */}
+                    {contactError && (
+                      <ErrorMessage message="Failed to add contact" error={contactError} />
+                    )}
+                    <form onSubmit={handleAddContact} className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                      <input
+                        type="text"
+                        value={contactForm.firstName}
+                        onChange={(e) => setContactForm({ ...contactForm, firstName: e.target.value })}
+                        placeholder="First name"
+                        className="input-premium text-sm"
+                        required
+                      />
+                      <input
+                        type="text"
+                        value={contactForm.lastName}
+                        onChange={(e) => setContactForm({ ...contactForm, lastName: e.target.value })}
+                        placeholder="Last name"
+                        className="input-premium text-sm"
+                        required
+                      />
+                      <select
+                        value={contactForm.relationship}
+                        onChange={(e) => setContactForm({ ...contactForm, relationship: e.target.value })}
+                        className="input-premium text-sm"
+                      >
+                        {RELATIONSHIPS.map((relationship) => (
+                          <option key={relationship.value} value={relationship.value}>
+                            {relationship.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="email"
+                        value={contactForm.email}
+                        onChange={(e) => setContactForm({ ...contactForm, email: e.target.value })}
+                        placeholder="Email (optional)"
+                        className="input-premium text-sm"
+                      />
+                      <button
+                        type="submit"
+                        disabled={addingContact}
+                        className="btn-outline text-sm justify-center"
+                      >
+                        {addingContact ? "Adding..." : "Add Contact"}
+                      </button>
+                    </form>
+                  </div>
+
+                  {/* Tax Receipts */}
+                  <div>
+                    <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3 border-b border-black/5 dark:border-white/5 pb-2">
+                      Tax Receipts
+                    </h3>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={receiptYear}
+                        onChange={(e) => setReceiptYear(parseInt(e.target.value, 10))}
+                        className="input-premium text-sm"
+                      >
+                        {RECEIPT_YEARS.map((year) => (
+                          <option key={year} value={year}>
+                            {year}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleAnnualSummary}
+                        disabled={downloadingReceipt !== null}
+                        className="btn-outline text-sm justify-center"
+                      >
+                        {downloadingReceipt === "summary"
+                          ? "Downloading..."
+                          : "Download Year-End Summary"}
+                      </button>
+                    </div>
+                    {receiptError && (
+                      <p className="mt-2 text-sm text-red-400">{receiptError}</p>
+                    )}
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex justify-between items-center pt-4 border-t border-black/10 dark:border-white/10">
+                    <button
+                      onClick={() => setIsStatusConfirmOpen(true)}
+                      className={`text-sm transition-colors ${
+                        detailDonor.active
+                          ? "text-red-500 hover:text-red-400"
+                          : "text-neon-green-600 dark:text-neon-green-400 hover:opacity-80"
+                      }`}
+                    >
+                      {detailDonor.active ? "Deactivate Donor" : "Reactivate Donor"}
+                    </button>
+                    <button
+                      onClick={() => setIsEditing(true)}
+                      className="btn-primary px-5 py-2.5"
+                    >
+                      Edit Donor
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Deactivate / Reactivate Confirmation Modal */}
+      <ConfirmModal
+        isOpen={isStatusConfirmOpen && !!detailDonor}
+        onClose={() => setIsStatusConfirmOpen(false)}
+        onConfirm={handleStatusConfirm}
+        title={detailDonor?.active ? "Deactivate Donor" : "Reactivate Donor"}
+        message={
+          detailDonor?.active
+            ? `Deactivate ${detailDonor.firstName} ${detailDonor.lastName}? Their funds and history stay visible, but no new funds, contributions or grant requests can be made until they are reactivated.`
+            : `Reactivate ${detailDonor?.firstName} ${detailDonor?.lastName}?`
+        }
+        confirmLabel={detailDonor?.active ? "Deactivate" : "Reactivate"}
+        cancelLabel="Cancel"
+        variant={detailDonor?.active ? "warning" : "info"}
+        loading={deactivating || reactivating}
+      />
+
       {/* Export Modal */}
       <ExportModal
         isOpen={isExportOpen}
@@ -399,6 +1036,8 @@ export function DonorsPage() {
             lastName: donor.lastName,
             email: donor.email,
             phone: donor.phone || "",
+            address: addressLines(donor).join(", "),
+            active: donor.active ? "Yes" : "No",
             totalBalance: donor.totalBalance,
             fundsCount: donor.givingFunds.length,
             fundNames: donor.givingFunds.map(f => f.name).join(", "),
@@ -409,6 +1048,8 @@ export function DonorsPage() {
           { key: "lastName", label: "Last Name" },
           { key: "email", label: "Email" },
           { key: "phone", label: "Phone" },
+          { key: "address", label: "Address" },
+          { key: "active", label: "Active" },
           { key: "totalBalance", label: "Total Balance" },
           { key: "fundsCount", label: "# of Funds" },
           { key: "fundNames", label: "Fund Names" },
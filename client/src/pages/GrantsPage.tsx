@@ -9,14 +9,21 @@
 
 import { useState } from "react";
 import { useQuery, useMutation } from "@apollo/client";
-import { APPROVE_GRANT, REJECT_GRANT, CREATE_GRANT_REQUEST } from "../graphql/mutations";
-import { LIST_GRANTS, GET_DASHBOARD_STATS } from "../graphql/queries";
+import {
+  APPROVE_GRANT,
+  REJECT_GRANT,
+  REVERSE_GRANT,
+  CREATE_GRANT_REQUEST,
+  CREATE_RECURRING_GRANT,
+} from "../graphql/mutations";
+import { LIST_GRANTS, LIST_DONORS, GET_DASHBOARD_STATS } from "../graphql/queries";
 import { GrantStatusBadge } from "../components/GrantStatusBadge";
 import { LoadingSpinner } from "../components/LoadingSpinner";
 import { ErrorMessage } from "../components/ErrorMessage";
-import { GrantRequestForm } from "../components/GrantRequestForm";
+import { GrantRequestForm, type GrantCadence } from "../components/GrantRequestForm";
 import { ViewToggle } from "../components/ViewToggle";
 import { ExportModal } from "../components/ExportModal";
+import { ConfirmModal } from "../components/ConfirmModal";
 
 /**
  * Format currency helper
@@ -39,10 +46,17 @@ export function GrantsPage() {
   const [statusFilter, setStatusFilter] = useState("ALL");
   const [isCreating, setIsCreating] = useState(false);
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [grantToReverse, setGrantToReverse] = useState<any | null>(null);
+  const [actionError, setActionError] = useState<unknown>(null);
+  const [createError, setCreateError] = useState<unknown>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   // Data fetching
-  const { data, loading, error } = useQuery(LIST_GRANTS, {
-    variables: { status: statusFilter === "ALL" ? undefined : statusFilter },
+  const listVariables = {
+    filter: statusFilter === "ALL" ? undefined : { status: [statusFilter] },
+  };
+  const { data, loading, error, fetchMore } = useQuery(LIST_GRANTS, {
+    variables: listVariables,
   });
 
   // Mutation for processing grants
@@ -51,9 +65,7 @@ export function GrantsPage() {
     refetchQueries: [
       {
         query: LIST_GRANTS,
-        variables: {
-          status: statusFilter === "ALL" ? undefined : statusFilter,
-        },
+        variables: listVariables,
       },
       { query: GET_DASHBOARD_STATS },
     ],
@@ -63,33 +75,64 @@ export function GrantsPage() {
     refetchQueries: [
       {
         query: LIST_GRANTS,
-        variables: {
-          status: statusFilter === "ALL" ? undefined : statusFilter,
-        },
+        variables: listVariables,
       },
       { query: GET_DASHBOARD_STATS },
     ],
   });
 
+  const [reverseGrant, { loading: reversing }] = useMutation(REVERSE_GRANT, {
+    refetchQueries: [
+      {
+        query: LIST_GRANTS,
+        variables: listVariables,
+      },
+      { query: LIST_DONORS },
+      { query: GET_DASHBOARD_STATS },
+    ],
+  });
+
   const [createGrantRequest, { loading: createLoading }] = useMutation(CREATE_GRANT_REQUEST, {
     refetchQueries: [
       {
         query: LIST_GRANTS,
-        variables: {
-          status: statusFilter === "ALL" ? undefined : statusFilter,
-        },
+        variables: listVariables,
       },
       { query: GET_DASHBOARD_STATS },
     ],
   });
 
+  // Schedules make their grants later, so there is no list to refetch
+  const [createRecurringGrant, { loading: scheduleLoading }] = useMutation(CREATE_RECURRING_GRANT);
+
   const handleCreateGrant = async (data: {
     ministryId: number;
     givingFundId: number;
     amount: string;
     purpose: string;
+    cadence: GrantCadence | '';
+    startDate: string;
+    endDate: string;
   }) => {
+    setCreateError(null);
     try {
+      if (data.cadence) {
+        await createRecurringGrant({
+          variables: {
+            input: {
+              ministryId: data.ministryId,
+              givingFundId: data.givingFundId,
+              amount: data.amount,
+              purpose: data.purpose,
+              cadence: data.cadence,
+              startDate: data.startDate,
+              endDate: data.endDate || null,
+            },
+          },
+        });
+        setIsCreating(false);
+        return;
+      }
       await createGrantRequest({
         variables: {
           input: {
@@ -103,10 +146,12 @@ export function GrantsPage() {
       setIsCreating(false);
     } catch (e) {
       console.error("Error creating grant request:", e);
+      setCreateError(e);
     }
   };
 
   const handleProcess = async (id: number, approved: boolean) => {
+    setActionError(null);
     try {
       if (approved) {
         await approveGrant({ variables: { id } });
@@ -117,10 +162,43 @@ export function GrantsPage() {
       }
     } catch (e) {
       console.error("Error processing grant:", e);
+      setActionError(e);
+    }
+  };
+
+  const handleReverseConfirm = async () => {
+    if (!grantToReverse) return;
+    setActionError(null);
+    try {
+      await reverseGrant({
+        variables: { id: grantToReverse.id, reason: "Reversed via Grant Dashboard" },
+      });
+    } catch (e) {
+      console.error("Error reversing grant:", e);
+      setActionError(e);
+    } finally {
+      setGrantToReverse(null);
+    }
+  };
+
+  // Handle load more
+  const handleLoadMore = async () => {
+    if (data?.grantsConnection?.pageInfo?.hasNextPage && !loadingMore) {
+      setLoadingMore(true);
+      try {
+        await fetchMore({
+          variables: {
+            after: data.grantsConnection.pageInfo.endCursor,
+          },
+        });
+      } finally {
+        setLoadingMore(false);
+      }
     }
   };
 
-  const grants = data?.grants || [];
+  const grants =
+    data?.grantsConnection?.edges?.map((edge: any) => edge.node) || [];
 
   if (loading)
     return (
@@ -130,7 +208,7 @@ export function GrantsPage() {
     );
   if (error)
     return (
-      <ErrorMessage message="Error loading grants" details={error.message} />
+      <ErrorMessage message="Error loading grants" error={error} />
     );
 
   return (
@@ -155,7 +233,9 @@ export function GrantsPage() {
               <option value="ALL">All Statuses</option>
               <option value="PENDING">Pending</option>
               <option value="APPROVED">Approved</option>
+              <option value="FUNDED">Funded</option>
               <option value="REJECTED">Rejected</option>
+              <option value="REVERSED">Reversed</option>
             </select>
             <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
               <svg className="h-5 w-5 text-slate-400" viewBox="0 0 20 20" fill="currentColor">
@@ -187,11 +267,23 @@ export function GrantsPage() {
         </div>
       </div>
 
+      {actionError != null && (
+        <ErrorMessage
+          message="Unable to update grant"
+          error={actionError}
+          onDismiss={() => setActionError(null)}
+        />
+      )}
+
       {isCreating && (
         <GrantRequestForm
           onSubmit={handleCreateGrant}
-          onCancel={() => setIsCreating(false)}
-          loading={createLoading}
+          onCancel={() => {
+            setIsCreating(false);
+            setCreateError(null);
+          }}
+          loading={createLoading || scheduleLoading}
+          error={createError}
         />
       )}
 
@@ -207,7 +299,7 @@ export function GrantsPage() {
               className={`absolute top-0 left-0 bottom-0 w-1 ${
                 grant.status === "APPROVED"
                   ? "bg-neon-green-500"
-                  : grant.status === "REJECTED"
+                  : grant.status === "REJECTED" || grant.status === "REVERSED"
                     ? "bg-red-500"
                     : "bg-cyber-gold-500"
               }`}
@@ -281,6 +373,15 @@ export function GrantsPage() {
                   </button>
                 </div>
               )}
+
+              {grant.status === "FUNDED" && (
+                <button
+                  onClick={() => setGrantToReverse(grant)}
+                  className="w-full mt-4 py-2 text-sm text-slate-600 dark:text-slate-400 border border-black/10 dark:border-white/10 rounded-lg hover:border-red-500/50 hover:text-red-500 transition-colors"
+                >
+                  Reverse Grant
+                </button>
+              )}
             </div>
           </div>
         ))}
@@ -372,6 +473,14 @@ export function GrantsPage() {
                       </button>
                     </div>
                   )}
+                  {grant.status === "FUNDED" && (
+                    <button
+                      onClick={() => setGrantToReverse(grant)}
+                      className="px-3 py-1 text-xs text-slate-500 hover:text-red-500 border border-black/10 dark:border-white/10 rounded-lg transition-colors"
+                    >
+                      Reverse
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -393,6 +502,31 @@ export function GrantsPage() {
         </div>
       )}
 
+      {/* Load More Button */}
+      {data?.grantsConnection?.pageInfo?.hasNextPage && (
+        <div className="flex justify-center pt-4">
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="btn-outline flex items-center gap-2 min-w-[200px] justify-center"
+          >
+            {loadingMore ? (
+              <>
+                <div className="w-4 h-4 border-2 border-electric-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                Loading...
+              </>
+            ) : (
+              <>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                Load More Grants
+              </>
+            )}
+          </button>
+        </div>
+      )}
+
       {/* Export Modal */}
       <ExportModal
         isOpen={isExportOpen}
@@ -418,6 +552,19 @@ export function GrantsPage() {
         ]}
         defaultFilename="grants-export"
       />
+
+      {/* Reverse Confirmation Modal */}
+      <ConfirmModal
+        isOpen={grantToReverse !== null}
+        onClose={() => setGrantToReverse(null)}
+        onConfirm={handleReverseConfirm}
+        title="Reverse Grant"
+        message={`Return the outstanding amount of this grant to "${grantToReverse?.givingFund.name}"? The reversal is recorded in the fund ledger.`}
+        confirmLabel="Reverse"
+        cancelLabel="Cancel"
+        variant="warning"
+        loading={reversing}
+      />
     </div>
   );
 }
@@ -9,7 +9,12 @@
 
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@apollo/client";
-import { LIST_MINISTRIES, GET_DASHBOARD_STATS } from "../graphql/queries";
+import { Link } from "react-router-dom";
+import {
+  LIST_MINISTRIES,
+  SEARCH_MINISTRIES,
+  GET_DASHBOARD_STATS,
+} from "../graphql/queries";
 import {
   CREATE_MINISTRY,
   UPDATE_MINISTRY,
@@ -23,6 +28,7 @@ import { ViewToggle } from "../components/ViewToggle";
 import { ExportModal } from "../components/ExportModal";
 import { CategorySelect } from "../components/CategorySelect";
 import { ConfirmModal } from "../components/ConfirmModal";
+import { HighlightedText } from "../components/HighlightedText";
 
 type Ministry = {
   id: number;
@@ -35,9 +41,74 @@ type Ministry = {
   city: string | null;
   state: string | null;
   verified: boolean;
+  verificationExpiresAt: string | null;
   totalFunded: string;
 };
 
+type SearchResult = {
+  ministry: Ministry;
+  rank: number;
+  highlightedName: string;
+  snippet: string | null;
+};
+
+type SortField = "NAME" | "CREATED_AT" | "STATE" | "TOTAL_FUNDED";
+
+type SortOrder = {
+  field: SortField;
+  direction: "ASC" | "DESC";
+};
+
+/**
+ * Whether a ministry's verification is still current
+ * Expired verifications no longer allow new grant requests
+ */
+function isVerificationCurrent(ministry: Ministry): boolean {
+  return (
+    ministry.verified &&
+    (ministry.verificationExpiresAt === null ||
+      new Date(ministry.verificationExpiresAt) > new Date())
+  );
+}
+
+/**
+ * Column header that toggles the list sort order
+ */
+function SortableHeader({
+  label,
+  field,
+  sort,
+  onSort,
+  disabled = false,
+}: {
+  label: string;
+  field: SortField;
+  sort: SortOrder | null;
+  onSort: (field: SortField) => void;
+  /** Search results are ordered by relevance instead */
+  disabled?: boolean;
+}) {
+  const active = !disabled && sort?.field === field;
+  return (
+    <th
+      className="px-6 py-4 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider"
+      aria-sort={active ? (sort.direction === "ASC" ? "ascending" : "descending") : "none"}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        disabled={disabled}
+        className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-slate-900 dark:hover:text-white transition-colors disabled:pointer-events-none ${active ? "text-slate-900 dark:text-white" : ""}`}
+      >
+        {label}
+        <span className={active ? "" : "opacity-0"}>
+          {active && sort.direction === "DESC" ? "▼" : "▲"}
+        </span>
+      </button>
+    </th>
+  );
+}
+
 /**
  * Ministries Page Component
  */
@@ -51,6 +122,9 @@ export function MinistriesPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
 
+  // Sort state (list view column headers); null keeps creation order
+  const [sort, setSort] = useState<SortOrder | null>(null);
+
   // Debounce search term for smooth filtering without flash
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -70,21 +144,67 @@ export function MinistriesPage() {
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [ministryToDelete, setMinistryToDelete] = useState<Ministry | null>(null);
 
-  // Build filter object for query (uses debounced search term for smooth transitions)
+  // Build filter object for query
   const filter = {
     ...(categoryFilter && { category: categoryFilter }),
     ...(verifiedOnly && { verified: true }),
-    ...(debouncedSearchTerm && { search: debouncedSearchTerm }),
   };
 
+  // Search text switches from the paginated list to ranked full-text
+  // results (uses debounced search term for smooth transitions)
+  const searchText = debouncedSearchTerm.trim();
+  const searching = searchText.length > 0;
+
   // Fetch ministries with pagination
-  const { data, loading, error, fetchMore } = useQuery(LIST_MINISTRIES, {
+  const {
+    data: listData,
+    loading: listLoading,
+    error: listError,
+    fetchMore,
+  } = useQuery(LIST_MINISTRIES, {
     variables: {
       first: 10,
       filter: Object.keys(filter).length > 0 ? filter : undefined,
+      orderBy: sort ?? undefined,
     },
+    skip: searching,
   });
 
+  // Full-text search across name, EIN, mission, description and city
+  const {
+    data: searchData,
+    loading: searchLoading,
+    error: searchError,
+  } = useQuery(SEARCH_MINISTRIES, {
+    variables: {
+      query: searchText,
+      filter: Object.keys(filter).length > 0 ? filter : undefined,
+      first: 50,
+    },
+    skip: !searching,
+  });
+
+  const data = searching ? undefined : listData;
+  const loading = searching ? searchLoading : listLoading;
+  const error = searching ? searchError : listError;
+
+  const searchResults: SearchResult[] = searchData?.searchMinistries ?? [];
+  const matches = new Map(
+    searchResults.map((result) => [result.ministry.id, result])
+  );
+  const ministries: Ministry[] = searching
+    ? searchResults.map((result) => result.ministry)
+    : data?.ministries?.edges?.map(({ node }: { node: Ministry }) => node) ?? [];
+
+  // Clicking the sorted column flips its direction; another column sorts ascending
+  const handleSort = (field: SortField) => {
+    setSort((current) =>
+      current?.field === field
+        ? { field, direction: current.direction === "ASC" ? "DESC" : "ASC" }
+        : { field, direction: "ASC" }
+    );
+  };
+
   // Create ministry mutation
   const [createMinistry, { loading: creating }] = useMutation(CREATE_MINISTRY, {
     refetchQueries: [
@@ -186,7 +306,7 @@ export function MinistriesPage() {
         <div className="flex items-center gap-3">
           <button
             onClick={() => setIsExportOpen(true)}
-            disabled={!data?.ministries?.edges?.length}
+            disabled={ministries.length === 0}
             className="btn-outline py-2 px-4 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -194,6 +314,15 @@ export function MinistriesPage() {
             </svg>
             Export
           </button>
+          <Link
+            to="/ministries/import"
+            className="btn-outline py-2 px-4 flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            Import
+          </Link>
           <button
             onClick={() => {
               setEditingMinistry(null);
@@ -275,14 +404,24 @@ export function MinistriesPage() {
       ) : error ? (
         <ErrorMessage
           message="Failed to load ministries"
-          details={error.message}
+          error={error}
         />
       ) : (
         <>
+          {ministries.length === 0 && (
+            <div className="glass-panel text-center py-12">
+              <p className="text-slate-500 italic">
+                {searching
+                  ? `No ministries match "${searchText}".`
+                  : "No ministries found."}
+              </p>
+            </div>
+          )}
+
           {/* Card View - Always visible on mobile, conditional on desktop */}
           <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${viewMode === 'list' ? 'md:hidden' : ''}`}>
-              {data?.ministries?.edges?.map(
-                ({ node: ministry }: { node: Ministry }) => (
+              {ministries.map(
+                (ministry) => (
                   <div
                     key={ministry.id}
                     className="glass-panel p-6 hover:border-electric-blue-500/30 transition-all group"
@@ -291,7 +430,11 @@ export function MinistriesPage() {
                     <div className="flex items-start justify-between mb-4">
                       <div className="flex-1 min-w-0">
                         <h3 className="text-lg font-bold text-slate-900 dark:text-white truncate group-hover:text-electric-blue-600 dark:group-hover:text-electric-blue-400 transition-colors">
-                          {ministry.name}
+                          {matches.get(ministry.id) ? (
+                            <HighlightedText text={matches.get(ministry.id)!.highlightedName} />
+                          ) : (
+                            ministry.name
+                          )}
                         </h3>
                         {ministry.ein && (
                           <p className="text-xs text-slate-500 dark:text-slate-500 font-mono mt-1">
@@ -299,7 +442,7 @@ export function MinistriesPage() {
                           </p>
                         )}
                       </div>
-                      {ministry.verified ? (
+                      {isVerificationCurrent(ministry) ? (
                         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-neon-green-500/20 text-neon-green-400 border border-neon-green-500/30 ml-2 flex-shrink-0">
                           <svg
                             className="w-3 h-3 mr-1"
@@ -316,7 +459,7 @@ export function MinistriesPage() {
                         </span>
                       ) : (
                         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-cyber-gold-500/20 text-cyber-gold-400 border border-cyber-gold-500/30 ml-2 flex-shrink-0">
-                          Pending
+                          {ministry.verified ? "Expired" : "Pending"}
                         </span>
                       )}
                     </div>
@@ -342,10 +485,16 @@ export function MinistriesPage() {
                         </div>
                       )}
 
-                      {ministry.description && (
-                        <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
-                          {ministry.description}
+                      {matches.get(ministry.id)?.snippet ? (
+                        <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-3">
+                          <HighlightedText text={matches.get(ministry.id)!.snippet!} />
                         </p>
+                      ) : (
+                        ministry.description && (
+                          <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
+                            {ministry.description}
+                          </p>
+                        )
                       )}
                     </div>
 
@@ -376,18 +525,12 @@ export function MinistriesPage() {
                 <table className="min-w-full divide-y divide-black/10 dark:divide-white/10">
                   <thead className="bg-slate-100/50 dark:bg-midnight-900/50">
                     <tr>
-                      <th className="px-6 py-4 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
-                        Ministry
-                      </th>
+                      <SortableHeader label="Ministry" field="NAME" sort={sort} onSort={handleSort} disabled={searching} />
                       <th className="px-6 py-4 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
                         Category
                       </th>
-                      <th className="px-6 py-4 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
-                        Location
-                      </th>
-                      <th className="px-6 py-4 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
-                        Total Funded
-                      </th>
+                      <SortableHeader label="Location" field="STATE" sort={sort} onSort={handleSort} disabled={searching} />
+                      <SortableHeader label="Total Funded" field="TOTAL_FUNDED" sort={sort} onSort={handleSort} disabled={searching} />
                       <th className="px-6 py-4 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
                         Status
                       </th>
@@ -397,8 +540,8 @@ export function MinistriesPage() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-black/10 dark:divide-white/10">
-                    {data?.ministries?.edges?.map(
-                      ({ node: ministry }: { node: Ministry }) => (
+                    {ministries.map(
+                      (ministry) => (
                         <tr
                           key={ministry.id}
                           className="hover:bg-black/5 dark:hover:bg-white/5 transition-colors"
@@ -406,7 +549,11 @@ export function MinistriesPage() {
                           <td className="px-6 py-4">
                             <div>
                               <div className="font-bold text-slate-900 dark:text-white">
-                                {ministry.name}
+                                {matches.get(ministry.id) ? (
+                                  <HighlightedText text={matches.get(ministry.id)!.highlightedName} />
+                                ) : (
+                                  ministry.name
+                                )}
                               </div>
                               {ministry.ein && (
                                 <div className="text-xs text-slate-500 mt-1 font-mono">
@@ -429,7 +576,7 @@ export function MinistriesPage() {
                             {formatCurrency(ministry.totalFunded)}
                           </td>
                           <td className="px-6 py-4">
-                            {ministry.verified ? (
+                            {isVerificationCurrent(ministry) ? (
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-neon-green-500/20 text-neon-green-400 border border-neon-green-500/30">
                                 <svg
                                   className="w-3 h-3 mr-1"
@@ -446,7 +593,7 @@ export function MinistriesPage() {
                               </span>
                             ) : (
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-cyber-gold-500/20 text-cyber-gold-400 border border-cyber-gold-500/30">
-                                Pending
+                                {ministry.verified ? "Expired" : "Pending"}
                               </span>
                             )}
                           </td>
@@ -543,7 +690,7 @@ export function MinistriesPage() {
         onClose={() => setIsExportOpen(false)}
         title="Ministries"
         data={
-          data?.ministries?.edges?.map(({ node }: { node: Ministry }) => ({
+          ministries.map((node) => ({
             name: node.name,
             ein: node.ein || "",
             category: node.category,
@@ -580,7 +727,7 @@ export function MinistriesPage() {
         }}
         onConfirm={handleDeleteConfirm}
         title="Delete Ministry"
-        message={`Are you sure you want to delete "${ministryToDelete?.name}"? This action cannot be undone.`}
+        message={`Are you sure you want to delete "${ministryToDelete?.name}"? It will be archived with its grant history and can be restored by an administrator.`}
         confirmLabel="Delete"
         cancelLabel="Cancel"
         variant="danger"
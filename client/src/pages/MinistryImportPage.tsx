@@ -0,0 +1,379 @@
+/**
+ * =============================================================================
+ * Ministry Import Page
+ * =============================================================================
+ *
+ * Wizard for onboarding ministries in bulk from a CSV or XLSX spreadsheet:
+ *   1. Choose a file
+ *   2. Preview a dry run with the problems found on each row
+ *   3. Import, which creates every ministry or none
+ */
+
+import { useState } from "react";
+import { useMutation } from "@apollo/client";
+import { Link } from "react-router-dom";
+import { IMPORT_MINISTRIES } from "../graphql/mutations";
+import { LIST_MINISTRIES, GET_DASHBOARD_STATS } from "../graphql/queries";
+import { ErrorMessage } from "../components/ErrorMessage";
+import { CategoryBadge } from "../components/CategoryBadge";
+
+type ImportRow = {
+  rowNumber: number;
+  name: string | null;
+  ein: string | null;
+  category: string | null;
+  valid: boolean;
+  errors: { field: string | null; message: string }[];
+  duplicateOfRow: number | null;
+  existingMinistry: { id: number; name: string } | null;
+  ministry: { id: number; name: string } | null;
+};
+
+type ImportResult = {
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateEinRows: number;
+  createdCount: number;
+  ignoredColumns: string[];
+  rows: ImportRow[];
+};
+
+type Step = "choose" | "preview" | "done";
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: "choose", label: "Choose file" },
+  { key: "preview", label: "Preview" },
+  { key: "done", label: "Import" },
+];
+
+/**
+ * Columns recognized in the header row
+ */
+const COLUMNS = [
+  { name: "name", required: true },
+  { name: "category", required: true },
+  { name: "ein", required: false },
+  { name: "description", required: false },
+  { name: "mission", required: false },
+  { name: "website", required: false },
+  { name: "city", required: false },
+  { name: "state", required: false },
+  { name: "country", required: false },
+];
+
+/**
+ * Summary figure shown above the row table
+ */
+function Stat({ label, value, tone }: { label: string; value: number; tone: string }) {
+  return (
+    <div className="glass-panel p-4">
+      <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+        {label}
+      </p>
+      <p className={`text-2xl font-bold font-serif mt-1 ${tone}`}>{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Ministry Import Page Component
+ */
+export function MinistryImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [step, setStep] = useState<Step>("choose");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [showInvalidOnly, setShowInvalidOnly] = useState(false);
+
+  const [importMinistries, { loading, error, reset }] = useMutation(IMPORT_MINISTRIES, {
+    refetchQueries: [
+      { query: LIST_MINISTRIES },
+      { query: GET_DASHBOARD_STATS },
+    ],
+  });
+
+  // Runs the file through the server; a dry run fills the preview
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    const { data } = await importMinistries({ variables: { file, dryRun } });
+    const imported: ImportResult | undefined = data?.importMinistries;
+    if (!imported) return;
+    setResult(imported);
+    // A real import that found new problems goes back to the preview
+    setStep(imported.committed ? "done" : "preview");
+  };
+
+  // Starts over with another file
+  const handleStartOver = () => {
+    setFile(null);
+    setResult(null);
+    setShowInvalidOnly(false);
+    setStep("choose");
+    reset();
+  };
+
+  const rows = result
+    ? showInvalidOnly
+      ? result.rows.filter((row) => !row.valid)
+      : result.rows
+    : [];
+  const stepIndex = STEPS.findIndex(({ key }) => key === step);
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-slate-900 dark:text-white mb-1">
+            Import Ministries
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400 text-sm">
+            Add many ministries at once from a CSV or Excel (.xlsx) spreadsheet.
+          </p>
+        </div>
+        <Link to="/ministries" className="btn-outline py-2 px-4">
+          Back to Ministries
+        </Link>
+      </div>
+
+      {/* Steps */}
+      <ol className="flex items-center gap-3 text-sm">
+        {STEPS.map(({ key, label }, index) => (
+          <li key={key} className="flex items-center gap-3">
+            <span
+              className={`inline-flex items-center justify-center w-7 h-7 rounded-full text-xs font-bold border ${
+                index <= stepIndex
+                  ? "bg-electric-blue-500/20 text-electric-blue-400 border-electric-blue-500/40"
+                  : "text-slate-500 border-black/10 dark:border-white/10"
+              }`}
+            >
+              {index + 1}
+            </span>
+            <span
+              className={
+                index === stepIndex
+                  ? "font-medium text-slate-900 dark:text-white"
+                  : "text-slate-500"
+              }
+            >
+              {label}
+            </span>
+            {index < STEPS.length - 1 && (
+              <span className="w-8 h-px bg-black/10 dark:bg-white/10" />
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <ErrorMessage message="The import failed" error={error} onDismiss={reset} />
+      )}
+
+      {/* Step 1: choose a file */}
+      {step === "choose" && (
+        <div className="glass-panel p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-2">
+              Spreadsheet format
+            </h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+              The first row names the columns. Column names ignore case, spaces and
+              underscores; other columns are ignored. Categories are written as in the
+              ministry form, e.g. Humanitarian. Up to 2,000 rows and 10 MB per file.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {COLUMNS.map(({ name, required }) => (
+                <span
+                  key={name}
+                  className={`px-2 py-1 rounded text-xs font-mono border ${
+                    required
+                      ? "text-electric-blue-400 border-electric-blue-500/40"
+                      : "text-slate-500 border-black/10 dark:border-white/10"
+                  }`}
+                >
+                  {name}
+                  {required && " *"}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed border-black/10 dark:border-white/10 hover:border-electric-blue-500/50 cursor-pointer transition-colors">
+            <svg className="w-8 h-8 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              {file ? file.name : "Choose a .csv or .xlsx file"}
+            </span>
+            {file && (
+              <span className="text-xs text-slate-500">
+                {(file.size / 1024).toFixed(1)} KB
+              </span>
+            )}
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="sr-only"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                reset();
+              }}
+            />
+          </label>
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => runImport(true)}
+              disabled={!file || loading}
+              className="btn-primary py-2 px-4 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? "Checking..." : "Preview Import"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Steps 2 and 3: dry run preview, then the import result */}
+      {step !== "choose" && result && (
+        <>
+          {step === "done" ? (
+            <div className="glass-panel p-6 border-neon-green-500/30">
+              <p className="text-lg font-bold text-neon-green-400">
+                Imported {result.createdCount}{" "}
+                {result.createdCount === 1 ? "ministry" : "ministries"}.
+              </p>
+              <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                New ministries start unverified and need verification before they can
+                receive grants.
+              </p>
+            </div>
+          ) : result.invalidRows > 0 ? (
+            <div className="glass-panel p-6 border-cyber-gold-500/30">
+              <p className="font-bold text-cyber-gold-400">
+                {result.invalidRows} of {result.totalRows}{" "}
+                {result.totalRows === 1 ? "row has" : "rows have"} problems.
+              </p>
+              <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                Nothing is imported until every row is valid. Fix the rows below in your
+                spreadsheet and upload it again.
+              </p>
+            </div>
+          ) : (
+            <div className="glass-panel p-6">
+              <p className="font-bold text-slate-900 dark:text-white">
+                All {result.totalRows} {result.totalRows === 1 ? "row is" : "rows are"}{" "}
+                ready to import.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Stat label="Rows" value={result.totalRows} tone="text-slate-900 dark:text-white" />
+            <Stat label="Valid" value={result.validRows} tone="text-neon-green-400" />
+            <Stat label="With errors" value={result.invalidRows} tone="text-red-400" />
+            <Stat label="Duplicate EINs" value={result.duplicateEinRows} tone="text-cyber-gold-400" />
+          </div>
+
+          {result.ignoredColumns.length > 0 && (
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Ignored columns:{" "}
+              <span className="font-mono">{result.ignoredColumns.join(", ")}</span>
+            </p>
+          )}
+
+          {/* Rows */}
+          <div className="glass-panel overflow-hidden p-0">
+            {step === "preview" && result.invalidRows > 0 && (
+              <div className="px-6 py-3 border-b border-black/10 dark:border-white/10">
+                <label className="flex items-center space-x-2 cursor-pointer text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={showInvalidOnly}
+                    onChange={(e) => setShowInvalidOnly(e.target.checked)}
+                    className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 bg-white dark:bg-midnight-800 text-electric-blue-500 focus:ring-electric-blue-500"
+                  />
+                  <span className="text-sm font-medium">Only rows with errors</span>
+                </label>
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-black/10 dark:divide-white/10">
+                <thead className="bg-slate-100/50 dark:bg-midnight-900/50">
+                  <tr>
+                    {["Row", "Ministry", "Category", "EIN", "Result"].map((label) => (
+                      <th
+                        key={label}
+                        className="px-6 py-4 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-black/10 dark:divide-white/10">
+                  {rows.map((row) => (
+                    <tr key={row.rowNumber} className={row.valid ? "" : "bg-red-500/5"}>
+                      <td className="px-6 py-4 text-sm font-mono text-slate-500">
+                        {row.rowNumber}
+                      </td>
+                      <td className="px-6 py-4 text-sm font-bold text-slate-900 dark:text-white">
+                        {row.name ?? <span className="italic font-normal text-slate-500">Missing</span>}
+                      </td>
+                      <td className="px-6 py-4">
+                        {row.category && <CategoryBadge category={row.category} />}
+                      </td>
+                      <td className="px-6 py-4 text-sm font-mono text-slate-600 dark:text-slate-400">
+                        {row.ein ?? "—"}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {row.ministry ? (
+                          <span className="text-neon-green-400">Created (#{row.ministry.id})</span>
+                        ) : row.valid ? (
+                          <span className="text-neon-green-400">Ready</span>
+                        ) : (
+                          <ul className="space-y-1 text-red-400">
+                            {row.errors.map((rowError, index) => (
+                              <li key={index}>
+                                {rowError.field && (
+                                  <span className="font-mono text-xs mr-1">{rowError.field}:</span>
+                                )}
+                                {rowError.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button onClick={handleStartOver} className="btn-outline py-2 px-4">
+              {step === "done" ? "Import Another File" : "Choose Another File"}
+            </button>
+            {step === "preview" ? (
+              <button
+                onClick={() => runImport(false)}
+                disabled={loading || result.invalidRows > 0}
+                className="btn-primary py-2 px-4 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading
+                  ? "Importing..."
+                  : `Import ${result.validRows} ${result.validRows === 1 ? "Ministry" : "Ministries"}`}
+              </button>
+            ) : (
+              <Link to="/ministries" className="btn-primary py-2 px-4">
+                View Ministries
+              </Link>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
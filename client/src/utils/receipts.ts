@@ -0,0 +1,50 @@
+/**
+ * =============================================================================
+ * Receipt Downloads
+ * =============================================================================
+ *
+ * Receipts are PDFs served next to the GraphQL endpoint (GET /receipts/...).
+ * They need the same bearer token as the API, so they are fetched and saved
+ * from a blob rather than opened as links.
+ */
+
+import { AUTH_TOKEN_KEY, GRAPHQL_URI } from '../lib/apollo';
+
+/**
+ * Path of a contribution's receipt
+ */
+export function contributionReceiptPath(contributionId: number): string {
+  return `/receipts/contributions/${contributionId}.pdf`;
+}
+
+/**
+ * Path of a donor's year-end summary
+ */
+export function annualSummaryPath(donorId: number, year: number): string {
+  return `/receipts/donors/${donorId}/${year}.pdf`;
+}
+
+/**
+ * Downloads a receipt and saves it under the given filename
+ * Throws with the server's message when the download is refused
+ */
+export async function downloadReceipt(path: string, filename: string): Promise<void> {
+  // Resolve against the GraphQL endpoint, which may be on another host
+  const url = new URL(path, new URL(GRAPHQL_URI, window.location.href));
+  const token = localStorage.getItem(AUTH_TOKEN_KEY);
+  const response = await fetch(url, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    throw new Error((await response.text()) || `Download failed (${response.status})`);
+  }
+
+  const blobUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(blobUrl);
+}
@@ -5,7 +5,7 @@
  *
  * Configuration for the Vite build tool. Includes:
  *   - React plugin for JSX transformation
- *   - Development server proxy for GraphQL API
+ *   - Development server proxy for the GraphQL API and receipt downloads
  *   - Build optimizations for production
  *
  * @see https://vitejs.dev/config/
@@ -28,6 +28,11 @@ export default defineConfig({
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/graphql/, ''),
       },
+      // Receipt PDFs are served by the same server
+      '/receipts': {
+        target: 'http://localhost:5051',
+        changeOrigin: true,
+      },
     },
   },
 
@@ -0,0 +1,315 @@
+/**
+ * Import IRS exempt-organization lists into the ExemptOrganization table
+ *
+ * Reads a file downloaded from the IRS and upserts one row per EIN, which
+ * advisors then see through lookupExemptOrganization and
+ * Ministry.exemptOrganizationMatch. Nothing is fetched over the network.
+ *
+ * Supported files (detected from the first line, or pass --format):
+ *   - bmf:   Exempt Organizations Business Master File extract (eo1.csv ...
+ *            eo4.csv, eo_xx.csv); comma-separated with a header row
+ *            https://www.irs.gov/charities-non-profits/exempt-organizations-business-master-file-extract-eo-bmf
+ *   - pub78: Publication 78 data (data-download-pub78.txt); pipe-separated
+ *            EIN|Name|City|State|Country|Deductibility status, no header
+ *            https://www.irs.gov/charities-non-profits/tax-exempt-organization-search-bulk-data-downloads
+ *
+ * Each format only writes its own columns, so importing both keeps the BMF
+ * details and the Pub 78 listing side by side. Re-running refreshes rows.
+ *
+ * Options:
+ *   --dry-run  Parse and count without writing
+ *   --prune    After importing, clear this source from organizations the
+ *              file no longer lists (and delete rows no source lists).
+ *              Only use with a complete file: the BMF comes split by region,
+ *              so prune with the last regional file would drop the others.
+ *
+ * Usage: npx tsx scripts/import-irs-exempt-orgs.ts <file> [--format bmf|pub78] [--dry-run] [--prune]
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { splitCsvLine } from '../server/src/lib/csv.js';
+import { normalizeOrganizationName } from '../server/src/lib/exemptOrganizations.js';
+
+type Format = 'bmf' | 'pub78';
+
+/**
+ * One organization as read from either file
+ */
+interface OrganizationRow {
+  ein: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  country: string | null;
+  subsection: string | null;
+  deductibilityCode: string | null;
+  nteeCode: string | null;
+  pub78Status: string | null;
+}
+
+const BATCH_SIZE = 1000;
+const PROGRESS_EVERY = 50_000;
+
+const prisma = new PrismaClient();
+
+/**
+ * Parses command-line arguments
+ */
+function parseArgs(argv: string[]) {
+  const formatIndex = argv.indexOf('--format');
+  const format = formatIndex >= 0 ? argv[formatIndex + 1] : undefined;
+  // The file is the first argument that is neither a flag nor the format
+  const file = argv.find(
+    (arg, index) => !arg.startsWith('--') && (formatIndex < 0 || index !== formatIndex + 1)
+  );
+
+  if (!file) {
+    throw new Error(
+      'Usage: tsx scripts/import-irs-exempt-orgs.ts <file> [--format bmf|pub78] [--dry-run] [--prune]'
+    );
+  }
+  if (format !== undefined && format !== 'bmf' && format !== 'pub78') {
+    throw new Error(`Unknown format "${format}"; expected bmf or pub78`);
+  }
+
+  return {
+    file,
+    format: format as Format | undefined,
+    dryRun: argv.includes('--dry-run'),
+    prune: argv.includes('--prune'),
+  };
+}
+
+/**
+ * Trims a field, truncating it to the column size; blank becomes null
+ */
+function clean(value: string | undefined, maxLength: number): string | null {
+  const trimmed = value?.trim() ?? '';
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+/**
+ * Formats a nine-digit IRS EIN as XX-XXXXXXX; null if it is not nine digits
+ * IRS files include historic prefixes, so the prefix is not validated
+ */
+function formatEin(value: string | undefined): string | null {
+  const digits = value?.trim().replace('-', '') ?? '';
+  return /^\d{9}$/.test(digits) ? `${digits.slice(0, 2)}-${digits.slice(2)}` : null;
+}
+
+/**
+ * Builds a row parser for the file format
+ * BMF columns are located from the header line
+ */
+function rowParser(format: Format, header: string): (line: string) => OrganizationRow | null {
+  if (format === 'pub78') {
+    return (line) => {
+      const [ein, name, city, state, country, status] = line.split('|');
+      const formatted = formatEin(ein);
+      const legalName = clean(name, 255);
+      if (!formatted || !legalName) return null;
+      return {
+        ein: formatted,
+        name: legalName,
+        city: clean(city, 100),
+        state: clean(state, 50),
+        zip: null,
+        country: clean(country, 50),
+        subsection: null,
+        deductibilityCode: null,
+        nteeCode: null,
+        pub78Status: clean(status, 50),
+      };
+    };
+  }
+
+  const columns = splitCsvLine(header).map((column) => column.trim().toUpperCase());
+  const index = (name: string) => {
+    const position = columns.indexOf(name);
+    if (position < 0) {
+      throw new Error(`BMF header is missing the ${name} column`);
+    }
+    return position;
+  };
+  const at = {
+    ein: index('EIN'),
+    name: index('NAME'),
+    city: index('CITY'),
+    state: index('STATE'),
+    zip: index('ZIP'),
+    subsection: index('SUBSECTION'),
+    deductibility: index('DEDUCTIBILITY'),
+    ntee: index('NTEE_CD'),
+  };
+
+  return (line) => {
+    const fields = splitCsvLine(line);
+    const ein = formatEin(fields[at.ein]);
+    const name = clean(fields[at.name], 255);
+    if (!ein || !name) return null;
+    return {
+      ein,
+      name,
+      city: clean(fields[at.city], 100),
+      state: clean(fields[at.state], 50),
+      zip: clean(fields[at.zip], 10),
+      country: null,
+      subsection: clean(fields[at.subsection], 2),
+      deductibilityCode: clean(fields[at.deductibility], 1),
+      nteeCode: clean(fields[at.ntee], 4),
+      pub78Status: null,
+    };
+  };
+}
+
+/**
+ * Upserts a batch, writing only the columns the format provides
+ */
+async function writeBatch(format: Format, rows: OrganizationRow[], importedAt: Date) {
+  const values = rows.map((row) => {
+    const name = normalizeOrganizationName(row.name).slice(0, 255);
+    return format === 'bmf'
+      ? Prisma.sql`(${row.ein}, ${row.name}, ${name}, ${row.city}, ${row.state}, ${row.zip},
+          ${row.subsection}, ${row.deductibilityCode}, ${row.nteeCode}, ${importedAt}, ${importedAt})`
+      : Prisma.sql`(${row.ein}, ${row.name}, ${name}, ${row.city}, ${row.state}, ${row.country},
+          ${row.pub78Status}, ${importedAt}, ${importedAt})`;
+  });
+
+  if (format === 'bmf') {
+    await prisma.$executeRaw`
+      INSERT INTO "ExemptOrganization" ("ein", "name", "normalizedName", "city", "state", "zip",
+        "subsection", "deductibilityCode", "nteeCode", "bmfImportedAt", "updatedAt")
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT ("ein") DO UPDATE SET
+        "name" = EXCLUDED."name",
+        "normalizedName" = EXCLUDED."normalizedName",
+        "city" = EXCLUDED."city",
+        "state" = EXCLUDED."state",
+        "zip" = EXCLUDED."zip",
+        "subsection" = EXCLUDED."subsection",
+        "deductibilityCode" = EXCLUDED."deductibilityCode",
+        "nteeCode" = EXCLUDED."nteeCode",
+        "bmfImportedAt" = EXCLUDED."bmfImportedAt",
+        "updatedAt" = EXCLUDED."updatedAt"`;
+  } else {
+    await prisma.$executeRaw`
+      INSERT INTO "ExemptOrganization" ("ein", "name", "normalizedName", "city", "state", "country",
+        "pub78Status", "pub78ImportedAt", "updatedAt")
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT ("ein") DO UPDATE SET
+        "name" = EXCLUDED."name",
+        "normalizedName" = EXCLUDED."normalizedName",
+        "city" = EXCLUDED."city",
+        "state" = EXCLUDED."state",
+        "country" = EXCLUDED."country",
+        "pub78Status" = EXCLUDED."pub78Status",
+        "pub78ImportedAt" = EXCLUDED."pub78ImportedAt",
+        "updatedAt" = EXCLUDED."updatedAt"`;
+  }
+}
+
+/**
+ * Clears this source from organizations the import did not touch
+ * Returns the number cleared and the number deleted outright
+ */
+async function prune(format: Format, importedAt: Date) {
+  const cleared =
+    format === 'bmf'
+      ? await prisma.exemptOrganization.updateMany({
+          where: { bmfImportedAt: { lt: importedAt } },
+          data: { bmfImportedAt: null, subsection: null, deductibilityCode: null, nteeCode: null },
+        })
+      : await prisma.exemptOrganization.updateMany({
+          where: { pub78ImportedAt: { lt: importedAt } },
+          data: { pub78ImportedAt: null, pub78Status: null },
+        });
+  const deleted = await prisma.exemptOrganization.deleteMany({
+    where: { bmfImportedAt: null, pub78ImportedAt: null },
+  });
+  return { cleared: cleared.count, deleted: deleted.count };
+}
+
+async function main() {
+  const { file, format: requestedFormat, dryRun, prune: shouldPrune } = parseArgs(
+    process.argv.slice(2)
+  );
+  const importedAt = new Date();
+  const lines = createInterface({
+    input: createReadStream(file, 'utf-8'),
+    crlfDelay: Infinity,
+  });
+
+  let format = requestedFormat;
+  let parse: ((line: string) => OrganizationRow | null) | undefined;
+  // Keyed by EIN: a file may list an organization twice, and one upsert
+  // statement cannot update the same row twice
+  let batch = new Map<string, OrganizationRow>();
+  let read = 0;
+  let imported = 0;
+  let skipped = 0;
+
+  const flush = async () => {
+    if (batch.size === 0) return;
+    if (!dryRun) {
+      await writeBatch(format!, [...batch.values()], importedAt);
+    }
+    imported += batch.size;
+    batch = new Map();
+  };
+
+  for await (const rawLine of lines) {
+    const line = rawLine.replace(/^\uFEFF/, '');
+    if (!line.trim()) continue;
+
+    if (!parse) {
+      format ??= /^"?EIN"?,/i.test(line) ? 'bmf' : 'pub78';
+      console.log(`📥 Importing ${format.toUpperCase()} data from ${file}${dryRun ? ' (dry run)' : ''}...`);
+      parse = rowParser(format, line);
+      // The BMF header names the columns; Pub 78 has no header
+      if (format === 'bmf') continue;
+    }
+
+    read++;
+    const row = parse(line);
+    if (!row) {
+      skipped++;
+      continue;
+    }
+    batch.set(row.ein, row);
+    if (batch.size >= BATCH_SIZE) {
+      await flush();
+    }
+    if (read % PROGRESS_EVERY === 0) {
+      console.log(`   ${read.toLocaleString()} rows read`);
+    }
+  }
+  await flush();
+
+  if (!format) {
+    throw new Error(`${file} is empty`);
+  }
+
+  const pruned = shouldPrune && !dryRun ? await prune(format, importedAt) : null;
+
+  console.log(`\n${dryRun ? '🔍 Dry run complete' : '✅ Import complete'}\n`);
+  console.log('📊 Summary:');
+  console.log(`   - ${read.toLocaleString()} rows read`);
+  console.log(`   - ${imported.toLocaleString()} organizations ${dryRun ? 'would be imported' : 'imported'}`);
+  console.log(`   - ${skipped.toLocaleString()} rows skipped (missing EIN or name)`);
+  if (pruned) {
+    console.log(`   - ${pruned.cleared.toLocaleString()} no longer listed in ${format.toUpperCase()}`);
+    console.log(`   - ${pruned.deleted.toLocaleString()} removed (no longer listed anywhere)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Import failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,198 @@
+/**
+ * Import the OFAC Specially Designated Nationals (SDN) list into the
+ * SanctionedParty table
+ *
+ * Reads the legacy CSV files published by OFAC, which lib/screening.ts then
+ * screens ministries against. Nothing is fetched over the network.
+ *   https://ofac.treasury.gov/specially-designated-nationals-list-data-formats-data-schemas
+ *
+ * Files (comma-separated, no header, "-0-" for empty fields):
+ *   - sdn.csv: ent_num, SDN_Name, SDN_Type, Program, Title, Call_Sign,
+ *              Vess_type, Tonnage, GRT, Vess_flag, Vess_owner, Remarks
+ *   - add.csv: ent_num, Add_num, Address, City/State/Zip, Country, Add_remarks
+ *              (optional; gives each party's countries)
+ *   - alt.csv: ent_num, alt_num, alt_type, alt_name, alt_remarks
+ *              (optional; gives each party's aliases)
+ *
+ * The import replaces the whole list in one transaction, so screening never
+ * sees a half-imported list. Each import is a new list version: ministries
+ * are screened again before their next grant is funded.
+ *
+ * Options:
+ *   --addresses <file>  add.csv
+ *   --aliases <file>    alt.csv
+ *   --dry-run           Parse and count without writing
+ *
+ * Usage: npx tsx scripts/import-sdn-list.ts <sdn.csv> [--addresses add.csv] [--aliases alt.csv] [--dry-run]
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { PrismaClient } from '@prisma/client';
+import { splitCsvLine } from '../server/src/lib/csv.js';
+
+/**
+ * One party as written to SanctionedParty
+ */
+interface PartyRow {
+  entryNumber: number;
+  name: string;
+  type: string | null;
+  programs: string[];
+  aliases: string[];
+  countries: string[];
+  remarks: string | null;
+}
+
+const BATCH_SIZE = 1000;
+
+const prisma = new PrismaClient();
+
+/**
+ * Parses command-line arguments
+ */
+function parseArgs(argv: string[]) {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  const flagValues = new Set([valueOf('--addresses'), valueOf('--aliases')]);
+  const file = argv.find((arg) => !arg.startsWith('--') && !flagValues.has(arg));
+
+  if (!file) {
+    throw new Error(
+      'Usage: tsx scripts/import-sdn-list.ts <sdn.csv> [--addresses add.csv] [--aliases alt.csv] [--dry-run]'
+    );
+  }
+
+  return {
+    file,
+    addresses: valueOf('--addresses'),
+    aliases: valueOf('--aliases'),
+    dryRun: argv.includes('--dry-run'),
+  };
+}
+
+/**
+ * Trims a field, truncating it to the column size; blank or "-0-" becomes null
+ */
+function clean(value: string | undefined, maxLength?: number): string | null {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed || trimmed === '-0-') return null;
+  return maxLength ? trimmed.slice(0, maxLength) : trimmed;
+}
+
+/**
+ * Reads the lines of an OFAC file as fields, keyed by entry number
+ * Lines without a numeric entry number (such as the end-of-file marker)
+ * are skipped.
+ */
+async function* readEntries(file: string): AsyncGenerator<[number, string[]]> {
+  const lines = createInterface({
+    input: createReadStream(file, 'utf-8'),
+    crlfDelay: Infinity,
+  });
+
+  for await (const rawLine of lines) {
+    const fields = splitCsvLine(rawLine.replace(/^\uFEFF/, ''));
+    const entryNumber = Number(fields[0]?.trim());
+    if (!Number.isInteger(entryNumber) || !fields[0]?.trim()) continue;
+    yield [entryNumber, fields];
+  }
+}
+
+/**
+ * Collects one value per line of a supplementary file, grouped by party
+ */
+async function readGrouped(file: string, column: number): Promise<Map<number, Set<string>>> {
+  const grouped = new Map<number, Set<string>>();
+  for await (const [entryNumber, fields] of readEntries(file)) {
+    const value = clean(fields[column], 350);
+    if (!value) continue;
+    const values = grouped.get(entryNumber) ?? new Set<string>();
+    values.add(value);
+    grouped.set(entryNumber, values);
+  }
+  return grouped;
+}
+
+/**
+ * Splits the Program field: several programs read "SDGT] [IRGC"
+ */
+function splitPrograms(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(/\]\s*\[/)
+    .map((program) => program.replace(/[[\]]/g, '').trim())
+    .filter(Boolean);
+}
+
+async function main() {
+  const { file, addresses, aliases, dryRun } = parseArgs(process.argv.slice(2));
+  const importedAt = new Date();
+  console.log(`📥 Importing SDN list from ${file}${dryRun ? ' (dry run)' : ''}...`);
+
+  const countriesByParty = addresses ? await readGrouped(addresses, 4) : new Map<number, Set<string>>();
+  const aliasesByParty = aliases ? await readGrouped(aliases, 3) : new Map<number, Set<string>>();
+
+  // Keyed by entry number: a party listed twice keeps its last line
+  const parties = new Map<number, PartyRow>();
+  let skipped = 0;
+  for await (const [entryNumber, fields] of readEntries(file)) {
+    const name = clean(fields[1], 350);
+    if (!name) {
+      skipped++;
+      continue;
+    }
+    parties.set(entryNumber, {
+      entryNumber,
+      name,
+      type: clean(fields[2], 20)?.toLowerCase() ?? null,
+      programs: splitPrograms(clean(fields[3])),
+      aliases: [...(aliasesByParty.get(entryNumber) ?? [])],
+      countries: [...(countriesByParty.get(entryNumber) ?? [])],
+      remarks: clean(fields[11]),
+    });
+  }
+
+  if (parties.size === 0) {
+    throw new Error(`${file} lists no parties; the current list was left in place`);
+  }
+
+  let removed = 0;
+  if (!dryRun) {
+    const rows = [...parties.values()].map((party) => ({ ...party, importedAt }));
+    removed = await prisma.$transaction(
+      async (tx) => {
+        const deleted = await tx.sanctionedParty.deleteMany();
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+          await tx.sanctionedParty.createMany({ data: rows.slice(i, i + BATCH_SIZE) });
+        }
+        return deleted.count;
+      },
+      { timeout: 120_000 }
+    );
+  }
+
+  const withAliases = [...parties.values()].filter((party) => party.aliases.length > 0).length;
+  const withCountries = [...parties.values()].filter((party) => party.countries.length > 0).length;
+
+  console.log(`\n${dryRun ? '🔍 Dry run complete' : '✅ Import complete'}\n`);
+  console.log('📊 Summary:');
+  console.log(`   - ${parties.size.toLocaleString()} parties ${dryRun ? 'would be imported' : 'imported'}`);
+  console.log(`   - ${withAliases.toLocaleString()} with aliases, ${withCountries.toLocaleString()} with countries`);
+  console.log(`   - ${skipped.toLocaleString()} lines skipped (missing name)`);
+  if (!dryRun) {
+    console.log(`   - ${removed.toLocaleString()} parties from the previous list replaced`);
+    console.log(`   - List version ${importedAt.toISOString()}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Import failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "FundTransactionType" AS ENUM ('CONTRIBUTION', 'GRANT_DISBURSEMENT', 'REVERSAL', 'FEE', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "FundTransaction" (
+    "id" SERIAL NOT NULL,
+    "type" "FundTransactionType" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "balanceAfter" DECIMAL(15,2) NOT NULL,
+    "memo" TEXT,
+    "givingFundId" INTEGER NOT NULL,
+    "grantId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FundTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FundTransaction_givingFundId_createdAt_idx" ON "FundTransaction"("givingFundId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FundTransaction_grantId_idx" ON "FundTransaction"("grantId");
+
+-- AddForeignKey
+ALTER TABLE "FundTransaction" ADD CONSTRAINT "FundTransaction_givingFundId_fkey" FOREIGN KEY ("givingFundId") REFERENCES "GivingFund"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundTransaction" ADD CONSTRAINT "FundTransaction_grantId_fkey" FOREIGN KEY ("grantId") REFERENCES "Grant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: open the ledger for existing funds so they reconcile from day one
+INSERT INTO "FundTransaction" ("type", "amount", "balanceAfter", "memo", "givingFundId")
+SELECT 'ADJUSTMENT', "balance", "balance", 'Opening balance', "id"
+FROM "GivingFund"
+WHERE "balance" <> 0;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "GrantStatus" ADD VALUE 'REVERSED';
+
+-- AlterTable
+ALTER TABLE "Grant" ADD COLUMN     "reversedAmount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "reversedAt" TIMESTAMP(3);
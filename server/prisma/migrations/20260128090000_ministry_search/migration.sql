@@ -0,0 +1,15 @@
+-- Full-text search over ministries.
+-- Weights rank name and EIN matches above mission, then description, then city.
+-- The EIN is indexed without its dash so "12-3456789" and "123456789" both match.
+
+-- AlterTable
+ALTER TABLE "Ministry" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple', replace(coalesce("ein", ''), '-', '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("mission", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce("city", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Ministry_searchVector_idx" ON "Ministry" USING GIN ("searchVector");
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "VerificationStatus" AS ENUM ('PENDING', 'VERIFIED', 'REVOKED');
+
+-- CreateEnum
+CREATE TYPE "VerificationMethod" AS ENUM ('IRS_PUB78', 'IRS_DETERMINATION_LETTER', 'CHURCH_LETTER', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "MinistryVerification" (
+    "id" SERIAL NOT NULL,
+    "status" "VerificationStatus" NOT NULL DEFAULT 'PENDING',
+    "method" "VerificationMethod" NOT NULL,
+    "documentRefs" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "notes" TEXT,
+    "ministryId" INTEGER NOT NULL,
+    "requestedById" INTEGER,
+    "verifiedById" INTEGER,
+    "revokedById" INTEGER,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "verifiedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "revocationReason" TEXT,
+
+    CONSTRAINT "MinistryVerification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MinistryVerification_ministryId_status_idx" ON "MinistryVerification"("ministryId", "status");
+
+-- AddForeignKey
+ALTER TABLE "MinistryVerification" ADD CONSTRAINT "MinistryVerification_ministryId_fkey" FOREIGN KEY ("ministryId") REFERENCES "Ministry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MinistryVerification" ADD CONSTRAINT "MinistryVerification_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MinistryVerification" ADD CONSTRAINT "MinistryVerification_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MinistryVerification" ADD CONSTRAINT "MinistryVerification_revokedById_fkey" FOREIGN KEY ("revokedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: record existing verified ministries as manual verifications.
+-- The flag carried no evidence or date, so they expire a year after this
+-- migration and must then be verified again. Counting from the ministry's
+-- last change would leave long-unedited ministries ungrantable at once.
+INSERT INTO "MinistryVerification" (
+    "status", "method", "notes", "ministryId",
+    "requestedAt", "verifiedAt", "expiresAt", "updatedAt"
+)
+SELECT
+    'VERIFIED', 'MANUAL', 'Recorded from the verified flag when verification records were introduced', "id",
+    "updatedAt", "updatedAt", CURRENT_TIMESTAMP + INTERVAL '1 year', CURRENT_TIMESTAMP
+FROM "Ministry"
+WHERE "verified" = true;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ExemptOrganization" (
+    "id" SERIAL NOT NULL,
+    "ein" VARCHAR(10) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "normalizedName" VARCHAR(255) NOT NULL,
+    "city" VARCHAR(100),
+    "state" VARCHAR(50),
+    "zip" VARCHAR(10),
+    "country" VARCHAR(50),
+    "subsection" VARCHAR(2),
+    "deductibilityCode" VARCHAR(1),
+    "nteeCode" VARCHAR(4),
+    "bmfImportedAt" TIMESTAMP(3),
+    "pub78Status" VARCHAR(50),
+    "pub78ImportedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExemptOrganization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExemptOrganization_ein_key" ON "ExemptOrganization"("ein");
+
+-- CreateIndex
+CREATE INDEX "ExemptOrganization_state_normalizedName_idx" ON "ExemptOrganization"("state", "normalizedName");
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "ScreeningStatus" AS ENUM ('NO_MATCH', 'POTENTIAL_MATCH', 'CLEARED', 'CONFIRMED');
+
+-- CreateTable
+CREATE TABLE "SanctionedParty" (
+    "id" SERIAL NOT NULL,
+    "entryNumber" INTEGER NOT NULL,
+    "name" VARCHAR(350) NOT NULL,
+    "type" VARCHAR(20),
+    "programs" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "countries" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "remarks" TEXT,
+    "importedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SanctionedParty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScreeningResult" (
+    "id" SERIAL NOT NULL,
+    "status" "ScreeningStatus" NOT NULL,
+    "listVersion" TIMESTAMP(3) NOT NULL,
+    "ministryId" INTEGER NOT NULL,
+    "grantId" INTEGER,
+    "screenedName" VARCHAR(255) NOT NULL,
+    "screenedCountry" VARCHAR(50),
+    "partyEntryNumber" INTEGER,
+    "partyName" VARCHAR(350),
+    "matchedName" VARCHAR(350),
+    "partyPrograms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "score" DOUBLE PRECISION,
+    "countryMatch" BOOLEAN,
+    "screenedById" INTEGER,
+    "screenedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedById" INTEGER,
+    "resolvedAt" TIMESTAMP(3),
+    "resolutionNotes" TEXT,
+
+    CONSTRAINT "ScreeningResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SanctionedParty_entryNumber_key" ON "SanctionedParty"("entryNumber");
+
+-- CreateIndex
+CREATE INDEX "ScreeningResult_ministryId_status_idx" ON "ScreeningResult"("ministryId", "status");
+
+-- CreateIndex
+CREATE INDEX "ScreeningResult_status_idx" ON "ScreeningResult"("status");
+
+-- AddForeignKey
+ALTER TABLE "ScreeningResult" ADD CONSTRAINT "ScreeningResult_ministryId_fkey" FOREIGN KEY ("ministryId") REFERENCES "Ministry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScreeningResult" ADD CONSTRAINT "ScreeningResult_grantId_fkey" FOREIGN KEY ("grantId") REFERENCES "Grant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScreeningResult" ADD CONSTRAINT "ScreeningResult_screenedById_fkey" FOREIGN KEY ("screenedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScreeningResult" ADD CONSTRAINT "ScreeningResult_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "MinistryAlias" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "ein" VARCHAR(10),
+    "website" VARCHAR(255),
+    "city" VARCHAR(100),
+    "state" VARCHAR(50),
+    "mergedMinistryId" INTEGER NOT NULL,
+    "ministryId" INTEGER NOT NULL,
+    "mergedById" INTEGER,
+    "mergedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MinistryAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MinistryAlias_ministryId_idx" ON "MinistryAlias"("ministryId");
+
+-- CreateIndex
+CREATE INDEX "MinistryAlias_mergedMinistryId_idx" ON "MinistryAlias"("mergedMinistryId");
+
+-- AddForeignKey
+ALTER TABLE "MinistryAlias" ADD CONSTRAINT "MinistryAlias_ministryId_fkey" FOREIGN KEY ("ministryId") REFERENCES "Ministry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MinistryAlias" ADD CONSTRAINT "MinistryAlias_mergedById_fkey" FOREIGN KEY ("mergedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Ministry" ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Donor" ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "GivingFund" ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Ministry_archivedAt_idx" ON "Ministry"("archivedAt");
+
+-- CreateIndex
+CREATE INDEX "Donor_archivedAt_idx" ON "Donor"("archivedAt");
+
+-- CreateIndex
+CREATE INDEX "GivingFund_archivedAt_idx" ON "GivingFund"("archivedAt");
+
+-- Deleting a donor or fund no longer takes grants and ledger entries with it
+
+-- DropForeignKey
+ALTER TABLE "GivingFund" DROP CONSTRAINT "GivingFund_donorId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "Grant" DROP CONSTRAINT "Grant_givingFundId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "FundTransaction" DROP CONSTRAINT "FundTransaction_givingFundId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "GivingFund" ADD CONSTRAINT "GivingFund_donorId_fkey" FOREIGN KEY ("donorId") REFERENCES "Donor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Grant" ADD CONSTRAINT "Grant_givingFundId_fkey" FOREIGN KEY ("givingFundId") REFERENCES "GivingFund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundTransaction" ADD CONSTRAINT "FundTransaction_givingFundId_fkey" FOREIGN KEY ("givingFundId") REFERENCES "GivingFund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
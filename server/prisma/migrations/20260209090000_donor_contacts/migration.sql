@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ContactRelationship" AS ENUM ('SPOUSE', 'PARTNER', 'CHILD', 'PARENT', 'SIBLING', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Donor" ADD COLUMN     "addressLine1" VARCHAR(255),
+ADD COLUMN     "addressLine2" VARCHAR(255),
+ADD COLUMN     "city" VARCHAR(100),
+ADD COLUMN     "state" VARCHAR(50),
+ADD COLUMN     "postalCode" VARCHAR(20),
+ADD COLUMN     "country" VARCHAR(50) NOT NULL DEFAULT 'USA',
+ADD COLUMN     "active" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "DonorContact" (
+    "id" SERIAL NOT NULL,
+    "firstName" VARCHAR(100) NOT NULL,
+    "lastName" VARCHAR(100) NOT NULL,
+    "relationship" "ContactRelationship" NOT NULL,
+    "email" VARCHAR(255),
+    "phone" VARCHAR(20),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "donorId" INTEGER NOT NULL,
+
+    CONSTRAINT "DonorContact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DonorContact_donorId_idx" ON "DonorContact"("donorId");
+
+-- AddForeignKey
+ALTER TABLE "DonorContact" ADD CONSTRAINT "DonorContact_donorId_fkey" FOREIGN KEY ("donorId") REFERENCES "Donor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
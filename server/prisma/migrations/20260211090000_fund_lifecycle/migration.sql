@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "GivingFund" ADD COLUMN     "closingAt" TIMESTAMP(3),
+ADD COLUMN     "closedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "FundSuccessor" (
+    "id" SERIAL NOT NULL,
+    "position" INTEGER NOT NULL,
+    "givingFundId" INTEGER NOT NULL,
+    "donorId" INTEGER NOT NULL,
+    "designatedById" INTEGER,
+    "designatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+    "succeededAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FundSuccessor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FundSuccessor_givingFundId_position_idx" ON "FundSuccessor"("givingFundId", "position");
+
+-- CreateIndex
+CREATE INDEX "FundSuccessor_donorId_idx" ON "FundSuccessor"("donorId");
+
+-- AddForeignKey
+ALTER TABLE "FundSuccessor" ADD CONSTRAINT "FundSuccessor_givingFundId_fkey" FOREIGN KEY ("givingFundId") REFERENCES "GivingFund"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundSuccessor" ADD CONSTRAINT "FundSuccessor_donorId_fkey" FOREIGN KEY ("donorId") REFERENCES "Donor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundSuccessor" ADD CONSTRAINT "FundSuccessor_designatedById_fkey" FOREIGN KEY ("designatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
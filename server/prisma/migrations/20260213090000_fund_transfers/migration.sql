@@ -0,0 +1,40 @@
+-- AlterEnum
+ALTER TYPE "FundTransactionType" ADD VALUE 'TRANSFER_OUT';
+ALTER TYPE "FundTransactionType" ADD VALUE 'TRANSFER_IN';
+
+-- AlterTable
+ALTER TABLE "FundTransaction" ADD COLUMN     "transferId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "FundTransfer" (
+    "id" SERIAL NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "memo" TEXT,
+    "fromFundId" INTEGER NOT NULL,
+    "toFundId" INTEGER NOT NULL,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FundTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FundTransaction_transferId_idx" ON "FundTransaction"("transferId");
+
+-- CreateIndex
+CREATE INDEX "FundTransfer_fromFundId_createdAt_idx" ON "FundTransfer"("fromFundId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FundTransfer_toFundId_createdAt_idx" ON "FundTransfer"("toFundId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FundTransaction" ADD CONSTRAINT "FundTransaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "FundTransfer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundTransfer" ADD CONSTRAINT "FundTransfer_fromFundId_fkey" FOREIGN KEY ("fromFundId") REFERENCES "GivingFund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundTransfer" ADD CONSTRAINT "FundTransfer_toFundId_fkey" FOREIGN KEY ("toFundId") REFERENCES "GivingFund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundTransfer" ADD CONSTRAINT "FundTransfer_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ContributionAssetType" AS ENUM ('CASH', 'PUBLIC_SECURITIES', 'REAL_ESTATE', 'CRYPTOCURRENCY', 'BUSINESS_INTEREST', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "LiquidationStatus" AS ENUM ('PENDING', 'LIQUIDATED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "FundTransaction" ADD COLUMN     "contributionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Contribution" (
+    "id" SERIAL NOT NULL,
+    "assetType" "ContributionAssetType" NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(20,8),
+    "fairMarketValue" DECIMAL(15,2) NOT NULL,
+    "valuationDate" TIMESTAMP(3) NOT NULL,
+    "liquidationStatus" "LiquidationStatus" NOT NULL DEFAULT 'PENDING',
+    "netProceeds" DECIMAL(15,2),
+    "notes" TEXT,
+    "givingFundId" INTEGER NOT NULL,
+    "recordedById" INTEGER,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "liquidatedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Contribution_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: every existing CONTRIBUTION ledger entry was cash, credited at once
+UPDATE "FundTransaction"
+SET "contributionId" = nextval(pg_get_serial_sequence('"Contribution"', 'id'))
+WHERE "type" = 'CONTRIBUTION';
+
+INSERT INTO "Contribution" ("id", "assetType", "description", "fairMarketValue", "valuationDate", "liquidationStatus", "netProceeds", "givingFundId", "receivedAt", "liquidatedAt", "updatedAt")
+SELECT "contributionId", 'CASH', COALESCE("memo", 'Cash contribution'), "amount", "createdAt", 'LIQUIDATED', "amount", "givingFundId", "createdAt", "createdAt", "createdAt"
+FROM "FundTransaction"
+WHERE "contributionId" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "FundTransaction_contributionId_idx" ON "FundTransaction"("contributionId");
+
+-- CreateIndex
+CREATE INDEX "Contribution_givingFundId_receivedAt_idx" ON "Contribution"("givingFundId", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "Contribution_liquidationStatus_idx" ON "Contribution"("liquidationStatus");
+
+-- AddForeignKey
+ALTER TABLE "FundTransaction" ADD CONSTRAINT "FundTransaction_contributionId_fkey" FOREIGN KEY ("contributionId") REFERENCES "Contribution"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Contribution" ADD CONSTRAINT "Contribution_givingFundId_fkey" FOREIGN KEY ("givingFundId") REFERENCES "GivingFund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Contribution" ADD CONSTRAINT "Contribution_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
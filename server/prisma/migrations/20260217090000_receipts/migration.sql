@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ReceiptType" AS ENUM ('CONTRIBUTION', 'ANNUAL_SUMMARY');
+
+-- CreateTable
+-- "number" is SERIAL: its sequence hands out each receipt number once, and
+-- numbers taken by rolled-back transactions are skipped rather than reused
+CREATE TABLE "Receipt" (
+    "id" SERIAL NOT NULL,
+    "number" SERIAL NOT NULL,
+    "type" "ReceiptType" NOT NULL,
+    "taxYear" INTEGER,
+    "cashAmount" DECIMAL(15,2) NOT NULL,
+    "contributionCount" INTEGER NOT NULL,
+    "donorId" INTEGER NOT NULL,
+    "contributionId" INTEGER,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supersededAt" TIMESTAMP(3),
+
+    CONSTRAINT "Receipt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Receipt_number_key" ON "Receipt"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Receipt_contributionId_key" ON "Receipt"("contributionId");
+
+-- CreateIndex
+CREATE INDEX "Receipt_donorId_type_taxYear_idx" ON "Receipt"("donorId", "type", "taxYear");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_donorId_fkey" FOREIGN KEY ("donorId") REFERENCES "Donor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_contributionId_fkey" FOREIGN KEY ("contributionId") REFERENCES "Contribution"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "GrantCadence" AS ENUM ('WEEKLY', 'MONTHLY', 'QUARTERLY', 'ANNUALLY');
+
+-- AlterTable
+ALTER TABLE "Grant" ADD COLUMN     "recurringGrantId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RecurringGrant" (
+    "id" SERIAL NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "purpose" TEXT,
+    "cadence" "GrantCadence" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "nextRunDate" TIMESTAMP(3),
+    "skippedRuns" INTEGER NOT NULL DEFAULT 0,
+    "flaggedAt" TIMESTAMP(3),
+    "flagReason" TEXT,
+    "givingFundId" INTEGER NOT NULL,
+    "ministryId" INTEGER NOT NULL,
+    "createdById" INTEGER,
+    "lastRunAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringGrant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Grant_recurringGrantId_idx" ON "Grant"("recurringGrantId");
+
+-- CreateIndex
+CREATE INDEX "RecurringGrant_nextRunDate_idx" ON "RecurringGrant"("nextRunDate");
+
+-- CreateIndex
+CREATE INDEX "RecurringGrant_givingFundId_idx" ON "RecurringGrant"("givingFundId");
+
+-- CreateIndex
+CREATE INDEX "RecurringGrant_ministryId_idx" ON "RecurringGrant"("ministryId");
+
+-- CreateIndex
+CREATE INDEX "RecurringGrant_flaggedAt_idx" ON "RecurringGrant"("flaggedAt");
+
+-- AddForeignKey
+ALTER TABLE "Grant" ADD CONSTRAINT "Grant_recurringGrantId_fkey" FOREIGN KEY ("recurringGrantId") REFERENCES "RecurringGrant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringGrant" ADD CONSTRAINT "RecurringGrant_givingFundId_fkey" FOREIGN KEY ("givingFundId") REFERENCES "GivingFund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringGrant" ADD CONSTRAINT "RecurringGrant_ministryId_fkey" FOREIGN KEY ("ministryId") REFERENCES "Ministry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringGrant" ADD CONSTRAINT "RecurringGrant_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
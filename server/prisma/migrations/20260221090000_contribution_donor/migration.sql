@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Contribution" ADD COLUMN "donorId" INTEGER;
+
+-- Backfill: whoever holds the fund now is the best record there is of who
+-- gave its existing contributions
+UPDATE "Contribution"
+SET "donorId" = "GivingFund"."donorId"
+FROM "GivingFund"
+WHERE "GivingFund"."id" = "Contribution"."givingFundId";
+
+ALTER TABLE "Contribution" ALTER COLUMN "donorId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Contribution_donorId_receivedAt_idx" ON "Contribution"("donorId", "receivedAt");
+
+-- AddForeignKey
+ALTER TABLE "Contribution" ADD CONSTRAINT "Contribution_donorId_fkey" FOREIGN KEY ("donorId") REFERENCES "Donor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
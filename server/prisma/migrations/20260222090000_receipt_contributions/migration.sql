@@ -0,0 +1,4 @@
+-- AlterTable
+-- Summaries issued before this have no record of what they covered, so each
+-- is reissued the next time it is downloaded
+ALTER TABLE "Receipt" ADD COLUMN "contributionIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
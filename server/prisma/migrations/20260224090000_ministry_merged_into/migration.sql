@@ -0,0 +1,7 @@
+-- AlterTable
+-- Merged duplicates are archived and point at their survivor instead of
+-- being deleted
+ALTER TABLE "Ministry" ADD COLUMN "mergedIntoId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "Ministry" ADD CONSTRAINT "Ministry_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "Ministry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterEnum
+-- Records a re-screening whose matches all have open results, so the
+-- ministry is marked screened against the current list
+ALTER TYPE "ScreeningStatus" ADD VALUE 'UNCHANGED';
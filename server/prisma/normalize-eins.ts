@@ -0,0 +1,107 @@
+/**
+ * =============================================================================
+ * EIN Normalization Data Migration
+ * =============================================================================
+ *
+ * Rewrites ministry EINs stored before validation was enforced into the
+ * canonical XX-XXXXXXX form (see src/lib/ein.ts).
+ *
+ * Rows are left untouched and reported when:
+ *   - the EIN is not nine digits or has a prefix the IRS never assigns
+ *   - several ministries hold the same number in different formats
+ *     (e.g. "581437002" and "58-1437002"); these need a person to decide
+ *     which record survives
+ *
+ * Safe to re-run: already-normalized rows are skipped.
+ *
+ * Run with: npm run data:normalize-eins [-- --dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { normalizeEin } from '../src/lib/ein.js';
+import { ValidationError } from '../src/lib/errors.js';
+
+const prisma = new PrismaClient();
+
+const dryRun = process.argv.includes('--dry-run');
+
+interface StoredEin {
+  id: number;
+  name: string;
+  ein: string;
+}
+
+async function main() {
+  console.log(`🔢 Normalizing ministry EINs${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const rows = (await prisma.ministry.findMany({
+    where: { ein: { not: null } },
+    select: { id: true, name: true, ein: true },
+    orderBy: { id: 'asc' },
+  })) as StoredEin[];
+
+  // Group valid rows by normalized EIN; collect the invalid ones
+  const byEin = new Map<string, StoredEin[]>();
+  const invalid: { row: StoredEin; reason: string }[] = [];
+
+  for (const row of rows) {
+    try {
+      const ein = normalizeEin(row.ein);
+      byEin.set(ein, [...(byEin.get(ein) ?? []), row]);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      invalid.push({ row, reason: error.message });
+    }
+  }
+
+  const conflicts = [...byEin.entries()].filter(([, group]) => group.length > 1);
+  const updates = [...byEin.entries()]
+    .filter(([ein, group]) => group.length === 1 && group[0]!.ein !== ein)
+    .map(([ein, group]) => ({ row: group[0]!, ein }));
+
+  for (const { row, ein } of updates) {
+    console.log(`   ${row.ein.padEnd(12)} → ${ein}  ${row.name} (ministry ${row.id})`);
+    if (!dryRun) {
+      await prisma.ministry.update({ where: { id: row.id }, data: { ein } });
+    }
+  }
+
+  console.log(`\n${dryRun ? '🔍 Dry run complete' : '✅ Normalization complete'}\n`);
+  console.log('📊 Summary:');
+  console.log(`   - ${rows.length} ministries with an EIN`);
+  console.log(`   - ${updates.length} ${dryRun ? 'would be normalized' : 'normalized'}`);
+  console.log(`   - ${conflicts.length} conflicting EINs`);
+  console.log(`   - ${invalid.length} invalid EINs`);
+
+  if (conflicts.length > 0) {
+    console.log('\n⚠️  Conflicts (same EIN on several ministries; left unchanged):');
+    for (const [ein, group] of conflicts) {
+      console.log(`   ${ein}`);
+      for (const row of group) {
+        console.log(`     • ministry ${row.id}: ${row.name} (stored as "${row.ein}")`);
+      }
+    }
+  }
+
+  if (invalid.length > 0) {
+    console.log('\n⚠️  Invalid EINs (left unchanged):');
+    for (const { row, reason } of invalid) {
+      console.log(`   • ministry ${row.id}: ${row.name} "${row.ein}" - ${reason}`);
+    }
+  }
+
+  // Anything reported needs follow-up before EINs are fully canonical
+  if (conflicts.length > 0 || invalid.length > 0) {
+    process.exitCode = 2;
+  }
+}
+
+// Execute migration
+main()
+  .catch((e) => {
+    console.error('❌ EIN normalization failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
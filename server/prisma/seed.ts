@@ -12,6 +12,7 @@
 
 import { PrismaClient, MinistryCategory } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { hashPassword } from '../src/lib/auth.js';
 
 const prisma = new PrismaClient();
 
@@ -185,18 +186,41 @@ const donors = [
     lastName: 'Thompson',
     email: 'robert.thompson@example.com',
     phone: '555-123-4567',
+    addressLine1: '1420 Peachtree St NE',
+    city: 'Atlanta',
+    state: 'GA',
+    postalCode: '30309',
+    contacts: {
+      create: [
+        {
+          firstName: 'Linda',
+          lastName: 'Thompson',
+          relationship: 'SPOUSE' as const,
+          email: 'linda.thompson@example.com',
+        },
+      ],
+    },
   },
   {
     firstName: 'Sarah',
     lastName: 'Mitchell',
     email: 'sarah.mitchell@example.com',
     phone: '555-234-5678',
+    addressLine1: '88 Maple Ave',
+    addressLine2: 'Apt 4B',
+    city: 'Nashville',
+    state: 'TN',
+    postalCode: '37203',
   },
   {
     firstName: 'David',
     lastName: 'Anderson',
     email: 'david.anderson@example.com',
     phone: '555-345-6789',
+    addressLine1: '305 W Alameda Dr',
+    city: 'Tempe',
+    state: 'AZ',
+    postalCode: '85282',
   },
   {
     firstName: 'Jennifer',
@@ -206,6 +230,35 @@ const donors = [
   },
 ];
 
+/**
+ * Demo sanctions list - fictional parties, so screening works before the
+ * real list is imported with npm run data:import-sdn
+ */
+const sanctionedParties = [
+  {
+    entryNumber: 900001,
+    name: 'NORTHERN LIGHT RELIEF FOUNDATION',
+    programs: ['SDGT'],
+    aliases: ['NORTHERN LIGHT AID'],
+    countries: ['Examplestan'],
+  },
+  {
+    entryNumber: 900002,
+    name: 'HARBOR CROSS TRADING COMPANY',
+    programs: ['DEMO'],
+    aliases: [],
+    countries: [],
+  },
+  {
+    entryNumber: 900003,
+    name: 'DOE, Jonathan',
+    type: 'individual',
+    programs: ['DEMO'],
+    aliases: ['DOE, Jon'],
+    countries: ['Examplestan'],
+  },
+];
+
 /**
  * Main seed function
  */
@@ -214,8 +267,21 @@ async function main(): Promise<void> {
 
   // Clear existing data
   console.log('🗑️  Clearing existing data...');
+  await prisma.auditEvent.deleteMany();
+  await prisma.screeningResult.deleteMany();
+  await prisma.ministryAlias.deleteMany();
+  await prisma.sanctionedParty.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.fundTransaction.deleteMany();
+  await prisma.fundTransfer.deleteMany();
+  await prisma.receipt.deleteMany();
+  await prisma.contribution.deleteMany();
   await prisma.grant.deleteMany();
+  await prisma.recurringGrant.deleteMany();
+  await prisma.ministryVerification.deleteMany();
+  await prisma.fundSuccessor.deleteMany();
   await prisma.givingFund.deleteMany();
+  await prisma.donorContact.deleteMany();
   await prisma.donor.deleteMany();
   await prisma.ministry.deleteMany();
 
@@ -265,6 +331,66 @@ async function main(): Promise<void> {
   const allFunds = await prisma.givingFund.findMany();
   console.log(`   Created ${allFunds.length} giving funds`);
 
+  // Seed demo users, one per role. The donor user owns the first donor.
+  console.log('🔐 Creating demo users...');
+  const passwordHash = await hashPassword(
+    process.env['SEED_USER_PASSWORD'] ?? 'demo-password'
+  );
+  const users = [
+    { email: 'admin@example.com', name: 'Demo Admin', role: 'ADMIN' as const },
+    { email: 'advisor@example.com', name: 'Demo Advisor', role: 'ADVISOR' as const },
+    {
+      email: createdDonors[0]!.email,
+      name: `${createdDonors[0]!.firstName} ${createdDonors[0]!.lastName}`,
+      role: 'DONOR' as const,
+      donorId: createdDonors[0]!.id,
+    },
+  ];
+  const createdUsers = await Promise.all(
+    users.map((u) => prisma.user.create({ data: { ...u, passwordHash } }))
+  );
+  console.log(`   Created ${users.length} users`);
+
+  // Seed verification records: verified ministries were checked against
+  // IRS Pub 78; the unverified church has a request awaiting review
+  console.log('🔎 Creating verification records...');
+  const advisor = createdUsers.find((u) => u.role === 'ADVISOR')!;
+  const verifiedAt = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000); // 60 days ago
+  const expiresAt = new Date(verifiedAt);
+  expiresAt.setUTCMonth(expiresAt.getUTCMonth() + 12);
+  for (const ministry of createdMinistries) {
+    await prisma.ministryVerification.create({
+      data: ministry.verified
+        ? {
+            ministryId: ministry.id,
+            status: 'VERIFIED',
+            method: 'IRS_PUB78',
+            documentRefs: [`https://apps.irs.gov/app/eos/details/?ein=${ministry.ein!.replace('-', '')}`],
+            requestedById: advisor.id,
+            requestedAt: verifiedAt,
+            verifiedById: advisor.id,
+            verifiedAt,
+            expiresAt,
+          }
+        : {
+            ministryId: ministry.id,
+            method: 'CHURCH_LETTER',
+            documentRefs: ['letters/new-hope-denomination-letter.pdf'],
+            notes: 'Denomination letter received; awaiting review',
+            requestedById: advisor.id,
+          },
+    });
+  }
+  console.log(`   Created ${createdMinistries.length} verification records`);
+
+  // Seed the demo sanctions list; ministries are screened when funded
+  console.log('🛡️  Loading demo sanctions list...');
+  const listImportedAt = new Date();
+  await prisma.sanctionedParty.createMany({
+    data: sanctionedParties.map((party) => ({ ...party, importedAt: listImportedAt })),
+  });
+  console.log(`   Loaded ${sanctionedParties.length} sanctioned parties`);
+
   // Seed grants in various statuses
   console.log('💰 Creating grants...');
   const verifiedMinistries = createdMinistries.filter((m) => m.verified);
@@ -343,15 +469,112 @@ async function main(): Promise<void> {
     },
   ];
 
-  await Promise.all(grants.map((g) => prisma.grant.create({ data: g })));
-  console.log(`   Created ${grants.length} grants`);
+  const createdGrants = await Promise.all(
+    grants.map((g) => prisma.grant.create({ data: g }))
+  );
+  console.log(`   Created ${createdGrants.length} grants`);
+
+  // Seed the fund ledger so every balance reconciles. Seeded balances are
+  // post-disbursement, so the opening contribution includes funded grants.
+  console.log('📒 Recording fund ledger entries...');
+  let ledgerEntries = 0;
+  for (const fund of allFunds) {
+    const funded = createdGrants.filter(
+      (g) => g.givingFundId === fund.id && g.status === 'FUNDED'
+    );
+    const disbursed = funded.reduce(
+      (sum, g) => sum.plus(g.amount),
+      new Decimal(0)
+    );
+
+    let running = new Decimal(fund.balance).plus(disbursed);
+    const openedAt = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
+    const opening = await prisma.contribution.create({
+      data: {
+        assetType: 'CASH',
+        description: 'Opening contribution',
+        fairMarketValue: running,
+        valuationDate: openedAt,
+        liquidationStatus: 'LIQUIDATED',
+        netProceeds: running,
+        givingFundId: fund.id,
+        donorId: fund.donorId,
+        receivedAt: openedAt,
+        liquidatedAt: openedAt,
+      },
+    });
+    await prisma.fundTransaction.create({
+      data: {
+        type: 'CONTRIBUTION',
+        amount: running,
+        balanceAfter: running,
+        memo: 'Opening contribution',
+        givingFundId: fund.id,
+        contributionId: opening.id,
+        createdAt: openedAt,
+      },
+    });
+    ledgerEntries++;
+
+    for (const grant of funded) {
+      running = running.minus(grant.amount);
+      await prisma.fundTransaction.create({
+        data: {
+          type: 'GRANT_DISBURSEMENT',
+          amount: new Decimal(grant.amount).negated(),
+          balanceAfter: running,
+          givingFundId: fund.id,
+          grantId: grant.id,
+          createdAt: grant.fundedAt ?? new Date(),
+        },
+      });
+      ledgerEntries++;
+    }
+  }
+  console.log(`   Recorded ${ledgerEntries} ledger entries`);
+
+  // A gift of stock awaiting sale; it credits nothing until liquidated
+  const stockFund = allFunds[0]!;
+  await prisma.contribution.create({
+    data: {
+      assetType: 'PUBLIC_SECURITIES',
+      description: '200 shares of Vanguard Total Stock Market ETF (VTI)',
+      quantity: 200,
+      fairMarketValue: 52400,
+      valuationDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
+      givingFundId: stockFund.id,
+      donorId: stockFund.donorId,
+    },
+  });
+  console.log(`   Recorded a pending stock contribution to ${stockFund.name}`);
+
+  // A monthly tithe to a church, first run on the 1st of next month
+  const church = verifiedMinistries.find((m) => m.category === 'CHURCH')!;
+  const today = new Date();
+  const firstOfNextMonth = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1)
+  );
+  await prisma.recurringGrant.create({
+    data: {
+      amount: new Decimal(500),
+      purpose: 'Monthly tithe',
+      cadence: 'MONTHLY',
+      startDate: firstOfNextMonth,
+      nextRunDate: firstOfNextMonth,
+      givingFundId: stockFund.id,
+      ministryId: church.id,
+    },
+  });
+  console.log(`   Scheduled a monthly grant from ${stockFund.name} to ${church.name}`);
 
   // Summary
   console.log('\n✅ Seed completed successfully!\n');
   console.log('📊 Summary:');
   console.log(`   - ${createdMinistries.length} ministries (${verifiedMinistries.length} verified)`);
   console.log(`   - ${createdDonors.length} donors`);
-  console.log(`   - ${allFunds.length} giving funds`);
+  console.log(`   - ${sanctionedParties.length} demo sanctioned parties`);
+  console.log(`   - ${users.length} users (${users.map((u) => u.email).join(', ')})`);
+  console.log(`   - ${allFunds.length} giving funds (${ledgerEntries} ledger entries)`);
   console.log(`   - ${grants.length} grants`);
   console.log(
     `     • Pending: ${grants.filter((g) => g.status === 'PENDING').length}`
@@ -0,0 +1,60 @@
+/**
+ * =============================================================================
+ * Apollo Server Factory
+ * =============================================================================
+ *
+ * Builds the Apollo Server used by both deployments:
+ *   - server/src/index.ts - standalone HTTP server (local dev, Railway/Render),
+ *     see http.ts
+ *   - api/graphql.ts - Vercel serverless function
+ *
+ * Schema, resolvers, scalars, error formatting and the request context all
+ * live in this package, so the two entry points differ only in transport.
+ * test/schemaParity.test.ts checks both serve the exported SDL.
+ */
+
+import {
+  ApolloServer,
+  type ApolloServerOptionsWithTypeDefs,
+} from '@apollo/server';
+import { typeDefs } from './schema/typeDefs.js';
+import { resolvers } from './resolvers/index.js';
+import type { Context } from './context.js';
+import { formatError } from './lib/errors.js';
+
+export interface CreateApolloServerOptions {
+  /**
+   * Allow schema introspection
+   * Defaults to on outside production
+   */
+  introspection?: boolean;
+}
+
+/**
+ * Creates a configured (not yet started) Apollo Server
+ */
+export function createApolloServer(
+  options: CreateApolloServerOptions = {}
+): ApolloServer<Context> {
+  const nodeEnv = process.env['NODE_ENV'] ?? 'development';
+
+  return new ApolloServer<Context>({
+    typeDefs,
+    // Merged at runtime, so the per-domain resolver types are erased
+    resolvers: resolvers as ApolloServerOptionsWithTypeDefs<Context>['resolvers'],
+    introspection: options.introspection ?? nodeEnv !== 'production',
+    // Format errors for consistent client handling
+    // Domain errors carry extensions.code; unexpected errors are masked
+    // in production (see lib/errors.ts)
+    formatError: (formattedError, error) => {
+      // Log errors in development
+      if (nodeEnv === 'development') {
+        console.error('GraphQL Error:', error);
+      }
+
+      return formatError(formattedError, error, {
+        maskUnexpected: nodeEnv === 'production',
+      });
+    },
+  });
+}
@@ -4,21 +4,38 @@
  * =============================================================================
  *
  * Defines the context object passed to all GraphQL resolvers.
- * Contains the Prisma client instance for database operations.
- *
- * In a production application, this would also include:
- *   - Authenticated user information
- *   - Data loaders for batching/caching
- *   - Request-specific services
+ * Contains the Prisma client instance for database operations, the
+ * authenticated user (if any) for the current request, and per-request
+ * DataLoaders for batching field resolver lookups.
  */
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { authenticate, type AuthUser } from './lib/auth.js';
+import { createLoaders, type Loaders } from './lib/loaders.js';
 
 /**
  * Context interface for type-safe resolver access
  */
 export interface Context {
   prisma: PrismaClient;
+  /** Authenticated user, or null for anonymous requests */
+  user: AuthUser | null;
+  /** Batching loaders, created fresh for each request */
+  loaders: Loaders;
+}
+
+/**
+ * The Prisma client or an open transaction, for helpers that work in either
+ */
+export type Db = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Transport-agnostic request details needed to build a context.
+ * Both the standalone server and the Vercel function supply these.
+ */
+export interface ContextRequest {
+  /** Raw Authorization header value */
+  authorization?: string | undefined;
 }
 
 /**
@@ -33,14 +50,22 @@ const prisma = new PrismaClient({
 
 /**
  * Creates the context object for each GraphQL request
+ * Verifies the bearer token (if present) and attaches the user
+ * Loaders are per request so cached rows never leak between users
  */
-export function createContext(): Context {
+export async function createContext(
+  request: ContextRequest = {},
+  client: PrismaClient = prisma
+): Promise<Context> {
   return {
-    prisma,
+    prisma: client,
+    user: await authenticate(client, request.authorization),
+    loaders: createLoaders(client),
   };
 }
 
 /**
- * Export prisma client for use in seed scripts
+ * Export prisma client for use in seed scripts and the recurring grant
+ * scheduler (see index.ts)
  */
 export { prisma };
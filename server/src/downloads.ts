@@ -0,0 +1,114 @@
+/**
+ * =============================================================================
+ * Receipt Downloads
+ * =============================================================================
+ *
+ * PDF receipts are served over plain GET requests rather than GraphQL, so a
+ * browser can save them as files (see lib/receipts.ts):
+ *
+ *   GET /receipts/contributions/:id.pdf       a contribution's receipt
+ *   GET /receipts/donors/:donorId/:year.pdf   a donor's year-end summary
+ *
+ * Both take the same bearer token as the GraphQL API and follow the same
+ * access rules: donors download receipts for their own contributions and
+ * records, advisors and admins any. Failures are answered with the HTTP
+ * status matching the domain error (see sendHttpError in http.ts).
+ *
+ * The standalone server routes these paths in http.ts; on Vercel they are
+ * rewritten to api/receipts.ts.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Receipt } from '@prisma/client';
+import { createContext } from './context.js';
+import { assertAccess } from './lib/authorization.js';
+import {
+  issueAnnualSummary,
+  issueContributionReceipt,
+  type ReceiptDocument,
+} from './lib/receipts.js';
+
+const CONTRIBUTION_RECEIPT_PATH = /^\/receipts\/contributions\/(\d+)\.pdf$/;
+const ANNUAL_SUMMARY_PATH = /^\/receipts\/donors\/(\d+)\/(\d{4})\.pdf$/;
+
+/**
+ * Path a receipt is downloaded from
+ * A summary's path serves the current summary for its year
+ */
+export function receiptPath(receipt: Receipt): string {
+  return receipt.type === 'CONTRIBUTION'
+    ? `/receipts/contributions/${receipt.contributionId}.pdf`
+    : `/receipts/donors/${receipt.donorId}/${receipt.taxYear}.pdf`;
+}
+
+/**
+ * The path of a request, without its query string
+ */
+function pathOf(request: IncomingMessage): string {
+  return new URL(request.url ?? '/', 'http://localhost').pathname;
+}
+
+/**
+ * Whether a request is for a receipt download
+ */
+export function isReceiptRequest(request: IncomingMessage): boolean {
+  const path = pathOf(request);
+  return (
+    request.method?.toUpperCase() === 'GET' &&
+    (CONTRIBUTION_RECEIPT_PATH.test(path) || ANNUAL_SUMMARY_PATH.test(path))
+  );
+}
+
+/**
+ * Issues the receipt a path names, once the user may see it
+ * Returns null for paths that name no receipt
+ */
+async function renderReceipt(
+  request: IncomingMessage,
+  path: string
+): Promise<ReceiptDocument | null> {
+  const context = await createContext({ authorization: request.headers.authorization });
+
+  const contributionMatch = CONTRIBUTION_RECEIPT_PATH.exec(path);
+  if (contributionMatch) {
+    const id = Number(contributionMatch[1]);
+    await assertAccess({ requires: 'DONOR', ownsContribution: () => id }, {}, context);
+    return issueContributionReceipt(context.prisma, id);
+  }
+
+  const summaryMatch = ANNUAL_SUMMARY_PATH.exec(path);
+  if (summaryMatch) {
+    const donorId = Number(summaryMatch[1]);
+    await assertAccess({ requires: 'DONOR', ownsDonor: () => donorId }, {}, context);
+    return issueAnnualSummary(context.prisma, donorId, Number(summaryMatch[2]));
+  }
+
+  return null;
+}
+
+/**
+ * Answers a receipt download with the PDF
+ * The path defaults to the request's; errors are thrown for the caller to
+ * answer with sendHttpError
+ */
+export async function sendReceipt(
+  request: IncomingMessage,
+  response: ServerResponse,
+  path = pathOf(request)
+): Promise<void> {
+  const document = await renderReceipt(request, path);
+  if (!document) {
+    response.statusCode = 404;
+    response.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    response.end('Not found');
+    return;
+  }
+
+  response.statusCode = 200;
+  response.setHeader('Content-Type', 'application/pdf');
+  response.setHeader('Content-Length', String(document.pdf.length));
+  response.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+  // Receipts carry donor details: never store them in shared caches
+  response.setHeader('Cache-Control', 'private, no-store');
+  response.end(document.pdf);
+}
@@ -0,0 +1,248 @@
+/**
+ * =============================================================================
+ * HTTP Transport
+ * =============================================================================
+ *
+ * Serves the Apollo Server over Node's http module for the standalone
+ * deployment (see index.ts), and reads GraphQL request bodies for both
+ * deployments (api/graphql.ts uses readGraphQLBody too):
+ *   - application/json bodies
+ *   - GraphQL multipart requests, whose files reach resolvers through the
+ *     Upload scalar (e.g. importMinistries)
+ *
+ * Receipt downloads (GET /receipts/..., see downloads.ts) are answered
+ * before GraphQL.
+ *
+ * This replaces startStandaloneServer, which only reads JSON bodies; CORS
+ * and the JSON body limit match it. Browsers send multipart requests
+ * without a preflight, so Apollo's CSRF prevention only accepts them with
+ * an Apollo-Require-Preflight header.
+ *
+ * @see https://github.com/jaydenseric/graphql-multipart-request-spec
+ */
+
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { finished } from 'node:stream/promises';
+import { HeaderMap, type ApolloServer, type BaseContext } from '@apollo/server';
+import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
+import processRequest from 'graphql-upload/processRequest.mjs';
+import { isReceiptRequest, sendReceipt } from './downloads.js';
+import { DomainError, type DomainErrorCode } from './lib/errors.js';
+import { MAX_UPLOAD_BYTES } from './lib/upload.js';
+
+/** Largest JSON body accepted, as in startStandaloneServer */
+const MAX_JSON_BYTES = 50 * 1024 * 1024; // 50 MB
+
+/** HTTP status for each domain error raised outside GraphQL */
+const DOMAIN_ERROR_STATUS: Record<DomainErrorCode, number> = {
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  VALIDATION_FAILED: 400,
+  INVALID_TRANSITION: 409,
+  INSUFFICIENT_FUNDS: 409,
+  SCREENING_HOLD: 409,
+};
+
+/**
+ * A failure answered with an HTTP status instead of a GraphQL response
+ * graphql-upload's errors (http-errors) have the same shape
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface HttpServerOptions<TContext extends BaseContext> {
+  /** Port to listen on; 0 picks a free one */
+  port: number;
+  /** Builds the GraphQL context for a request */
+  context: (request: IncomingMessage) => Promise<TContext>;
+}
+
+/**
+ * Whether the request is a GraphQL multipart request (a file upload)
+ */
+export function isMultipartRequest(request: IncomingMessage): boolean {
+  return (request.headers['content-type'] ?? '')
+    .toLowerCase()
+    .startsWith('multipart/form-data');
+}
+
+/**
+ * Reads a JSON body; undefined for other content types, which Apollo rejects
+ */
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  if (!(request.headers['content-type'] ?? '').toLowerCase().includes('json')) {
+    return undefined;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_JSON_BYTES) {
+      throw new HttpError(413, 'Request body is too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Reads the body of a GraphQL request
+ * Multipart requests carry at most one file of up to MAX_UPLOAD_BYTES
+ */
+export async function readGraphQLBody(
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<unknown> {
+  if (isMultipartRequest(request)) {
+    return processRequest(request, response, {
+      maxFileSize: MAX_UPLOAD_BYTES,
+      maxFiles: 1,
+    });
+  }
+  return readJsonBody(request);
+}
+
+/**
+ * Answers a request that failed before or outside GraphQL execution
+ * Domain errors (e.g. from a receipt download) keep their meaning as a status
+ */
+export function sendHttpError(response: ServerResponse, error: unknown): void {
+  const status =
+    error instanceof DomainError
+      ? DOMAIN_ERROR_STATUS[error.code]
+      : error instanceof Error && 'status' in error && typeof error.status === 'number'
+        ? error.status
+        : 500;
+  if (status >= 500) {
+    console.error('HTTP request failed:', error);
+  }
+
+  if (response.headersSent) {
+    response.destroy();
+    return;
+  }
+  response.statusCode = status;
+  response.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  response.end(
+    status < 500 && error instanceof Error ? error.message : 'Internal server error'
+  );
+}
+
+/**
+ * Answers CORS preflight requests; returns true if the request was one
+ * Any origin is allowed, with whatever headers the browser asks for
+ */
+function handleCors(request: IncomingMessage, response: ServerResponse): boolean {
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  if (request.method !== 'OPTIONS') {
+    return false;
+  }
+
+  response.setHeader('Access-Control-Allow-Methods', 'GET,HEAD,POST,OPTIONS');
+  const requestedHeaders = request.headers['access-control-request-headers'];
+  if (requestedHeaders) {
+    response.setHeader('Access-Control-Allow-Headers', requestedHeaders);
+    response.setHeader('Vary', 'Access-Control-Request-Headers');
+  }
+  response.statusCode = 204;
+  response.setHeader('Content-Length', '0');
+  response.end();
+  return true;
+}
+
+/**
+ * Runs one HTTP request through Apollo Server
+ */
+async function handleRequest<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+  options: HttpServerOptions<TContext>,
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<void> {
+  if (handleCors(request, response)) {
+    return;
+  }
+  if (isReceiptRequest(request)) {
+    await sendReceipt(request, response);
+    return;
+  }
+
+  const body = await readGraphQLBody(request, response);
+
+  const headers = new HeaderMap();
+  for (const [key, value] of Object.entries(request.headers)) {
+    if (value !== undefined) {
+      headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+    }
+  }
+
+  const result = await server.executeHTTPGraphQLRequest({
+    httpGraphQLRequest: {
+      method: request.method?.toUpperCase() ?? 'GET',
+      headers,
+      search: new URL(request.url ?? '/', 'http://localhost').search,
+      body,
+    },
+    context: () => options.context(request),
+  });
+
+  // Answering before an upload has been read to the end breaks some clients
+  if (isMultipartRequest(request)) {
+    await finished(request).catch(() => undefined);
+  }
+
+  for (const [key, value] of result.headers) {
+    response.setHeader(key, value);
+  }
+  response.statusCode = result.status ?? 200;
+
+  if (result.body.kind === 'complete') {
+    response.end(result.body.string);
+    return;
+  }
+  for await (const chunk of result.body.asyncIterator) {
+    response.write(chunk);
+  }
+  response.end();
+}
+
+/**
+ * Starts Apollo Server and an HTTP server for it
+ * The server drains open requests when Apollo Server stops.
+ */
+export async function startHttpServer<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+  options: HttpServerOptions<TContext>
+): Promise<{ url: string }> {
+  const httpServer = http.createServer((request, response) => {
+    handleRequest(server, options, request, response).catch((error: unknown) =>
+      sendHttpError(response, error)
+    );
+  });
+
+  server.addPlugin(ApolloServerPluginDrainHttpServer({ httpServer }));
+  await server.start();
+  await new Promise<void>((resolve) => httpServer.listen(options.port, resolve));
+
+  const { port } = httpServer.address() as AddressInfo;
+  return { url: `http://localhost:${port}/` };
+}
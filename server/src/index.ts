@@ -7,16 +7,19 @@
  *
  * This server demonstrates:
  *   - Apollo Server 4 with standalone HTTP server
+ *   - File uploads via GraphQL multipart requests
  *   - Type-safe resolvers with TypeScript
  *   - Prisma ORM for PostgreSQL database access
  *   - Custom scalar types (DateTime, Decimal)
  *   - Relay-style cursor pagination
- *   - Proper error handling and validation
+ *   - Per-request DataLoader batching for field resolvers
+ *   - JWT bearer token authentication
+ *   - Typed domain errors with stable error codes
+ *   - A scheduler job that requests recurring grants as they come due
  *
  * For a production deployment, this server would be:
  *   - Deployed to Vercel as a serverless function
  *   - Or deployed to Railway/Render as a Node.js service
- *   - Protected with authentication middleware
  *   - Monitored with Apollo Studio
  *
  * @author Tom Hundley
@@ -26,11 +29,10 @@
 // Load environment variables from .env file (must be first!)
 import 'dotenv/config';
 
-import { ApolloServer } from '@apollo/server';
-import { startStandaloneServer } from '@apollo/server/standalone';
-import { typeDefs } from './schema/typeDefs.js';
-import { resolvers } from './resolvers/index.js';
-import { createContext } from './context.js';
+import { createApolloServer } from './apollo.js';
+import { createContext, prisma } from './context.js';
+import { startHttpServer } from './http.js';
+import { startRecurringGrantScheduler } from './lib/recurringGrants.js';
 
 /**
  * Server configuration
@@ -38,34 +40,30 @@ import { createContext } from './context.js';
 const PORT = parseInt(process.env['PORT'] ?? '5051', 10);
 const NODE_ENV = process.env['NODE_ENV'] ?? 'development';
 
+/** Minutes between recurring grant runs (0 turns the scheduler off) */
+const RECURRING_GRANT_INTERVAL_MINUTES = parseInt(
+  process.env['RECURRING_GRANT_INTERVAL_MINUTES'] ?? '60',
+  10
+);
+
 /**
  * Initialize and start the Apollo Server
  */
 async function startServer(): Promise<void> {
-  // Create Apollo Server instance
-  const server = new ApolloServer({
-    typeDefs,
-    resolvers,
-    // Enable introspection in development (disabled in production for security)
-    introspection: NODE_ENV !== 'production',
-    // Format errors for consistent client handling
-    formatError: (formattedError, error) => {
-      // Log errors in development
-      if (NODE_ENV === 'development') {
-        console.error('GraphQL Error:', error);
-      }
+  // Create Apollo Server instance (shared with the Vercel function)
+  const server = createApolloServer();
 
-      // Return formatted error to client
-      // In production, you might want to mask internal errors
-      return formattedError;
-    },
+  // Start the HTTP server (JSON and multipart upload requests)
+  const { url } = await startHttpServer(server, {
+    port: PORT,
+    context: async (req) =>
+      createContext({ authorization: req.headers.authorization }),
   });
 
-  // Start the standalone HTTP server
-  const { url } = await startStandaloneServer(server, {
-    listen: { port: PORT },
-    context: async () => createContext(),
-  });
+  // Request recurring grants as they come due (on Vercel a cron does this)
+  if (RECURRING_GRANT_INTERVAL_MINUTES > 0) {
+    startRecurringGrantScheduler(prisma, RECURRING_GRANT_INTERVAL_MINUTES);
+  }
 
   console.log(`
 ╔══════════════════════════════════════════════════════════════╗
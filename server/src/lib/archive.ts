@@ -0,0 +1,269 @@
+/**
+ * =============================================================================
+ * Archival
+ * =============================================================================
+ *
+ * Ministries, donors and giving funds are never deleted: the delete*
+ * mutations set archivedAt instead, so grants and ledger entries always
+ * keep the records they point to. Archived records are left out of lists
+ * unless asked for, refuse new grants and contributions, and come back
+ * unchanged with the restore* mutations.
+ *
+ * Archiving a donor archives their funds with the same timestamp; restoring
+ * the donor restores exactly those funds. Nothing with a PENDING or
+ * APPROVED grant, or a contribution awaiting liquidation, can be archived,
+ * so no open grant or unsold asset is left behind.
+ */
+
+import type { Donor, GivingFund, GrantStatus, Ministry, Prisma, PrismaClient } from '@prisma/client';
+import type { Db } from '../context.js';
+import { auditEventData } from './audit.js';
+import { lockGivingFund, lockMinistry } from './commitments.js';
+import { InvalidTransitionError, NotFoundError, ValidationError } from './errors.js';
+
+/** Grant statuses that still expect a decision or a payment */
+export const OPEN_GRANT_STATUSES: GrantStatus[] = ['PENDING', 'APPROVED'];
+
+/**
+ * Where clause for records that are not archived, or only archived ones
+ */
+export function archivedWhere(archived = false): { archivedAt: Prisma.DateTimeNullableFilter | null } {
+  return { archivedAt: archived ? { not: null } : null };
+}
+
+/**
+ * Throws unless the record's archived state allows the action
+ */
+function assertArchiveTransition(
+  entityType: string,
+  record: { id: number; archivedAt: Date | null },
+  action: string,
+  archiving: boolean
+): void {
+  if (archiving && record.archivedAt) {
+    throw new InvalidTransitionError(`${entityType} ${record.id} is already archived`, {
+      entityType,
+      currentStatus: 'ARCHIVED',
+      action,
+    });
+  }
+  if (!archiving && !record.archivedAt) {
+    throw new InvalidTransitionError(`${entityType} ${record.id} is not archived`, {
+      entityType,
+      currentStatus: 'ACTIVE',
+      action,
+    });
+  }
+}
+
+/**
+ * Throws if any grant matching `where` is still open
+ */
+async function assertNoOpenGrants(
+  prisma: Db,
+  where: Prisma.GrantWhereInput,
+  subject: string
+): Promise<void> {
+  const open = await prisma.grant.count({
+    where: { ...where, status: { in: OPEN_GRANT_STATUSES } },
+  });
+  if (open > 0) {
+    throw new ValidationError(
+      `Cannot delete ${subject} with ${open} open ${open === 1 ? 'grant' : 'grants'}. Reject or fund its PENDING and APPROVED grants first.`,
+      'id'
+    );
+  }
+}
+
+/**
+ * Throws if any contribution matching `where` is still awaiting liquidation
+ */
+async function assertNoPendingContributions(
+  prisma: Db,
+  where: Prisma.ContributionWhereInput,
+  subject: string
+): Promise<void> {
+  const pending = await prisma.contribution.count({
+    where: { ...where, liquidationStatus: 'PENDING' },
+  });
+  if (pending > 0) {
+    throw new ValidationError(
+      `Cannot delete ${subject} with ${pending} PENDING ${pending === 1 ? 'contribution' : 'contributions'}. Liquidate or cancel them first.`,
+      'id'
+    );
+  }
+}
+
+/**
+ * Archives a ministry
+ * Holds the ministry's lock, which new grants take too, so none can be
+ * created between the check and the archival
+ */
+export async function archiveMinistry(
+  prisma: PrismaClient,
+  id: number,
+  now = new Date()
+): Promise<Ministry> {
+  return prisma.$transaction(async (tx) => {
+    await lockMinistry(tx, id);
+    const ministry = await tx.ministry.findUnique({ where: { id } });
+    if (!ministry) {
+      throw new NotFoundError('Ministry', id);
+    }
+    assertArchiveTransition('Ministry', ministry, 'deleteMinistry', true);
+    await assertNoOpenGrants(tx, { ministryId: id }, 'ministry');
+
+    return tx.ministry.update({ where: { id }, data: { archivedAt: now } });
+  });
+}
+
+/**
+ * Restores an archived ministry
+ */
+export async function restoreMinistry(prisma: Db, id: number): Promise<Ministry> {
+  const ministry = await prisma.ministry.findUnique({ where: { id } });
+  if (!ministry) {
+    throw new NotFoundError('Ministry', id);
+  }
+  assertArchiveTransition('Ministry', ministry, 'restoreMinistry', false);
+  if (ministry.mergedIntoId !== null) {
+    throw new ValidationError(
+      `Ministry ${id} was merged into ministry ${ministry.mergedIntoId} and cannot be restored`,
+      'id'
+    );
+  }
+
+  return prisma.ministry.update({ where: { id }, data: { archivedAt: null } });
+}
+
+/**
+ * Archives a giving fund
+ * Holds the fund's lock, which new grants and approvals take too, so
+ * neither can land between the checks and the archival
+ */
+export async function archiveGivingFund(
+  prisma: PrismaClient,
+  id: number,
+  now = new Date()
+): Promise<GivingFund> {
+  return prisma.$transaction(async (tx) => {
+    await lockGivingFund(tx, id);
+    const fund = await tx.givingFund.findUnique({ where: { id } });
+    if (!fund) {
+      throw new NotFoundError('GivingFund', id);
+    }
+    assertArchiveTransition('GivingFund', fund, 'deleteGivingFund', true);
+    await assertNoOpenGrants(tx, { givingFundId: id }, 'giving fund');
+    await assertNoPendingContributions(tx, { givingFundId: id }, 'giving fund');
+
+    return tx.givingFund.update({ where: { id }, data: { archivedAt: now } });
+  });
+}
+
+/**
+ * Restores an archived giving fund
+ * The fund's donor must not be archived
+ */
+export async function restoreGivingFund(prisma: Db, id: number): Promise<GivingFund> {
+  const fund = await prisma.givingFund.findUnique({
+    where: { id },
+    include: { donor: true },
+  });
+  if (!fund) {
+    throw new NotFoundError('GivingFund', id);
+  }
+  assertArchiveTransition('GivingFund', fund, 'restoreGivingFund', false);
+  if (fund.donor.archivedAt) {
+    throw new ValidationError(
+      `The fund's donor (donor ${fund.donorId}) is archived; restore the donor first`,
+      'id'
+    );
+  }
+
+  return prisma.givingFund.update({ where: { id }, data: { archivedAt: null } });
+}
+
+/**
+ * Archives a donor and every fund of theirs not already archived
+ * Holds each of those funds' locks, in ID order, before the checks, as
+ * archiveGivingFund does. The funds are recorded in the audit trail under
+ * `deleteDonor`
+ */
+export async function archiveDonor(
+  prisma: PrismaClient,
+  id: number,
+  actorId: number | null,
+  now = new Date()
+): Promise<Donor> {
+  return prisma.$transaction(async (tx) => {
+    const donor = await tx.donor.findUnique({ where: { id } });
+    if (!donor) {
+      throw new NotFoundError('Donor', id);
+    }
+    assertArchiveTransition('Donor', donor, 'deleteDonor', true);
+
+    const funds = await tx.givingFund.findMany({
+      where: { donorId: id, archivedAt: null },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    });
+    for (const fund of funds) {
+      await lockGivingFund(tx, fund.id);
+    }
+    await assertNoOpenGrants(tx, { givingFund: { donorId: id } }, 'donor');
+    await assertNoPendingContributions(tx, { givingFund: { donorId: id } }, 'donor');
+
+    await tx.givingFund.updateMany({
+      where: { id: { in: funds.map((fund) => fund.id) } },
+      data: { archivedAt: now },
+    });
+    await tx.auditEvent.createMany({
+      data: funds.map((fund) =>
+        auditEventData('deleteDonor', 'GivingFund', fund.id, { archivedAt: null }, { archivedAt: now }, actorId)
+      ),
+    });
+
+    return tx.donor.update({ where: { id }, data: { archivedAt: now } });
+  });
+}
+
+/**
+ * Restores an archived donor and the funds archived along with them
+ * Funds archived on their own before stay archived
+ */
+export async function restoreDonor(
+  prisma: PrismaClient,
+  id: number,
+  actorId: number | null
+): Promise<Donor> {
+  return prisma.$transaction(async (tx) => {
+    const donor = await tx.donor.findUnique({ where: { id } });
+    if (!donor) {
+      throw new NotFoundError('Donor', id);
+    }
+    assertArchiveTransition('Donor', donor, 'restoreDonor', false);
+
+    const funds = await tx.givingFund.findMany({
+      where: { donorId: id, archivedAt: donor.archivedAt },
+      select: { id: true },
+    });
+    await tx.givingFund.updateMany({
+      where: { donorId: id, archivedAt: donor.archivedAt },
+      data: { archivedAt: null },
+    });
+    await tx.auditEvent.createMany({
+      data: funds.map((fund) =>
+        auditEventData(
+          'restoreDonor',
+          'GivingFund',
+          fund.id,
+          { archivedAt: donor.archivedAt },
+          { archivedAt: null },
+          actorId
+        )
+      ),
+    });
+
+    return tx.donor.update({ where: { id }, data: { archivedAt: null } });
+  });
+}
@@ -0,0 +1,356 @@
+/**
+ * =============================================================================
+ * Audit Trail
+ * =============================================================================
+ *
+ * Records an AuditEvent for every successful mutation.
+ *
+ * auditMutations() wraps the merged Mutation resolvers once (see
+ * resolvers/index.ts), so individual resolvers do not need to remember
+ * to log anything. For each call the hook:
+ *   1. Works out the entity the mutation targets - by default the type it
+ *      returns and its `id` argument
+ *   2. Opens a transaction and runs the mutation in it. At the mutation's
+ *      first write the hook locks the entity and loads it; the mutation has
+ *      taken its own locks by then, so the hook never takes one ahead of
+ *      them and the grant → fund → ministry lock order holds
+ *   3. Reloads the entity once the mutation returns
+ *   4. Stores only the fields that changed, with the acting user, before
+ *      the transaction commits
+ *
+ * The resolver's `context.prisma` is the open transaction; a $transaction
+ * it starts runs inside it. The change and its event commit together, so
+ * a failed audit write rolls the change back and the client can safely
+ * retry. Failed mutations are not recorded; nothing changed.
+ *
+ * A mutation that must keep some writes when it is refused (fundGrant
+ * keeps its screening results) is marked `ownTransaction`: it runs on the
+ * plain client and its event is written inside the one $transaction it
+ * opens.
+ *
+ * A mutation that also changes records other than its target (e.g.
+ * mergeMinistries) records those itself, in its own transaction, with
+ * auditEventData().
+ */
+
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { getNamedType, type GraphQLResolveInfo } from 'graphql';
+import type { Context } from '../context.js';
+import type { Resolver } from './authorization.js';
+
+type MutationArgs = Record<string, unknown>;
+type MutationResolver = Resolver<unknown, MutationArgs, unknown>;
+type Snapshot = Record<string, Prisma.JsonValue>;
+
+/**
+ * Overrides for mutations whose target cannot be inferred
+ */
+interface AuditTarget {
+  /** Do not record this mutation */
+  skip?: boolean;
+  /** Entity type, when the mutation does not return the entity */
+  entityType?: string;
+  /** Entity ID, when it is not passed as `id` */
+  entityId?: (args: MutationArgs) => unknown;
+  /** Record in the resolver's own $transaction rather than wrapping it in one */
+  ownTransaction?: boolean;
+}
+
+const MUTATION_TARGETS: Record<string, AuditTarget> = {
+  // Sign-in changes no business data and its result carries a token
+  login: { skip: true },
+  deleteMinistry: { entityType: 'Ministry' },
+  deleteDonor: { entityType: 'Donor' },
+  deleteGivingFund: { entityType: 'GivingFund' },
+  removeDonorContact: { entityType: 'DonorContact' },
+  // The import audits each ministry it creates
+  importMinistries: { skip: true },
+  addFunds: { entityId: (args) => args['fundId'] },
+  // Screening results must outlive a refused funding
+  fundGrant: { ownTransaction: true },
+  revokeVerification: { entityId: (args) => args['ministryId'] },
+  screenMinistry: { entityType: 'Ministry', entityId: (args) => args['ministryId'] },
+  mergeMinistries: { entityId: (args) => args['survivorId'] },
+  // The job audits each grant it makes and each run it skips
+  runRecurringGrants: { skip: true },
+};
+
+/**
+ * Loaders for entity snapshots, keyed by GraphQL type name
+ */
+const ENTITY_LOADERS: Partial<
+  Record<string, (prisma: Prisma.TransactionClient, id: number) => Promise<object | null>>
+> = {
+  Ministry: (prisma, id) => prisma.ministry.findUnique({ where: { id } }),
+  Donor: (prisma, id) => prisma.donor.findUnique({ where: { id } }),
+  DonorContact: (prisma, id) => prisma.donorContact.findUnique({ where: { id } }),
+  GivingFund: (prisma, id) => prisma.givingFund.findUnique({ where: { id } }),
+  FundSuccessor: (prisma, id) => prisma.fundSuccessor.findUnique({ where: { id } }),
+  FundTransfer: (prisma, id) => prisma.fundTransfer.findUnique({ where: { id } }),
+  Contribution: (prisma, id) => prisma.contribution.findUnique({ where: { id } }),
+  Grant: (prisma, id) => prisma.grant.findUnique({ where: { id } }),
+  RecurringGrant: (prisma, id) => prisma.recurringGrant.findUnique({ where: { id } }),
+  MinistryVerification: (prisma, id) =>
+    prisma.ministryVerification.findUnique({ where: { id } }),
+  ScreeningResult: (prisma, id) => prisma.screeningResult.findUnique({ where: { id } }),
+  User: (prisma, id) => prisma.user.findUnique({ where: { id } }),
+};
+
+/**
+ * Model methods that write; the first call locks and loads the target
+ */
+const WRITE_METHODS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+/**
+ * Fields never copied into the audit trail
+ */
+const IGNORED_FIELDS = new Set(['updatedAt', 'passwordHash']);
+
+function asId(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) ? value : null;
+}
+
+/**
+ * Converts a Prisma record to plain JSON (Decimals and Dates as strings)
+ */
+function toSnapshot(record: object | null): Snapshot | null {
+  if (!record) {
+    return null;
+  }
+  const snapshot = JSON.parse(JSON.stringify(record)) as Snapshot;
+  for (const field of IGNORED_FIELDS) {
+    delete snapshot[field];
+  }
+  return snapshot;
+}
+
+/**
+ * Reduces two snapshots to the fields that differ between them
+ */
+function diffSnapshots(
+  before: Snapshot | null,
+  after: Snapshot | null
+): { before: Snapshot | null; after: Snapshot | null } {
+  if (!before || !after) {
+    return { before, after };
+  }
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changedBefore[field] = from;
+      changedAfter[field] = to;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Builds the AuditEvent for a record a mutation changes besides its target
+ * Pass null as `after` for a deleted record
+ */
+export function auditEventData(
+  action: string,
+  entityType: string,
+  entityId: number,
+  before: object | null,
+  after: object | null,
+  actorId: number | null
+): Prisma.AuditEventCreateManyInput {
+  const changes = diffSnapshots(toSnapshot(before), toSnapshot(after));
+  return {
+    entityType,
+    entityId,
+    action,
+    before: changes.before ?? Prisma.DbNull,
+    after: changes.after ?? Prisma.DbNull,
+    actorId,
+  };
+}
+
+/**
+ * Locks an entity's row for the rest of the transaction, so no other
+ * writer's change lands between the snapshots
+ * The type is an ENTITY_LOADERS key, which is also its table name.
+ */
+async function lockEntity(
+  tx: Prisma.TransactionClient,
+  entityType: string,
+  id: number
+): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM ${Prisma.raw(`"${entityType}"`)} WHERE "id" = ${id} FOR UPDATE`;
+}
+
+/**
+ * A transaction client that awaits `beforeWrite` ahead of every model write
+ * Reads and raw queries (row locks) pass straight through.
+ */
+function beforeWrites(
+  tx: Prisma.TransactionClient,
+  beforeWrite: () => Promise<unknown>
+): Prisma.TransactionClient {
+  return new Proxy(tx, {
+    get(target, property) {
+      const value: unknown = Reflect.get(target, property);
+      if (typeof value === 'function') {
+        return value.bind(target);
+      }
+      // Model delegates are the non-$ object properties
+      if (
+        typeof property !== 'string' ||
+        property.startsWith('$') ||
+        !value ||
+        typeof value !== 'object'
+      ) {
+        return value;
+      }
+      const delegate = value as Record<string, unknown>;
+      return new Proxy(delegate, {
+        get(model, method) {
+          const fn: unknown = Reflect.get(model, method);
+          if (typeof fn !== 'function') {
+            return fn;
+          }
+          if (typeof method === 'string' && WRITE_METHODS.has(method)) {
+            return async (...args: unknown[]) => {
+              await beforeWrite();
+              return fn.apply(model, args);
+            };
+          }
+          return fn.bind(model);
+        },
+      });
+    },
+  });
+}
+
+/**
+ * A client whose $transaction runs its work in the already open `tx`
+ */
+function inTransaction(tx: Prisma.TransactionClient): PrismaClient {
+  return new Proxy(tx, {
+    get(target, property) {
+      if (property === '$transaction') {
+        return (work: (client: Prisma.TransactionClient) => Promise<unknown>) => work(tx);
+      }
+      const value: unknown = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  }) as unknown as PrismaClient;
+}
+
+/**
+ * A client whose $transaction records the mutation's event in the
+ * transaction it opens
+ */
+function recordingTransactions(
+  prisma: PrismaClient,
+  record: <T>(
+    tx: Prisma.TransactionClient,
+    run: (client: Prisma.TransactionClient) => Promise<T>
+  ) => Promise<T>
+): PrismaClient {
+  return new Proxy(prisma, {
+    get(target, property) {
+      if (property === '$transaction') {
+        return <T>(work: (tx: Prisma.TransactionClient) => Promise<T>) =>
+          target.$transaction((tx) => record(tx, work));
+      }
+      const value: unknown = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Wraps a single mutation resolver with audit recording
+ */
+function withAudit(name: string, resolver: MutationResolver): MutationResolver {
+  const target = MUTATION_TARGETS[name] ?? {};
+  if (target.skip) {
+    return resolver;
+  }
+
+  return async (parent, args, context: Context, info: GraphQLResolveInfo) => {
+    const entityType = target.entityType ?? getNamedType(info.returnType).name;
+    const load = ENTITY_LOADERS[entityType];
+    const targetId = asId(target.entityId ? target.entityId(args) : args['id']);
+
+    /**
+     * Runs the mutation in `tx` and writes its event there
+     */
+    const record = async <T>(
+      tx: Prisma.TransactionClient,
+      run: (client: Prisma.TransactionClient) => Promise<T>
+    ): Promise<T> => {
+      let snapshot: Promise<object | null> | undefined;
+      const loadBefore = (): Promise<object | null> =>
+        (snapshot ??=
+          load && targetId !== null
+            ? lockEntity(tx, entityType, targetId).then(() => load(tx, targetId))
+            : Promise.resolve(null));
+
+      const result = await run(beforeWrites(tx, loadBefore));
+      // A mutation that wrote nothing still gets its (unchanged) snapshot
+      const before = await loadBefore();
+
+      // Creates only learn their ID from the result
+      const entityId =
+        targetId ??
+        (result && typeof result === 'object' && 'id' in result
+          ? asId(result.id)
+          : null);
+      const after = load && entityId !== null ? await load(tx, entityId) : null;
+
+      const changes = diffSnapshots(toSnapshot(before), toSnapshot(after));
+      await tx.auditEvent.create({
+        data: {
+          entityType,
+          entityId,
+          action: name,
+          before: changes.before ?? Prisma.DbNull,
+          after: changes.after ?? Prisma.DbNull,
+          actorId: context.user?.id ?? null,
+        },
+      });
+      return result;
+    };
+
+    if (target.ownTransaction) {
+      const prisma = recordingTransactions(context.prisma, record);
+      return resolver(parent, args, { ...context, prisma }, info);
+    }
+
+    return context.prisma.$transaction((tx) =>
+      record(tx, async (client) =>
+        resolver(parent, args, { ...context, prisma: inTransaction(client) }, info)
+      )
+    );
+  };
+}
+
+/**
+ * Wraps every resolver in a Mutation map with audit recording
+ */
+export function auditMutations(
+  mutations: Record<string, MutationResolver>
+): Record<string, MutationResolver> {
+  return Object.fromEntries(
+    Object.entries(mutations).map(([name, resolver]) => [
+      name,
+      withAudit(name, resolver),
+    ])
+  );
+}
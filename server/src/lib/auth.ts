@@ -0,0 +1,244 @@
+/**
+ * =============================================================================
+ * Authentication
+ * =============================================================================
+ *
+ * Verifies bearer tokens and resolves them to API users.
+ *
+ * Two token modes are supported, selected with AUTH_MODE:
+ *   - "local" (default) - HS256 tokens signed by this server with
+ *     AUTH_JWT_SECRET and issued by the login mutation. Needs no external
+ *     identity provider, so local development and tests work offline.
+ *   - "jwks" - RS256/ES256 tokens issued by an external identity provider,
+ *     verified against AUTH_JWKS_URL. The token subject is matched to
+ *     User.externalId.
+ *
+ * In both modes the user's role is read from the database on every request,
+ * so role changes and deactivation take effect immediately.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { PrismaClient, User, UserRole } from '@prisma/client';
+import {
+  SignJWT,
+  createRemoteJWKSet,
+  jwtVerify,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
+import { UnauthenticatedError } from './errors.js';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+/**
+ * The authenticated user attached to each request context
+ */
+export interface AuthUser {
+  id: number;
+  email: string;
+  role: UserRole;
+  /** Donor record owned by this user (DONOR role) */
+  donorId: number | null;
+}
+
+type AuthMode = 'local' | 'jwks';
+
+/**
+ * Fallback signing secret for local development only
+ */
+const DEV_SECRET = 'ncf-demo-development-secret-do-not-use-in-production';
+
+const DEFAULT_TOKEN_TTL_SECONDS = 8 * 60 * 60; // 8 hours
+
+function getAuthMode(): AuthMode {
+  return process.env['AUTH_MODE'] === 'jwks' ? 'jwks' : 'local';
+}
+
+/**
+ * Returns the HS256 secret for locally-signed tokens
+ */
+function getLocalSecret(): Uint8Array {
+  const secret = process.env['AUTH_JWT_SECRET'];
+  if (!secret) {
+    if (process.env['NODE_ENV'] === 'production') {
+      throw new Error('AUTH_JWT_SECRET must be set in production');
+    }
+    return new TextEncoder().encode(DEV_SECRET);
+  }
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Remote key set for external identity provider tokens (cached per URL)
+ */
+let remoteKeySet: { url: string; keys: JWTVerifyGetKey } | null = null;
+
+function getRemoteKeySet(): JWTVerifyGetKey {
+  const url = process.env['AUTH_JWKS_URL'];
+  if (!url) {
+    throw new Error('AUTH_JWKS_URL must be set when AUTH_MODE is "jwks"');
+  }
+  if (remoteKeySet?.url !== url) {
+    remoteKeySet = { url, keys: createRemoteJWKSet(new URL(url)) };
+  }
+  return remoteKeySet.keys;
+}
+
+/**
+ * Optional issuer/audience checks shared by both modes
+ */
+function getVerifyOptions(): { issuer?: string; audience?: string } {
+  const options: { issuer?: string; audience?: string } = {};
+  const issuer = process.env['AUTH_ISSUER'];
+  const audience = process.env['AUTH_AUDIENCE'];
+  if (issuer) options.issuer = issuer;
+  if (audience) options.audience = audience;
+  return options;
+}
+
+// =============================================================================
+// PASSWORDS
+// =============================================================================
+
+/**
+ * Hashes a password with scrypt
+ * Format: scrypt$<salt hex>$<hash hex>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Verifies a password against a stored scrypt hash in constant time
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// =============================================================================
+// TOKENS
+// =============================================================================
+
+/**
+ * Issues a locally-signed access token for a user
+ * Only available in "local" mode; external providers issue their own tokens
+ */
+export async function signAccessToken(
+  user: Pick<User, 'id' | 'email' | 'role'>
+): Promise<{ token: string; expiresAt: Date }> {
+  if (getAuthMode() !== 'local') {
+    throw new Error('Tokens are issued by the external identity provider');
+  }
+
+  const ttl = parseInt(
+    process.env['AUTH_TOKEN_TTL'] ?? String(DEFAULT_TOKEN_TTL_SECONDS),
+    10
+  );
+  const expiresAt = new Date(Date.now() + ttl * 1000);
+
+  const jwt = new SignJWT({ email: user.email, role: user.role })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(String(user.id))
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000));
+
+  const { issuer, audience } = getVerifyOptions();
+  if (issuer) jwt.setIssuer(issuer);
+  if (audience) jwt.setAudience(audience);
+
+  const token = await jwt.sign(getLocalSecret());
+  return { token, expiresAt };
+}
+
+/**
+ * Verifies a token's signature and claims for the configured mode
+ */
+async function verifyToken(token: string): Promise<JWTPayload> {
+  if (getAuthMode() === 'jwks') {
+    const { payload } = await jwtVerify(token, getRemoteKeySet(), getVerifyOptions());
+    return payload;
+  }
+
+  const { payload } = await jwtVerify(token, getLocalSecret(), {
+    ...getVerifyOptions(),
+    algorithms: ['HS256'],
+  });
+  return payload;
+}
+
+/**
+ * Error returned when a bearer token is present but cannot be trusted
+ */
+function invalidTokenError(): UnauthenticatedError {
+  return new UnauthenticatedError('Invalid or expired authentication token', {
+    invalidToken: true,
+  });
+}
+
+/**
+ * Resolves the Authorization header to an API user
+ *
+ * Returns null for anonymous requests (no header). Throws UNAUTHENTICATED
+ * if a token is supplied but invalid, expired, or not linked to an active
+ * user, rather than silently treating the caller as anonymous.
+ */
+export async function authenticate(
+  prisma: PrismaClient,
+  authorization: string | undefined
+): Promise<AuthUser | null> {
+  if (!authorization) {
+    return null;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+  if (!match?.[1]) {
+    throw invalidTokenError();
+  }
+
+  let payload: JWTPayload;
+  try {
+    payload = await verifyToken(match[1]);
+  } catch {
+    throw invalidTokenError();
+  }
+  if (!payload.sub) {
+    throw invalidTokenError();
+  }
+
+  // Local tokens carry our user ID; external tokens carry the IdP subject
+  let user: User | null;
+  if (getAuthMode() === 'jwks') {
+    user = await prisma.user.findUnique({ where: { externalId: payload.sub } });
+  } else {
+    const id = parseInt(payload.sub, 10);
+    user = isNaN(id) ? null : await prisma.user.findUnique({ where: { id } });
+  }
+
+  if (!user || !user.active) {
+    throw invalidTokenError();
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    donorId: user.donorId,
+  };
+}
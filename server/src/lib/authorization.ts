@@ -0,0 +1,243 @@
+/**
+ * =============================================================================
+ * Authorization
+ * =============================================================================
+ *
+ * Declarative role and ownership checks for resolvers.
+ *
+ * Resolvers opt in by wrapping themselves with authorize():
+ *
+ *   approveGrant: authorize({ requires: 'ADVISOR' }, async (...) => { ... })
+ *   addFunds: authorize(
+ *     { requires: 'DONOR', ownsFund: (args) => args.fundId },
+ *     async (...) => { ... }
+ *   )
+ *
+ * Roles are ranked DONOR < ADVISOR < ADMIN; `requires` is a minimum.
+ * Ownership rules only constrain DONOR users - advisors and admins act on
+ * any record. Failures surface as UnauthenticatedError (no user) or
+ * ForbiddenError (not allowed) from lib/errors.ts.
+ *
+ * Routes outside GraphQL (receipt downloads, see downloads.ts) apply the
+ * same rules through assertAccess().
+ */
+
+import type { Prisma, UserRole } from '@prisma/client';
+import type { GraphQLResolveInfo } from 'graphql';
+import type { Context } from '../context.js';
+import type { AuthUser } from './auth.js';
+import { ForbiddenError, UnauthenticatedError } from './errors.js';
+
+/**
+ * Resolver signature used by the authorize() wrapper
+ */
+export type Resolver<TParent, TArgs, TResult> = (
+  parent: TParent,
+  args: TArgs,
+  context: Context,
+  info: GraphQLResolveInfo
+) => Promise<TResult> | TResult;
+
+/**
+ * Access rule for a single resolver
+ */
+export interface AccessRule<TArgs> {
+  /** Minimum role required */
+  requires: UserRole;
+  /** Donors may only act on this giving fund if they own it */
+  ownsFund?: (args: TArgs) => number | undefined;
+  /** Donors may only act on this grant if it comes from a fund they own */
+  ownsGrant?: (args: TArgs) => number | undefined;
+  /** Donors may only act on this donor record if it is their own */
+  ownsDonor?: (args: TArgs) => number | undefined;
+  /** Donors may only act on this household contact if it is on their record */
+  ownsDonorContact?: (args: TArgs) => number | undefined;
+  /** Donors may only act on this successor designation if they own its fund */
+  ownsFundSuccessor?: (args: TArgs) => number | undefined;
+  /** Donors may only act on this contribution if they gave it */
+  ownsContribution?: (args: TArgs) => number | undefined;
+  /** Donors may only act on this recurring grant if it comes from a fund they own */
+  ownsRecurringGrant?: (args: TArgs) => number | undefined;
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  DONOR: 1,
+  ADVISOR: 2,
+  ADMIN: 3,
+};
+
+/**
+ * Whether the user holds at least the given role
+ */
+export function hasRole(user: AuthUser, minimum: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * Whether the user can act on any donor's records (advisors and admins)
+ */
+export function isStaff(user: AuthUser): boolean {
+  return hasRole(user, 'ADVISOR');
+}
+
+/**
+ * Returns the signed-in user or throws UNAUTHENTICATED
+ */
+export function requireUser(context: Context): AuthUser {
+  if (!context.user) {
+    throw new UnauthenticatedError();
+  }
+  return context.user;
+}
+
+/**
+ * Restricts a giving fund query to the funds the user may see
+ */
+export function fundScope(user: AuthUser): Prisma.GivingFundWhereInput {
+  if (isStaff(user)) {
+    return {};
+  }
+  return user.donorId !== null ? { donorId: user.donorId } : { id: { in: [] } };
+}
+
+/**
+ * Restricts a grant query to grants from funds the user may see
+ */
+export function grantScope(user: AuthUser): Prisma.GrantWhereInput {
+  if (isStaff(user)) {
+    return {};
+  }
+  return { givingFund: fundScope(user) };
+}
+
+/**
+ * Restricts a donor query to the donors the user may see
+ */
+export function donorScope(user: AuthUser): Prisma.DonorWhereInput {
+  if (isStaff(user)) {
+    return {};
+  }
+  return user.donorId !== null ? { id: user.donorId } : { id: { in: [] } };
+}
+
+/**
+ * Checks ownership rules for a DONOR user
+ *
+ * Records that do not exist pass the check so the resolver can report
+ * "not found" in its usual way; the caller learns nothing they could
+ * not learn from any other ID.
+ */
+async function checkOwnership<TArgs>(
+  rule: AccessRule<TArgs>,
+  args: TArgs,
+  user: AuthUser,
+  { prisma }: Context
+): Promise<void> {
+  const donorId = rule.ownsDonor?.(args);
+  if (donorId !== undefined && donorId !== user.donorId) {
+    throw new ForbiddenError('Donors may only access their own records');
+  }
+
+  const fundId = rule.ownsFund?.(args);
+  if (fundId !== undefined) {
+    const fund = await prisma.givingFund.findUnique({
+      where: { id: fundId },
+      select: { donorId: true },
+    });
+    if (fund && fund.donorId !== user.donorId) {
+      throw new ForbiddenError('Donors may only access their own giving funds');
+    }
+  }
+
+  const grantId = rule.ownsGrant?.(args);
+  if (grantId !== undefined) {
+    const grant = await prisma.grant.findUnique({
+      where: { id: grantId },
+      select: { givingFund: { select: { donorId: true } } },
+    });
+    if (grant && grant.givingFund.donorId !== user.donorId) {
+      throw new ForbiddenError('Donors may only access grants from their own giving funds');
+    }
+  }
+
+  const contactId = rule.ownsDonorContact?.(args);
+  if (contactId !== undefined) {
+    const contact = await prisma.donorContact.findUnique({
+      where: { id: contactId },
+      select: { donorId: true },
+    });
+    if (contact && contact.donorId !== user.donorId) {
+      throw new ForbiddenError('Donors may only access their own records');
+    }
+  }
+
+  const successorId = rule.ownsFundSuccessor?.(args);
+  if (successorId !== undefined) {
+    const successor = await prisma.fundSuccessor.findUnique({
+      where: { id: successorId },
+      select: { givingFund: { select: { donorId: true } } },
+    });
+    if (successor && successor.givingFund.donorId !== user.donorId) {
+      throw new ForbiddenError('Donors may only access their own giving funds');
+    }
+  }
+
+  const contributionId = rule.ownsContribution?.(args);
+  if (contributionId !== undefined) {
+    const contribution = await prisma.contribution.findUnique({
+      where: { id: contributionId },
+      select: { donorId: true },
+    });
+    if (contribution && contribution.donorId !== user.donorId) {
+      throw new ForbiddenError('Donors may only access their own contributions');
+    }
+  }
+
+  const recurringGrantId = rule.ownsRecurringGrant?.(args);
+  if (recurringGrantId !== undefined) {
+    const schedule = await prisma.recurringGrant.findUnique({
+      where: { id: recurringGrantId },
+      select: { givingFund: { select: { donorId: true } } },
+    });
+    if (schedule && schedule.givingFund.donorId !== user.donorId) {
+      throw new ForbiddenError('Donors may only access grants from their own giving funds');
+    }
+  }
+}
+
+/**
+ * Checks a role requirement and ownership rules for the current user
+ * Returns the user; used by authorize() and by routes outside GraphQL
+ */
+export async function assertAccess<TArgs>(
+  rule: AccessRule<TArgs>,
+  args: TArgs,
+  context: Context
+): Promise<AuthUser> {
+  const user = requireUser(context);
+
+  if (!hasRole(user, rule.requires)) {
+    throw new ForbiddenError(
+      `This action requires the ${rule.requires} role or higher`
+    );
+  }
+
+  if (!isStaff(user)) {
+    await checkOwnership(rule, args, user, context);
+  }
+
+  return user;
+}
+
+/**
+ * Wraps a resolver with a role requirement and optional ownership rules
+ */
+export function authorize<TParent, TArgs, TResult>(
+  rule: AccessRule<TArgs>,
+  resolver: Resolver<TParent, TArgs, TResult>
+): Resolver<TParent, TArgs, TResult> {
+  return async (parent, args, context, info) => {
+    await assertAccess(rule, args, context);
+    return resolver(parent, args, context, info);
+  };
+}
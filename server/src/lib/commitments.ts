@@ -0,0 +1,96 @@
+/**
+ * =============================================================================
+ * Fund Commitments
+ * =============================================================================
+ *
+ * Tracks money that has been promised but not yet paid out of a giving fund.
+ *
+ * An APPROVED grant places a hold on its fund for the full grant amount.
+ * The hold is released when the grant is FUNDED (the ledger debit replaces
+ * it) or REJECTED. This gives two views of a fund:
+ *
+ *   balance          - cash in the fund, explained by the ledger
+ *   committedAmount  - sum of APPROVED grants awaiting disbursement
+ *   availableBalance - balance minus committedAmount
+ *
+ * Approving a grant that exceeds the available balance is governed by the
+ * GRANT_OVERCOMMIT_POLICY environment variable:
+ *   - "reject" (default) - approval fails
+ *   - "warn"             - approval succeeds and the grant is annotated
+ */
+
+import type { GivingFund, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+/**
+ * How approvals that would overdraw a fund are handled
+ */
+export type OvercommitPolicy = 'reject' | 'warn';
+
+export const OVERCOMMIT_POLICY: OvercommitPolicy =
+  process.env['GRANT_OVERCOMMIT_POLICY'] === 'warn' ? 'warn' : 'reject';
+
+/**
+ * Locks a giving fund row for the rest of the surrounding transaction so
+ * concurrent approvals, disbursements, new grants and archival of the same
+ * fund serialize
+ */
+export async function lockGivingFund(
+  tx: Prisma.TransactionClient,
+  givingFundId: number
+): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "GivingFund" WHERE "id" = ${givingFundId} FOR UPDATE`;
+}
+
+/**
+ * Locks a ministry row for the rest of the surrounding transaction so a
+ * new grant to it and its archival serialize
+ * Take it after the fund's.
+ */
+export async function lockMinistry(
+  tx: Prisma.TransactionClient,
+  ministryId: number
+): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "Ministry" WHERE "id" = ${ministryId} FOR UPDATE`;
+}
+
+/**
+ * Locks a grant row for the rest of the surrounding transaction so
+ * concurrent transitions of the same grant serialize
+ * Read the grant after taking the lock, and take it before the fund's.
+ */
+export async function lockGrant(
+  tx: Prisma.TransactionClient,
+  grantId: number
+): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "Grant" WHERE "id" = ${grantId} FOR UPDATE`;
+}
+
+/**
+ * Sums the holds placed on a fund by APPROVED grants
+ */
+export async function getCommittedAmount(
+  prisma: Prisma.TransactionClient,
+  givingFundId: number
+): Promise<Decimal> {
+  const result = await prisma.grant.aggregate({
+    where: {
+      givingFundId,
+      status: 'APPROVED',
+    },
+    _sum: { amount: true },
+  });
+  return new Decimal(result._sum.amount ?? 0);
+}
+
+/**
+ * Computes the balance not yet committed to approved grants.
+ * May be negative if approvals were allowed under the "warn" policy.
+ */
+export async function getAvailableBalance(
+  prisma: Prisma.TransactionClient,
+  fund: GivingFund
+): Promise<Decimal> {
+  const committed = await getCommittedAmount(prisma, fund.id);
+  return new Decimal(fund.balance).minus(committed);
+}
@@ -0,0 +1,309 @@
+/**
+ * =============================================================================
+ * Contributions
+ * =============================================================================
+ *
+ * Records assets given to giving funds and credits the funds for them.
+ *
+ * Cash is credited straight away. Other assets - stock, real estate,
+ * crypto, business interests - are recorded PENDING at their fair-market
+ * value and credit nothing until they are sold: liquidateContribution then
+ * posts the net proceeds as a CONTRIBUTION ledger entry. An asset that is
+ * declined or returned is CANCELLED and never credited.
+ *
+ *   PENDING → LIQUIDATED (fund credited with netProceeds)
+ *   PENDING → CANCELLED
+ *
+ * The fair-market value is what the donor gave (and what a receipt shows);
+ * the net proceeds are what the fund received after the sale.
+ */
+
+import type {
+  Contribution,
+  ContributionAssetType,
+  GivingFund,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { lockGivingFund } from './commitments.js';
+import { InvalidTransitionError, NotFoundError, ValidationError } from './errors.js';
+import { postFundTransaction } from './ledger.js';
+
+/**
+ * A contribution as submitted
+ */
+export interface ContributionInput {
+  givingFundId: number;
+  assetType: ContributionAssetType;
+  description?: string | null;
+  quantity?: string | number | null;
+  fairMarketValue: string | number;
+  valuationDate?: Date | null;
+  notes?: string | null;
+}
+
+/**
+ * Throws unless a fund can take new money
+ */
+export function assertFundAcceptsContributions(
+  fund: GivingFund & { donor: { active: boolean } },
+  field: string
+): void {
+  if (!fund.active || fund.archivedAt) {
+    throw new ValidationError(
+      `Cannot add funds to ${fund.archivedAt ? 'an archived' : 'an inactive'} giving fund`,
+      field
+    );
+  }
+  if (!fund.donor.active) {
+    throw new ValidationError("Cannot add funds while the fund's donor is inactive", field);
+  }
+  if (fund.closingAt) {
+    throw new ValidationError('Cannot add funds to a closing giving fund', field);
+  }
+}
+
+/**
+ * Parses a positive money amount
+ */
+function positiveAmount(value: string | number, field: string, label: string): Decimal {
+  const amount = new Decimal(value);
+  if (amount.isNegative() || amount.isZero()) {
+    throw new ValidationError(`${label} must be positive`, field);
+  }
+  return amount;
+}
+
+/**
+ * Records a cash contribution and credits the fund in the caller's transaction
+ */
+export async function creditCashContribution(
+  tx: Prisma.TransactionClient,
+  posting: {
+    givingFundId: number;
+    /** The donor giving it: whoever holds the fund now */
+    donorId: number;
+    amount: Decimal;
+    description?: string;
+    recordedById?: number | null;
+    now?: Date;
+  }
+): Promise<{ fund: GivingFund; contribution: Contribution }> {
+  const now = posting.now ?? new Date();
+  const contribution = await tx.contribution.create({
+    data: {
+      assetType: 'CASH',
+      description: posting.description ?? 'Cash contribution',
+      fairMarketValue: posting.amount,
+      valuationDate: now,
+      liquidationStatus: 'LIQUIDATED',
+      netProceeds: posting.amount,
+      givingFundId: posting.givingFundId,
+      donorId: posting.donorId,
+      recordedById: posting.recordedById ?? null,
+      receivedAt: now,
+      liquidatedAt: now,
+    },
+  });
+  const { fund } = await postFundTransaction(tx, {
+    givingFundId: posting.givingFundId,
+    type: 'CONTRIBUTION',
+    amount: posting.amount,
+    contributionId: contribution.id,
+    memo: contribution.description,
+  });
+  return { fund, contribution };
+}
+
+/**
+ * Records a contribution; cash is credited at once, other assets wait
+ * for liquidation
+ */
+export async function recordContribution(
+  prisma: PrismaClient,
+  input: ContributionInput,
+  recordedById: number | null,
+  now = new Date()
+): Promise<Contribution> {
+  const fairMarketValue = positiveAmount(
+    input.fairMarketValue,
+    'fairMarketValue',
+    'Fair-market value'
+  );
+  const description = input.description?.trim();
+  const valuationDate = input.valuationDate ?? now;
+  if (valuationDate > now) {
+    throw new ValidationError('Valuation date cannot be in the future', 'valuationDate');
+  }
+
+  let quantity: Decimal | null = null;
+  if (input.quantity !== undefined && input.quantity !== null) {
+    quantity = positiveAmount(input.quantity, 'quantity', 'Quantity');
+  }
+  if (input.assetType !== 'CASH' && !description) {
+    throw new ValidationError('Describe the asset being contributed', 'description');
+  }
+
+  // Hold the fund's lock from the check to the credit, so a closing or
+  // archival cannot commit in between
+  return prisma.$transaction(async (tx) => {
+    await lockGivingFund(tx, input.givingFundId);
+    const fund = await tx.givingFund.findUnique({
+      where: { id: input.givingFundId },
+      include: { donor: { select: { active: true } } },
+    });
+    if (!fund) {
+      throw new NotFoundError('GivingFund', input.givingFundId);
+    }
+    assertFundAcceptsContributions(fund, 'givingFundId');
+
+    if (input.assetType === 'CASH') {
+      const { contribution } = await creditCashContribution(tx, {
+        givingFundId: fund.id,
+        donorId: fund.donorId,
+        amount: fairMarketValue,
+        ...(description ? { description } : {}),
+        recordedById,
+        now,
+      });
+      return input.notes?.trim()
+        ? tx.contribution.update({
+            where: { id: contribution.id },
+            data: { notes: input.notes.trim() },
+          })
+        : contribution;
+    }
+
+    return tx.contribution.create({
+      data: {
+        assetType: input.assetType,
+        description: description!,
+        quantity,
+        fairMarketValue,
+        valuationDate,
+        notes: input.notes?.trim() || null,
+        givingFundId: fund.id,
+        donorId: fund.donorId,
+        recordedById,
+        receivedAt: now,
+      },
+    });
+  });
+}
+
+/**
+ * Locks and finds a contribution that is still awaiting liquidation
+ * The row stays locked for the rest of the transaction, so a concurrent
+ * liquidation or cancellation waits and then finds it no longer PENDING
+ */
+async function findPendingContribution(
+  tx: Prisma.TransactionClient,
+  id: number,
+  action: string
+): Promise<Contribution> {
+  await tx.$queryRaw`SELECT "id" FROM "Contribution" WHERE "id" = ${id} FOR UPDATE`;
+  const contribution = await tx.contribution.findUnique({ where: { id } });
+  if (!contribution) {
+    throw new NotFoundError('Contribution', id);
+  }
+  if (contribution.liquidationStatus !== 'PENDING') {
+    throw new InvalidTransitionError(
+      `Cannot ${action} a contribution in ${contribution.liquidationStatus} status. Only PENDING contributions can be changed.`,
+      {
+        entityType: 'Contribution',
+        currentStatus: contribution.liquidationStatus,
+        action,
+      }
+    );
+  }
+  return contribution;
+}
+
+/**
+ * Records the sale of a contributed asset and credits the fund with the
+ * net proceeds
+ */
+export async function liquidateContribution(
+  prisma: PrismaClient,
+  id: number,
+  netProceeds: string | number,
+  liquidatedAt?: Date | null,
+  now = new Date()
+): Promise<Contribution> {
+  const proceeds = positiveAmount(netProceeds, 'netProceeds', 'Net proceeds');
+  const soldAt = liquidatedAt ?? now;
+  if (soldAt > now) {
+    throw new ValidationError('Liquidation date cannot be in the future', 'liquidatedAt');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const contribution = await findPendingContribution(tx, id, 'liquidate');
+    if (soldAt < contribution.valuationDate) {
+      throw new ValidationError(
+        'Liquidation date cannot be before the valuation date',
+        'liquidatedAt'
+      );
+    }
+
+    await lockGivingFund(tx, contribution.givingFundId);
+    const fund = await tx.givingFund.findUniqueOrThrow({
+      where: { id: contribution.givingFundId },
+    });
+    if (fund.archivedAt) {
+      throw new ValidationError(
+        "The contribution's giving fund is archived; restore it first",
+        'id'
+      );
+    }
+
+    await postFundTransaction(tx, {
+      givingFundId: contribution.givingFundId,
+      type: 'CONTRIBUTION',
+      amount: proceeds,
+      contributionId: contribution.id,
+      memo: `Liquidation of ${contribution.description}`,
+    });
+
+    return tx.contribution.update({
+      where: { id },
+      data: {
+        liquidationStatus: 'LIQUIDATED',
+        netProceeds: proceeds,
+        liquidatedAt: soldAt,
+      },
+    });
+  });
+}
+
+/**
+ * Cancels a contribution that was declined or returned; nothing is credited
+ */
+export async function cancelContribution(
+  prisma: PrismaClient,
+  id: number,
+  reason: string,
+  now = new Date()
+): Promise<Contribution> {
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) {
+    throw new ValidationError('A reason is required to cancel a contribution', 'reason');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const contribution = await findPendingContribution(tx, id, 'cancel');
+    // A receipt issued while the asset was pending no longer stands
+    await tx.receipt.updateMany({
+      where: { contributionId: id, supersededAt: null },
+      data: { supersededAt: now },
+    });
+    return tx.contribution.update({
+      where: { id },
+      data: {
+        liquidationStatus: 'CANCELLED',
+        cancelledAt: now,
+        notes: `${contribution.notes ? contribution.notes + '\n' : ''}Cancelled: ${trimmedReason}`,
+      },
+    });
+  });
+}
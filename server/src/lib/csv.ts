@@ -0,0 +1,90 @@
+/**
+ * =============================================================================
+ * CSV Parsing
+ * =============================================================================
+ *
+ * Minimal RFC 4180 parsing:
+ *   - splitCsvLine: one line at a time, for the data import scripts that
+ *     stream large files. Quoted fields must not contain line breaks; the
+ *     IRS and OFAC files we read never do.
+ *   - parseCsv: a whole document, for uploads (see ministryImport.ts).
+ *     Spreadsheet exports do quote line breaks inside cells.
+ */
+
+/**
+ * Splits one CSV line, honouring double-quoted fields ("" is a literal quote)
+ */
+export function splitCsvLine(line: string, delimiter = ','): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Parses a CSV document into rows of fields
+ * Quoted fields may contain delimiters, line breaks and "" for a quote.
+ * Accepts \n and \r\n line endings and drops a leading byte-order mark.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  // The last line may lack a line break
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
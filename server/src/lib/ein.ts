@@ -0,0 +1,121 @@
+/**
+ * =============================================================================
+ * Employer Identification Numbers
+ * =============================================================================
+ *
+ * Validation and normalization for ministry EINs.
+ *
+ * An EIN is nine digits whose first two are an IRS campus prefix. Users
+ * type them with or without the dash ("581437002", "58-1437002"), so every
+ * EIN is stored in the canonical XX-XXXXXXX form. The unique index on
+ * Ministry.ein then also rejects the same number typed another way.
+ *
+ * Rows written before normalization may still hold other formats, so
+ * duplicate checks compare against every stored spelling of the number.
+ * `npm run data:normalize-eins` rewrites such rows.
+ *
+ * @see https://www.irs.gov/businesses/small-businesses-self-employed/how-eins-are-assigned-and-valid-ein-prefixes
+ */
+
+import type { Ministry, Prisma, PrismaClient } from '@prisma/client';
+import { ValidationError } from './errors.js';
+
+/**
+ * Two-digit prefixes the IRS assigns, by campus
+ * Prefixes not listed here (e.g. 00, 07-09, 17-19) are never issued
+ */
+const IRS_PREFIXES: Record<string, readonly string[]> = {
+  Andover: ['10', '12'],
+  Atlanta: ['60', '67'],
+  Austin: ['50', '53'],
+  Brookhaven: [
+    '01', '02', '03', '04', '05', '06', '11', '13', '14', '16', '21', '22',
+    '23', '25', '34', '51', '52', '54', '55', '56', '57', '58', '59', '65',
+  ],
+  Cincinnati: ['30', '32', '35', '36', '37', '38', '61'],
+  Fresno: ['15', '24'],
+  'Kansas City': ['40', '44'],
+  Memphis: ['94', '95'],
+  Ogden: ['80', '90'],
+  Philadelphia: [
+    '33', '39', '41', '42', '43', '46', '48', '62', '63', '64', '66', '68',
+    '71', '72', '73', '74', '75', '76', '77', '81', '82', '83', '84', '85',
+    '86', '87', '88', '91', '92', '93', '98', '99',
+  ],
+  Internet: [
+    '20', '26', '27', '45', '46', '47', '81', '82', '83', '84', '85', '86',
+    '87', '88', '92', '93', '99',
+  ],
+  'Small Business Administration': ['31'],
+};
+
+const VALID_PREFIXES: ReadonlySet<string> = new Set(
+  Object.values(IRS_PREFIXES).flat()
+);
+
+/**
+ * Normalizes an EIN to XX-XXXXXXX
+ * Accepts nine digits with or without the dash and surrounding spaces;
+ * throws a ValidationError on `field` for anything else
+ */
+export function normalizeEin(value: string, field = 'ein'): string {
+  const trimmed = value.trim();
+  if (!/^\d{2}-?\d{7}$/.test(trimmed)) {
+    throw new ValidationError(
+      'Invalid EIN format. Expected nine digits, e.g. XX-XXXXXXX',
+      field
+    );
+  }
+
+  const digits = trimmed.replace('-', '');
+  const prefix = digits.slice(0, 2);
+  if (!VALID_PREFIXES.has(prefix)) {
+    throw new ValidationError(
+      `Invalid EIN: ${prefix} is not a prefix the IRS assigns`,
+      field
+    );
+  }
+
+  return `${prefix}-${digits.slice(2)}`;
+}
+
+/**
+ * Every spelling of a normalized EIN that may be stored
+ */
+export function einVariants(ein: string): string[] {
+  return [ein, ein.replace('-', '')];
+}
+
+/**
+ * Finds another ministry already registered under the same EIN,
+ * in any stored format
+ */
+export async function findEinConflict(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  ein: string,
+  excludeMinistryId?: number
+): Promise<Ministry | null> {
+  return prisma.ministry.findFirst({
+    where: {
+      ein: { in: einVariants(ein) },
+      ...(excludeMinistryId !== undefined ? { NOT: { id: excludeMinistryId } } : {}),
+    },
+  });
+}
+
+/**
+ * Throws if another ministry already holds the EIN
+ */
+export async function assertEinAvailable(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  ein: string,
+  excludeMinistryId?: number
+): Promise<void> {
+  const conflict = await findEinConflict(prisma, ein, excludeMinistryId);
+  if (conflict) {
+    throw new ValidationError(
+      `EIN ${ein} is already registered to ${conflict.name} (ministry ${conflict.id})`,
+      'ein'
+    );
+  }
+}
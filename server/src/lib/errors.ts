@@ -0,0 +1,175 @@
+/**
+ * =============================================================================
+ * Domain Errors
+ * =============================================================================
+ *
+ * Typed errors for expected business failures. Each one is a GraphQLError
+ * with a stable extensions.code and structured fields, so clients can
+ * branch on the code instead of matching message text:
+ *
+ *   {
+ *     "message": "Insufficient fund balance",
+ *     "extensions": {
+ *       "code": "INSUFFICIENT_FUNDS",
+ *       "givingFundId": 3,
+ *       "available": "250.00",
+ *       "required": "1000.00"
+ *     }
+ *   }
+ *
+ * Anything else thrown by a resolver is unexpected; formatError() masks
+ * those in production so internals never reach the client.
+ */
+
+import { unwrapResolverError } from '@apollo/server/errors';
+import { GraphQLError, type GraphQLFormattedError } from 'graphql';
+import type { Decimal } from '@prisma/client/runtime/library';
+
+export type DomainErrorCode =
+  | 'NOT_FOUND'
+  | 'VALIDATION_FAILED'
+  | 'INVALID_TRANSITION'
+  | 'INSUFFICIENT_FUNDS'
+  | 'SCREENING_HOLD'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN';
+
+/**
+ * Base class for all domain errors
+ */
+export class DomainError extends GraphQLError {
+  readonly code: DomainErrorCode;
+
+  constructor(
+    code: DomainErrorCode,
+    message: string,
+    fields: Record<string, unknown> = {}
+  ) {
+    super(message, { extensions: { code, ...fields } });
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/**
+ * A record referenced by ID does not exist
+ */
+export class NotFoundError extends DomainError {
+  constructor(entityType: string, id: number) {
+    super('NOT_FOUND', `${entityType} with ID ${id} not found`, {
+      entityType,
+      id,
+    });
+  }
+}
+
+/**
+ * Input failed a business rule; `field` names the offending argument
+ */
+export class ValidationError extends DomainError {
+  constructor(message: string, field?: string) {
+    super('VALIDATION_FAILED', message, field ? { field } : {});
+  }
+}
+
+/**
+ * A workflow action is not allowed from the record's current status
+ */
+export class InvalidTransitionError extends DomainError {
+  constructor(
+    message: string,
+    details: { entityType: string; currentStatus: string; action: string }
+  ) {
+    super('INVALID_TRANSITION', message, details);
+  }
+}
+
+/**
+ * A giving fund cannot cover an amount
+ * Amounts are reported as fixed-point strings, matching the Decimal scalar
+ */
+export class InsufficientFundsError extends DomainError {
+  constructor(
+    message: string,
+    details: { givingFundId: number; available: Decimal; required: Decimal }
+  ) {
+    super('INSUFFICIENT_FUNDS', message, {
+      givingFundId: details.givingFundId,
+      available: details.available.toFixed(2),
+      required: details.required.toFixed(2),
+    });
+  }
+}
+
+/**
+ * A grant cannot be funded until sanctions screening hits are resolved
+ * `screeningResultIds` is empty when the ministry could not be screened
+ */
+export class ScreeningHoldError extends DomainError {
+  constructor(
+    message: string,
+    details: { ministryId: number; screeningResultIds: number[] }
+  ) {
+    super('SCREENING_HOLD', message, details);
+  }
+}
+
+/**
+ * The request needs a signed-in user
+ * Pass `invalidToken` when a token was supplied but could not be trusted
+ */
+export class UnauthenticatedError extends DomainError {
+  constructor(
+    message = 'You must be signed in to perform this action',
+    { invalidToken = false }: { invalidToken?: boolean } = {}
+  ) {
+    super(
+      'UNAUTHENTICATED',
+      message,
+      invalidToken ? { http: { status: 401 } } : {}
+    );
+  }
+}
+
+/**
+ * The signed-in user may not perform this action
+ */
+export class ForbiddenError extends DomainError {
+  constructor(message = 'You do not have permission to perform this action') {
+    super('FORBIDDEN', message);
+  }
+}
+
+/**
+ * Apollo Server formatError hook
+ *
+ * Domain errors and GraphQL's own errors (parse, validation, bad input)
+ * pass through unchanged. Unexpected errors - bugs, database failures -
+ * are replaced with a generic INTERNAL_SERVER_ERROR when `maskUnexpected`
+ * is set, and logged server-side in full.
+ */
+export function formatError(
+  formattedError: GraphQLFormattedError,
+  error: unknown,
+  { maskUnexpected }: { maskUnexpected: boolean }
+): GraphQLFormattedError {
+  const original = unwrapResolverError(error);
+  const expected =
+    original instanceof GraphQLError ||
+    formattedError.extensions?.['code'] !== 'INTERNAL_SERVER_ERROR';
+
+  if (expected) {
+    return formattedError;
+  }
+
+  console.error('Unexpected GraphQL error:', original);
+  if (!maskUnexpected) {
+    return formattedError;
+  }
+
+  return {
+    message: 'Internal server error',
+    extensions: { code: 'INTERNAL_SERVER_ERROR' },
+    ...(formattedError.path ? { path: formattedError.path } : {}),
+  };
+}
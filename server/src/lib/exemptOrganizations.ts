@@ -0,0 +1,223 @@
+/**
+ * =============================================================================
+ * IRS Exempt Organizations
+ * =============================================================================
+ *
+ * Matching ministries against the IRS exempt-organization lists imported by
+ * scripts/import-irs-exempt-orgs.ts (Business Master File and Publication 78).
+ *
+ * A match is a suggestion for the advisor calling verifyMinistry, never an
+ * automatic verification:
+ *   - Ministries with an EIN are matched on it, then the IRS record is
+ *     compared by name, location and deductibility
+ *   - Ministries without one are matched on normalized name within their
+ *     state, which is at best MEDIUM confidence
+ */
+
+import type { ExemptOrganization, Ministry, VerificationMethod } from '@prisma/client';
+import type { Db } from '../context.js';
+
+export type ExemptOrganizationMatchType = 'EIN' | 'NAME_AND_STATE';
+export type LocationMatch = 'CITY_AND_STATE' | 'STATE' | 'NONE' | 'UNKNOWN';
+export type MatchConfidence = 'HIGH' | 'MEDIUM' | 'LOW';
+
+/**
+ * A suggested IRS record for a ministry, with how well it agrees
+ */
+export interface ExemptOrganizationMatch {
+  organization: ExemptOrganization;
+  matchedBy: ExemptOrganizationMatchType;
+  /** 0-1, from the normalized names */
+  nameSimilarity: number;
+  locationMatch: LocationMatch;
+  deductible: boolean | null;
+  confidence: MatchConfidence;
+  /** Method to record if the advisor accepts the match */
+  suggestedMethod: VerificationMethod | null;
+  /** Disagreements the advisor should check */
+  warnings: string[];
+}
+
+/** Names at least this similar are treated as the same organization */
+const SIMILAR_NAME_THRESHOLD = 0.8;
+/** Names below this are treated as different organizations */
+const DISSIMILAR_NAME_THRESHOLD = 0.5;
+
+/**
+ * Words that carry no identity in an organization name
+ */
+const IGNORED_NAME_WORDS: ReadonlySet<string> = new Set([
+  'THE', 'INC', 'INCORPORATED', 'CORP', 'CORPORATION', 'CO', 'LLC', 'LTD',
+  'NFP', 'OF',
+]);
+
+/**
+ * Normalizes an organization name for comparison and lookup
+ * Uppercase, "&" as AND, punctuation and legal suffixes removed
+ */
+export function normalizeOrganizationName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/['’]/g, '')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word) => word.length > 0 && !IGNORED_NAME_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Character bigrams of a normalized name, ignoring spaces
+ */
+function bigrams(value: string): Map<string, number> {
+  const compact = value.replace(/ /g, '');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Similarity of two organization names from 0 (unrelated) to 1 (same)
+ * Dice coefficient over character bigrams of the normalized names
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeOrganizationName(a);
+  const right = normalizeOrganizationName(b);
+  if (left === right) {
+    return 1;
+  }
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let total = 0;
+  let shared = 0;
+  for (const [pair, count] of leftPairs) {
+    total += count;
+    shared += Math.min(count, rightPairs.get(pair) ?? 0);
+  }
+  for (const count of rightPairs.values()) {
+    total += count;
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Whether contributions to the organization are tax-deductible
+ * The BMF code decides when present (1 deductible, 4 by treaty, 2 not);
+ * otherwise a Pub 78 listing means deductible. Null when unknown.
+ */
+export function isDeductible(organization: ExemptOrganization): boolean | null {
+  if (organization.deductibilityCode) {
+    return organization.deductibilityCode === '1' || organization.deductibilityCode === '4';
+  }
+  return organization.pub78ImportedAt ? true : null;
+}
+
+/**
+ * Compares a ministry's location with the IRS record
+ */
+function compareLocation(ministry: Ministry, organization: ExemptOrganization): LocationMatch {
+  const same = (a: string | null, b: string | null) =>
+    !!a && !!b && a.trim().toUpperCase() === b.trim().toUpperCase();
+
+  if (!ministry.state || !organization.state) {
+    return 'UNKNOWN';
+  }
+  if (!same(ministry.state, organization.state)) {
+    return 'NONE';
+  }
+  return same(ministry.city, organization.city) ? 'CITY_AND_STATE' : 'STATE';
+}
+
+/**
+ * Scores an IRS record against a ministry
+ */
+export function scoreExemptOrganizationMatch(
+  ministry: Ministry,
+  organization: ExemptOrganization,
+  matchedBy: ExemptOrganizationMatchType
+): ExemptOrganizationMatch {
+  const similarity = nameSimilarity(ministry.name, organization.name);
+  const locationMatch = compareLocation(ministry, organization);
+  const deductible = isDeductible(organization);
+  const warnings: string[] = [];
+
+  if (matchedBy === 'NAME_AND_STATE') {
+    warnings.push('Matched by name; the ministry has no EIN on file');
+  }
+  if (similarity < SIMILAR_NAME_THRESHOLD) {
+    warnings.push(`IRS name "${organization.name}" differs from the ministry name`);
+  }
+  if (locationMatch === 'NONE') {
+    warnings.push(
+      `IRS lists ${[organization.city, organization.state].filter(Boolean).join(', ')}`
+    );
+  }
+  if (deductible === false) {
+    warnings.push('IRS lists contributions as not tax-deductible');
+  }
+  if (!organization.pub78ImportedAt) {
+    warnings.push('Not listed in Publication 78');
+  }
+
+  let confidence: MatchConfidence = 'MEDIUM';
+  if (similarity < DISSIMILAR_NAME_THRESHOLD || deductible === false) {
+    confidence = 'LOW';
+  } else if (matchedBy === 'NAME_AND_STATE') {
+    // Without an EIN, only an exact name in the same city is worth a look
+    confidence = locationMatch === 'CITY_AND_STATE' ? 'MEDIUM' : 'LOW';
+  } else if (
+    similarity >= SIMILAR_NAME_THRESHOLD &&
+    locationMatch !== 'NONE' &&
+    deductible !== null
+  ) {
+    confidence = 'HIGH';
+  }
+
+  return {
+    organization,
+    matchedBy,
+    nameSimilarity: Math.round(similarity * 100) / 100,
+    locationMatch,
+    deductible,
+    confidence,
+    suggestedMethod: organization.pub78ImportedAt ? 'IRS_PUB78' : null,
+    warnings,
+  };
+}
+
+/**
+ * Suggests the IRS record for a ministry
+ * `byEin` looks an EIN up (pass a loader to batch); null when nothing matches
+ */
+export async function findExemptOrganizationMatch(
+  prisma: Db,
+  ministry: Ministry,
+  byEin: (ein: string) => Promise<ExemptOrganization | null>
+): Promise<ExemptOrganizationMatch | null> {
+  if (ministry.ein) {
+    const organization = await byEin(ministry.ein);
+    return organization ? scoreExemptOrganizationMatch(ministry, organization, 'EIN') : null;
+  }
+
+  if (!ministry.state) {
+    return null;
+  }
+  const candidates = await prisma.exemptOrganization.findMany({
+    where: {
+      state: ministry.state.trim().toUpperCase(),
+      normalizedName: normalizeOrganizationName(ministry.name),
+    },
+    orderBy: { id: 'asc' },
+    take: 10,
+  });
+
+  // Prefer the candidate in the ministry's city
+  const matches = candidates
+    .map((organization) => scoreExemptOrganizationMatch(ministry, organization, 'NAME_AND_STATE'))
+    .sort((a, b) => Number(b.confidence === 'MEDIUM') - Number(a.confidence === 'MEDIUM'));
+  return matches[0] ?? null;
+}
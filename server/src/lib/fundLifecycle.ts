@@ -0,0 +1,365 @@
+/**
+ * =============================================================================
+ * Giving Fund Lifecycle
+ * =============================================================================
+ *
+ * Closing a fund, handing it to another donor, and naming successors.
+ *
+ * A fund with contributions still awaiting liquidation cannot close. It
+ * closes straight away when its balance is zero and no grant is PENDING or
+ * APPROVED, and starts closing without a plan when its open grants already
+ * pay out the whole balance. Otherwise it needs a final-grant plan: PENDING
+ * grants that, with the grants already open, pay out the whole balance.
+ * The fund is then closing - it takes no new money or grant requests - and
+ * closes when the last of its grants is funded with nothing left in it
+ * (see syncFundClosure). If a final grant is rejected, or a reversal puts
+ * money back into a closed fund, closeGivingFund plans the remainder.
+ *
+ * Successors are donors named to inherit the fund in order of position.
+ * transferGivingFund hands the fund to any active donor, and records the
+ * succession when that donor was a named successor.
+ */
+
+import type { FundSuccessor, GivingFund, Grant, PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import type { Db } from '../context.js';
+import { OPEN_GRANT_STATUSES } from './archive.js';
+import { auditEventData } from './audit.js';
+import { lockGivingFund, lockMinistry } from './commitments.js';
+import { InvalidTransitionError, NotFoundError, ValidationError } from './errors.js';
+import { findGrantableFund, findGrantableMinistry } from './verification.js';
+
+/** Most final grants in one plan */
+const MAX_FINAL_GRANTS = 20;
+
+/**
+ * One grant of a final-grant plan
+ */
+export interface FinalGrantInput {
+  ministryId: number;
+  amount: string | number;
+  purpose?: string | null;
+}
+
+/**
+ * Throws unless the fund can still change hands or start closing
+ */
+function assertFundOpen(fund: GivingFund, action: string): void {
+  if (fund.archivedAt) {
+    throw new ValidationError(`Giving fund ${fund.id} is archived; restore it first`, 'id');
+  }
+  if (fund.closedAt) {
+    throw new InvalidTransitionError(`Giving fund ${fund.id} is closed`, {
+      entityType: 'GivingFund',
+      currentStatus: 'CLOSED',
+      action,
+    });
+  }
+}
+
+/**
+ * Sums the grants on a fund that are still PENDING or APPROVED
+ */
+async function openGrantTotal(
+  prisma: Db,
+  givingFundId: number
+): Promise<{ count: number; amount: Decimal }> {
+  const result = await prisma.grant.aggregate({
+    where: { givingFundId, status: { in: OPEN_GRANT_STATUSES } },
+    _count: true,
+    _sum: { amount: true },
+  });
+  return { count: result._count, amount: new Decimal(result._sum.amount ?? 0) };
+}
+
+/**
+ * Closes a fund, or starts closing it with a final-grant plan
+ * Returns the fund, closed or closing
+ */
+export async function closeGivingFund(
+  prisma: PrismaClient,
+  id: number,
+  finalGrants: FinalGrantInput[],
+  actorId: number | null,
+  now = new Date()
+): Promise<GivingFund> {
+  if (finalGrants.length > MAX_FINAL_GRANTS) {
+    throw new ValidationError(
+      `A final-grant plan can have at most ${MAX_FINAL_GRANTS} grants`,
+      'finalGrants'
+    );
+  }
+  const amounts = finalGrants.map((grant) => new Decimal(grant.amount));
+  if (amounts.some((amount) => amount.isNegative() || amount.isZero())) {
+    throw new ValidationError('Final grant amounts must be positive', 'finalGrants');
+  }
+  const planned = amounts.reduce((total, amount) => total.add(amount), new Decimal(0));
+
+  return prisma.$transaction(async (tx) => {
+    await lockGivingFund(tx, id);
+    const fund = await tx.givingFund.findUnique({ where: { id } });
+    if (!fund) {
+      throw new NotFoundError('GivingFund', id);
+    }
+    assertFundOpen(fund, 'closeGivingFund');
+
+    const pending = await tx.contribution.count({
+      where: { givingFundId: id, liquidationStatus: 'PENDING' },
+    });
+    if (pending > 0) {
+      throw new ValidationError(
+        `The fund has ${pending} PENDING ${pending === 1 ? 'contribution' : 'contributions'}. Liquidate or cancel them before closing.`,
+        'id'
+      );
+    }
+
+    const balance = new Decimal(fund.balance);
+    const open = await openGrantTotal(tx, id);
+
+    if (finalGrants.length === 0) {
+      // The open grants already pay out the whole balance: the fund closes
+      // once they are funded
+      if (!balance.isZero() && open.count > 0 && balance.equals(open.amount)) {
+        return tx.givingFund.update({
+          where: { id },
+          data: { closingAt: fund.closingAt ?? now },
+        });
+      }
+      if (!balance.isZero()) {
+        throw new ValidationError(
+          `The fund still holds $${balance.toFixed(2)}. Pay it out with finalGrants before closing.`,
+          'finalGrants'
+        );
+      }
+      if (open.count > 0) {
+        throw new ValidationError(
+          `The fund has ${open.count} open ${open.count === 1 ? 'grant' : 'grants'}. Fund or reject them before closing.`,
+          'id'
+        );
+      }
+      return tx.givingFund.update({
+        where: { id },
+        data: { active: false, closingAt: fund.closingAt ?? now, closedAt: now },
+      });
+    }
+
+    await findGrantableFund(tx, id, 'id', { finalGrant: true });
+
+    // The plan and the grants already open must pay out exactly the balance
+    const remaining = balance.minus(open.amount);
+    if (!planned.equals(remaining)) {
+      throw new ValidationError(
+        `Final grants must total the balance not already granted. Remaining: $${remaining.toFixed(2)}, Planned: $${planned.toFixed(2)}`,
+        'finalGrants'
+      );
+    }
+
+    // Lock the ministries in ID order so concurrent closings cannot deadlock
+    const ministryIds = [...new Set(finalGrants.map((input) => input.ministryId))];
+    for (const ministryId of ministryIds.sort((a, b) => a - b)) {
+      await lockMinistry(tx, ministryId);
+    }
+
+    const grants: Grant[] = [];
+    for (const [index, input] of finalGrants.entries()) {
+      await findGrantableMinistry(tx, input.ministryId, 'finalGrants', now);
+      grants.push(
+        await tx.grant.create({
+          data: {
+            amount: amounts[index]!,
+            purpose: input.purpose?.trim() || 'Final grant',
+            notes: 'Final grant on closing the fund',
+            status: 'PENDING',
+            givingFundId: id,
+            ministryId: input.ministryId,
+          },
+        })
+      );
+    }
+    await tx.auditEvent.createMany({
+      data: grants.map((grant) =>
+        auditEventData('closeGivingFund', 'Grant', grant.id, null, grant, actorId)
+      ),
+    });
+
+    return tx.givingFund.update({
+      where: { id },
+      data: { closingAt: fund.closingAt ?? now },
+    });
+  });
+}
+
+/**
+ * Keeps a closing fund's closedAt in step with its balance and grants
+ * Closes it once it is empty with no open grants, and reopens it (still
+ * closing) when a reversal puts money back. Call inside the transaction
+ * that settles or reverses one of the fund's grants.
+ */
+export async function syncFundClosure(
+  prisma: Db,
+  givingFundId: number,
+  now = new Date()
+): Promise<void> {
+  const fund = await prisma.givingFund.findUnique({ where: { id: givingFundId } });
+  if (!fund?.closingAt) {
+    return;
+  }
+  const empty = new Decimal(fund.balance).isZero();
+  if (fund.closedAt) {
+    if (!empty) {
+      await prisma.givingFund.update({
+        where: { id: givingFundId },
+        data: { closedAt: null },
+      });
+    }
+    return;
+  }
+  const open = await openGrantTotal(prisma, givingFundId);
+  if (empty && open.count === 0) {
+    await prisma.givingFund.update({
+      where: { id: givingFundId },
+      data: { active: false, closedAt: now },
+    });
+  }
+}
+
+/**
+ * Hands a fund to another donor
+ * A matching successor designation is marked succeeded
+ */
+export async function transferGivingFund(
+  prisma: PrismaClient,
+  id: number,
+  toDonorId: number,
+  actorId: number | null,
+  now = new Date()
+): Promise<GivingFund> {
+  return prisma.$transaction(async (tx) => {
+    await lockGivingFund(tx, id);
+    const fund = await tx.givingFund.findUnique({ where: { id } });
+    if (!fund) {
+      throw new NotFoundError('GivingFund', id);
+    }
+    assertFundOpen(fund, 'transferGivingFund');
+    if (fund.donorId === toDonorId) {
+      throw new ValidationError('The fund already belongs to this donor', 'toDonorId');
+    }
+
+    const donor = await tx.donor.findUnique({ where: { id: toDonorId } });
+    if (!donor) {
+      throw new NotFoundError('Donor', toDonorId);
+    }
+    if (donor.archivedAt || !donor.active) {
+      throw new ValidationError(
+        `Cannot transfer a fund to ${donor.archivedAt ? 'an archived' : 'an inactive'} donor`,
+        'toDonorId'
+      );
+    }
+
+    const designations = await tx.fundSuccessor.findMany({
+      where: { givingFundId: id, donorId: toDonorId, revokedAt: null, succeededAt: null },
+    });
+    for (const designation of designations) {
+      const succeeded = await tx.fundSuccessor.update({
+        where: { id: designation.id },
+        data: { succeededAt: now },
+      });
+      await tx.auditEvent.create({
+        data: auditEventData(
+          'transferGivingFund',
+          'FundSuccessor',
+          designation.id,
+          designation,
+          succeeded,
+          actorId
+        ),
+      });
+    }
+
+    return tx.givingFund.update({ where: { id }, data: { donorId: toDonorId } });
+  });
+}
+
+/**
+ * Names a donor to inherit a fund
+ * Without a position the successor goes to the end of the line. The fund
+ * stays locked while the line is read, so concurrent additions cannot take
+ * the same place.
+ */
+export async function addFundSuccessor(
+  prisma: PrismaClient,
+  givingFundId: number,
+  donorId: number,
+  position: number | undefined,
+  designatedById: number | null
+): Promise<FundSuccessor> {
+  if (position !== undefined && (!Number.isInteger(position) || position < 1)) {
+    throw new ValidationError('Position must be 1 or more', 'position');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await lockGivingFund(tx, givingFundId);
+    const fund = await tx.givingFund.findUnique({ where: { id: givingFundId } });
+    if (!fund) {
+      throw new NotFoundError('GivingFund', givingFundId);
+    }
+    assertFundOpen(fund, 'addFundSuccessor');
+    if (fund.donorId === donorId) {
+      throw new ValidationError('The fund owner cannot be their own successor', 'donorId');
+    }
+    const donor = await tx.donor.findUnique({ where: { id: donorId } });
+    if (!donor) {
+      throw new NotFoundError('Donor', donorId);
+    }
+    // transferGivingFund would refuse them when the time comes
+    if (donor.archivedAt || !donor.active) {
+      throw new ValidationError(
+        `Cannot name ${donor.archivedAt ? 'an archived' : 'an inactive'} donor as successor`,
+        'donorId'
+      );
+    }
+
+    const current = await tx.fundSuccessor.findMany({
+      where: { givingFundId, revokedAt: null, succeededAt: null },
+    });
+    if (current.some((successor) => successor.donorId === donorId)) {
+      throw new ValidationError('This donor is already a successor for the fund', 'donorId');
+    }
+    const last = Math.max(0, ...current.map((successor) => successor.position));
+
+    return tx.fundSuccessor.create({
+      data: {
+        givingFundId,
+        donorId,
+        position: position ?? last + 1,
+        designatedById,
+      },
+    });
+  });
+}
+
+/**
+ * Revokes a successor designation; the record is kept
+ */
+export async function revokeFundSuccessor(
+  prisma: Db,
+  id: number,
+  now = new Date()
+): Promise<FundSuccessor> {
+  const successor = await prisma.fundSuccessor.findUnique({ where: { id } });
+  if (!successor) {
+    throw new NotFoundError('FundSuccessor', id);
+  }
+  if (successor.revokedAt || successor.succeededAt) {
+    throw new InvalidTransitionError(
+      `Successor designation ${id} is already ${successor.revokedAt ? 'revoked' : 'succeeded'}`,
+      {
+        entityType: 'FundSuccessor',
+        currentStatus: successor.revokedAt ? 'REVOKED' : 'SUCCEEDED',
+        action: 'removeFundSuccessor',
+      }
+    );
+  }
+
+  return prisma.fundSuccessor.update({ where: { id }, data: { revokedAt: now } });
+}
@@ -0,0 +1,153 @@
+/**
+ * =============================================================================
+ * Fund Transfers
+ * =============================================================================
+ *
+ * Moves money from one giving fund to another without a grant.
+ *
+ * A transfer is recorded as a FundTransfer row and posted to the ledger as
+ * two entries in the same database transaction: a TRANSFER_OUT debit on the
+ * source fund and a TRANSFER_IN credit on the destination. Both entries point
+ * back at the transfer, so reports can pair the legs.
+ *
+ * Rules:
+ *   - Both funds must take new money: not archived, inactive or closing,
+ *     with an active donor
+ *   - The amount may not exceed the source fund's available balance
+ *     (balance less the holds of APPROVED grants)
+ *   - Funds of different donors need an ADMIN
+ */
+
+import type { FundTransfer, GivingFund, PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import type { AuthUser } from './auth.js';
+import { hasRole } from './authorization.js';
+import { getAvailableBalance, lockGivingFund } from './commitments.js';
+import {
+  ForbiddenError,
+  InsufficientFundsError,
+  NotFoundError,
+  ValidationError,
+} from './errors.js';
+import { postFundTransaction } from './ledger.js';
+
+/**
+ * A requested transfer
+ */
+export interface FundTransferInput {
+  fromFundId: number;
+  toFundId: number;
+  amount: string | number;
+  memo?: string | null;
+}
+
+/**
+ * Throws unless a fund can send or receive a transfer
+ */
+function assertTransferable(
+  fund: GivingFund & { donor: { active: boolean } },
+  field: string
+): void {
+  const reason = fund.archivedAt
+    ? 'an archived'
+    : fund.closingAt
+      ? 'a closing'
+      : !fund.active
+        ? 'an inactive'
+        : null;
+  if (reason) {
+    throw new ValidationError(`Cannot transfer with ${reason} giving fund`, field);
+  }
+  if (!fund.donor.active) {
+    throw new ValidationError(
+      "Cannot transfer while the fund's donor is inactive",
+      field
+    );
+  }
+}
+
+/**
+ * Transfers money between two giving funds
+ * Returns the transfer; its ledger legs are linked through transferId
+ */
+export async function transferBetweenFunds(
+  prisma: PrismaClient,
+  input: FundTransferInput,
+  user: AuthUser
+): Promise<FundTransfer> {
+  const amount = new Decimal(input.amount);
+  if (amount.isNegative() || amount.isZero()) {
+    throw new ValidationError('Transfer amount must be positive', 'amount');
+  }
+  if (input.fromFundId === input.toFundId) {
+    throw new ValidationError('Cannot transfer a fund to itself', 'toFundId');
+  }
+  const memo = input.memo?.trim() || null;
+
+  return prisma.$transaction(async (tx) => {
+    // Lock in ID order so opposite transfers cannot deadlock
+    for (const id of [input.fromFundId, input.toFundId].sort((a, b) => a - b)) {
+      await lockGivingFund(tx, id);
+    }
+
+    const [from, to] = await Promise.all(
+      [input.fromFundId, input.toFundId].map((id) =>
+        tx.givingFund.findUnique({
+          where: { id },
+          include: { donor: { select: { active: true } } },
+        })
+      )
+    );
+    if (!from) {
+      throw new NotFoundError('GivingFund', input.fromFundId);
+    }
+    if (!to) {
+      throw new NotFoundError('GivingFund', input.toFundId);
+    }
+
+    // Only admins move money between donors
+    if (from.donorId !== to.donorId && !hasRole(user, 'ADMIN')) {
+      throw new ForbiddenError(
+        "Transfers to another donor's giving fund require the ADMIN role"
+      );
+    }
+
+    assertTransferable(from, 'fromFundId');
+    assertTransferable(to, 'toFundId');
+
+    const available = await getAvailableBalance(tx, from);
+    if (available.lessThan(amount)) {
+      throw new InsufficientFundsError(
+        `Insufficient available balance. Available: $${available.toFixed(2)}, Required: $${amount.toFixed(2)}`,
+        { givingFundId: from.id, available, required: amount }
+      );
+    }
+
+    const transfer = await tx.fundTransfer.create({
+      data: {
+        amount,
+        memo,
+        fromFundId: from.id,
+        toFundId: to.id,
+        createdById: user.id,
+      },
+    });
+
+    await postFundTransaction(tx, {
+      givingFundId: from.id,
+      type: 'TRANSFER_OUT',
+      amount: amount.negated(),
+      transferId: transfer.id,
+      memo: memo ?? `Transfer to ${to.name}`,
+    });
+    await postFundTransaction(tx, {
+      givingFundId: to.id,
+      type: 'TRANSFER_IN',
+      amount,
+      transferId: transfer.id,
+      memo: memo ?? `Transfer from ${from.name}`,
+    });
+
+    return transfer;
+  });
+}
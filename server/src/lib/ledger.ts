@@ -0,0 +1,117 @@
+/**
+ * =============================================================================
+ * Fund Ledger
+ * =============================================================================
+ *
+ * Every change to a GivingFund balance goes through this module so that the
+ * balance column and the FundTransaction ledger can never disagree.
+ *
+ * Usage rules:
+ *   - Always call from inside a prisma.$transaction callback
+ *   - Pass signed amounts: positive credits, negative debits
+ *   - Never update GivingFund.balance directly from a resolver
+ *
+ * The ledger is append-only. Corrections are recorded as new ADJUSTMENT or
+ * REVERSAL entries rather than edits to existing rows.
+ */
+
+import type {
+  FundTransaction,
+  FundTransactionType,
+  GivingFund,
+  Prisma,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+/**
+ * A single ledger posting against a giving fund
+ */
+export interface LedgerPosting {
+  givingFundId: number;
+  type: FundTransactionType;
+  /** Signed amount: positive for credits, negative for debits */
+  amount: Decimal;
+  grantId?: number;
+  /** Set on both legs of a fund-to-fund transfer */
+  transferId?: number;
+  /** Set on the credit for a contribution */
+  contributionId?: number;
+  memo?: string;
+}
+
+/**
+ * Applies a posting to a fund balance and records the matching ledger entry.
+ * Both writes use the caller's transaction client, so they commit or roll
+ * back together.
+ */
+export async function postFundTransaction(
+  tx: Prisma.TransactionClient,
+  posting: LedgerPosting
+): Promise<{ fund: GivingFund; transaction: FundTransaction }> {
+  const fund = await tx.givingFund.update({
+    where: { id: posting.givingFundId },
+    data: {
+      balance: {
+        increment: posting.amount,
+      },
+    },
+  });
+
+  const transaction = await tx.fundTransaction.create({
+    data: {
+      type: posting.type,
+      amount: posting.amount,
+      balanceAfter: fund.balance,
+      memo: posting.memo ?? null,
+      givingFundId: posting.givingFundId,
+      grantId: posting.grantId ?? null,
+      transferId: posting.transferId ?? null,
+      contributionId: posting.contributionId ?? null,
+    },
+  });
+
+  return { fund, transaction };
+}
+
+/**
+ * Result of recomputing a fund balance from its ledger
+ */
+export interface FundReconciliation {
+  fundId: number;
+  recordedBalance: Decimal;
+  ledgerBalance: Decimal;
+  drift: Decimal;
+  transactionCount: number;
+  balanced: boolean;
+  reconciledAt: Date;
+}
+
+/**
+ * Recomputes a fund balance from the sum of its ledger entries and compares
+ * it to the stored balance. A non-zero drift means the balance was changed
+ * outside the ledger.
+ */
+export async function reconcileFundBalance(
+  prisma: Prisma.TransactionClient,
+  fund: GivingFund
+): Promise<FundReconciliation> {
+  const ledger = await prisma.fundTransaction.aggregate({
+    where: { givingFundId: fund.id },
+    _sum: { amount: true },
+    _count: true,
+  });
+
+  const recordedBalance = new Decimal(fund.balance);
+  const ledgerBalance = new Decimal(ledger._sum.amount ?? 0);
+  const drift = recordedBalance.minus(ledgerBalance);
+
+  return {
+    fundId: fund.id,
+    recordedBalance,
+    ledgerBalance,
+    drift,
+    transactionCount: ledger._count,
+    balanced: drift.isZero(),
+    reconciledAt: new Date(),
+  };
+}
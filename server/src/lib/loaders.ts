@@ -0,0 +1,192 @@
+/**
+ * =============================================================================
+ * DataLoaders
+ * =============================================================================
+ *
+ * Per-request batching for field resolvers.
+ *
+ * Without batching, a list of N grants resolving `givingFund` and `ministry`
+ * issues 2N extra queries. Each loader here collects the keys requested
+ * during one tick and answers them with a single `findMany` or `groupBy`,
+ * so the query count stays constant however long the list is.
+ *
+ * Loaders are created fresh for every request in createContext, so cached
+ * values never leak between users or outlive the request. Writes inside
+ * a $transaction should keep reading through `tx` rather than a loader.
+ */
+
+import DataLoader from 'dataloader';
+import type {
+  Contribution,
+  Donor,
+  ExemptOrganization,
+  GivingFund,
+  Grant,
+  GrantStatus,
+  Ministry,
+  MinistryVerification,
+  PrismaClient,
+  User,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+/**
+ * Grant counts by status, as returned by the GrantCounts GraphQL type
+ */
+export interface GrantCounts {
+  pending: number;
+  approved: number;
+  funded: number;
+  rejected: number;
+  reversed: number;
+  total: number;
+}
+
+/**
+ * Grant aggregates for one fund or ministry
+ */
+export interface GrantStats {
+  counts: GrantCounts;
+  /** Sum of APPROVED grants (holds on the fund) */
+  approvedAmount: Decimal;
+  /** Sum of FUNDED grants net of partial reversals */
+  fundedAmount: Decimal;
+}
+
+function emptyStats(): GrantStats {
+  return {
+    counts: {
+      pending: 0,
+      approved: 0,
+      funded: 0,
+      rejected: 0,
+      reversed: 0,
+      total: 0,
+    },
+    approvedAmount: new Decimal(0),
+    fundedAmount: new Decimal(0),
+  };
+}
+
+const COUNT_FIELDS: Record<GrantStatus, keyof Omit<GrantCounts, 'total'>> = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  FUNDED: 'funded',
+  REJECTED: 'rejected',
+  REVERSED: 'reversed',
+};
+
+/**
+ * Builds a loader that fetches records by ID with one findMany
+ * Missing IDs resolve to null
+ */
+function byId<T extends { id: number }>(
+  fetch: (ids: number[]) => Promise<T[]>
+): DataLoader<number, T | null> {
+  return new DataLoader(async (ids) => {
+    const rows = await fetch([...ids]);
+    const map = new Map(rows.map((row) => [row.id, row]));
+    return ids.map((id) => map.get(id) ?? null);
+  });
+}
+
+/**
+ * Builds a loader of grant aggregates grouped by a parent key
+ */
+function grantStatsBy(
+  prisma: PrismaClient,
+  key: 'givingFundId' | 'ministryId'
+): DataLoader<number, GrantStats> {
+  return new DataLoader(async (ids) => {
+    const groups = await prisma.grant.groupBy({
+      by: [key, 'status'],
+      where: { [key]: { in: [...ids] } },
+      _count: true,
+      _sum: { amount: true, reversedAmount: true },
+    });
+
+    const stats = new Map(ids.map((id) => [id, emptyStats()]));
+    for (const group of groups) {
+      const entry = stats.get(group[key]);
+      if (!entry) continue;
+
+      entry.counts[COUNT_FIELDS[group.status]] = group._count;
+      entry.counts.total += group._count;
+
+      const amount = new Decimal(group._sum.amount ?? 0);
+      if (group.status === 'APPROVED') {
+        entry.approvedAmount = amount;
+      }
+      if (group.status === 'FUNDED') {
+        entry.fundedAmount = amount.minus(group._sum.reversedAmount ?? 0);
+      }
+    }
+    return ids.map((id) => stats.get(id) ?? emptyStats());
+  });
+}
+
+/**
+ * Creates the loaders for a single request
+ */
+export function createLoaders(prisma: PrismaClient) {
+  return {
+    // Entities by ID
+    ministry: byId<Ministry>((ids) =>
+      prisma.ministry.findMany({ where: { id: { in: ids } } })
+    ),
+    donor: byId<Donor>((ids) =>
+      prisma.donor.findMany({ where: { id: { in: ids } } })
+    ),
+    givingFund: byId<GivingFund>((ids) =>
+      prisma.givingFund.findMany({ where: { id: { in: ids } } })
+    ),
+    grant: byId<Grant>((ids) =>
+      prisma.grant.findMany({ where: { id: { in: ids } } })
+    ),
+    contribution: byId<Contribution>((ids) =>
+      prisma.contribution.findMany({ where: { id: { in: ids } } })
+    ),
+    user: byId<User>((ids) =>
+      prisma.user.findMany({ where: { id: { in: ids } } })
+    ),
+
+    // IRS exempt-organization records by EIN (XX-XXXXXXX)
+    exemptOrganizationByEin: new DataLoader<string, ExemptOrganization | null>(
+      async (eins) => {
+        const rows = await prisma.exemptOrganization.findMany({
+          where: { ein: { in: [...eins] } },
+        });
+        const map = new Map(rows.map((row) => [row.ein, row]));
+        return eins.map((ein) => map.get(ein) ?? null);
+      }
+    ),
+
+    // Giving funds per donor, newest first
+    givingFundsByDonor: new DataLoader<number, GivingFund[]>(async (donorIds) => {
+      const funds = await prisma.givingFund.findMany({
+        where: { donorId: { in: [...donorIds] } },
+        orderBy: { createdAt: 'desc' },
+      });
+      return donorIds.map((id) => funds.filter((fund) => fund.donorId === id));
+    }),
+
+    // Latest VERIFIED record per ministry, current or expired
+    latestVerificationByMinistry: new DataLoader<number, MinistryVerification | null>(
+      async (ministryIds) => {
+        const verifications = await prisma.ministryVerification.findMany({
+          where: { ministryId: { in: [...ministryIds] }, status: 'VERIFIED' },
+          orderBy: [{ verifiedAt: 'desc' }, { id: 'desc' }],
+        });
+        return ministryIds.map(
+          (id) => verifications.find((verification) => verification.ministryId === id) ?? null
+        );
+      }
+    ),
+
+    // Aggregates
+    grantStatsByFund: grantStatsBy(prisma, 'givingFundId'),
+    grantStatsByMinistry: grantStatsBy(prisma, 'ministryId'),
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
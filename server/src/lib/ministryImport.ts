@@ -0,0 +1,443 @@
+/**
+ * =============================================================================
+ * Bulk Ministry Import
+ * =============================================================================
+ *
+ * Creates ministries from an uploaded CSV or XLSX spreadsheet (see the
+ * importMinistries mutation).
+ *
+ * The first row names the columns: name and category are required; ein,
+ * description, mission, website, city, state and country are optional.
+ * Header case, spaces and underscores are ignored, and unknown columns are
+ * reported rather than rejected.
+ *
+ * Every row is checked against the createMinistry rules: a name, a known
+ * category, a valid EIN that no other ministry (and no earlier row) has,
+ * and values that fit their columns. Nothing is written unless every row
+ * passes; the ministries are then created, each with its audit event, in
+ * one transaction. A dry run only reports.
+ */
+
+import { extname } from 'node:path';
+import ExcelJS from 'exceljs';
+import {
+  MinistryCategory,
+  Prisma,
+  type PrismaClient,
+} from '@prisma/client';
+import { auditEventData } from './audit.js';
+import { parseCsv } from './csv.js';
+import { einVariants, normalizeEin } from './ein.js';
+import { ValidationError } from './errors.js';
+import type { UploadedFile } from './upload.js';
+
+/** Most data rows accepted in one file */
+export const MAX_IMPORT_ROWS = 2000;
+
+type ImportField =
+  | 'name'
+  | 'ein'
+  | 'category'
+  | 'description'
+  | 'mission'
+  | 'website'
+  | 'city'
+  | 'state'
+  | 'country';
+
+/**
+ * Accepted column headers, lowercased without spaces or underscores
+ */
+const COLUMN_HEADERS: Record<string, ImportField> = {
+  name: 'name',
+  ministryname: 'name',
+  organizationname: 'name',
+  ein: 'ein',
+  taxid: 'ein',
+  category: 'category',
+  description: 'description',
+  mission: 'mission',
+  missionstatement: 'mission',
+  website: 'website',
+  url: 'website',
+  city: 'city',
+  state: 'state',
+  province: 'state',
+  country: 'country',
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['name', 'category'];
+
+/** Column sizes in the Ministry table */
+const MAX_LENGTHS: Partial<Record<ImportField, number>> = {
+  name: 255,
+  website: 255,
+  city: 100,
+  state: 50,
+  country: 50,
+};
+
+/**
+ * A problem with one row
+ */
+export interface MinistryImportRowError {
+  /** Column at fault; null for the row as a whole */
+  field: ImportField | null;
+  message: string;
+}
+
+/**
+ * One data row and what became of it
+ */
+export interface MinistryImportRow {
+  /** Row number in the spreadsheet; the header is row 1 */
+  rowNumber: number;
+  name: string | null;
+  ein: string | null;
+  category: MinistryCategory | null;
+  errors: MinistryImportRowError[];
+  /** Earlier row with the same EIN */
+  duplicateOfRow: number | null;
+  /** Ministry already registered under the row's EIN */
+  existingMinistryId: number | null;
+  /** Ministry created from the row; null in dry runs */
+  ministryId: number | null;
+}
+
+export interface MinistryImportResult {
+  dryRun: boolean;
+  /** Whether the ministries were created */
+  committed: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  /** Rows whose EIN repeats an earlier row or an existing ministry */
+  duplicateEinRows: number;
+  createdCount: number;
+  /** Headers that match no ministry field */
+  ignoredColumns: string[];
+  rows: MinistryImportRow[];
+}
+
+/**
+ * A parsed row and the ministry it would create
+ */
+interface ParsedRow {
+  row: MinistryImportRow;
+  /** Problems found in the row itself, before EIN conflicts */
+  fieldErrors: MinistryImportRowError[];
+  data: Prisma.MinistryCreateManyInput | null;
+}
+
+/**
+ * The error for a file with more data rows than one import takes
+ */
+function tooManyRowsError(count: number): ValidationError {
+  return new ValidationError(
+    `The file has ${count} rows; import at most ${MAX_IMPORT_ROWS} at a time`,
+    'file'
+  );
+}
+
+/**
+ * Reads the first worksheet of an XLSX workbook as text cells
+ * Blank rows are read as no cells
+ */
+async function readXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // exceljs declares its own Buffer type; a plain ArrayBuffer copy satisfies it
+    await workbook.xlsx.load(Uint8Array.from(buffer).buffer);
+  } catch {
+    throw new ValidationError('The file is not a valid .xlsx workbook', 'file');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  // rowCount also covers rows that are only formatted, so count the filled
+  // ones and refuse an oversized sheet before building its rows
+  const filledRows = sheet.actualRowCount;
+  if (filledRows - 1 > MAX_IMPORT_ROWS) {
+    throw tooManyRowsError(filledRows - 1);
+  }
+
+  const rows: string[][] = [];
+  for (let r = 1, filled = 0; r <= sheet.rowCount && filled < filledRows; r++) {
+    const row = sheet.findRow(r);
+    const cells: string[] = [];
+    if (row?.hasValues) {
+      filled++;
+      for (let c = 1; c <= sheet.columnCount; c++) {
+        cells.push(row.getCell(c).text);
+      }
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Reads an uploaded spreadsheet into rows of text cells
+ * The format is taken from the file extension
+ */
+export async function readSpreadsheet(file: UploadedFile): Promise<string[][]> {
+  const extension = extname(file.filename).toLowerCase();
+  if (extension === '.csv') {
+    return parseCsv(file.buffer.toString('utf8'));
+  }
+  if (extension === '.xlsx') {
+    return readXlsx(file.buffer);
+  }
+  throw new ValidationError(
+    `Unsupported file type "${extension || file.filename}". Upload a .csv or .xlsx file (save older .xls workbooks as .xlsx).`,
+    'file'
+  );
+}
+
+/**
+ * Maps header cells to ministry fields
+ * Returns the column index of each field and the headers not recognized
+ */
+function mapColumns(header: string[]): {
+  columns: Map<ImportField, number>;
+  ignoredColumns: string[];
+} {
+  const columns = new Map<ImportField, number>();
+  const ignoredColumns: string[] = [];
+
+  header.forEach((cell, index) => {
+    const label = cell.trim();
+    if (!label) return;
+    const field = COLUMN_HEADERS[label.toLowerCase().replace(/[\s_-]+/g, '')];
+    if (field && !columns.has(field)) {
+      columns.set(field, index);
+    } else {
+      ignoredColumns.push(label);
+    }
+  });
+
+  const missing = REQUIRED_FIELDS.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `The header row is missing the required ${missing.length === 1 ? 'column' : 'columns'} ${missing.join(', ')}`,
+      'file'
+    );
+  }
+  return { columns, ignoredColumns };
+}
+
+/**
+ * Parses a category cell, e.g. "Humanitarian" or "HUMANITARIAN"
+ */
+function parseCategory(value: string): MinistryCategory | null {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return normalized in MinistryCategory ? (normalized as MinistryCategory) : null;
+}
+
+/**
+ * Validates one data row against the createMinistry rules
+ * EIN conflicts across rows and with existing ministries are checked later
+ */
+function parseRow(
+  cells: string[],
+  rowNumber: number,
+  columns: Map<ImportField, number>
+): ParsedRow {
+  const value = (field: ImportField): string | null => {
+    const index = columns.get(field);
+    const cell = index === undefined ? '' : (cells[index] ?? '').trim();
+    return cell || null;
+  };
+
+  const errors: MinistryImportRowError[] = [];
+  const name = value('name');
+  if (!name) {
+    errors.push({ field: 'name', message: 'Name is required' });
+  }
+
+  const categoryText = value('category');
+  const category = categoryText ? parseCategory(categoryText) : null;
+  if (!categoryText) {
+    errors.push({ field: 'category', message: 'Category is required' });
+  } else if (!category) {
+    errors.push({
+      field: 'category',
+      message: `Unknown category "${categoryText}". Expected one of ${Object.keys(MinistryCategory).join(', ')}`,
+    });
+  }
+
+  let ein = value('ein');
+  if (ein) {
+    try {
+      ein = normalizeEin(ein);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      errors.push({ field: 'ein', message: error.message });
+    }
+  }
+
+  for (const [field, maxLength] of Object.entries(MAX_LENGTHS) as [ImportField, number][]) {
+    const text = value(field);
+    if (text && text.length > maxLength) {
+      errors.push({ field, message: `Must be at most ${maxLength} characters` });
+    }
+  }
+
+  return {
+    row: {
+      rowNumber,
+      name,
+      ein,
+      category,
+      errors,
+      duplicateOfRow: null,
+      existingMinistryId: null,
+      ministryId: null,
+    },
+    fieldErrors: errors,
+    data:
+      name && category
+        ? {
+            name,
+            ein,
+            category,
+            description: value('description'),
+            mission: value('mission'),
+            website: value('website'),
+            city: value('city'),
+            state: value('state'),
+            country: value('country') ?? 'USA',
+            verified: false,
+            active: true,
+          }
+        : null,
+  };
+}
+
+/**
+ * Flags rows whose EIN repeats an earlier row or an existing ministry
+ * Returns whether every row is valid
+ */
+async function checkEinConflicts(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  parsed: ParsedRow[]
+): Promise<boolean> {
+  for (const { row, fieldErrors } of parsed) {
+    row.errors = [...fieldErrors];
+    row.duplicateOfRow = null;
+    row.existingMinistryId = null;
+  }
+
+  const firstRowByEin = new Map<string, number>();
+  for (const { row } of parsed) {
+    if (!row.ein || row.errors.some((error) => error.field === 'ein')) continue;
+    const first = firstRowByEin.get(row.ein);
+    if (first === undefined) {
+      firstRowByEin.set(row.ein, row.rowNumber);
+    } else {
+      row.duplicateOfRow = first;
+      row.errors.push({ field: 'ein', message: `EIN ${row.ein} is also on row ${first}` });
+    }
+  }
+
+  const eins = [...firstRowByEin.keys()];
+  if (eins.length > 0) {
+    // Existing EINs may be stored with or without the dash
+    const existing = await prisma.ministry.findMany({
+      where: { ein: { in: eins.flatMap(einVariants) } },
+      select: { id: true, name: true, ein: true },
+    });
+    const existingByDigits = new Map(
+      existing.map((ministry) => [ministry.ein!.replace('-', ''), ministry])
+    );
+
+    for (const { row } of parsed) {
+      const ministry = row.ein ? existingByDigits.get(row.ein.replace('-', '')) : undefined;
+      if (ministry && row.duplicateOfRow === null) {
+        row.existingMinistryId = ministry.id;
+        row.errors.push({
+          field: 'ein',
+          message: `EIN ${row.ein} is already registered to ${ministry.name} (ministry ${ministry.id})`,
+        });
+      }
+    }
+  }
+
+  return parsed.every(({ row }) => row.errors.length === 0);
+}
+
+/**
+ * Validates the rows of a spreadsheet and, unless a dry run, creates the
+ * ministries when every row is valid
+ * Each ministry created is audited in the same transaction
+ */
+export async function importMinistries(
+  prisma: PrismaClient,
+  rows: string[][],
+  options: { dryRun: boolean },
+  actorId: number | null
+): Promise<MinistryImportResult> {
+  const [header, ...dataRows] = rows;
+  if (!header) {
+    throw new ValidationError('The file is empty', 'file');
+  }
+  const { columns, ignoredColumns } = mapColumns(header);
+
+  const parsed: ParsedRow[] = [];
+  dataRows.forEach((cells, index) => {
+    // Blank rows are skipped; numbering still follows the spreadsheet
+    if (cells.every((cell) => !cell.trim())) return;
+    parsed.push(parseRow(cells, index + 2, columns));
+  });
+
+  if (parsed.length === 0) {
+    throw new ValidationError('The file has no ministries to import', 'file');
+  }
+  if (parsed.length > MAX_IMPORT_ROWS) {
+    throw tooManyRowsError(parsed.length);
+  }
+
+  let committed = false;
+  const valid = await checkEinConflicts(prisma, parsed);
+  if (valid && !options.dryRun) {
+    committed = await prisma.$transaction(async (tx) => {
+      // Checked again so a ministry registered meanwhile is reported
+      // instead of failing the insert
+      if (!(await checkEinConflicts(tx, parsed))) {
+        return false;
+      }
+      // RETURNING lists the rows in the order they were inserted
+      const created = await tx.ministry.createManyAndReturn({
+        data: parsed.map(({ data }) => data!),
+      });
+      created.forEach((ministry, index) => {
+        parsed[index]!.row.ministryId = ministry.id;
+      });
+      await tx.auditEvent.createMany({
+        data: created.map((ministry) =>
+          auditEventData('importMinistries', 'Ministry', ministry.id, null, ministry, actorId)
+        ),
+      });
+      return true;
+    });
+  }
+
+  const result = parsed.map(({ row }) => row);
+  const invalidRows = result.filter((row) => row.errors.length > 0).length;
+  return {
+    dryRun: options.dryRun,
+    committed,
+    totalRows: result.length,
+    validRows: result.length - invalidRows,
+    invalidRows,
+    duplicateEinRows: result.filter(
+      (row) => row.duplicateOfRow !== null || row.existingMinistryId !== null
+    ).length,
+    createdCount: committed ? result.length : 0,
+    ignoredColumns,
+    rows: result,
+  };
+}
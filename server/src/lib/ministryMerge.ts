@@ -0,0 +1,425 @@
+/**
+ * =============================================================================
+ * Ministry De-duplication
+ * =============================================================================
+ *
+ * Finds ministries entered more than once and folds them together.
+ *
+ * Candidate pairs are ministries sharing an EIN, a website domain, a state
+ * or the first word of their name; each pair is then scored:
+ *   - The same EIN settles it (score 1)
+ *   - Otherwise name similarity counts most, with a bonus for the same
+ *     website domain and for the same city and state
+ *
+ * Merging moves the duplicates' grants, recurring grants, verifications,
+ * screenings and aliases to the surviving ministry, fills the survivor's
+ * empty details from them, records each duplicate as a MinistryAlias and
+ * archives it with a pointer to the survivor (mergedIntoId) - all in one
+ * transaction, with an audit event for every grant moved and every
+ * duplicate archived. A merged ministry cannot be restored or merged again.
+ */
+
+import type { Ministry, Prisma, PrismaClient } from '@prisma/client';
+import type { Db } from '../context.js';
+import { archivedWhere } from './archive.js';
+import { auditEventData } from './audit.js';
+import { lockGrant, lockMinistry } from './commitments.js';
+import { InvalidTransitionError, NotFoundError, ValidationError } from './errors.js';
+import { nameSimilarity, normalizeOrganizationName } from './exemptOrganizations.js';
+
+/** Weight of name similarity in a pair's score */
+const NAME_WEIGHT = 0.7;
+/** Added when both ministries use the same website domain */
+const DOMAIN_BONUS = 0.2;
+/** Added when both ministries are in the same city and state */
+const LOCATION_BONUS = 0.1;
+/** Names at least this similar are reported as SIMILAR_NAME */
+const SIMILAR_NAME_THRESHOLD = 0.8;
+
+/** Most duplicates folded into a survivor at once */
+const MAX_MERGE_DUPLICATES = 10;
+
+/**
+ * Hosts shared by unrelated organizations, which say nothing about identity
+ */
+const SHARED_HOSTS: ReadonlySet<string> = new Set([
+  'facebook.com',
+  'instagram.com',
+  'twitter.com',
+  'x.com',
+  'youtube.com',
+  'linktr.ee',
+]);
+
+/**
+ * Details copied from a duplicate when the survivor has none
+ */
+const FILLED_FIELDS = ['description', 'mission', 'website', 'city', 'state'] as const;
+
+export type DuplicateReason =
+  | 'SAME_EIN'
+  | 'SIMILAR_NAME'
+  | 'SAME_WEBSITE_DOMAIN'
+  | 'SAME_LOCATION';
+
+/**
+ * Two ministries that may be the same organization
+ */
+export interface DuplicateCandidate {
+  /** The older record, suggested as the survivor */
+  ministryId: number;
+  duplicateId: number;
+  score: number;
+  nameSimilarity: number;
+  reasons: DuplicateReason[];
+}
+
+type ComparedMinistry = Pick<Ministry, 'id' | 'name' | 'ein' | 'website' | 'city' | 'state'>;
+
+/**
+ * A ministry with the keys used to compare it
+ */
+interface ComparisonKeys {
+  ministry: ComparedMinistry;
+  einDigits: string | null;
+  domain: string | null;
+  location: string | null;
+  state: string | null;
+  firstWord: string | null;
+}
+
+/**
+ * Host of a website without "www.", e.g. "hopepantry.org"
+ * Null for missing, unparseable or shared hosts
+ */
+export function websiteDomain(website: string | null): string | null {
+  if (!website?.trim()) {
+    return null;
+  }
+  const value = website.trim();
+  try {
+    const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    return host && !SHARED_HOSTS.has(host) ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+function comparisonKeys(ministry: ComparedMinistry): ComparisonKeys {
+  const place = (value: string | null) => value?.trim().toUpperCase() || null;
+  const city = place(ministry.city);
+  const state = place(ministry.state);
+  return {
+    ministry,
+    einDigits: ministry.ein ? ministry.ein.replace('-', '') : null,
+    domain: websiteDomain(ministry.website),
+    location: city && state ? `${city}|${state}` : null,
+    state,
+    firstWord: normalizeOrganizationName(ministry.name).split(' ')[0] || null,
+  };
+}
+
+/**
+ * Scores a pair of ministries
+ */
+function compareMinistries(a: ComparisonKeys, b: ComparisonKeys): DuplicateCandidate {
+  const similarity = nameSimilarity(a.ministry.name, b.ministry.name);
+  const reasons: DuplicateReason[] = [];
+
+  const sameEin = a.einDigits !== null && a.einDigits === b.einDigits;
+  const sameDomain = a.domain !== null && a.domain === b.domain;
+  const sameLocation = a.location !== null && a.location === b.location;
+  if (sameEin) reasons.push('SAME_EIN');
+  if (similarity >= SIMILAR_NAME_THRESHOLD) reasons.push('SIMILAR_NAME');
+  if (sameDomain) reasons.push('SAME_WEBSITE_DOMAIN');
+  if (sameLocation) reasons.push('SAME_LOCATION');
+
+  const score = sameEin
+    ? 1
+    : Math.min(
+        1,
+        similarity * NAME_WEIGHT +
+          (sameDomain ? DOMAIN_BONUS : 0) +
+          (sameLocation ? LOCATION_BONUS : 0)
+      );
+
+  const [older, newer] = a.ministry.id < b.ministry.id ? [a, b] : [b, a];
+  return {
+    ministryId: older.ministry.id,
+    duplicateId: newer.ministry.id,
+    score: Math.round(score * 100) / 100,
+    nameSimilarity: Math.round(similarity * 100) / 100,
+    reasons,
+  };
+}
+
+/**
+ * Finds pairs of ministries that may be duplicates, most likely first
+ *
+ * With `ministryId`, that ministry is compared with every other one;
+ * otherwise only pairs sharing an EIN, website domain, state or first
+ * name word are compared. Archived ministries are left out.
+ */
+export async function findDuplicateMinistries(
+  prisma: Db,
+  options: { ministryId?: number; minScore: number; first: number }
+): Promise<DuplicateCandidate[]> {
+  if (options.minScore < 0 || options.minScore > 1) {
+    throw new ValidationError('minScore must be between 0 and 1', 'minScore');
+  }
+
+  const ministries = await prisma.ministry.findMany({
+    where: archivedWhere(),
+    select: { id: true, name: true, ein: true, website: true, city: true, state: true },
+    orderBy: { id: 'asc' },
+  });
+  const keyed = ministries.map(comparisonKeys);
+
+  const pairs: [ComparisonKeys, ComparisonKeys][] = [];
+  if (options.ministryId !== undefined) {
+    const target = keyed.find((entry) => entry.ministry.id === options.ministryId);
+    if (!target) {
+      throw new NotFoundError('Ministry', options.ministryId);
+    }
+    for (const other of keyed) {
+      if (other !== target) pairs.push([target, other]);
+    }
+  } else {
+    const blocks = new Map<string, ComparisonKeys[]>();
+    for (const entry of keyed) {
+      const keys = [
+        entry.einDigits && `ein:${entry.einDigits}`,
+        entry.domain && `domain:${entry.domain}`,
+        entry.state && `state:${entry.state}`,
+        entry.firstWord && `word:${entry.firstWord}`,
+      ];
+      for (const key of keys) {
+        if (!key) continue;
+        const block = blocks.get(key);
+        if (block) block.push(entry);
+        else blocks.set(key, [entry]);
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const block of blocks.values()) {
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const pairKey = `${block[i]!.ministry.id}:${block[j]!.ministry.id}`;
+          if (seen.has(pairKey)) continue;
+          seen.add(pairKey);
+          pairs.push([block[i]!, block[j]!]);
+        }
+      }
+    }
+  }
+
+  return pairs
+    .map(([a, b]) => compareMinistries(a, b))
+    .filter((candidate) => candidate.score >= options.minScore)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.nameSimilarity - a.nameSimilarity ||
+        a.ministryId - b.ministryId ||
+        a.duplicateId - b.duplicateId
+    )
+    .slice(0, Math.min(Math.max(options.first, 1), 100));
+}
+
+/**
+ * Folds duplicate ministries into a survivor and returns the survivor
+ *
+ * Refuses ministries with different EINs (different legal entities) and
+ * merges that would leave the survivor with two pending verification
+ * requests.
+ */
+export async function mergeMinistries(
+  prisma: PrismaClient,
+  survivorId: number,
+  duplicateIds: number[],
+  mergedById: number
+): Promise<Ministry> {
+  const ids = [...new Set(duplicateIds)];
+  if (ids.length === 0) {
+    throw new ValidationError('Name at least one duplicate to merge', 'duplicateIds');
+  }
+  if (ids.length > MAX_MERGE_DUPLICATES) {
+    throw new ValidationError(
+      `Merge at most ${MAX_MERGE_DUPLICATES} duplicates at a time`,
+      'duplicateIds'
+    );
+  }
+  if (ids.includes(survivorId)) {
+    throw new ValidationError('The survivor cannot also be a duplicate', 'duplicateIds');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Locks follow fundGrant's order - grants, then ministries - each in ID
+    // order. The ministry locks keep new grants off the duplicates; one
+    // created before they are taken is moved too, its creator having
+    // committed.
+    const allIds = [survivorId, ...ids];
+    const held = await tx.grant.findMany({
+      where: { ministryId: { in: ids } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    });
+    for (const grant of held) {
+      await lockGrant(tx, grant.id);
+    }
+    for (const id of [...allIds].sort((a, b) => a - b)) {
+      await lockMinistry(tx, id);
+    }
+
+    const survivor = await tx.ministry.findUnique({ where: { id: survivorId } });
+    if (!survivor) {
+      throw new NotFoundError('Ministry', survivorId);
+    }
+    if (survivor.archivedAt) {
+      throw new ValidationError('Restore the survivor before merging into it', 'survivorId');
+    }
+    const duplicates = await tx.ministry.findMany({
+      where: { id: { in: ids } },
+      orderBy: { id: 'asc' },
+    });
+    const missing = ids.find((id) => !duplicates.some((ministry) => ministry.id === id));
+    if (missing !== undefined) {
+      throw new NotFoundError('Ministry', missing);
+    }
+    const alreadyMerged = duplicates.find((duplicate) => duplicate.mergedIntoId !== null);
+    if (alreadyMerged) {
+      throw new ValidationError(
+        `Ministry ${alreadyMerged.id} was already merged into ministry ${alreadyMerged.mergedIntoId}`,
+        'duplicateIds'
+      );
+    }
+
+    const eins = new Set(
+      [survivor, ...duplicates]
+        .map((ministry) => ministry.ein?.replace('-', ''))
+        .filter((ein): ein is string => Boolean(ein))
+    );
+    if (eins.size > 1) {
+      throw new ValidationError(
+        'Ministries with different EINs are different organizations and cannot be merged',
+        'duplicateIds'
+      );
+    }
+
+    const pending = await tx.ministryVerification.findMany({
+      where: { ministryId: { in: allIds }, status: 'PENDING' },
+      select: { ministryId: true },
+    });
+    if (pending.length > 1) {
+      throw new InvalidTransitionError(
+        `Ministries ${pending.map((request) => request.ministryId).join(', ')} each have a pending verification request; decide all but one before merging`,
+        { entityType: 'MinistryVerification', currentStatus: 'PENDING', action: 'mergeMinistries' }
+      );
+    }
+
+    const grants = await tx.grant.findMany({
+      where: { ministryId: { in: ids } },
+      select: { id: true, ministryId: true },
+    });
+    await tx.grant.updateMany({
+      where: { ministryId: { in: ids } },
+      data: { ministryId: survivorId },
+    });
+    await tx.recurringGrant.updateMany({
+      where: { ministryId: { in: ids } },
+      data: { ministryId: survivorId },
+    });
+    await tx.ministryVerification.updateMany({
+      where: { ministryId: { in: ids } },
+      data: { ministryId: survivorId },
+    });
+    await tx.screeningResult.updateMany({
+      where: { ministryId: { in: ids } },
+      data: { ministryId: survivorId },
+    });
+    // Aliases from earlier merges follow their ministry
+    await tx.ministryAlias.updateMany({
+      where: { ministryId: { in: ids } },
+      data: { ministryId: survivorId },
+    });
+
+    await tx.ministryAlias.createMany({
+      data: duplicates.map((duplicate) => ({
+        name: duplicate.name,
+        ein: duplicate.ein,
+        website: duplicate.website,
+        city: duplicate.city,
+        state: duplicate.state,
+        mergedMinistryId: duplicate.id,
+        ministryId: survivorId,
+        mergedById,
+      })),
+    });
+    // The alias keeps the duplicate's EIN, freeing it for the survivor
+    const now = new Date();
+    const archived: Ministry[] = [];
+    for (const duplicate of duplicates) {
+      archived.push(
+        await tx.ministry.update({
+          where: { id: duplicate.id },
+          data: {
+            ein: null,
+            verified: false,
+            archivedAt: duplicate.archivedAt ?? now,
+            mergedIntoId: survivorId,
+          },
+        })
+      );
+    }
+
+    // The survivor keeps its own details and takes the first one found
+    // for each it lacks
+    const filled: Prisma.MinistryUpdateInput = {};
+    for (const field of FILLED_FIELDS) {
+      if (!survivor[field]) {
+        const value = duplicates.find((duplicate) => duplicate[field])?.[field];
+        if (value) filled[field] = value;
+      }
+    }
+    if (!survivor.ein) {
+      const ein = duplicates.find((duplicate) => duplicate.ein)?.ein;
+      if (ein) filled.ein = ein;
+    }
+    const verifiedCount = await tx.ministryVerification.count({
+      where: { ministryId: survivorId, status: 'VERIFIED' },
+    });
+    const merged = await tx.ministry.update({
+      where: { id: survivorId },
+      data: { ...filled, verified: verifiedCount > 0 },
+    });
+
+    await tx.auditEvent.createMany({
+      data: [
+        ...grants.map((grant) =>
+          auditEventData(
+            'mergeMinistries',
+            'Grant',
+            grant.id,
+            { ministryId: grant.ministryId },
+            { ministryId: survivorId },
+            mergedById
+          )
+        ),
+        ...duplicates.map((duplicate, index) =>
+          auditEventData(
+            'mergeMinistries',
+            'Ministry',
+            duplicate.id,
+            duplicate,
+            archived[index]!,
+            mergedById
+          )
+        ),
+      ],
+    });
+
+    return merged;
+  });
+}
@@ -0,0 +1,270 @@
+/**
+ * =============================================================================
+ * Cursor Pagination
+ * =============================================================================
+ *
+ * Shared helpers for Relay-style connections that page in both directions
+ * (`first`/`after` forward, `last`/`before` backward).
+ *
+ * Two cursor styles are supported:
+ *   - ID cursors (`pageWindow`): base64 `<prefix>:<id>`. The sort order is
+ *     applied by the caller with `id` as the final tie-breaker, so Prisma can
+ *     resume from the cursor row under any `orderBy`. Backward pages use a
+ *     negative `take`; Prisma still returns the rows in `orderBy` order.
+ *   - Keyset cursors (`keysetWindow`): base64 `<prefix>:<json>` carrying the
+ *     sort field, the row's sort value and its id. The caller filters on
+ *     (value, id) directly, so a page never depends on the cursor row still
+ *     existing or on rows inserted earlier in the order.
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * Pagination arguments accepted by a connection field
+ */
+export interface ConnectionArgs {
+  first?: number;
+  after?: string;
+  last?: number;
+  before?: string;
+}
+
+/**
+ * Page size, direction and cursors resolved from ConnectionArgs
+ */
+interface PageRequest {
+  /** Page size requested (the window fetches one more) */
+  size: number;
+  backward: boolean;
+  after?: string;
+  before?: string;
+}
+
+/**
+ * A page request resolved for an ID cursor
+ */
+export interface PageWindow extends PageRequest {
+  take: number;
+  cursor?: { id: number };
+}
+
+/**
+ * Position of a row in a keyset order
+ */
+export interface KeysetCursor {
+  /** Sort field the cursor was issued for */
+  field: string;
+  /** The row's value for the sort field */
+  value: string | number | null;
+  id: number;
+}
+
+/**
+ * A page request resolved for a keyset cursor
+ */
+export interface KeysetWindow extends PageRequest {
+  cursor?: KeysetCursor;
+}
+
+export interface Edge<T> {
+  node: T;
+  cursor: string;
+}
+
+export interface Connection<T> {
+  edges: Edge<T>[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+    totalCount: number;
+  };
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Encodes a record ID as a cursor
+ */
+export function encodeCursor(prefix: string, id: number): string {
+  return Buffer.from(`${prefix}:${id}`).toString('base64');
+}
+
+/**
+ * Decodes a cursor back to a record ID
+ * `field` names the argument the cursor came from, for the error
+ */
+export function decodeCursor(prefix: string, cursor: string, field: string): number {
+  const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
+  if (!decoded.startsWith(`${prefix}:`)) {
+    throw new ValidationError('Invalid cursor format', field);
+  }
+  const id = parseInt(decoded.slice(prefix.length + 1), 10);
+  if (isNaN(id)) {
+    throw new ValidationError('Invalid cursor format', field);
+  }
+  return id;
+}
+
+/**
+ * Encodes a row's position in a keyset order as a cursor
+ */
+export function encodeKeysetCursor(prefix: string, cursor: KeysetCursor): string {
+  return Buffer.from(`${prefix}:${JSON.stringify(cursor)}`).toString('base64');
+}
+
+/**
+ * Decodes a keyset cursor issued for `sortField`
+ * `field` names the argument the cursor came from, for the error
+ */
+export function decodeKeysetCursor(
+  prefix: string,
+  cursor: string,
+  sortField: string,
+  field: string
+): KeysetCursor {
+  const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
+  if (!decoded.startsWith(`${prefix}:`)) {
+    throw new ValidationError('Invalid cursor format', field);
+  }
+
+  let parsed: Partial<KeysetCursor>;
+  try {
+    parsed = JSON.parse(decoded.slice(prefix.length + 1));
+  } catch {
+    throw new ValidationError('Invalid cursor format', field);
+  }
+  if (typeof parsed.id !== 'number' || parsed.value === undefined) {
+    throw new ValidationError('Invalid cursor format', field);
+  }
+  if (parsed.field !== sortField) {
+    throw new ValidationError(
+      'Cursor was issued for a different sort order',
+      field
+    );
+  }
+  return { field: sortField, value: parsed.value, id: parsed.id };
+}
+
+/**
+ * Validates first/after/last/before and resolves the page size and direction
+ */
+function resolvePage(args: ConnectionArgs): PageRequest {
+  const { first, after, last, before } = args;
+
+  if (first !== undefined && last !== undefined) {
+    throw new ValidationError('Pass either first or last, not both', 'last');
+  }
+  if (after && before) {
+    throw new ValidationError('Pass either after or before, not both', 'before');
+  }
+
+  const backward = last !== undefined || (!!before && first === undefined);
+  const requested = (backward ? last : first) ?? DEFAULT_PAGE_SIZE;
+  const size = Math.min(Math.max(requested, 1), MAX_PAGE_SIZE); // Between 1 and 100
+
+  return {
+    size,
+    backward,
+    ...(after ? { after } : {}),
+    ...(before ? { before } : {}),
+  };
+}
+
+/**
+ * Resolves first/after/last/before into a findMany window
+ * Fetches one extra row so the connection can tell whether more exist
+ */
+export function pageWindow(prefix: string, args: ConnectionArgs): PageWindow {
+  const page = resolvePage(args);
+  const cursor = page.backward ? page.before : page.after;
+
+  return {
+    ...page,
+    take: page.backward ? -(page.size + 1) : page.size + 1,
+    ...(cursor
+      ? { cursor: { id: decodeCursor(prefix, cursor, page.backward ? 'before' : 'after') } }
+      : {}),
+  };
+}
+
+/**
+ * Resolves first/after/last/before into a keyset window for `sortField`
+ *
+ * The caller fetches `size + 1` rows strictly past the cursor in the paging
+ * direction (reversing the order for backward pages) and hands them to
+ * toConnection in display order.
+ */
+export function keysetWindow(
+  prefix: string,
+  sortField: string,
+  args: ConnectionArgs
+): KeysetWindow {
+  const page = resolvePage(args);
+  const cursor = page.backward ? page.before : page.after;
+
+  return {
+    ...page,
+    ...(cursor
+      ? {
+          cursor: decodeKeysetCursor(
+            prefix,
+            cursor,
+            sortField,
+            page.backward ? 'before' : 'after'
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Arguments to spread into findMany for a page window
+ */
+export function findManyPage(window: PageWindow): {
+  take: number;
+  cursor?: { id: number };
+  skip?: number;
+} {
+  return {
+    take: window.take,
+    // Skip the cursor item itself when paging
+    ...(window.cursor ? { cursor: window.cursor, skip: 1 } : {}),
+  };
+}
+
+/**
+ * Builds a connection from the rows fetched for a page window
+ * Rows are in display order; `cursorOf` defaults to ID cursors
+ */
+export function toConnection<T extends { id: number }>(
+  prefix: string,
+  items: T[],
+  window: PageRequest,
+  totalCount: number,
+  cursorOf: (node: T) => string = (node) => encodeCursor(prefix, node.id)
+): Connection<T> {
+  const hasMore = items.length > window.size;
+  // The extra row sits at the far end of the page in the paging direction
+  const page = window.backward
+    ? items.slice(hasMore ? items.length - window.size : 0)
+    : items.slice(0, window.size);
+
+  const edges = page.map((node) => ({
+    node,
+    cursor: cursorOf(node),
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: window.backward ? !!window.before : hasMore,
+      hasPreviousPage: window.backward ? hasMore : !!window.after,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+      totalCount,
+    },
+  };
+}
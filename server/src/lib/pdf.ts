@@ -0,0 +1,281 @@
+/**
+ * =============================================================================
+ * PDF Writing
+ * =============================================================================
+ *
+ * Minimal PDF 1.4 output for letters and receipts (see receipts.ts):
+ *   - US Letter pages with one-inch margins, broken automatically
+ *   - Text in the standard Helvetica and Helvetica-Bold fonts, which every
+ *     reader has, so nothing is embedded
+ *   - Wrapped paragraphs, rows of positioned cells and horizontal rules
+ *
+ * Text is written in WinAnsiEncoding: typographic quotes and dashes become
+ * their ASCII forms and other characters outside Latin-1 become "?".
+ * Widths come from Helvetica's font metrics; bold text is measured with the
+ * same widths, which is exact for digits and a little narrow for letters.
+ */
+
+/** US Letter, in points */
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+
+/** Width of the text area */
+export const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+/** Left edge of the text area */
+export const CONTENT_LEFT = MARGIN;
+
+/** Right edge of the text area */
+export const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+
+/** Helvetica advance widths for characters 32-126, in 1/1000 em */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Width assumed for Latin-1 characters above 126 */
+const DEFAULT_WIDTH = 556;
+
+/** ASCII stand-ins for common characters outside Latin-1 */
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '•': '*',
+  '…': '...',
+};
+
+/**
+ * Style of a run of text
+ */
+export interface TextStyle {
+  /** Font size in points (default 10) */
+  size?: number;
+  bold?: boolean;
+}
+
+/**
+ * One cell of a row
+ */
+export interface PdfCell {
+  text: string;
+  /** Left edge, or right edge when align is 'right' */
+  x: number;
+  align?: 'left' | 'right';
+  /** Text wider than this is cut short with "..." */
+  maxWidth?: number;
+}
+
+/**
+ * Reduces text to characters the standard fonts can show
+ */
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const replacement = REPLACEMENTS[char];
+    if (replacement !== undefined) {
+      result += replacement;
+    } else if (char === '\t' || char === '\n' || char === '\r') {
+      result += ' ';
+    } else {
+      const code = char.codePointAt(0) ?? 0;
+      result += code < 32 || (code > 126 && code < 160) ? '' : code > 255 ? '?' : char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Escapes text for a PDF literal string
+ */
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Width of already-encoded text at a font size, in points
+ */
+function measure(text: string, size: number): number {
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    units += HELVETICA_WIDTHS[text.charCodeAt(i) - 32] ?? DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Cuts already-encoded text short with "..." so it fits a width
+ */
+function truncate(text: string, size: number, maxWidth: number): string {
+  if (measure(text, size) <= maxWidth) {
+    return text;
+  }
+  let end = text.length;
+  while (end > 0 && measure(`${text.slice(0, end).trimEnd()}...`, size) > maxWidth) {
+    end--;
+  }
+  return `${text.slice(0, end).trimEnd()}...`;
+}
+
+/**
+ * Splits already-encoded text into lines that fit a width
+ * A single word wider than the line is left to overflow
+ */
+function wrap(text: string, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ').filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measure(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * A document built top to bottom, one line at a time
+ *
+ *   const pdf = new PdfDocument('Receipt R-000042');
+ *   pdf.text('Thank you for your gift', { size: 14, bold: true }).space(6);
+ *   const bytes = pdf.toBuffer();
+ */
+export class PdfDocument {
+  /** Content stream operators, one array per page */
+  private readonly pages: string[][] = [[]];
+  /** Baseline of the last line written */
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private readonly title: string) {}
+
+  /**
+   * Starts a new page when fewer than `height` points are left
+   */
+  private reserve(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  /**
+   * Draws encoded text with its baseline at the current line
+   */
+  private draw(text: string, x: number, style: TextStyle): void {
+    const font = style.bold ? 'F2' : 'F1';
+    const size = style.size ?? 10;
+    this.pages[this.pages.length - 1]!.push(
+      `BT /${font} ${size} Tf ${x.toFixed(2)} ${this.y.toFixed(2)} Td (${escapePdfString(text)}) Tj ET`
+    );
+  }
+
+  /**
+   * Writes a paragraph, wrapped to the text area
+   */
+  text(text: string, style: TextStyle & { indent?: number } = {}): this {
+    const size = style.size ?? 10;
+    const indent = style.indent ?? 0;
+    for (const line of wrap(toWinAnsi(text), size, CONTENT_WIDTH - indent)) {
+      this.reserve(size * 1.4);
+      this.y -= size * 1.4;
+      this.draw(line, MARGIN + indent, style);
+    }
+    return this;
+  }
+
+  /**
+   * Writes one line of cells at fixed positions
+   */
+  row(cells: PdfCell[], style: TextStyle = {}): this {
+    const size = style.size ?? 10;
+    this.reserve(size * 1.4);
+    this.y -= size * 1.4;
+    for (const cell of cells) {
+      let text = toWinAnsi(cell.text);
+      if (cell.maxWidth !== undefined) {
+        text = truncate(text, size, cell.maxWidth);
+      }
+      const x = cell.align === 'right' ? cell.x - measure(text, size) : cell.x;
+      this.draw(text, x, style);
+    }
+    return this;
+  }
+
+  /**
+   * Leaves vertical space
+   */
+  space(points: number): this {
+    this.y -= points;
+    return this;
+  }
+
+  /**
+   * Draws a thin line across the text area
+   */
+  rule(): this {
+    this.reserve(12);
+    this.y -= 6;
+    this.pages[this.pages.length - 1]!.push(
+      `0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S`
+    );
+    this.y -= 6;
+    return this;
+  }
+
+  /**
+   * Serializes the document
+   */
+  toBuffer(): Buffer {
+    // Objects 1-4 are fixed; each page adds its content stream and page object
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '', // The page tree, filled in once the pages are numbered
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    const kids: string[] = [];
+    for (const operators of this.pages) {
+      const content = operators.join('\n');
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${objects.length} 0 R >>`
+      );
+      kids.push(`${objects.length} 0 R`);
+    }
+    objects[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+    objects.push(`<< /Title (${escapePdfString(toWinAnsi(this.title))}) >>`);
+
+    // Every character is Latin-1, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    }
+    output +=
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
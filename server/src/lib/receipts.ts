@@ -0,0 +1,389 @@
+/**
+ * =============================================================================
+ * Receipts
+ * =============================================================================
+ *
+ * Acknowledgement letters for donors, rendered as PDFs (see pdf.ts):
+ *   - issueContributionReceipt: one receipt per contribution, with the fund,
+ *     the date received, the amount (or a description of non-cash property)
+ *     and the "no goods or services" statement
+ *   - issueAnnualSummary: a year-end summary of a donor's contributions for
+ *     a tax year (calendar year, UTC)
+ *
+ * A receipt is numbered when first issued; downloading it again renders the
+ * same number. Numbers come from the Receipt.number sequence and are never
+ * reused. A summary records the contributions it covers; once that set has
+ * changed - a later contribution, or one cancelled - it is superseded and
+ * reissued under a new number. Cancelled contributions get no receipt, and
+ * one issued while the contribution was PENDING is superseded when it is
+ * cancelled (see cancelContribution).
+ *
+ * Non-cash gifts are described but not valued: the donor substantiates
+ * their value. Receipts go to the donor recorded on each contribution - the
+ * fund's holder when it was given - even if the fund has since changed hands.
+ */
+
+import type {
+  Contribution,
+  ContributionAssetType,
+  Donor,
+  PrismaClient,
+  Receipt,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { InvalidTransitionError, NotFoundError, ValidationError } from './errors.js';
+import { CONTENT_LEFT, CONTENT_RIGHT, PdfDocument } from './pdf.js';
+
+/**
+ * The organization issuing receipts, from RECEIPT_ORG_* environment variables
+ */
+export const RECEIPT_ISSUER = {
+  name: process.env['RECEIPT_ORG_NAME'] || 'National Christian Foundation',
+  ein: process.env['RECEIPT_ORG_EIN'] || null,
+  address: process.env['RECEIPT_ORG_ADDRESS'] || null,
+};
+
+/** Earliest tax year a summary can be issued for */
+const FIRST_TAX_YEAR = 2000;
+
+const ASSET_TYPE_LABELS: Record<ContributionAssetType, string> = {
+  CASH: 'Cash',
+  PUBLIC_SECURITIES: 'Publicly traded securities',
+  REAL_ESTATE: 'Real estate',
+  CRYPTOCURRENCY: 'Cryptocurrency',
+  BUSINESS_INTEREST: 'Business interest',
+  OTHER: 'Other property',
+};
+
+const NO_GOODS_OR_SERVICES =
+  'No goods or services were provided in exchange for this contribution.';
+const NO_GOODS_OR_SERVICES_SUMMARY =
+  'No goods or services were provided in exchange for any of these contributions.';
+
+/**
+ * A rendered receipt
+ */
+export interface ReceiptDocument {
+  receipt: Receipt;
+  filename: string;
+  pdf: Buffer;
+}
+
+/**
+ * Formats a receipt number as printed, e.g. R-000042
+ */
+export function formatReceiptNumber(number: number): string {
+  return `R-${String(number).padStart(6, '0')}`;
+}
+
+/**
+ * Formats money with thousands separators, e.g. $12,500.00
+ */
+function formatMoney(amount: Decimal): string {
+  const [whole = '0', cents = '00'] = amount.toFixed(2).split('.');
+  return `$${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${cents}`;
+}
+
+/**
+ * Formats a date as written in a letter, e.g. March 4, 2026
+ */
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Writes the issuer, the receipt number and the donor's address
+ */
+function writeLetterhead(
+  pdf: PdfDocument,
+  title: string,
+  receipt: Receipt,
+  donor: Donor
+): void {
+  pdf.text(RECEIPT_ISSUER.name, { size: 16, bold: true });
+  if (RECEIPT_ISSUER.address) {
+    pdf.text(RECEIPT_ISSUER.address);
+  }
+  if (RECEIPT_ISSUER.ein) {
+    pdf.text(`EIN ${RECEIPT_ISSUER.ein}`);
+  }
+  pdf.rule().space(6);
+
+  pdf.text(title, { size: 13, bold: true });
+  pdf.text(`Receipt number: ${formatReceiptNumber(receipt.number)}`);
+  pdf.text(`Issued: ${formatDate(receipt.issuedAt)}`);
+  pdf.space(14);
+
+  pdf.text(`${donor.firstName} ${donor.lastName}`);
+  for (const line of [donor.addressLine1, donor.addressLine2]) {
+    if (line) {
+      pdf.text(line);
+    }
+  }
+  const locality = [donor.city, [donor.state, donor.postalCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  if (locality) {
+    pdf.text(locality);
+  }
+  pdf.space(14);
+}
+
+/**
+ * Writes the statements every receipt carries
+ */
+function writeStatements(pdf: PdfDocument, noGoodsOrServices: string, nonCash: boolean): void {
+  pdf.space(14);
+  pdf.text(noGoodsOrServices, { bold: true });
+  pdf.space(4);
+  pdf.text(
+    `Contributions to a donor-advised fund are gifts to ${RECEIPT_ISSUER.name}, which has exclusive legal control over the contributed assets.`
+  );
+  if (nonCash) {
+    pdf.space(4);
+    pdf.text(
+      'Property other than cash is described but not valued. The donor is responsible for substantiating its value; a qualified appraisal may be required for gifts over $5,000 (IRS Form 8283).'
+    );
+  }
+  pdf.space(4);
+  pdf.text('Please keep this receipt for your tax records.');
+}
+
+/**
+ * Issues, or reissues, the receipt for a contribution and renders it
+ */
+export async function issueContributionReceipt(
+  prisma: PrismaClient,
+  contributionId: number,
+  now = new Date()
+): Promise<ReceiptDocument> {
+  const { contribution, receipt } = await prisma.$transaction(async (tx) => {
+    // Lock the contribution so it cannot be cancelled while its receipt
+    // is being numbered
+    await tx.$queryRaw`SELECT "id" FROM "Contribution" WHERE "id" = ${contributionId} FOR UPDATE`;
+    const contribution = await tx.contribution.findUnique({
+      where: { id: contributionId },
+      include: { givingFund: true },
+    });
+    if (!contribution) {
+      throw new NotFoundError('Contribution', contributionId);
+    }
+    if (contribution.liquidationStatus === 'CANCELLED') {
+      throw new InvalidTransitionError(
+        `Contribution ${contributionId} was cancelled and has no receipt`,
+        {
+          entityType: 'Contribution',
+          currentStatus: contribution.liquidationStatus,
+          action: 'contributionReceipt',
+        }
+      );
+    }
+
+    // The first download numbers the receipt; later ones find it
+    const receipt = await tx.receipt.upsert({
+      where: { contributionId },
+      create: {
+        type: 'CONTRIBUTION',
+        cashAmount: contribution.assetType === 'CASH' ? contribution.fairMarketValue : 0,
+        contributionCount: 1,
+        donorId: contribution.donorId,
+        contributionId,
+        issuedAt: now,
+      },
+      update: {},
+    });
+    return { contribution, receipt };
+  });
+  const cash = contribution.assetType === 'CASH';
+  const donor = await prisma.donor.findUniqueOrThrow({ where: { id: receipt.donorId } });
+
+  const number = formatReceiptNumber(receipt.number);
+  const pdf = new PdfDocument(`Contribution receipt ${number}`);
+  writeLetterhead(pdf, 'Contribution Receipt', receipt, donor);
+
+  pdf.text(`Dear ${donor.firstName},`);
+  pdf.space(6);
+  pdf.text(
+    `Thank you for your contribution to ${contribution.givingFund.name}, your donor-advised fund with ${RECEIPT_ISSUER.name}. This letter acknowledges the gift below.`
+  );
+  pdf.space(10);
+
+  const details: [string, string][] = [
+    ['Fund', contribution.givingFund.name],
+    ['Date received', formatDate(contribution.receivedAt)],
+    ['Type', ASSET_TYPE_LABELS[contribution.assetType]],
+  ];
+  if (cash) {
+    details.push(['Amount', formatMoney(new Decimal(contribution.fairMarketValue))]);
+  } else {
+    details.push(['Description', contribution.description]);
+    if (contribution.quantity !== null) {
+      details.push(['Quantity', contribution.quantity.toString()]);
+    }
+  }
+  for (const [label, value] of details) {
+    pdf.row([
+      { text: label, x: CONTENT_LEFT },
+      { text: value, x: CONTENT_LEFT + 110, maxWidth: CONTENT_RIGHT - CONTENT_LEFT - 110 },
+    ]);
+  }
+
+  writeStatements(pdf, NO_GOODS_OR_SERVICES, !cash);
+
+  return { receipt, filename: `receipt-${number}.pdf`, pdf: pdf.toBuffer() };
+}
+
+/**
+ * Issues a donor's year-end summary for a tax year and renders it
+ * The current summary is reused while it covers the same contributions
+ */
+export async function issueAnnualSummary(
+  prisma: PrismaClient,
+  donorId: number,
+  taxYear: number,
+  now = new Date()
+): Promise<ReceiptDocument> {
+  const currentYear = now.getUTCFullYear();
+  if (!Number.isInteger(taxYear) || taxYear < FIRST_TAX_YEAR || taxYear > currentYear) {
+    throw new ValidationError(
+      `Tax year must be between ${FIRST_TAX_YEAR} and ${currentYear}`,
+      'year'
+    );
+  }
+
+  const { donor, contributions, cashAmount, receipt } = await prisma.$transaction(async (tx) => {
+    // Lock the donor so concurrent downloads issue one current summary
+    await tx.$queryRaw`SELECT "id" FROM "Donor" WHERE "id" = ${donorId} FOR UPDATE`;
+    const donor = await tx.donor.findUnique({ where: { id: donorId } });
+    if (!donor) {
+      throw new NotFoundError('Donor', donorId);
+    }
+
+    const contributions: (Contribution & { givingFund: { name: string } })[] =
+      await tx.contribution.findMany({
+        where: {
+          donorId,
+          liquidationStatus: { not: 'CANCELLED' },
+          receivedAt: {
+            gte: new Date(Date.UTC(taxYear, 0, 1)),
+            lt: new Date(Date.UTC(taxYear + 1, 0, 1)),
+          },
+        },
+        include: { givingFund: { select: { name: true } } },
+        orderBy: [{ receivedAt: 'asc' }, { id: 'asc' }],
+      });
+    if (contributions.length === 0) {
+      throw new ValidationError(`Donor ${donorId} has no contributions in ${taxYear}`, 'year');
+    }
+
+    const contributionIds = contributions
+      .map((contribution) => contribution.id)
+      .sort((a, b) => a - b);
+    const cashAmount = contributions
+      .filter((contribution) => contribution.assetType === 'CASH')
+      .reduce((total, contribution) => total.add(contribution.fairMarketValue), new Decimal(0));
+
+    const current = await tx.receipt.findFirst({
+      where: { donorId, type: 'ANNUAL_SUMMARY', taxYear, supersededAt: null },
+      orderBy: { issuedAt: 'desc' },
+    });
+    if (
+      current &&
+      current.contributionIds.length === contributionIds.length &&
+      current.contributionIds.every((id, index) => id === contributionIds[index])
+    ) {
+      return { donor, contributions, cashAmount, receipt: current };
+    }
+    if (current) {
+      await tx.receipt.update({ where: { id: current.id }, data: { supersededAt: now } });
+    }
+    const receipt = await tx.receipt.create({
+      data: {
+        type: 'ANNUAL_SUMMARY',
+        taxYear,
+        cashAmount,
+        contributionCount: contributions.length,
+        contributionIds,
+        donorId,
+        issuedAt: now,
+      },
+    });
+    return { donor, contributions, cashAmount, receipt };
+  });
+
+  const number = formatReceiptNumber(receipt.number);
+  const title =
+    taxYear === currentYear
+      ? `Contribution Summary for ${taxYear} (through ${formatDate(receipt.issuedAt)})`
+      : `Year-End Contribution Summary for ${taxYear}`;
+  const pdf = new PdfDocument(`${title} ${number}`);
+  writeLetterhead(pdf, title, receipt, donor);
+
+  pdf.text(`Dear ${donor.firstName},`);
+  pdf.space(6);
+  pdf.text(
+    `Thank you for your generosity in ${taxYear}. This summary acknowledges the contributions below to your donor-advised funds with ${RECEIPT_ISSUER.name}.`
+  );
+  pdf.space(10);
+
+  // Date | Fund | Contribution | Amount
+  const fundX = CONTENT_LEFT + 80;
+  const descriptionX = CONTENT_LEFT + 210;
+  pdf.row(
+    [
+      { text: 'Date', x: CONTENT_LEFT },
+      { text: 'Fund', x: fundX },
+      { text: 'Contribution', x: descriptionX },
+      { text: 'Amount', x: CONTENT_RIGHT, align: 'right' },
+    ],
+    { bold: true }
+  );
+  pdf.rule();
+  for (const contribution of contributions) {
+    const cash = contribution.assetType === 'CASH';
+    pdf.row([
+      {
+        text: contribution.receivedAt.toLocaleDateString('en-US', { timeZone: 'UTC' }),
+        x: CONTENT_LEFT,
+      },
+      { text: contribution.givingFund.name, x: fundX, maxWidth: descriptionX - fundX - 10 },
+      {
+        text: cash
+          ? contribution.description
+          : `${ASSET_TYPE_LABELS[contribution.assetType]}: ${contribution.description}`,
+        x: descriptionX,
+        maxWidth: CONTENT_RIGHT - descriptionX - 90,
+      },
+      {
+        text: cash ? formatMoney(new Decimal(contribution.fairMarketValue)) : 'Non-cash',
+        x: CONTENT_RIGHT,
+        align: 'right',
+      },
+    ]);
+  }
+  pdf.rule();
+  pdf.row(
+    [
+      { text: 'Total cash contributions', x: CONTENT_LEFT },
+      { text: formatMoney(cashAmount), x: CONTENT_RIGHT, align: 'right' },
+    ],
+    { bold: true }
+  );
+
+  writeStatements(
+    pdf,
+    NO_GOODS_OR_SERVICES_SUMMARY,
+    contributions.some((contribution) => contribution.assetType !== 'CASH')
+  );
+
+  return {
+    receipt,
+    filename: `contribution-summary-${taxYear}-${number}.pdf`,
+    pdf: pdf.toBuffer(),
+  };
+}
@@ -0,0 +1,426 @@
+/**
+ * =============================================================================
+ * Recurring Grants
+ * =============================================================================
+ *
+ * Schedules that request the same grant from a fund to a ministry every
+ * week, month, quarter or year.
+ *
+ * runRecurringGrants is the scheduler job. For each schedule whose
+ * nextRunDate has come it makes a PENDING grant per run due - catching up
+ * runs missed while the job was not running - and the grant then goes
+ * through the usual approval and funding. A run is skipped when the
+ * ministry can no longer receive grants (archived, unverified or expired,
+ * inactive) or the fund can no longer make them (archived, inactive,
+ * closing, or its donor inactive). The schedule is then flagged with the
+ * reason and moves on to its next run; the next grant it makes, or an
+ * update, clears the flag.
+ *
+ * Runs fall on the start date's day of the period, or on the last day of
+ * shorter months: a monthly schedule starting January 31 runs on February
+ * 28. Dates are whole days, in UTC.
+ *
+ * Each run is claimed by moving nextRunDate on in the transaction that
+ * makes its grant, so overlapping jobs never make the same run twice.
+ * The job runs in the standalone server (startRecurringGrantScheduler), as
+ * a Vercel cron (api/recurring-grants.ts), or on demand (runRecurringGrants
+ * mutation).
+ */
+
+import type {
+  GrantCadence,
+  Prisma,
+  PrismaClient,
+  RecurringGrant,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import type { Db } from '../context.js';
+import { auditEventData } from './audit.js';
+import { lockGivingFund, lockMinistry } from './commitments.js';
+import {
+  DomainError,
+  InvalidTransitionError,
+  NotFoundError,
+  ValidationError,
+} from './errors.js';
+import { findGrantableFund, findGrantableMinistry } from './verification.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Months between runs, for cadences counted in months */
+const CADENCE_MONTHS: Record<Exclude<GrantCadence, 'WEEKLY'>, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  ANNUALLY: 12,
+};
+
+/** Most missed runs one schedule catches up in a single job */
+const MAX_RUNS_PER_SCHEDULE = 12;
+
+/**
+ * A schedule as submitted
+ */
+export interface RecurringGrantInput {
+  givingFundId: number;
+  ministryId: number;
+  amount: string | number;
+  purpose?: string | null;
+  cadence: GrantCadence;
+  startDate: Date;
+  endDate?: Date | null;
+}
+
+/**
+ * Changes to a schedule; omitted fields are kept
+ */
+export interface RecurringGrantUpdate {
+  amount?: string | number | null;
+  purpose?: string | null;
+  cadence?: GrantCadence | null;
+  /** null removes the end date */
+  endDate?: Date | null;
+}
+
+/**
+ * What one job did
+ */
+export interface RecurringGrantRunSummary {
+  grantsCreated: number;
+  runsSkipped: number;
+  schedulesEnded: number;
+}
+
+/**
+ * Midnight UTC at the start of a date's day
+ */
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * The run that follows a run date
+ */
+export function nextRunAfter(
+  schedule: Pick<RecurringGrant, 'cadence' | 'startDate'>,
+  runDate: Date
+): Date {
+  if (schedule.cadence === 'WEEKLY') {
+    return new Date(runDate.getTime() + 7 * DAY_MS);
+  }
+
+  // Count periods from the start so short months do not shift later runs
+  const step = CADENCE_MONTHS[schedule.cadence];
+  const start = schedule.startDate;
+  const elapsed =
+    (runDate.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    runDate.getUTCMonth() -
+    start.getUTCMonth();
+  const month = start.getUTCMonth() + (Math.floor(elapsed / step) + 1) * step;
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(start.getUTCFullYear(), month, Math.min(start.getUTCDate(), lastDay))
+  );
+}
+
+/**
+ * The run after a run date, or null when it would fall after the end date
+ */
+function followingRun(schedule: RecurringGrant, runDate: Date): Date | null {
+  const next = nextRunAfter(schedule, runDate);
+  return schedule.endDate && next > schedule.endDate ? null : next;
+}
+
+/**
+ * Parses a positive grant amount
+ */
+function grantAmount(value: string | number): Decimal {
+  const amount = new Decimal(value);
+  if (amount.isNegative() || amount.isZero()) {
+    throw new ValidationError('Grant amount must be positive', 'amount');
+  }
+  return amount;
+}
+
+/**
+ * Finds a schedule that is still running
+ */
+async function findRunningSchedule(
+  db: Db,
+  id: number,
+  action: string
+): Promise<RecurringGrant> {
+  const schedule = await db.recurringGrant.findUnique({ where: { id } });
+  if (!schedule) {
+    throw new NotFoundError('RecurringGrant', id);
+  }
+  if (schedule.cancelledAt || !schedule.nextRunDate) {
+    const status = schedule.cancelledAt ? 'CANCELLED' : 'ENDED';
+    throw new InvalidTransitionError(`Recurring grant ${id} is ${status.toLowerCase()}`, {
+      entityType: 'RecurringGrant',
+      currentStatus: status,
+      action,
+    });
+  }
+  return schedule;
+}
+
+/**
+ * Creates a schedule; its first run is on the start date
+ */
+export async function createRecurringGrant(
+  prisma: PrismaClient,
+  input: RecurringGrantInput,
+  createdById: number | null,
+  now = new Date()
+): Promise<RecurringGrant> {
+  const amount = grantAmount(input.amount);
+  const startDate = startOfDay(input.startDate);
+  if (startDate < startOfDay(now)) {
+    throw new ValidationError('Start date cannot be in the past', 'startDate');
+  }
+  const endDate = input.endDate ? startOfDay(input.endDate) : null;
+  if (endDate && endDate < startDate) {
+    throw new ValidationError('End date cannot be before the start date', 'endDate');
+  }
+
+  await findGrantableMinistry(prisma, input.ministryId, 'ministryId', now);
+  await findGrantableFund(prisma, input.givingFundId, 'givingFundId');
+
+  return prisma.recurringGrant.create({
+    data: {
+      amount,
+      purpose: input.purpose?.trim() || null,
+      cadence: input.cadence,
+      startDate,
+      endDate,
+      nextRunDate: startDate,
+      givingFundId: input.givingFundId,
+      ministryId: input.ministryId,
+      createdById,
+    },
+  });
+}
+
+/**
+ * Changes a running schedule's amount, purpose, cadence or end date
+ * Grants already made are not changed; any flag is cleared
+ */
+export async function updateRecurringGrant(
+  prisma: PrismaClient,
+  id: number,
+  input: RecurringGrantUpdate,
+  now = new Date()
+): Promise<RecurringGrant> {
+  const schedule = await findRunningSchedule(prisma, id, 'updateRecurringGrant');
+
+  const data: Prisma.RecurringGrantUpdateInput = { flaggedAt: null, flagReason: null };
+  if (input.amount !== undefined && input.amount !== null) {
+    data.amount = grantAmount(input.amount);
+  }
+  if (input.purpose !== undefined) {
+    data.purpose = input.purpose?.trim() || null;
+  }
+  if (input.cadence) {
+    data.cadence = input.cadence;
+  }
+  if (input.endDate !== undefined) {
+    const endDate = input.endDate ? startOfDay(input.endDate) : null;
+    if (endDate && endDate < startOfDay(now)) {
+      throw new ValidationError('End date cannot be in the past', 'endDate');
+    }
+    if (endDate && endDate < schedule.startDate) {
+      throw new ValidationError('End date cannot be before the start date', 'endDate');
+    }
+    data.endDate = endDate;
+    // An end date before the next run ends the schedule now
+    if (endDate && schedule.nextRunDate && endDate < schedule.nextRunDate) {
+      data.nextRunDate = null;
+    }
+  }
+
+  return prisma.recurringGrant.update({ where: { id }, data });
+}
+
+/**
+ * Cancels a schedule; the grants it made are kept
+ */
+export async function cancelRecurringGrant(
+  prisma: PrismaClient,
+  id: number,
+  now = new Date()
+): Promise<RecurringGrant> {
+  await findRunningSchedule(prisma, id, 'cancelRecurringGrant');
+  return prisma.recurringGrant.update({
+    where: { id },
+    data: { cancelledAt: now, nextRunDate: null },
+  });
+}
+
+/**
+ * Why a run cannot make its grant, or null if it can
+ */
+async function findRunProblem(
+  tx: Prisma.TransactionClient,
+  schedule: RecurringGrant,
+  now: Date
+): Promise<string | null> {
+  try {
+    await findGrantableMinistry(tx, schedule.ministryId, 'ministryId', now);
+    await findGrantableFund(tx, schedule.givingFundId, 'givingFundId');
+    return null;
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Makes, or skips, one run of a schedule
+ * Returns null if another job claimed the run first
+ */
+async function runOnce(
+  prisma: PrismaClient,
+  scheduleId: number,
+  runDate: Date,
+  now: Date
+): Promise<{ granted: boolean; nextRunDate: Date | null } | null> {
+  return prisma.$transaction(async (tx) => {
+    const schedule = await tx.recurringGrant.findUnique({ where: { id: scheduleId } });
+    if (!schedule || schedule.cancelledAt) {
+      return null;
+    }
+    const nextRunDate = followingRun(schedule, runDate);
+    const claimed = await tx.recurringGrant.updateMany({
+      where: { id: scheduleId, nextRunDate: runDate, cancelledAt: null },
+      data: { nextRunDate },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const day = runDate.toISOString().slice(0, 10);
+    // Neither the fund nor the ministry can be archived under the new grant
+    await lockGivingFund(tx, schedule.givingFundId);
+    await lockMinistry(tx, schedule.ministryId);
+    const problem = await findRunProblem(tx, schedule, now);
+    if (problem) {
+      const flagged = await tx.recurringGrant.update({
+        where: { id: scheduleId },
+        data: {
+          skippedRuns: { increment: 1 },
+          flaggedAt: now,
+          flagReason: `Run of ${day} skipped: ${problem}`,
+        },
+      });
+      await tx.auditEvent.create({
+        data: auditEventData(
+          'runRecurringGrants',
+          'RecurringGrant',
+          scheduleId,
+          schedule,
+          flagged,
+          null
+        ),
+      });
+      return { granted: false, nextRunDate };
+    }
+
+    const grant = await tx.grant.create({
+      data: {
+        amount: schedule.amount,
+        purpose: schedule.purpose ?? 'Recurring grant',
+        notes: `Recurring grant ${scheduleId}, run of ${day}`,
+        status: 'PENDING',
+        givingFundId: schedule.givingFundId,
+        ministryId: schedule.ministryId,
+        recurringGrantId: scheduleId,
+      },
+    });
+    await tx.recurringGrant.update({
+      where: { id: scheduleId },
+      data: { lastRunAt: now, flaggedAt: null, flagReason: null },
+    });
+    await tx.auditEvent.create({
+      data: auditEventData('runRecurringGrants', 'Grant', grant.id, null, grant, null),
+    });
+    return { granted: true, nextRunDate };
+  });
+}
+
+/**
+ * The scheduler job: makes or skips every run that has come due
+ */
+export async function runRecurringGrants(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<RecurringGrantRunSummary> {
+  const summary: RecurringGrantRunSummary = {
+    grantsCreated: 0,
+    runsSkipped: 0,
+    schedulesEnded: 0,
+  };
+  const due = await prisma.recurringGrant.findMany({
+    where: { cancelledAt: null, nextRunDate: { lte: now } },
+    orderBy: [{ nextRunDate: 'asc' }, { id: 'asc' }],
+  });
+
+  for (const schedule of due) {
+    let runDate = schedule.nextRunDate;
+    // Later missed runs wait for the next job
+    for (let runs = 0; runDate && runDate <= now && runs < MAX_RUNS_PER_SCHEDULE; runs++) {
+      const outcome = await runOnce(prisma, schedule.id, runDate, now);
+      if (!outcome) {
+        break;
+      }
+      if (outcome.granted) {
+        summary.grantsCreated++;
+      } else {
+        summary.runsSkipped++;
+      }
+      if (!outcome.nextRunDate) {
+        summary.schedulesEnded++;
+      }
+      runDate = outcome.nextRunDate;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Runs the job now and then every intervalMinutes in this process
+ * Runs never overlap; a failed run is logged and the next one tried on
+ * schedule. Returns a function that stops the scheduler.
+ */
+export function startRecurringGrantScheduler(
+  prisma: PrismaClient,
+  intervalMinutes: number
+): () => void {
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const summary = await runRecurringGrants(prisma);
+      if (summary.grantsCreated > 0 || summary.runsSkipped > 0) {
+        console.log(
+          `Recurring grants: ${summary.grantsCreated} made, ${summary.runsSkipped} skipped`
+        );
+      }
+    } catch (error) {
+      console.error('Recurring grant run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => void tick(), intervalMinutes * 60 * 1000);
+  // The scheduler alone does not keep the process alive
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,376 @@
+/**
+ * =============================================================================
+ * Sanctions Screening
+ * =============================================================================
+ *
+ * Screens ministries against the restricted-party list imported by
+ * scripts/import-sdn-list.ts (OFAC SDN format).
+ *
+ * Names are compared after normalization (see normalizeOrganizationName),
+ * in written and in sorted word order, against each party's name and
+ * aliases. A party in another country only counts as a hit when the names
+ * are near-identical. Vessels and aircraft are not screened.
+ *
+ * Every screening is recorded as ScreeningResult rows. A POTENTIAL_MATCH
+ * holds funding of MISSIONS and HUMANITARIAN grants until an ADMIN clears
+ * it (false positive) or confirms it (the hold stays). A hit cleared before
+ * is carried forward as CLEARED when the same ministry is screened again
+ * against the same party, so re-imports do not reopen settled reviews.
+ */
+
+import type { Ministry, MinistryCategory, Prisma, ScreeningResult } from '@prisma/client';
+import type { Db } from '../context.js';
+import { InvalidTransitionError, ScreeningHoldError, ValidationError } from './errors.js';
+import { nameSimilarity, normalizeOrganizationName } from './exemptOrganizations.js';
+
+/** Ministry categories whose grants must be screened before funding */
+export const SCREENED_CATEGORIES: ReadonlySet<MinistryCategory> = new Set([
+  'MISSIONS',
+  'HUMANITARIAN',
+]);
+
+/** Minimum name similarity for a hit */
+const MATCH_THRESHOLD = 0.85;
+/** Minimum name similarity for a hit on a party in another country */
+const FOREIGN_MATCH_THRESHOLD = 0.95;
+
+/** Party types that cannot be a ministry */
+const UNSCREENED_PARTY_TYPES: ReadonlySet<string> = new Set(['vessel', 'aircraft']);
+
+/**
+ * Spellings of the same country in ministry records and the SDN list
+ */
+const COUNTRY_ALIASES: Record<string, string> = {
+  US: 'UNITED STATES',
+  USA: 'UNITED STATES',
+  'U S': 'UNITED STATES',
+  'U S A': 'UNITED STATES',
+  'UNITED STATES OF AMERICA': 'UNITED STATES',
+  UK: 'UNITED KINGDOM',
+  'GREAT BRITAIN': 'UNITED KINGDOM',
+};
+
+/**
+ * A party from the list, as used for matching
+ */
+interface ScreenedParty {
+  entryNumber: number;
+  name: string;
+  programs: string[];
+  /** Name and aliases, normalized in written and in sorted word order */
+  names: { name: string; normalized: string; sorted: string }[];
+  countries: Set<string>;
+}
+
+/**
+ * A possible match between a ministry and a listed party
+ */
+export interface SanctionsHit {
+  party: { entryNumber: number; name: string; programs: string[] };
+  matchedName: string;
+  score: number;
+  countryMatch: boolean | null;
+}
+
+// The list only changes on import, so it is kept in memory per version
+let cachedList: { version: Date; parties: ScreenedParty[] } | null = null;
+
+/**
+ * Whether grants to the ministry must be screened before funding
+ */
+export function requiresScreening(ministry: Pick<Ministry, 'category'>): boolean {
+  return SCREENED_CATEGORIES.has(ministry.category);
+}
+
+/**
+ * Uppercases a country name and maps common spellings to one form
+ */
+export function normalizeCountry(country: string): string {
+  const normalized = country.toUpperCase().replace(/[^A-Z]+/g, ' ').trim();
+  return COUNTRY_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Sorts the words of a normalized name, so "DOE JOHN" matches "JOHN DOE"
+ */
+function sortWords(normalized: string): string {
+  return normalized.split(' ').sort().join(' ');
+}
+
+/**
+ * Version (import time) of the current list, or null if none is loaded
+ */
+export async function currentListVersion(prisma: Db): Promise<Date | null> {
+  const latest = await prisma.sanctionedParty.aggregate({ _max: { importedAt: true } });
+  return latest._max.importedAt;
+}
+
+/**
+ * Loads the current list, reusing the cached copy while its version holds
+ */
+async function loadList(prisma: Db): Promise<{ version: Date; parties: ScreenedParty[] } | null> {
+  const version = await currentListVersion(prisma);
+  if (!version) {
+    return null;
+  }
+  if (cachedList && cachedList.version.getTime() === version.getTime()) {
+    return cachedList;
+  }
+
+  const rows = await prisma.sanctionedParty.findMany({
+    select: { entryNumber: true, name: true, type: true, programs: true, aliases: true, countries: true },
+  });
+  const parties = rows
+    .filter((row) => !row.type || !UNSCREENED_PARTY_TYPES.has(row.type.toLowerCase()))
+    .map((row) => ({
+      entryNumber: row.entryNumber,
+      name: row.name,
+      programs: row.programs,
+      names: [row.name, ...row.aliases].map((name) => {
+        const normalized = normalizeOrganizationName(name);
+        return { name, normalized, sorted: sortWords(normalized) };
+      }),
+      countries: new Set(row.countries.map(normalizeCountry)),
+    }));
+
+  cachedList = { version, parties };
+  return cachedList;
+}
+
+/**
+ * Finds the listed parties a ministry may be, best match first
+ */
+export function findSanctionsHits(
+  ministry: Pick<Ministry, 'name' | 'country'>,
+  parties: ScreenedParty[]
+): SanctionsHit[] {
+  const country = ministry.country ? normalizeCountry(ministry.country) : null;
+  const normalized = normalizeOrganizationName(ministry.name);
+  const sorted = sortWords(normalized);
+  const hits: SanctionsHit[] = [];
+
+  for (const party of parties) {
+    let best: { name: string; score: number } | null = null;
+    for (const candidate of party.names) {
+      // The better of the written and the sorted word order
+      const score = Math.max(
+        nameSimilarity(normalized, candidate.normalized),
+        nameSimilarity(sorted, candidate.sorted)
+      );
+      if (!best || score > best.score) {
+        best = { name: candidate.name, score };
+      }
+    }
+    if (!best) continue;
+
+    const countryMatch = country && party.countries.size > 0 ? party.countries.has(country) : null;
+    const threshold = countryMatch === false ? FOREIGN_MATCH_THRESHOLD : MATCH_THRESHOLD;
+    if (best.score >= threshold) {
+      hits.push({
+        party: { entryNumber: party.entryNumber, name: party.name, programs: party.programs },
+        matchedName: best.name,
+        score: Math.round(best.score * 100) / 100,
+        countryMatch,
+      });
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Screens a ministry against the current list and records the results
+ *
+ * Hits already open (POTENTIAL_MATCH or CONFIRMED) for the same party are
+ * not recorded twice; hits cleared before for the same name are recorded
+ * as CLEARED. When every hit is already open a single UNCHANGED row is
+ * written, so the ministry still counts as screened against this list.
+ * Returns the rows written by this screening.
+ */
+export async function screenMinistry(
+  prisma: Db,
+  ministry: Ministry,
+  options: { grantId?: number; screenedById?: number } = {}
+): Promise<ScreeningResult[]> {
+  const list = await loadList(prisma);
+  if (!list) {
+    throw new ScreeningHoldError(
+      'No sanctions list has been imported, so the ministry cannot be screened',
+      { ministryId: ministry.id, screeningResultIds: [] }
+    );
+  }
+
+  const base = {
+    ministryId: ministry.id,
+    listVersion: list.version,
+    screenedName: ministry.name,
+    screenedCountry: ministry.country,
+    grantId: options.grantId ?? null,
+    screenedById: options.screenedById ?? null,
+  };
+
+  const hits = findSanctionsHits(ministry, list.parties);
+  if (hits.length === 0) {
+    return [await prisma.screeningResult.create({ data: { ...base, status: 'NO_MATCH' } })];
+  }
+
+  const previous = await prisma.screeningResult.findMany({
+    where: {
+      ministryId: ministry.id,
+      partyEntryNumber: { in: hits.map((hit) => hit.party.entryNumber) },
+      status: { in: ['POTENTIAL_MATCH', 'CONFIRMED', 'CLEARED'] },
+    },
+    orderBy: { id: 'desc' },
+  });
+
+  const results: ScreeningResult[] = [];
+  for (const hit of hits) {
+    const earlier = previous.filter((row) => row.partyEntryNumber === hit.party.entryNumber);
+    if (earlier.some((row) => row.status !== 'CLEARED')) {
+      continue; // Still awaiting review, or confirmed
+    }
+    const cleared = earlier.find((row) => row.screenedName === ministry.name);
+
+    results.push(
+      await prisma.screeningResult.create({
+        data: {
+          ...base,
+          partyEntryNumber: hit.party.entryNumber,
+          partyName: hit.party.name,
+          matchedName: hit.matchedName,
+          partyPrograms: hit.party.programs,
+          score: hit.score,
+          countryMatch: hit.countryMatch,
+          ...(cleared
+            ? {
+                status: 'CLEARED' as const,
+                resolvedById: cleared.resolvedById,
+                resolvedAt: new Date(),
+                resolutionNotes: `Cleared earlier (screening result ${cleared.id}): ${cleared.resolutionNotes}`,
+              }
+            : { status: 'POTENTIAL_MATCH' as const }),
+        },
+      })
+    );
+  }
+  if (results.length === 0) {
+    results.push(await prisma.screeningResult.create({ data: { ...base, status: 'UNCHANGED' } }));
+  }
+  return results;
+}
+
+/**
+ * Unresolved or confirmed hits for a ministry
+ */
+export function findScreeningHolds(prisma: Db, ministryId: number): Promise<ScreeningResult[]> {
+  return prisma.screeningResult.findMany({
+    where: { ministryId, status: { in: ['POTENTIAL_MATCH', 'CONFIRMED'] } },
+    orderBy: { id: 'asc' },
+  });
+}
+
+/**
+ * Whether the ministry must be screened again: the list has been
+ * re-imported or the ministry has changed since its last screening
+ */
+async function isScreeningStale(prisma: Db, ministry: Ministry): Promise<boolean> {
+  const version = await currentListVersion(prisma);
+  const latest = await prisma.screeningResult.findFirst({
+    where: { ministryId: ministry.id },
+    orderBy: { id: 'desc' },
+  });
+  return (
+    !version ||
+    !latest ||
+    latest.listVersion.getTime() !== version.getTime() ||
+    latest.screenedAt < ministry.updatedAt
+  );
+}
+
+/**
+ * Throws while any hit for the ministry is unresolved or confirmed
+ */
+async function assertNoScreeningHolds(prisma: Db, ministry: Ministry): Promise<void> {
+  const holds = await findScreeningHolds(prisma, ministry.id);
+  if (holds.length > 0) {
+    const confirmed = holds.some((hold) => hold.status === 'CONFIRMED');
+    throw new ScreeningHoldError(
+      confirmed
+        ? `Cannot fund grant: ${ministry.name} is a confirmed match on the sanctions list`
+        : `Cannot fund grant: ${holds.length} sanctions screening ${holds.length === 1 ? 'hit needs' : 'hits need'} review by an administrator`,
+      { ministryId: ministry.id, screeningResultIds: holds.map((hold) => hold.id) }
+    );
+  }
+}
+
+/**
+ * Screens a ministry before a grant to it is funded, and throws while any
+ * hit is unresolved or confirmed
+ *
+ * The ministry is screened again when the list has been re-imported or the
+ * ministry has changed since its last screening. Results are written
+ * through `prisma`, so call this outside the funding transaction: they
+ * must survive the funding being refused. Inside the transaction, check
+ * again with assertScreeningCurrent.
+ */
+export async function assertScreeningClear(
+  prisma: Db,
+  ministry: Ministry,
+  options: { grantId?: number; screenedById?: number } = {}
+): Promise<void> {
+  if (await isScreeningStale(prisma, ministry)) {
+    await screenMinistry(prisma, ministry, options);
+  }
+  await assertNoScreeningHolds(prisma, ministry);
+}
+
+/**
+ * Checks, inside the funding transaction, that the screening done before
+ * it still holds: no hit has been confirmed or opened since, and neither
+ * the ministry nor the list has changed
+ * Screens nothing, so the transaction writes no results.
+ */
+export async function assertScreeningCurrent(
+  tx: Prisma.TransactionClient,
+  ministry: Ministry
+): Promise<void> {
+  if (await isScreeningStale(tx, ministry)) {
+    throw new ScreeningHoldError(
+      `Cannot fund grant: ${ministry.name} changed, or the sanctions list was updated, since it was screened. Try funding again.`,
+      { ministryId: ministry.id, screeningResultIds: [] }
+    );
+  }
+  await assertNoScreeningHolds(tx, ministry);
+}
+
+/**
+ * Records an ADMIN's decision on a potential match
+ */
+export async function resolveScreeningResult(
+  prisma: Db,
+  id: number,
+  resolution: 'CLEARED' | 'CONFIRMED',
+  notes: string,
+  resolvedById: number
+): Promise<ScreeningResult | null> {
+  const resolutionNotes = notes.trim();
+  if (!resolutionNotes) {
+    throw new ValidationError('Notes are required to resolve a screening hit', 'notes');
+  }
+
+  const result = await prisma.screeningResult.findUnique({ where: { id } });
+  if (!result) {
+    return null;
+  }
+  if (result.status !== 'POTENTIAL_MATCH') {
+    throw new InvalidTransitionError(
+      `Cannot resolve a screening result in ${result.status} status. Only POTENTIAL_MATCH results can be resolved.`,
+      { entityType: 'ScreeningResult', currentStatus: result.status, action: 'resolve' }
+    );
+  }
+
+  return prisma.screeningResult.update({
+    where: { id },
+    data: { status: resolution, resolvedById, resolvedAt: new Date(), resolutionNotes },
+  });
+}
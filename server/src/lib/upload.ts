@@ -0,0 +1,58 @@
+/**
+ * =============================================================================
+ * File Uploads
+ * =============================================================================
+ *
+ * Reads files sent through the Upload scalar (GraphQL multipart requests,
+ * see http.ts). Uploads are small spreadsheets, so they are read into
+ * memory whole.
+ */
+
+import type { FileUpload } from 'graphql-upload/processRequest.mjs';
+import { ValidationError } from './errors.js';
+
+/** Largest file accepted in a multipart request */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10 MB
+
+/**
+ * An uploaded file read into memory
+ */
+export interface UploadedFile {
+  filename: string;
+  /** As sent by the client; not to be trusted */
+  mimetype: string;
+  buffer: Buffer;
+}
+
+/**
+ * Reads an upload into memory
+ * Throws a ValidationError on `field` if the file is over MAX_UPLOAD_BYTES
+ */
+export async function readUpload(
+  file: Promise<FileUpload>,
+  field = 'file'
+): Promise<UploadedFile> {
+  const upload = await file;
+  const chunks: Buffer[] = [];
+
+  try {
+    for await (const chunk of upload.createReadStream()) {
+      chunks.push(chunk as Buffer);
+    }
+  } catch (error) {
+    // graphql-upload fails the stream with status 413 past maxFileSize
+    if (error instanceof Error && 'status' in error && error.status === 413) {
+      throw new ValidationError(
+        `File is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`,
+        field
+      );
+    }
+    throw error;
+  }
+
+  return {
+    filename: upload.filename,
+    mimetype: upload.mimetype,
+    buffer: Buffer.concat(chunks),
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * =============================================================================
+ * Ministry Verification
+ * =============================================================================
+ *
+ * Evidence-backed verification of ministries for grant eligibility.
+ *
+ * Each verification is a MinistryVerification record:
+ *   PENDING  - requested, awaiting review (at most one per ministry)
+ *   VERIFIED - reviewed by an advisor; valid until expiresAt
+ *   REVOKED  - withdrawn, with the reason and who withdrew it
+ *
+ * Ministry.verified mirrors whether a VERIFIED record exists. It is not
+ * cleared when that record expires, so grant checks must go through
+ * assertMinistryVerified, which treats an expired verification as none.
+ *
+ * findGrantableMinistry and findGrantableFund hold the rules for which
+ * ministries and funds can take part in a new grant; every path that
+ * creates one goes through them.
+ */
+
+import type {
+  GivingFund,
+  Ministry,
+  MinistryVerification,
+  VerificationMethod,
+} from '@prisma/client';
+import type { Db } from '../context.js';
+import { InvalidTransitionError, NotFoundError, ValidationError } from './errors.js';
+
+/** How long a verification lasts when no expiry is given */
+export const VERIFICATION_VALIDITY_MONTHS = 12;
+
+const MAX_DOCUMENT_REFS = 20;
+const MAX_DOCUMENT_REF_LENGTH = 500;
+
+/**
+ * Evidence supplied when requesting or completing a verification
+ */
+export interface VerificationEvidence {
+  method?: VerificationMethod;
+  /** Links or file references for the supporting documents */
+  documentRefs?: string[];
+  notes?: string;
+}
+
+/**
+ * Default expiry for a verification completed at `from`
+ */
+export function defaultVerificationExpiry(from: Date): Date {
+  const expiry = new Date(from);
+  expiry.setUTCMonth(expiry.getUTCMonth() + VERIFICATION_VALIDITY_MONTHS);
+  return expiry;
+}
+
+/**
+ * Whether a verification has passed its expiry date
+ */
+export function isVerificationExpired(
+  verification: Pick<MinistryVerification, 'expiresAt'>,
+  now = new Date()
+): boolean {
+  return verification.expiresAt !== null && verification.expiresAt <= now;
+}
+
+/**
+ * Trims document references, dropping blanks and duplicates
+ */
+export function normalizeDocumentRefs(refs: string[] | undefined): string[] {
+  const normalized = [...new Set((refs ?? []).map((ref) => ref.trim()))].filter(
+    (ref) => ref.length > 0
+  );
+  if (normalized.length > MAX_DOCUMENT_REFS) {
+    throw new ValidationError(
+      `At most ${MAX_DOCUMENT_REFS} document references are allowed`,
+      'documentRefs'
+    );
+  }
+  if (normalized.some((ref) => ref.length > MAX_DOCUMENT_REF_LENGTH)) {
+    throw new ValidationError(
+      `Document references must be at most ${MAX_DOCUMENT_REF_LENGTH} characters`,
+      'documentRefs'
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Most recent VERIFIED record for a ministry, whether or not it has expired
+ */
+export function findLatestVerification(
+  prisma: Db,
+  ministryId: number
+): Promise<MinistryVerification | null> {
+  return prisma.ministryVerification.findFirst({
+    where: { ministryId, status: 'VERIFIED' },
+    orderBy: [{ verifiedAt: 'desc' }, { id: 'desc' }],
+  });
+}
+
+/**
+ * Throws unless the ministry holds an unexpired verification
+ * `field` names the argument that referenced the ministry, for the error
+ */
+export async function assertMinistryVerified(
+  prisma: Db,
+  ministry: Ministry,
+  field: string,
+  now = new Date()
+): Promise<void> {
+  const latest = ministry.verified
+    ? await findLatestVerification(prisma, ministry.id)
+    : null;
+
+  if (!latest) {
+    throw new ValidationError(
+      'Cannot create grant for unverified ministry. Ministry must be verified first.',
+      field
+    );
+  }
+  if (isVerificationExpired(latest, now)) {
+    throw new ValidationError(
+      `Cannot create grant for ministry whose verification expired on ${latest.expiresAt!
+        .toISOString()
+        .slice(0, 10)}. Ministry must be verified again first.`,
+      field
+    );
+  }
+}
+
+/**
+ * Loads a ministry and throws unless it can receive a new grant: not
+ * archived, verified and unexpired, and active
+ */
+export async function findGrantableMinistry(
+  prisma: Db,
+  ministryId: number,
+  field: string,
+  now = new Date()
+): Promise<Ministry> {
+  const ministry = await prisma.ministry.findUnique({ where: { id: ministryId } });
+  if (!ministry) {
+    throw new NotFoundError('Ministry', ministryId);
+  }
+  if (ministry.archivedAt) {
+    throw new ValidationError('Cannot create grant for archived ministry', field);
+  }
+  // Expired verifications count as unverified
+  await assertMinistryVerified(prisma, ministry, field, now);
+  if (!ministry.active) {
+    throw new ValidationError('Cannot create grant for inactive ministry', field);
+  }
+  return ministry;
+}
+
+/**
+ * Loads a fund and throws unless it can make a new grant: not archived,
+ * active, its donor active, and not closing
+ * `finalGrant` admits a closing fund for the grants that pay it out (see
+ * closeGivingFund), including one a reversal reopened after it closed
+ */
+export async function findGrantableFund(
+  prisma: Db,
+  givingFundId: number,
+  field: string,
+  { finalGrant = false }: { finalGrant?: boolean } = {}
+): Promise<GivingFund> {
+  const fund = await prisma.givingFund.findUnique({
+    where: { id: givingFundId },
+    include: { donor: { select: { active: true } } },
+  });
+  if (!fund) {
+    throw new NotFoundError('GivingFund', givingFundId);
+  }
+  if (fund.archivedAt) {
+    throw new ValidationError('Cannot create grant from archived giving fund', field);
+  }
+  // A closed fund is inactive, and stays so if a reversal reopens it
+  if (!fund.active && !(finalGrant && fund.closingAt)) {
+    throw new ValidationError('Cannot create grant from inactive giving fund', field);
+  }
+  if (!fund.donor.active) {
+    throw new ValidationError("Cannot create grant while the fund's donor is inactive", field);
+  }
+  if (fund.closingAt && !finalGrant) {
+    throw new ValidationError(
+      'Cannot create grant from a closing giving fund; add final grants with closeGivingFund',
+      field
+    );
+  }
+  return fund;
+}
+
+/**
+ * Opens a PENDING verification request for a ministry
+ */
+export async function requestVerification(
+  prisma: Db,
+  ministryId: number,
+  requestedById: number,
+  evidence: VerificationEvidence & { method: VerificationMethod }
+): Promise<MinistryVerification> {
+  const pending = await prisma.ministryVerification.findFirst({
+    where: { ministryId, status: 'PENDING' },
+  });
+  if (pending) {
+    throw new InvalidTransitionError(
+      `Ministry already has a pending verification request (${pending.id})`,
+      { entityType: 'MinistryVerification', currentStatus: 'PENDING', action: 'request' }
+    );
+  }
+
+  return prisma.ministryVerification.create({
+    data: {
+      ministryId,
+      requestedById,
+      method: evidence.method,
+      documentRefs: normalizeDocumentRefs(evidence.documentRefs),
+      notes: evidence.notes?.trim() || null,
+    },
+  });
+}
+
+/**
+ * Records a completed verification and marks the ministry verified
+ *
+ * Completes the pending request if there is one (adding any new evidence),
+ * otherwise records a new verification. Earlier VERIFIED records are kept
+ * as history; the latest one decides eligibility.
+ */
+export async function completeVerification(
+  prisma: Db,
+  ministryId: number,
+  verifiedById: number,
+  evidence: VerificationEvidence & { expiresAt?: Date },
+  now = new Date()
+): Promise<MinistryVerification> {
+  const expiresAt = evidence.expiresAt ?? defaultVerificationExpiry(now);
+  if (expiresAt <= now) {
+    throw new ValidationError('Verification expiry must be in the future', 'expiresAt');
+  }
+
+  const documentRefs = normalizeDocumentRefs(evidence.documentRefs);
+  const notes = evidence.notes?.trim() || null;
+  const pending = await prisma.ministryVerification.findFirst({
+    where: { ministryId, status: 'PENDING' },
+  });
+
+  const verification = pending
+    ? await prisma.ministryVerification.update({
+        where: { id: pending.id },
+        data: {
+          status: 'VERIFIED',
+          ...(evidence.method ? { method: evidence.method } : {}),
+          documentRefs: [...new Set([...pending.documentRefs, ...documentRefs])],
+          ...(notes ? { notes: pending.notes ? `${pending.notes}\n\n${notes}` : notes } : {}),
+          verifiedById,
+          verifiedAt: now,
+          expiresAt,
+        },
+      })
+    : await prisma.ministryVerification.create({
+        data: {
+          ministryId,
+          status: 'VERIFIED',
+          method: evidence.method ?? 'MANUAL',
+          documentRefs,
+          notes,
+          requestedById: verifiedById,
+          requestedAt: now,
+          verifiedById,
+          verifiedAt: now,
+          expiresAt,
+        },
+      });
+
+  await prisma.ministry.update({
+    where: { id: ministryId },
+    data: { verified: true },
+  });
+
+  return verification;
+}
+
+/**
+ * Revokes every VERIFIED record for a ministry and marks it unverified
+ * Returns the number of records revoked
+ */
+export async function revokeVerifications(
+  prisma: Db,
+  ministry: Ministry,
+  revokedById: number,
+  reason: string,
+  now = new Date()
+): Promise<number> {
+  const revocationReason = reason.trim();
+  if (!revocationReason) {
+    throw new ValidationError('A reason is required to revoke a verification', 'reason');
+  }
+
+  const { count } = await prisma.ministryVerification.updateMany({
+    where: { ministryId: ministry.id, status: 'VERIFIED' },
+    data: {
+      status: 'REVOKED',
+      revokedById,
+      revokedAt: now,
+      revocationReason,
+    },
+  });
+  if (count === 0 && !ministry.verified) {
+    throw new InvalidTransitionError('Ministry is not verified', {
+      entityType: 'Ministry',
+      currentStatus: 'UNVERIFIED',
+      action: 'revokeVerification',
+    });
+  }
+
+  await prisma.ministry.update({
+    where: { id: ministry.id },
+    data: { verified: false },
+  });
+
+  return count;
+}
@@ -0,0 +1,112 @@
+/**
+ * =============================================================================
+ * Audit Resolvers
+ * =============================================================================
+ *
+ * Read access to the audit trail written by the mutation hook in
+ * lib/audit.ts:
+ *   - auditEvents: paginated history for an entity type or single entity
+ *   - AuditEvent.actor: the user who made the change
+ *
+ * Grant.history lives with the other Grant fields in grant.resolvers.ts.
+ */
+
+import type { AuditEvent, Prisma } from '@prisma/client';
+import type { Context } from '../context.js';
+import { authorize } from '../lib/authorization.js';
+import { ValidationError } from '../lib/errors.js';
+
+/**
+ * Encodes an audit event ID as a cursor for pagination
+ */
+function encodeCursor(id: number): string {
+  return Buffer.from(`auditEvent:${id}`).toString('base64');
+}
+
+/**
+ * Decodes a cursor back to an audit event ID
+ */
+function decodeCursor(cursor: string): number {
+  const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
+  const id = parseInt(decoded.replace('auditEvent:', ''), 10);
+  if (isNaN(id)) {
+    throw new ValidationError('Invalid cursor format', 'after');
+  }
+  return id;
+}
+
+export const auditResolvers = {
+  Query: {
+    /**
+     * Fetches audit events newest first, for one entity type and
+     * optionally a single entity
+     */
+    auditEvents: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          entityType,
+          entityId,
+          after,
+          first = 20,
+        }: {
+          entityType: string;
+          entityId?: number;
+          after?: string;
+          first?: number;
+        },
+        { prisma }: Context
+      ) => {
+        const take = Math.min(Math.max(first, 1), 100); // Between 1 and 100
+        const where: Prisma.AuditEventWhereInput = { entityType };
+        if (entityId !== undefined) {
+          where.entityId = entityId;
+        }
+
+        const totalCount = await prisma.auditEvent.count({ where });
+
+        // Fetch one extra to determine if there's a next page,
+        // skipping the cursor item itself when paging
+        const items = await prisma.auditEvent.findMany({
+          where,
+          take: take + 1,
+          ...(after ? { cursor: { id: decodeCursor(after) }, skip: 1 } : {}),
+          orderBy: { id: 'desc' },
+        });
+
+        const hasNextPage = items.length > take;
+        const edges = items.slice(0, take).map((event) => ({
+          node: event,
+          cursor: encodeCursor(event.id),
+        }));
+
+        return {
+          edges,
+          pageInfo: {
+            hasNextPage,
+            hasPreviousPage: !!after,
+            startCursor: edges[0]?.cursor ?? null,
+            endCursor: edges[edges.length - 1]?.cursor ?? null,
+            totalCount,
+          },
+        };
+      }
+    ),
+  },
+
+  /**
+   * Field resolvers for AuditEvent type
+   */
+  AuditEvent: {
+    /**
+     * Resolves the user who made the change (null if anonymous or removed)
+     */
+    actor: async (parent: AuditEvent, _args: unknown, { loaders }: Context) => {
+      if (parent.actorId === null) {
+        return null;
+      }
+      return loaders.user.load(parent.actorId);
+    },
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * =============================================================================
+ * Auth Resolvers
+ * =============================================================================
+ *
+ * Handles GraphQL operations related to API users:
+ *   - login: exchanges email/password for a locally-signed access token
+ *   - me: returns the user behind the current bearer token
+ *
+ * Token verification itself happens once per request in createContext
+ * (see lib/auth.ts); resolvers only read context.user.
+ */
+
+import type { User } from '@prisma/client';
+import type { Context } from '../context.js';
+import { signAccessToken, verifyPassword } from '../lib/auth.js';
+import { UnauthenticatedError } from '../lib/errors.js';
+
+export const authResolvers = {
+  Query: {
+    /**
+     * Returns the authenticated user, or null for anonymous requests
+     */
+    me: async (
+      _parent: unknown,
+      _args: unknown,
+      { prisma, user }: Context
+    ): Promise<User | null> => {
+      if (!user) {
+        return null;
+      }
+      return prisma.user.findUnique({
+        where: { id: user.id },
+      });
+    },
+  },
+
+  Mutation: {
+    /**
+     * Signs in with email and password
+     * Returns a bearer token for the Authorization header
+     *
+     * The same error is returned for unknown emails and wrong passwords
+     * so the endpoint cannot be used to discover accounts
+     */
+    login: async (
+      _parent: unknown,
+      { email, password }: { email: string; password: string },
+      { prisma }: Context
+    ) => {
+      const account = await prisma.user.findUnique({
+        where: { email: email.toLowerCase().trim() },
+      });
+
+      const valid =
+        account?.passwordHash !== null &&
+        account?.passwordHash !== undefined &&
+        account.active &&
+        (await verifyPassword(password, account.passwordHash));
+      if (!account || !valid) {
+        throw new UnauthenticatedError('Invalid email or password');
+      }
+
+      const { token, expiresAt } = await signAccessToken(account);
+      const updated = await prisma.user.update({
+        where: { id: account.id },
+        data: { lastLoginAt: new Date() },
+      });
+
+      return {
+        token,
+        expiresAt,
+        user: updated,
+      };
+    },
+  },
+
+  /**
+   * Field resolvers for User type
+   */
+  User: {
+    /**
+     * Resolves the donor record linked to this user (DONOR role)
+     */
+    donor: async (parent: User, _args: unknown, { loaders }: Context) => {
+      if (parent.donorId === null) {
+        return null;
+      }
+      return loaders.donor.load(parent.donorId);
+    },
+  },
+};
@@ -0,0 +1,158 @@
+/**
+ * =============================================================================
+ * Contribution Resolvers
+ * =============================================================================
+ *
+ * Assets given to giving funds (see lib/contributions.ts):
+ *   - recordContribution: a donor records cash, stock, real estate, crypto
+ *     or a business interest given to their fund
+ *   - liquidateContribution: an ADVISOR records the sale of a non-cash asset,
+ *     crediting the fund with the net proceeds
+ *   - cancelContribution: an ADVISOR records an asset declined or returned
+ *   - GivingFund.contributions and FundTransaction.contribution
+ *
+ * Cash is credited when recorded; other assets only when liquidated.
+ */
+
+import type {
+  Contribution,
+  FundTransaction,
+  GivingFund,
+  LiquidationStatus,
+  Prisma,
+} from '@prisma/client';
+import type { Context } from '../context.js';
+import { authorize, requireUser } from '../lib/authorization.js';
+import {
+  cancelContribution,
+  liquidateContribution,
+  recordContribution,
+  type ContributionInput,
+} from '../lib/contributions.js';
+
+export const contributionResolvers = {
+  Query: {
+    /**
+     * Fetches a single contribution by ID
+     */
+    contribution: authorize(
+      { requires: 'DONOR', ownsContribution: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<Contribution | null> => {
+        return prisma.contribution.findUnique({ where: { id } });
+      }
+    ),
+  },
+
+  Mutation: {
+    /**
+     * Records a contribution to a fund
+     * Cash is credited at once; other assets stay PENDING until liquidated
+     */
+    recordContribution: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.input.givingFundId },
+      async (
+        _parent: unknown,
+        { input }: { input: ContributionInput },
+        context: Context
+      ): Promise<Contribution> => {
+        const user = requireUser(context);
+        return recordContribution(context.prisma, input, user.id);
+      }
+    ),
+
+    /**
+     * Records the sale of a contributed asset and credits the fund
+     */
+    liquidateContribution: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          id,
+          netProceeds,
+          liquidatedAt,
+        }: { id: number; netProceeds: string | number; liquidatedAt?: Date | null },
+        { prisma }: Context
+      ): Promise<Contribution> => {
+        return liquidateContribution(prisma, id, netProceeds, liquidatedAt);
+      }
+    ),
+
+    /**
+     * Cancels a contribution that was declined or returned
+     */
+    cancelContribution: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id, reason }: { id: number; reason: string },
+        { prisma }: Context
+      ): Promise<Contribution> => {
+        return cancelContribution(prisma, id, reason);
+      }
+    ),
+  },
+
+  Contribution: {
+    /**
+     * Quantities keep their full precision (fractions of a coin or share)
+     */
+    quantity: (parent: Contribution) => parent.quantity?.toString() ?? null,
+
+    /**
+     * Resolves the fund the contribution was given to
+     */
+    givingFund: (parent: Contribution, _args: unknown, { loaders }: Context) =>
+      loaders.givingFund.load(parent.givingFundId),
+
+    /**
+     * Resolves the donor who gave the contribution
+     */
+    donor: (parent: Contribution, _args: unknown, { loaders }: Context) =>
+      loaders.donor.load(parent.donorId),
+
+    /**
+     * Resolves the user who recorded the contribution
+     */
+    recordedBy: (parent: Contribution, _args: unknown, { loaders }: Context) =>
+      parent.recordedById === null ? null : loaders.user.load(parent.recordedById),
+  },
+
+  /**
+   * Contribution fields on GivingFund
+   */
+  GivingFund: {
+    /**
+     * Resolves contributions to the fund, newest first
+     */
+    contributions: async (
+      parent: GivingFund,
+      { status }: { status?: LiquidationStatus },
+      { prisma }: Context
+    ): Promise<Contribution[]> => {
+      const where: Prisma.ContributionWhereInput = { givingFundId: parent.id };
+      if (status) {
+        where.liquidationStatus = status;
+      }
+      return prisma.contribution.findMany({
+        where,
+        orderBy: [{ receivedAt: 'desc' }, { id: 'desc' }],
+      });
+    },
+  },
+
+  /**
+   * Contribution field on FundTransaction
+   */
+  FundTransaction: {
+    /**
+     * Resolves the contribution this credit is for
+     */
+    contribution: (parent: FundTransaction, _args: unknown, { loaders }: Context) =>
+      parent.contributionId === null ? null : loaders.contribution.load(parent.contributionId),
+  },
+};
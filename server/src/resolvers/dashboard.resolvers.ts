@@ -5,9 +5,13 @@
  *
  * Provides aggregated statistics for the dashboard overview.
  * Demonstrates efficient use of Prisma aggregations and group by queries.
+ * Archived records are left out of the counts; money held in archived
+ * funds still counts toward the total balance.
  */
 
+import { Decimal } from '@prisma/client/runtime/library';
 import type { Context } from '../context.js';
+import { archivedWhere } from '../lib/archive.js';
 
 export const dashboardResolvers = {
   Query: {
@@ -34,22 +38,22 @@ export const dashboardResolvers = {
         grantsByStatus,
       ] = await Promise.all([
         // Ministry counts
-        prisma.ministry.count(),
-        prisma.ministry.count({ where: { verified: true } }),
+        prisma.ministry.count({ where: archivedWhere() }),
+        prisma.ministry.count({ where: { ...archivedWhere(), verified: true } }),
 
         // Donor and fund counts
-        prisma.donor.count(),
-        prisma.givingFund.count(),
+        prisma.donor.count({ where: archivedWhere() }),
+        prisma.givingFund.count({ where: archivedWhere() }),
 
         // Total balance across all funds
         prisma.givingFund.aggregate({
           _sum: { balance: true },
         }),
 
-        // Total disbursed (funded grants)
+        // Total disbursed (funded grants, net of partial reversals)
         prisma.grant.aggregate({
           where: { status: 'FUNDED' },
-          _sum: { amount: true },
+          _sum: { amount: true, reversedAmount: true },
         }),
 
         // Total pending amount
@@ -71,6 +75,7 @@ export const dashboardResolvers = {
         APPROVED: 0,
         FUNDED: 0,
         REJECTED: 0,
+        REVERSED: 0,
       };
       grantsByStatus.forEach((g) => {
         statusCounts[g.status] = g._count;
@@ -82,13 +87,16 @@ export const dashboardResolvers = {
         totalDonors,
         totalFunds,
         totalBalance: balanceAggregate._sum.balance ?? 0,
-        totalDisbursed: disbursedAggregate._sum.amount ?? 0,
+        totalDisbursed: new Decimal(disbursedAggregate._sum.amount ?? 0).minus(
+          disbursedAggregate._sum.reversedAmount ?? 0
+        ),
         pendingAmount: pendingAggregate._sum.amount ?? 0,
         grantsByStatus: {
           pending: statusCounts['PENDING'] ?? 0,
           approved: statusCounts['APPROVED'] ?? 0,
           funded: statusCounts['FUNDED'] ?? 0,
           rejected: statusCounts['REJECTED'] ?? 0,
+          reversed: statusCounts['REVERSED'] ?? 0,
           total: Object.values(statusCounts).reduce((a, b) => a + b, 0),
         },
       };
@@ -5,44 +5,252 @@
  *
  * Handles all GraphQL operations related to Donor entities:
  *   - Query operations for fetching donors
- *   - Mutation for creating new donors
+ *   - Mutations for creating, updating, deactivating, archiving and
+ *     restoring donors
+ *   - Household contacts (spouses and other family members)
  *   - Computed fields for giving funds and total balance
  *
+ * Donor users may only read their own record, and may update it and its
+ * contacts; creating and deactivating donors needs ADVISOR, archiving and
+ * restoring them ADMIN. Archived donors are left out of lists unless
+ * filter.archived is set. Inactive donors open no new funds and add no
+ * money or grants.
+ *
  * Donors are individuals or families who establish giving funds for
  * charitable distributions to ministries.
  */
 
-import type { Donor, Prisma } from '@prisma/client';
+import type { ContactRelationship, Donor, DonorContact, GivingFund, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
 import type { Context } from '../context.js';
+import { archiveDonor, archivedWhere, restoreDonor } from '../lib/archive.js';
+import { authorize, donorScope, requireUser } from '../lib/authorization.js';
+import { InvalidTransitionError, NotFoundError, ValidationError } from '../lib/errors.js';
+import type { Loaders } from '../lib/loaders.js';
+import {
+  findManyPage,
+  pageWindow,
+  toConnection,
+  type ConnectionArgs,
+} from '../lib/pagination.js';
+
+interface DonorFilter {
+  search?: string;
+  archived?: boolean;
+}
+
+interface DonorOrder {
+  field: 'LAST_NAME' | 'CREATED_AT';
+  direction?: 'ASC' | 'DESC';
+}
+
+/**
+ * Postal address fields shared by the create and update inputs
+ */
+interface DonorAddressInput {
+  addressLine1?: string | null;
+  addressLine2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+}
+
+interface DonorContactInput {
+  firstName: string;
+  lastName: string;
+  relationship: ContactRelationship;
+  email?: string | null;
+  phone?: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Trims an optional text field; blank clears it
+ */
+function optionalText(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+/**
+ * Trims a required name field, rejecting blanks
+ */
+function requiredName(value: string, field: string): string {
+  const name = value.trim();
+  if (!name) {
+    throw new ValidationError(`${field} cannot be blank`, field);
+  }
+  return name;
+}
+
+/**
+ * Lower-cases and validates an email address
+ */
+function normalizeEmail(value: string, field = 'email'): string {
+  const email = value.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new ValidationError('Invalid email format', field);
+  }
+  return email;
+}
+
+/**
+ * Update data for the address fields present in the input
+ * Country cannot be cleared; it defaults to USA
+ */
+function addressData(input: DonorAddressInput): Prisma.DonorUpdateInput {
+  const data: Prisma.DonorUpdateInput = {};
+  if (input.addressLine1 !== undefined) data.addressLine1 = optionalText(input.addressLine1);
+  if (input.addressLine2 !== undefined) data.addressLine2 = optionalText(input.addressLine2);
+  if (input.city !== undefined) data.city = optionalText(input.city);
+  if (input.state !== undefined) data.state = optionalText(input.state);
+  if (input.postalCode !== undefined) data.postalCode = optionalText(input.postalCode);
+  if (input.country !== undefined) data.country = optionalText(input.country) ?? 'USA';
+  return data;
+}
+
+/**
+ * Validates and trims a household contact
+ */
+function contactData(input: DonorContactInput) {
+  return {
+    firstName: requiredName(input.firstName, 'firstName'),
+    lastName: requiredName(input.lastName, 'lastName'),
+    relationship: input.relationship,
+    email: input.email?.trim() ? normalizeEmail(input.email) : null,
+    phone: optionalText(input.phone),
+  };
+}
+
+/**
+ * Activates or deactivates a donor
+ */
+async function setDonorActive(
+  prisma: Context['prisma'],
+  id: number,
+  active: boolean
+): Promise<Donor> {
+  const donor = await prisma.donor.findUnique({ where: { id } });
+  if (!donor) {
+    throw new NotFoundError('Donor', id);
+  }
+  if (donor.active === active) {
+    const action = active ? 'reactivateDonor' : 'deactivateDonor';
+    throw new InvalidTransitionError(
+      `Donor ${id} is already ${active ? 'active' : 'inactive'}`,
+      { entityType: 'Donor', currentStatus: active ? 'ACTIVE' : 'INACTIVE', action }
+    );
+  }
+
+  return prisma.donor.update({ where: { id }, data: { active } });
+}
+
+/**
+ * Giving funds shown on a donor: those not archived, or every fund once
+ * the donor is archived
+ */
+async function donorFunds(
+  donor: Donor,
+  loaders: Loaders
+): Promise<GivingFund[]> {
+  const funds = await loaders.givingFundsByDonor.load(donor.id);
+  return donor.archivedAt ? funds : funds.filter((fund) => !fund.archivedAt);
+}
 
 export const donorResolvers = {
   Query: {
     /**
      * Fetches a single donor by ID
      */
-    donor: async (
-      _parent: unknown,
-      { id }: { id: number },
-      { prisma }: Context
-    ): Promise<Donor | null> => {
-      return prisma.donor.findUnique({
-        where: { id },
-      });
-    },
+    donor: authorize(
+      { requires: 'DONOR', ownsDonor: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<Donor | null> => {
+        return prisma.donor.findUnique({
+          where: { id },
+        });
+      }
+    ),
 
     /**
-     * Fetches all donors
-     * In a production app, this would include pagination
+     * Fetches a page of donors visible to the caller
+     * Pages forward with first/after or backward with last/before
      */
-    donors: async (
-      _parent: unknown,
-      _args: unknown,
-      { prisma }: Context
-    ): Promise<Donor[]> => {
-      return prisma.donor.findMany({
-        orderBy: { lastName: 'asc' },
-      });
-    },
+    donorsConnection: authorize(
+      { requires: 'DONOR' },
+      async (
+        _parent: unknown,
+        {
+          filter,
+          orderBy,
+          ...page
+        }: ConnectionArgs & {
+          filter?: DonorFilter;
+          orderBy?: DonorOrder;
+        },
+        context: Context
+      ) => {
+        const { prisma } = context;
+        const window = pageWindow('donor', page);
+
+        const where: Prisma.DonorWhereInput = {
+          AND: [
+            donorScope(requireUser(context)),
+            archivedWhere(filter?.archived ?? false),
+            filter?.search
+              ? {
+                  OR: [
+                    { firstName: { contains: filter.search, mode: 'insensitive' } },
+                    { lastName: { contains: filter.search, mode: 'insensitive' } },
+                    { email: { contains: filter.search, mode: 'insensitive' } },
+                  ],
+                }
+              : {},
+          ],
+        };
+
+        // Alphabetical by default; id keeps the order stable
+        const direction = orderBy?.direction === 'DESC' ? 'desc' : 'asc';
+        const order: Prisma.DonorOrderByWithRelationInput[] =
+          orderBy?.field === 'CREATED_AT'
+            ? [{ createdAt: direction }, { id: direction }]
+            : [{ lastName: direction }, { firstName: direction }, { id: direction }];
+
+        const [totalCount, items] = await Promise.all([
+          prisma.donor.count({ where }),
+          prisma.donor.findMany({
+            where,
+            orderBy: order,
+            ...findManyPage(window),
+          }),
+        ]);
+
+        return toConnection('donor', items, window, totalCount);
+      }
+    ),
+
+    /**
+     * Fetches all donors visible to the caller
+     * Donors see only their own record
+     * Deprecated in favour of donorsConnection; unbounded
+     */
+    donors: authorize(
+      { requires: 'DONOR' },
+      async (
+        _parent: unknown,
+        _args: unknown,
+        context: Context
+      ): Promise<Donor[]> => {
+        return context.prisma.donor.findMany({
+          where: { AND: [donorScope(requireUser(context)), archivedWhere()] },
+          orderBy: { lastName: 'asc' },
+        });
+      }
+    ),
   },
 
   Mutation: {
@@ -50,43 +258,220 @@ export const donorResolvers = {
      * Creates a new donor record
      * Email must be unique
      */
-    createDonor: async (
-      _parent: unknown,
-      {
-        input,
-      }: {
-        input: {
-          firstName: string;
-          lastName: string;
-          email: string;
-          phone?: string;
-        };
-      },
-      { prisma }: Context
-    ): Promise<Donor> => {
-      // Validate email format
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(input.email)) {
-        throw new Error('Invalid email format');
-      }
+    createDonor: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          input,
+        }: {
+          input: DonorAddressInput & {
+            firstName: string;
+            lastName: string;
+            email: string;
+            phone?: string;
+          };
+        },
+        { prisma }: Context
+      ): Promise<Donor> => {
+        const email = normalizeEmail(input.email);
 
-      // Check for existing donor with same email
-      const existing = await prisma.donor.findUnique({
-        where: { email: input.email.toLowerCase() },
-      });
-      if (existing) {
-        throw new Error('A donor with this email already exists');
+        // Check for existing donor with same email
+        const existing = await prisma.donor.findUnique({
+          where: { email },
+        });
+        if (existing) {
+          throw new ValidationError(
+            'A donor with this email already exists',
+            'email'
+          );
+        }
+
+        return prisma.donor.create({
+          data: {
+            firstName: input.firstName.trim(),
+            lastName: input.lastName.trim(),
+            email,
+            phone: input.phone?.trim(),
+            addressLine1: optionalText(input.addressLine1),
+            addressLine2: optionalText(input.addressLine2),
+            city: optionalText(input.city),
+            state: optionalText(input.state),
+            postalCode: optionalText(input.postalCode),
+            country: optionalText(input.country) ?? 'USA',
+          },
+        });
       }
+    ),
 
-      return prisma.donor.create({
-        data: {
-          firstName: input.firstName.trim(),
-          lastName: input.lastName.trim(),
-          email: input.email.toLowerCase().trim(),
-          phone: input.phone?.trim(),
+    /**
+     * Updates a donor's name, contact details and postal address
+     * Only provided fields are changed; blank optional fields are cleared
+     */
+    updateDonor: authorize(
+      { requires: 'DONOR', ownsDonor: (args) => args.id },
+      async (
+        _parent: unknown,
+        {
+          id,
+          input,
+        }: {
+          id: number;
+          input: DonorAddressInput & {
+            firstName?: string;
+            lastName?: string;
+            email?: string;
+            phone?: string | null;
+          };
         },
-      });
-    },
+        { prisma }: Context
+      ): Promise<Donor> => {
+        const existing = await prisma.donor.findUnique({ where: { id } });
+        if (!existing) {
+          throw new NotFoundError('Donor', id);
+        }
+
+        const data = addressData(input);
+        if (input.firstName !== undefined) data.firstName = requiredName(input.firstName, 'firstName');
+        if (input.lastName !== undefined) data.lastName = requiredName(input.lastName, 'lastName');
+        if (input.phone !== undefined) data.phone = optionalText(input.phone);
+        if (input.email !== undefined) {
+          const email = normalizeEmail(input.email);
+          if (email !== existing.email) {
+            const taken = await prisma.donor.findUnique({ where: { email } });
+            if (taken) {
+              throw new ValidationError('A donor with this email already exists', 'email');
+            }
+          }
+          data.email = email;
+        }
+
+        return prisma.donor.update({ where: { id }, data });
+      }
+    ),
+
+    /**
+     * Deactivates a donor
+     * Their funds and history stay visible, but they can open no new funds
+     * and add no money or grants until reactivated
+     */
+    deactivateDonor: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<Donor> => {
+        return setDonorActive(prisma, id, false);
+      }
+    ),
+
+    /**
+     * Reactivates a deactivated donor
+     */
+    reactivateDonor: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<Donor> => {
+        return setDonorActive(prisma, id, true);
+      }
+    ),
+
+    /**
+     * Adds a household contact, such as a spouse, to a donor
+     */
+    addDonorContact: authorize(
+      { requires: 'DONOR', ownsDonor: (args) => args.donorId },
+      async (
+        _parent: unknown,
+        { donorId, input }: { donorId: number; input: DonorContactInput },
+        { prisma }: Context
+      ): Promise<DonorContact> => {
+        const donor = await prisma.donor.findUnique({ where: { id: donorId } });
+        if (!donor) {
+          throw new NotFoundError('Donor', donorId);
+        }
+
+        return prisma.donorContact.create({
+          data: { ...contactData(input), donorId },
+        });
+      }
+    ),
+
+    /**
+     * Replaces a household contact's details
+     */
+    updateDonorContact: authorize(
+      { requires: 'DONOR', ownsDonorContact: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id, input }: { id: number; input: DonorContactInput },
+        { prisma }: Context
+      ): Promise<DonorContact> => {
+        const contact = await prisma.donorContact.findUnique({ where: { id } });
+        if (!contact) {
+          throw new NotFoundError('DonorContact', id);
+        }
+
+        return prisma.donorContact.update({
+          where: { id },
+          data: contactData(input),
+        });
+      }
+    ),
+
+    /**
+     * Removes a household contact
+     */
+    removeDonorContact: authorize(
+      { requires: 'DONOR', ownsDonorContact: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<boolean> => {
+        const { count } = await prisma.donorContact.deleteMany({ where: { id } });
+        if (count === 0) {
+          throw new NotFoundError('DonorContact', id);
+        }
+        return true;
+      }
+    ),
+
+    /**
+     * Archives a donor and their giving funds
+     * Will throw if any of their funds has PENDING or APPROVED grants
+     */
+    deleteDonor: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        context: Context
+      ): Promise<boolean> => {
+        const user = requireUser(context);
+        await archiveDonor(context.prisma, id, user.id);
+        return true;
+      }
+    ),
+
+    /**
+     * Restores an archived donor and the funds archived with them
+     */
+    restoreDonor: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        context: Context
+      ): Promise<Donor> => {
+        const user = requireUser(context);
+        return restoreDonor(context.prisma, id, user.id);
+      }
+    ),
   },
 
   /**
@@ -101,32 +486,43 @@ export const donorResolvers = {
     },
 
     /**
-     * Resolves all giving funds owned by this donor
+     * Resolves the donor's household contacts, oldest first
      */
-    givingFunds: async (
+    contacts: async (
       parent: Donor,
       _args: unknown,
       { prisma }: Context
-    ) => {
-      return prisma.givingFund.findMany({
+    ): Promise<DonorContact[]> => {
+      return prisma.donorContact.findMany({
         where: { donorId: parent.id },
-        orderBy: { createdAt: 'desc' },
+        orderBy: { id: 'asc' },
       });
     },
 
     /**
-     * Calculates total balance across all giving funds
+     * Resolves the giving funds owned by this donor
+     */
+    givingFunds: async (
+      parent: Donor,
+      _args: unknown,
+      { loaders }: Context
+    ) => {
+      return donorFunds(parent, loaders);
+    },
+
+    /**
+     * Calculates total balance across the donor's giving funds
      */
     totalBalance: async (
       parent: Donor,
       _args: unknown,
-      { prisma }: Context
+      { loaders }: Context
     ) => {
-      const result = await prisma.givingFund.aggregate({
-        where: { donorId: parent.id },
-        _sum: { balance: true },
-      });
-      return result._sum.balance ?? 0;
+      const funds = await donorFunds(parent, loaders);
+      return funds.reduce(
+        (total, fund) => total.add(fund.balance),
+        new Decimal(0)
+      );
     },
   },
 };
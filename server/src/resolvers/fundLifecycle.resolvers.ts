@@ -0,0 +1,121 @@
+/**
+ * =============================================================================
+ * Giving Fund Lifecycle Resolvers
+ * =============================================================================
+ *
+ * Closing, transferring and succession of giving funds (see
+ * lib/fundLifecycle.ts):
+ *   - closeGivingFund: closes an empty fund, or starts closing it with a
+ *     final-grant plan
+ *   - transferGivingFund: an ADVISOR hands a fund to another donor
+ *   - addFundSuccessor / removeFundSuccessor: donors name who inherits
+ *     their fund
+ *   - GivingFund.successors is resolved in givingFund.resolvers.ts
+ *
+ * A donor may name any donor as successor, but sees only their name:
+ * FundSuccessor.donor is for advisors, admins and the successor themself.
+ */
+
+import type { Donor, FundSuccessor, GivingFund } from '@prisma/client';
+import type { Context } from '../context.js';
+import { authorize, isStaff, requireUser } from '../lib/authorization.js';
+import {
+  addFundSuccessor,
+  closeGivingFund,
+  revokeFundSuccessor,
+  transferGivingFund,
+  type FinalGrantInput,
+} from '../lib/fundLifecycle.js';
+
+export const fundLifecycleResolvers = {
+  Mutation: {
+    /**
+     * Closes a fund, or plans its final grants and marks it closing
+     */
+    closeGivingFund: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id, finalGrants }: { id: number; finalGrants?: FinalGrantInput[] | null },
+        context: Context
+      ): Promise<GivingFund> => {
+        const user = requireUser(context);
+        return closeGivingFund(context.prisma, id, finalGrants ?? [], user.id);
+      }
+    ),
+
+    /**
+     * Hands a fund to another donor
+     */
+    transferGivingFund: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id, toDonorId }: { id: number; toDonorId: number },
+        context: Context
+      ): Promise<GivingFund> => {
+        const user = requireUser(context);
+        return transferGivingFund(context.prisma, id, toDonorId, user.id);
+      }
+    ),
+
+    /**
+     * Names a donor to inherit a fund
+     */
+    addFundSuccessor: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.fundId },
+      async (
+        _parent: unknown,
+        {
+          fundId,
+          donorId,
+          position,
+        }: { fundId: number; donorId: number; position?: number },
+        context: Context
+      ): Promise<FundSuccessor> => {
+        const user = requireUser(context);
+        return addFundSuccessor(context.prisma, fundId, donorId, position, user.id);
+      }
+    ),
+
+    /**
+     * Revokes a successor designation
+     */
+    removeFundSuccessor: authorize(
+      { requires: 'DONOR', ownsFundSuccessor: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<FundSuccessor> => {
+        return revokeFundSuccessor(prisma, id);
+      }
+    ),
+  },
+
+  FundSuccessor: {
+    /**
+     * Resolves the fund, the successor donor and who named them
+     * Donors see the successor's name but not their record
+     */
+    givingFund: (parent: FundSuccessor, _args: unknown, { loaders }: Context) =>
+      loaders.givingFund.load(parent.givingFundId),
+    donor: (
+      parent: FundSuccessor,
+      _args: unknown,
+      context: Context
+    ): Promise<Donor | null> | null => {
+      const user = requireUser(context);
+      if (!isStaff(user) && user.donorId !== parent.donorId) {
+        return null;
+      }
+      return context.loaders.donor.load(parent.donorId);
+    },
+    donorName: async (parent: FundSuccessor, _args: unknown, { loaders }: Context) => {
+      const donor = await loaders.donor.load(parent.donorId);
+      return donor ? `${donor.firstName} ${donor.lastName}` : null;
+    },
+    designatedBy: (parent: FundSuccessor, _args: unknown, { loaders }: Context) =>
+      parent.designatedById === null ? null : loaders.user.load(parent.designatedById),
+  },
+};
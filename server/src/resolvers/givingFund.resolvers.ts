@@ -5,135 +5,338 @@
  *
  * Handles all GraphQL operations related to GivingFund entities:
  *   - Query operations for fetching funds
- *   - Mutations for creating funds and adding contributions
+ *   - Mutations for creating and updating funds, adding contributions and
+ *     transferring between funds
+ *   - Archiving and restoring funds
  *   - Computed fields for grants and statistics
+ *   - Ledger history and balance reconciliation
  *
  * A GivingFund is a donor-advised fund that holds charitable assets.
  * Donors can recommend grants from their fund to verified ministries.
+ *
+ * Donor users may only read and contribute to their own funds;
+ * reconciliation needs ADVISOR, archiving and restoring ADMIN. Archived
+ * and closing funds keep their ledger and grants but take no new money or
+ * grants; closing and transfers live in fundLifecycle.resolvers.ts.
+ *
+ * Balance changes are always posted through the fund ledger (see
+ * lib/ledger.ts) so every balance can be explained entry by entry.
  */
 
-import type { GivingFund, Prisma } from '@prisma/client';
+import type { FundTransaction, FundTransfer, GivingFund, Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import type { Context } from '../context.js';
+import { reconcileFundBalance, type FundReconciliation } from '../lib/ledger.js';
+import {
+  assertFundAcceptsContributions,
+  creditCashContribution,
+} from '../lib/contributions.js';
+import { archiveGivingFund, archivedWhere, restoreGivingFund } from '../lib/archive.js';
+import { transferBetweenFunds, type FundTransferInput } from '../lib/fundTransfer.js';
+import { authorize, fundScope, requireUser } from '../lib/authorization.js';
+import { NotFoundError, ValidationError } from '../lib/errors.js';
+
+/**
+ * Encodes a fund transaction ID as a cursor for pagination
+ */
+function encodeTransactionCursor(id: number): string {
+  return Buffer.from(`fundTransaction:${id}`).toString('base64');
+}
+
+/**
+ * Decodes a cursor back to a fund transaction ID
+ */
+function decodeTransactionCursor(cursor: string): number {
+  const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
+  const id = parseInt(decoded.replace('fundTransaction:', ''), 10);
+  if (isNaN(id)) {
+    throw new ValidationError('Invalid cursor format', 'after');
+  }
+  return id;
+}
 
 export const givingFundResolvers = {
   Query: {
     /**
      * Fetches a single giving fund by ID
      */
-    givingFund: async (
-      _parent: unknown,
-      { id }: { id: number },
-      { prisma }: Context
-    ): Promise<GivingFund | null> => {
-      return prisma.givingFund.findUnique({
-        where: { id },
-      });
-    },
+    givingFund: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<GivingFund | null> => {
+        return prisma.givingFund.findUnique({
+          where: { id },
+        });
+      }
+    ),
 
     /**
      * Fetches all giving funds, optionally filtered by donor
+     * Donors see only their own funds; archived funds only when asked for
      */
-    givingFunds: async (
-      _parent: unknown,
-      { donorId }: { donorId?: number },
-      { prisma }: Context
-    ): Promise<GivingFund[]> => {
-      const where: Prisma.GivingFundWhereInput = {};
-      if (donorId !== undefined) {
-        where.donorId = donorId;
+    givingFunds: authorize(
+      { requires: 'DONOR', ownsDonor: (args) => args.donorId },
+      async (
+        _parent: unknown,
+        { donorId, archived = false }: { donorId?: number; archived?: boolean },
+        context: Context
+      ): Promise<GivingFund[]> => {
+        const { prisma } = context;
+        const where: Prisma.GivingFundWhereInput = {
+          ...fundScope(requireUser(context)),
+          ...archivedWhere(archived),
+        };
+        if (donorId !== undefined) {
+          where.donorId = donorId;
+        }
+
+        return prisma.givingFund.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+        });
       }
+    ),
 
-      return prisma.givingFund.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-      });
-    },
+    /**
+     * Recomputes a fund's balance from its ledger and reports any drift
+     * between the stored balance and the sum of ledger entries
+     */
+    reconcileFund: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<FundReconciliation | null> => {
+        const fund = await prisma.givingFund.findUnique({
+          where: { id },
+        });
+        if (!fund) {
+          return null;
+        }
+
+        return reconcileFundBalance(prisma, fund);
+      }
+    ),
   },
 
   Mutation: {
     /**
      * Creates a new giving fund for a donor
      */
-    createGivingFund: async (
-      _parent: unknown,
-      {
-        input,
-      }: {
-        input: {
-          name: string;
-          description?: string;
-          initialBalance?: string | number;
-          donorId: number;
-        };
-      },
-      { prisma }: Context
-    ): Promise<GivingFund> => {
-      // Verify donor exists
-      const donor = await prisma.donor.findUnique({
-        where: { id: input.donorId },
-      });
-      if (!donor) {
-        throw new Error(`Donor with ID ${input.donorId} not found`);
-      }
+    createGivingFund: authorize(
+      { requires: 'DONOR', ownsDonor: (args) => args.input.donorId },
+      async (
+        _parent: unknown,
+        {
+          input,
+        }: {
+          input: {
+            name: string;
+            description?: string;
+            initialBalance?: string | number;
+            donorId: number;
+          };
+        },
+        context: Context
+      ): Promise<GivingFund> => {
+        const user = requireUser(context);
+        const { prisma } = context;
 
-      // Parse and validate initial balance
-      let balance = new Decimal(0);
-      if (input.initialBalance !== undefined) {
-        balance = new Decimal(input.initialBalance);
-        if (balance.isNegative()) {
-          throw new Error('Initial balance cannot be negative');
+        // Verify donor exists
+        const donor = await prisma.donor.findUnique({
+          where: { id: input.donorId },
+        });
+        if (!donor) {
+          throw new NotFoundError('Donor', input.donorId);
+        }
+        if (donor.archivedAt || !donor.active) {
+          throw new ValidationError(
+            `Cannot create a giving fund for ${donor.archivedAt ? 'an archived' : 'an inactive'} donor`,
+            'donorId'
+          );
         }
+
+        // Parse and validate initial balance
+        let balance = new Decimal(0);
+        if (input.initialBalance !== undefined) {
+          balance = new Decimal(input.initialBalance);
+          if (balance.isNegative()) {
+            throw new ValidationError(
+              'Initial balance cannot be negative',
+              'initialBalance'
+            );
+          }
+        }
+
+        // Create the fund empty, then post the opening contribution so the
+        // initial balance is recorded in the ledger
+        return prisma.$transaction(async (tx) => {
+          const fund = await tx.givingFund.create({
+            data: {
+              name: input.name.trim(),
+              description: input.description?.trim(),
+              balance: 0,
+              donorId: input.donorId,
+              active: true,
+            },
+          });
+
+          if (balance.isZero()) {
+            return fund;
+          }
+
+          const posted = await creditCashContribution(tx, {
+            givingFundId: fund.id,
+            donorId: fund.donorId,
+            amount: balance,
+            description: 'Initial contribution',
+            recordedById: user.id,
+          });
+          return posted.fund;
+        });
       }
+    ),
 
-      return prisma.givingFund.create({
-        data: {
-          name: input.name.trim(),
-          description: input.description?.trim(),
-          balance,
-          donorId: input.donorId,
-          active: true,
-        },
-      });
-    },
+    /**
+     * Updates a fund's name and description
+     * Omitted fields are left unchanged; a blank description clears it
+     */
+    updateGivingFund: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.id },
+      async (
+        _parent: unknown,
+        {
+          id,
+          input,
+        }: { id: number; input: { name?: string | null; description?: string | null } },
+        { prisma }: Context
+      ): Promise<GivingFund> => {
+        const fund = await prisma.givingFund.findUnique({ where: { id } });
+        if (!fund) {
+          throw new NotFoundError('GivingFund', id);
+        }
+        if (fund.archivedAt) {
+          throw new ValidationError('Cannot update an archived giving fund', 'id');
+        }
+
+        const data: Prisma.GivingFundUpdateInput = {};
+        if (input.name !== undefined) {
+          const name = input.name?.trim();
+          if (!name) {
+            throw new ValidationError('Fund name is required', 'name');
+          }
+          data.name = name;
+        }
+        if (input.description !== undefined) {
+          data.description = input.description?.trim() || null;
+        }
+
+        return prisma.givingFund.update({ where: { id }, data });
+      }
+    ),
 
     /**
-     * Adds funds (contribution) to a giving fund
+     * Adds funds (cash contribution) to a giving fund
+     * Records a CASH contribution and its CONTRIBUTION ledger entry
+     * alongside the balance change; other assets go through
+     * recordContribution
      * Returns the updated fund with new balance
      */
-    addFunds: async (
-      _parent: unknown,
-      { fundId, amount }: { fundId: number; amount: string | number },
-      { prisma }: Context
-    ): Promise<GivingFund | null> => {
-      // Validate amount
-      const contribution = new Decimal(amount);
-      if (contribution.isNegative() || contribution.isZero()) {
-        throw new Error('Contribution amount must be positive');
+    addFunds: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.fundId },
+      async (
+        _parent: unknown,
+        { fundId, amount }: { fundId: number; amount: string | number },
+        context: Context
+      ): Promise<GivingFund | null> => {
+        const user = requireUser(context);
+        const { prisma } = context;
+
+        // Validate amount
+        const contribution = new Decimal(amount);
+        if (contribution.isNegative() || contribution.isZero()) {
+          throw new ValidationError(
+            'Contribution amount must be positive',
+            'amount'
+          );
+        }
+
+        // Find the fund
+        const fund = await prisma.givingFund.findUnique({
+          where: { id: fundId },
+          include: { donor: { select: { active: true } } },
+        });
+        if (!fund) {
+          return null;
+        }
+
+        assertFundAcceptsContributions(fund, 'fundId');
+
+        // Record the contribution, balance and ledger atomically
+        return prisma.$transaction(async (tx) => {
+          const { fund: updated } = await creditCashContribution(tx, {
+            givingFundId: fundId,
+            donorId: fund.donorId,
+            amount: contribution,
+            recordedById: user.id,
+          });
+          return updated;
+        });
       }
+    ),
 
-      // Find the fund
-      const fund = await prisma.givingFund.findUnique({
-        where: { id: fundId },
-      });
-      if (!fund) {
-        return null;
+    /**
+     * Moves money from one giving fund to another
+     * Posts a TRANSFER_OUT and a TRANSFER_IN ledger entry in one transaction;
+     * donors may only transfer from their own funds, and funds of different
+     * donors need an ADMIN (see lib/fundTransfer.ts)
+     */
+    transferBetweenFunds: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.fromFundId },
+      async (
+        _parent: unknown,
+        args: FundTransferInput,
+        context: Context
+      ): Promise<FundTransfer> => {
+        const user = requireUser(context);
+        return transferBetweenFunds(context.prisma, args, user);
       }
+    ),
 
-      if (!fund.active) {
-        throw new Error('Cannot add funds to an inactive giving fund');
+    /**
+     * Archives a giving fund
+     * Its ledger and grant history are kept; will throw if it has
+     * PENDING or APPROVED grants
+     */
+    deleteGivingFund: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<boolean> => {
+        await archiveGivingFund(prisma, id);
+        return true;
       }
+    ),
 
-      // Update balance
-      return prisma.givingFund.update({
-        where: { id: fundId },
-        data: {
-          balance: {
-            increment: contribution,
-          },
-        },
-      });
-    },
+    /**
+     * Restores an archived giving fund
+     */
+    restoreGivingFund: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<GivingFund> => {
+        return restoreGivingFund(prisma, id);
+      }
+    ),
   },
 
   /**
@@ -146,11 +349,9 @@ export const givingFundResolvers = {
     donor: async (
       parent: GivingFund,
       _args: unknown,
-      { prisma }: Context
+      { loaders }: Context
     ) => {
-      return prisma.donor.findUnique({
-        where: { id: parent.donorId },
-      });
+      return loaders.donor.load(parent.donorId);
     },
 
     /**
@@ -168,55 +369,188 @@ export const givingFundResolvers = {
     },
 
     /**
-     * Calculates total amount disbursed (funded grants) from this fund
+     * Resolves the donors named to inherit this fund, in order
+     * Revoked and succeeded designations are left out
      */
-    totalDisbursed: async (
+    successors: async (
       parent: GivingFund,
       _args: unknown,
       { prisma }: Context
     ) => {
-      const result = await prisma.grant.aggregate({
-        where: {
-          givingFundId: parent.id,
-          status: 'FUNDED',
-        },
-        _sum: { amount: true },
+      return prisma.fundSuccessor.findMany({
+        where: { givingFundId: parent.id, revokedAt: null, succeededAt: null },
+        orderBy: [{ position: 'asc' }, { id: 'asc' }],
       });
-      return result._sum.amount ?? 0;
     },
 
     /**
-     * Returns grant counts by status for this fund
+     * Sums the holds placed by APPROVED grants awaiting disbursement
      */
-    grantCounts: async (
+    committedAmount: async (
       parent: GivingFund,
       _args: unknown,
-      { prisma }: Context
+      { loaders }: Context
     ) => {
-      const counts = await prisma.grant.groupBy({
-        by: ['status'],
-        where: { givingFundId: parent.id },
-        _count: true,
-      });
+      const stats = await loaders.grantStatsByFund.load(parent.id);
+      return stats.approvedAmount;
+    },
 
-      const countMap: Record<string, number> = {
-        PENDING: 0,
-        APPROVED: 0,
-        FUNDED: 0,
-        REJECTED: 0,
+    /**
+     * Balance not yet committed to approved grants
+     */
+    availableBalance: async (
+      parent: GivingFund,
+      _args: unknown,
+      { loaders }: Context
+    ) => {
+      const stats = await loaders.grantStatsByFund.load(parent.id);
+      return new Decimal(parent.balance).minus(stats.approvedAmount);
+    },
+
+    /**
+     * Resolves the fund's ledger entries, newest first
+     * Implements Relay-style cursor pagination
+     */
+    transactions: async (
+      parent: GivingFund,
+      { first = 20, after }: { first?: number; after?: string },
+      { prisma }: Context
+    ) => {
+      const take = Math.min(Math.max(first, 1), 100); // Between 1 and 100
+      const where: Prisma.FundTransactionWhereInput = {
+        givingFundId: parent.id,
       };
 
-      counts.forEach((c) => {
-        countMap[c.status] = c._count;
+      const totalCount = await prisma.fundTransaction.count({ where });
+
+      // Fetch one extra to determine if there's a next page,
+      // skipping the cursor item itself when paging
+      const items = await prisma.fundTransaction.findMany({
+        where,
+        take: take + 1,
+        ...(after
+          ? { cursor: { id: decodeTransactionCursor(after) }, skip: 1 }
+          : {}),
+        orderBy: { id: 'desc' },
       });
 
+      const hasNextPage = items.length > take;
+      const edges = items.slice(0, take).map((transaction) => ({
+        node: transaction,
+        cursor: encodeTransactionCursor(transaction.id),
+      }));
+
       return {
-        pending: countMap['PENDING'] ?? 0,
-        approved: countMap['APPROVED'] ?? 0,
-        funded: countMap['FUNDED'] ?? 0,
-        rejected: countMap['REJECTED'] ?? 0,
-        total: Object.values(countMap).reduce((a, b) => a + b, 0),
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage: !!after,
+          startCursor: edges[0]?.cursor ?? null,
+          endCursor: edges[edges.length - 1]?.cursor ?? null,
+          totalCount,
+        },
       };
     },
+
+    /**
+     * Resolves transfers into and out of this fund, newest first
+     */
+    transfers: async (
+      parent: GivingFund,
+      _args: unknown,
+      { prisma }: Context
+    ) => {
+      return prisma.fundTransfer.findMany({
+        where: { OR: [{ fromFundId: parent.id }, { toFundId: parent.id }] },
+        orderBy: { id: 'desc' },
+      });
+    },
+
+    /**
+     * Calculates total amount disbursed (funded grants) from this fund
+     * Net of any amounts returned through partial reversals
+     */
+    totalDisbursed: async (
+      parent: GivingFund,
+      _args: unknown,
+      { loaders }: Context
+    ) => {
+      const stats = await loaders.grantStatsByFund.load(parent.id);
+      return stats.fundedAmount;
+    },
+
+    /**
+     * Returns grant counts by status for this fund
+     */
+    grantCounts: async (
+      parent: GivingFund,
+      _args: unknown,
+      { loaders }: Context
+    ) => {
+      const stats = await loaders.grantStatsByFund.load(parent.id);
+      return stats.counts;
+    },
+  },
+
+  /**
+   * Field resolvers for FundTransaction ledger entries
+   */
+  FundTransaction: {
+    /**
+     * Resolves the grant this entry relates to (disbursements and reversals)
+     */
+    grant: async (
+      parent: FundTransaction,
+      _args: unknown,
+      { loaders }: Context
+    ) => {
+      if (parent.grantId === null) {
+        return null;
+      }
+      return loaders.grant.load(parent.grantId);
+    },
+
+    /**
+     * Resolves the fund-to-fund transfer this entry is a leg of
+     */
+    transfer: async (
+      parent: FundTransaction,
+      _args: unknown,
+      { prisma }: Context
+    ) => {
+      if (parent.transferId === null) {
+        return null;
+      }
+      return prisma.fundTransfer.findUnique({ where: { id: parent.transferId } });
+    },
+  },
+
+  /**
+   * Field resolvers for FundTransfer
+   */
+  FundTransfer: {
+    /**
+     * Resolves the source and destination funds and who made the transfer
+     */
+    fromFund: (parent: FundTransfer, _args: unknown, { loaders }: Context) =>
+      loaders.givingFund.load(parent.fromFundId),
+    toFund: (parent: FundTransfer, _args: unknown, { loaders }: Context) =>
+      loaders.givingFund.load(parent.toFundId),
+    createdBy: (parent: FundTransfer, _args: unknown, { loaders }: Context) =>
+      parent.createdById === null ? null : loaders.user.load(parent.createdById),
+
+    /**
+     * Resolves the two ledger legs, debit first
+     */
+    transactions: async (
+      parent: FundTransfer,
+      _args: unknown,
+      { prisma }: Context
+    ) => {
+      return prisma.fundTransaction.findMany({
+        where: { transferId: parent.id },
+        orderBy: { id: 'asc' },
+      });
+    },
   },
 };
@@ -14,65 +14,260 @@
  *   3. fundGrant - Changes APPROVED → FUNDED (deducts from fund balance)
  *   OR
  *   2. rejectGrant - Changes any status → REJECTED
+ *   THEN (if money comes back)
+ *   4. reverseGrant - Credits the fund back; FUNDED → REVERSED once the
+ *      full amount has been returned (partial reversals stay FUNDED)
+ *
+ * Access:
+ *   - Donors may read and request grants from their own funds
+ *   - Workflow transitions (approve, reject, fund, reverse) need ADVISOR
  *
  * Key business rules:
- *   - Only verified ministries can receive grants
+ *   - Only ministries with an unexpired verification can receive grants
+ *   - Grants to MISSIONS and HUMANITARIAN ministries are sanctions-screened
+ *     at funding; unresolved hits hold the funding (see lib/screening.ts)
  *   - Fund balance is only affected when grant is FUNDED
+ *   - Every balance change is recorded in the fund ledger
+ *   - Approval places a hold against the fund's available balance
  *   - Insufficient balance prevents funding
+ *   - Closing funds take only their final grants, and close once the last
+ *     is funded (see lib/fundLifecycle.ts)
  */
 
-import type { Grant, GivingFund, Ministry, Prisma } from '@prisma/client';
+import type {
+  AuditEvent,
+  Grant,
+  GrantStatus,
+  GivingFund,
+  Ministry,
+  MinistryCategory,
+  Prisma,
+} from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import type { Context } from '../context.js';
+import { postFundTransaction } from '../lib/ledger.js';
+import {
+  OVERCOMMIT_POLICY,
+  getAvailableBalance,
+  lockGivingFund,
+  lockGrant,
+  lockMinistry,
+} from '../lib/commitments.js';
+import { authorize, grantScope, requireUser } from '../lib/authorization.js';
+import {
+  InsufficientFundsError,
+  InvalidTransitionError,
+  ValidationError,
+} from '../lib/errors.js';
+import {
+  findManyPage,
+  pageWindow,
+  toConnection,
+  type ConnectionArgs,
+} from '../lib/pagination.js';
+import {
+  assertScreeningClear,
+  assertScreeningCurrent,
+  requiresScreening,
+} from '../lib/screening.js';
+import { syncFundClosure } from '../lib/fundLifecycle.js';
+import { findGrantableFund, findGrantableMinistry } from '../lib/verification.js';
+
+interface GrantFilter {
+  status?: string[];
+  ministryId?: number;
+  givingFundId?: number;
+  donorId?: number;
+  ministryCategory?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  requestedFrom?: Date;
+  requestedTo?: Date;
+  fundedFrom?: Date;
+  fundedTo?: Date;
+}
+
+interface GrantOrder {
+  field: 'REQUESTED_AT' | 'AMOUNT' | 'UPDATED_AT';
+  direction?: 'ASC' | 'DESC';
+}
+
+const GRANT_ORDER_FIELDS = {
+  REQUESTED_AT: 'requestedAt',
+  AMOUNT: 'amount',
+  UPDATED_AT: 'updatedAt',
+} as const;
+
+/**
+ * Builds a grant where clause from a GrantFilter
+ * Every condition is ANDed with the others and with the caller's scope
+ */
+function grantFilterWhere(filter: GrantFilter | undefined): Prisma.GrantWhereInput[] {
+  if (!filter) {
+    return [];
+  }
+
+  const conditions: Prisma.GrantWhereInput[] = [];
+
+  if (filter.status && filter.status.length > 0) {
+    conditions.push({ status: { in: filter.status as GrantStatus[] } });
+  }
+  if (filter.ministryId !== undefined) {
+    conditions.push({ ministryId: filter.ministryId });
+  }
+  if (filter.givingFundId !== undefined) {
+    conditions.push({ givingFundId: filter.givingFundId });
+  }
+  if (filter.donorId !== undefined) {
+    conditions.push({ givingFund: { donorId: filter.donorId } });
+  }
+  if (filter.ministryCategory) {
+    conditions.push({
+      ministry: { category: filter.ministryCategory as MinistryCategory },
+    });
+  }
+  if (filter.minAmount !== undefined || filter.maxAmount !== undefined) {
+    if (
+      filter.minAmount !== undefined &&
+      filter.maxAmount !== undefined &&
+      new Decimal(filter.minAmount).greaterThan(filter.maxAmount)
+    ) {
+      throw new ValidationError(
+        'minAmount must not be greater than maxAmount',
+        'minAmount'
+      );
+    }
+    conditions.push({
+      amount: {
+        ...(filter.minAmount !== undefined ? { gte: filter.minAmount } : {}),
+        ...(filter.maxAmount !== undefined ? { lte: filter.maxAmount } : {}),
+      },
+    });
+  }
+  if (filter.requestedFrom || filter.requestedTo) {
+    conditions.push({
+      requestedAt: {
+        ...(filter.requestedFrom ? { gte: filter.requestedFrom } : {}),
+        ...(filter.requestedTo ? { lte: filter.requestedTo } : {}),
+      },
+    });
+  }
+  if (filter.fundedFrom || filter.fundedTo) {
+    conditions.push({
+      fundedAt: {
+        ...(filter.fundedFrom ? { gte: filter.fundedFrom } : {}),
+        ...(filter.fundedTo ? { lte: filter.fundedTo } : {}),
+      },
+    });
+  }
+
+  return conditions;
+}
 
 export const grantResolvers = {
   Query: {
     /**
      * Fetches a single grant by ID
      */
-    grant: async (
-      _parent: unknown,
-      { id }: { id: number },
-      { prisma }: Context
-    ): Promise<Grant | null> => {
-      return prisma.grant.findUnique({
-        where: { id },
-      });
-    },
+    grant: authorize(
+      { requires: 'DONOR', ownsGrant: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<Grant | null> => {
+        return prisma.grant.findUnique({
+          where: { id },
+        });
+      }
+    ),
 
     /**
-     * Fetches grants with optional status and ministry filters
+     * Fetches a page of grants with filtering and ordering
+     * Pages forward with first/after or backward with last/before
      */
-    grants: async (
-      _parent: unknown,
-      {
-        status,
-        ministryId,
-        givingFundId,
-      }: {
-        status?: string;
-        ministryId?: number;
-        givingFundId?: number;
-      },
-      { prisma }: Context
-    ): Promise<Grant[]> => {
-      const where: Prisma.GrantWhereInput = {};
+    grantsConnection: authorize(
+      { requires: 'DONOR' },
+      async (
+        _parent: unknown,
+        {
+          filter,
+          orderBy,
+          ...page
+        }: ConnectionArgs & {
+          filter?: GrantFilter;
+          orderBy?: GrantOrder;
+        },
+        context: Context
+      ) => {
+        const { prisma } = context;
+        const window = pageWindow('grant', page);
 
-      if (status) {
-        where.status = status as Prisma.EnumGrantStatusFilter;
-      }
-      if (ministryId !== undefined) {
-        where.ministryId = ministryId;
-      }
-      if (givingFundId !== undefined) {
-        where.givingFundId = givingFundId;
+        // Donors only see grants from their own funds
+        const where: Prisma.GrantWhereInput = {
+          AND: [grantScope(requireUser(context)), ...grantFilterWhere(filter)],
+        };
+
+        // Newest requests first by default; id keeps the order stable
+        const field = GRANT_ORDER_FIELDS[orderBy?.field ?? 'REQUESTED_AT'];
+        const direction = orderBy?.direction === 'ASC' ? 'asc' : 'desc';
+
+        const [totalCount, items] = await Promise.all([
+          prisma.grant.count({ where }),
+          prisma.grant.findMany({
+            where,
+            orderBy: [{ [field]: direction }, { id: direction }],
+            ...findManyPage(window),
+          }),
+        ]);
+
+        return toConnection('grant', items, window, totalCount);
       }
+    ),
 
-      return prisma.grant.findMany({
-        where,
-        orderBy: { requestedAt: 'desc' },
-      });
-    },
+    /**
+     * Fetches grants with optional status and ministry filters
+     * Deprecated in favour of grantsConnection; unbounded
+     * Scoped to the caller's own funds for DONOR users
+     */
+    grants: authorize(
+      { requires: 'DONOR' },
+      async (
+        _parent: unknown,
+        {
+          status,
+          ministryId,
+          givingFundId,
+        }: {
+          status?: string;
+          ministryId?: number;
+          givingFundId?: number;
+        },
+        context: Context
+      ): Promise<Grant[]> => {
+        const { prisma } = context;
+
+        // Donors only see grants from their own funds
+        const where: Prisma.GrantWhereInput = {
+          ...grantScope(requireUser(context)),
+        };
+
+        if (status) {
+          where.status = status as Prisma.EnumGrantStatusFilter;
+        }
+        if (ministryId !== undefined) {
+          where.ministryId = ministryId;
+        }
+        if (givingFundId !== undefined) {
+          where.givingFundId = givingFundId;
+        }
+
+        return prisma.grant.findMany({
+          where,
+          orderBy: { requestedAt: 'desc' },
+        });
+      }
+    ),
   },
 
   Mutation: {
@@ -80,211 +275,388 @@ export const grantResolvers = {
      * Creates a new grant request in PENDING status
      *
      * Validates:
-     *   - Ministry exists and is verified
+     *   - Ministry exists and holds an unexpired verification
      *   - Giving fund exists and is active
      *   - Amount is positive
      *
      * Note: Does NOT check or affect fund balance at this stage
      */
-    createGrantRequest: async (
-      _parent: unknown,
-      {
-        input,
-      }: {
-        input: {
-          amount: string | number;
-          purpose?: string;
-          givingFundId: number;
-          ministryId: number;
-        };
-      },
-      { prisma }: Context
-    ): Promise<Grant> => {
-      // Validate amount
-      const grantAmount = new Decimal(input.amount);
-      if (grantAmount.isNegative() || grantAmount.isZero()) {
-        throw new Error('Grant amount must be positive');
-      }
+    createGrantRequest: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.input.givingFundId },
+      async (
+        _parent: unknown,
+        {
+          input,
+        }: {
+          input: {
+            amount: string | number;
+            purpose?: string;
+            givingFundId: number;
+            ministryId: number;
+          };
+        },
+        { prisma }: Context
+      ): Promise<Grant> => {
+        // Validate amount
+        const grantAmount = new Decimal(input.amount);
+        if (grantAmount.isNegative() || grantAmount.isZero()) {
+          throw new ValidationError('Grant amount must be positive', 'amount');
+        }
 
-      // Verify ministry exists and is verified
-      const ministry = await prisma.ministry.findUnique({
-        where: { id: input.ministryId },
-      });
-      if (!ministry) {
-        throw new Error(`Ministry with ID ${input.ministryId} not found`);
-      }
-      if (!ministry.verified) {
-        throw new Error(
-          'Cannot create grant for unverified ministry. Ministry must be verified first.'
-        );
-      }
-      if (!ministry.active) {
-        throw new Error('Cannot create grant for inactive ministry');
-      }
+        return prisma.$transaction(async (tx) => {
+          // Hold the fund's and ministry's locks so neither can be archived
+          // between the checks and the insert
+          await lockGivingFund(tx, input.givingFundId);
+          await lockMinistry(tx, input.ministryId);
 
-      // Verify giving fund exists and is active
-      const fund = await prisma.givingFund.findUnique({
-        where: { id: input.givingFundId },
-      });
-      if (!fund) {
-        throw new Error(`Giving fund with ID ${input.givingFundId} not found`);
-      }
-      if (!fund.active) {
-        throw new Error('Cannot create grant from inactive giving fund');
-      }
+          // Verify ministry exists, is verified and takes grants
+          await findGrantableMinistry(tx, input.ministryId, 'ministryId');
 
-      // Create the grant request
-      return prisma.grant.create({
-        data: {
-          amount: grantAmount,
-          purpose: input.purpose?.trim(),
-          status: 'PENDING',
-          givingFundId: input.givingFundId,
-          ministryId: input.ministryId,
-        },
-      });
-    },
+          // Verify giving fund exists, is active and takes grants
+          await findGrantableFund(tx, input.givingFundId, 'givingFundId');
+
+          // Create the grant request
+          return tx.grant.create({
+            data: {
+              amount: grantAmount,
+              purpose: input.purpose?.trim(),
+              status: 'PENDING',
+              givingFundId: input.givingFundId,
+              ministryId: input.ministryId,
+            },
+          });
+        });
+      }
+    ),
 
     /**
      * Approves a pending grant request
      * Changes status from PENDING → APPROVED
      *
-     * Does NOT deduct from fund balance - that happens at funding stage
+     * Does NOT deduct from fund balance - that happens at funding stage.
+     * Instead, the approved amount is held against the fund's available
+     * balance. If the hold would overdraw the fund, approval is rejected
+     * or annotated depending on GRANT_OVERCOMMIT_POLICY.
+     *
+     * Uses a transaction holding the grant's row lock, so a grant is
+     * approved once, and the fund's, so concurrent approvals cannot jointly
+     * overcommit the same fund
      */
-    approveGrant: async (
-      _parent: unknown,
-      { id }: { id: number },
-      { prisma }: Context
-    ): Promise<Grant | null> => {
-      // Find the grant
-      const grant = await prisma.grant.findUnique({
-        where: { id },
-      });
-      if (!grant) {
-        return null;
-      }
+    approveGrant: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<Grant | null> => {
+        return prisma.$transaction(async (tx) => {
+          // Lock the grant before reading it so a concurrent transition
+          // waits and this one sees its result
+          await lockGrant(tx, id);
+          const grant = await tx.grant.findUnique({
+            where: { id },
+          });
+          if (!grant) {
+            return null;
+          }
 
-      // Validate current status
-      if (grant.status !== 'PENDING') {
-        throw new Error(
-          `Cannot approve grant in ${grant.status} status. Only PENDING grants can be approved.`
-        );
-      }
+          // Validate current status
+          if (grant.status !== 'PENDING') {
+            throw new InvalidTransitionError(
+              `Cannot approve grant in ${grant.status} status. Only PENDING grants can be approved.`,
+              { entityType: 'Grant', currentStatus: grant.status, action: 'approve' }
+            );
+          }
 
-      // Update to APPROVED
-      return prisma.grant.update({
-        where: { id },
-        data: {
-          status: 'APPROVED',
-          approvedAt: new Date(),
-        },
-      });
-    },
+          // Check the hold against the fund's uncommitted balance
+          await lockGivingFund(tx, grant.givingFundId);
+          const fund = await tx.givingFund.findUniqueOrThrow({
+            where: { id: grant.givingFundId },
+          });
+          const available = await getAvailableBalance(tx, fund);
+          const grantAmount = new Decimal(grant.amount);
+
+          let notes = grant.notes;
+          if (available.lessThan(grantAmount)) {
+            const detail = `Available: $${available.toFixed(2)}, Required: $${grantAmount.toFixed(2)}`;
+            if (OVERCOMMIT_POLICY === 'reject') {
+              throw new InsufficientFundsError(
+                `Approving this grant would overcommit the giving fund. ${detail}`,
+                { givingFundId: fund.id, available, required: grantAmount }
+              );
+            }
+            notes = `${notes ? notes + '\n' : ''}Approved over available balance. ${detail}`;
+          }
+
+          // Update to APPROVED, placing the hold
+          return tx.grant.update({
+            where: { id },
+            data: {
+              status: 'APPROVED',
+              approvedAt: new Date(),
+              notes,
+            },
+          });
+        });
+      }
+    ),
 
     /**
      * Rejects a grant request with optional reason
      * Can reject from any non-FUNDED status
+     * Rejecting an APPROVED grant releases its hold on the fund
      */
-    rejectGrant: async (
-      _parent: unknown,
-      { id, reason }: { id: number; reason?: string },
-      { prisma }: Context
-    ): Promise<Grant | null> => {
-      // Find the grant
-      const grant = await prisma.grant.findUnique({
-        where: { id },
-      });
-      if (!grant) {
-        return null;
-      }
+    rejectGrant: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id, reason }: { id: number; reason?: string },
+        { prisma }: Context
+      ): Promise<Grant | null> => {
+        return prisma.$transaction(async (tx) => {
+          // Lock the grant so it cannot be funded while being rejected
+          await lockGrant(tx, id);
+          const grant = await tx.grant.findUnique({
+            where: { id },
+          });
+          if (!grant) {
+            return null;
+          }
 
-      // Cannot reject an already funded grant
-      if (grant.status === 'FUNDED') {
-        throw new Error('Cannot reject a grant that has already been funded');
-      }
+          // Cannot reject an already funded grant (use reverseGrant instead)
+          if (grant.status === 'FUNDED' || grant.status === 'REVERSED') {
+            throw new InvalidTransitionError(
+              'Cannot reject a grant that has already been funded',
+              { entityType: 'Grant', currentStatus: grant.status, action: 'reject' }
+            );
+          }
 
-      // Cannot reject an already rejected grant
-      if (grant.status === 'REJECTED') {
-        throw new Error('Grant is already rejected');
-      }
+          // Cannot reject an already rejected grant
+          if (grant.status === 'REJECTED') {
+            throw new InvalidTransitionError('Grant is already rejected', {
+              entityType: 'Grant',
+              currentStatus: grant.status,
+              action: 'reject',
+            });
+          }
 
-      // Update to REJECTED
-      return prisma.grant.update({
-        where: { id },
-        data: {
-          status: 'REJECTED',
-          rejectedAt: new Date(),
-          notes: reason
-            ? `${grant.notes ? grant.notes + '\n' : ''}Rejection reason: ${reason}`
-            : grant.notes,
-        },
-      });
-    },
+          // Update to REJECTED
+          return tx.grant.update({
+            where: { id },
+            data: {
+              status: 'REJECTED',
+              rejectedAt: new Date(),
+              notes: reason
+                ? `${grant.notes ? grant.notes + '\n' : ''}Rejection reason: ${reason}`
+                : grant.notes,
+            },
+          });
+        });
+      }
+    ),
 
     /**
      * Funds an approved grant (disburses to ministry)
      *
      * This is the key business logic mutation that:
      *   1. Validates the grant is in APPROVED status
-     *   2. Checks sufficient fund balance
-     *   3. Deducts from giving fund balance
-     *   4. Updates grant status to FUNDED
+     *   2. Screens MISSIONS and HUMANITARIAN ministries against the
+     *      sanctions list, refusing while a hit is unresolved
+     *   3. Checks sufficient fund balance
+     *   4. Deducts from giving fund balance (recorded in the fund ledger)
+     *   5. Updates grant status to FUNDED
      *
-     * Uses a transaction to ensure atomicity
+     * Uses a transaction holding the grant's row lock, so a grant is
+     * disbursed once, the fund's, so the balance check and deduction
+     * see the same balance, and the ministry's, so the screening is checked
+     * again against the ministry as it is paid
      */
-    fundGrant: async (
-      _parent: unknown,
-      { id }: { id: number },
-      { prisma }: Context
-    ): Promise<Grant | null> => {
-      // Use transaction for atomicity
-      return prisma.$transaction(async (tx) => {
-        // Find the grant with fund
-        const grant = await tx.grant.findUnique({
+    fundGrant: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        context: Context
+      ): Promise<Grant | null> => {
+        const user = requireUser(context);
+        const { prisma } = context;
+
+        // Screen before the transaction: the results must be kept even
+        // when a hit refuses the funding
+        const pending = await prisma.grant.findUnique({
           where: { id },
-          include: { givingFund: true },
+          include: { ministry: true },
         });
-        if (!grant) {
-          return null;
+        if (pending?.status === 'APPROVED' && requiresScreening(pending.ministry)) {
+          await assertScreeningClear(prisma, pending.ministry, {
+            grantId: pending.id,
+            screenedById: user.id,
+          });
         }
 
-        // Validate status
-        if (grant.status !== 'APPROVED') {
-          throw new Error(
-            `Cannot fund grant in ${grant.status} status. Grant must be APPROVED first.`
-          );
-        }
+        // Use transaction for atomicity
+        return prisma.$transaction(async (tx) => {
+          // Lock the grant before reading it: a concurrent fundGrant waits
+          // here and then finds the grant already FUNDED
+          await lockGrant(tx, id);
+          const grant = await tx.grant.findUnique({
+            where: { id },
+          });
+          if (!grant) {
+            return null;
+          }
+
+          // Validate status
+          if (grant.status !== 'APPROVED') {
+            throw new InvalidTransitionError(
+              `Cannot fund grant in ${grant.status} status. Grant must be APPROVED first.`,
+              { entityType: 'Grant', currentStatus: grant.status, action: 'fund' }
+            );
+          }
+
+          // Lock the fund so the balance check and deduction see the same balance
+          await lockGivingFund(tx, grant.givingFundId);
+          const fund = await tx.givingFund.findUniqueOrThrow({
+            where: { id: grant.givingFundId },
+          });
+
+          // Re-read the ministry under its lock: a hit confirmed, or the
+          // ministry changed, since the screening above refuses the funding
+          await lockMinistry(tx, grant.ministryId);
+          const ministry = await tx.ministry.findUniqueOrThrow({
+            where: { id: grant.ministryId },
+          });
+          if (requiresScreening(ministry)) {
+            await assertScreeningCurrent(tx, ministry);
+          }
 
-        // Check sufficient balance
-        const fundBalance = new Decimal(grant.givingFund.balance);
-        const grantAmount = new Decimal(grant.amount);
+          // Check sufficient balance
+          const fundBalance = new Decimal(fund.balance);
+          const grantAmount = new Decimal(grant.amount);
 
-        if (fundBalance.lessThan(grantAmount)) {
-          throw new Error(
-            `Insufficient fund balance. Available: $${fundBalance.toFixed(2)}, Required: $${grantAmount.toFixed(2)}`
+          if (fundBalance.lessThan(grantAmount)) {
+            throw new InsufficientFundsError(
+              `Insufficient fund balance. Available: $${fundBalance.toFixed(2)}, Required: $${grantAmount.toFixed(2)}`,
+              { givingFundId: fund.id, available: fundBalance, required: grantAmount }
+            );
+          }
+
+          // Deduct from fund balance and record the disbursement
+          await postFundTransaction(tx, {
+            givingFundId: grant.givingFundId,
+            type: 'GRANT_DISBURSEMENT',
+            amount: grantAmount.negated(),
+            grantId: grant.id,
+          });
+
+          // Update grant status to FUNDED
+          const funded = await tx.grant.update({
+            where: { id },
+            data: {
+              status: 'FUNDED',
+              fundedAt: new Date(),
+            },
+          });
+
+          // A closing fund closes with its last grant
+          await syncFundClosure(tx, grant.givingFundId);
+          return funded;
+        });
+      }
+    ),
+
+    /**
+     * Reverses a funded grant (bounced check, returned gift)
+     *
+     * Credits the reversed amount back to the giving fund with a REVERSAL
+     * ledger entry. Omitting the amount reverses whatever has not already
+     * been returned. Partial reversals leave the grant FUNDED; once the
+     * full amount is returned the grant moves to REVERSED.
+     *
+     * Uses a transaction holding the grant's row lock, so concurrent
+     * reversals can never return more than the grant amount
+     */
+    reverseGrant: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          id,
+          reason,
+          amount,
+        }: { id: number; reason: string; amount?: string | number },
+        { prisma }: Context
+      ): Promise<Grant | null> => {
+        const trimmedReason = reason.trim();
+        if (!trimmedReason) {
+          throw new ValidationError(
+            'A reason is required to reverse a grant',
+            'reason'
           );
         }
 
-        // Deduct from fund balance
-        await tx.givingFund.update({
-          where: { id: grant.givingFundId },
-          data: {
-            balance: {
-              decrement: grantAmount,
+        return prisma.$transaction(async (tx) => {
+          // Lock the grant first: concurrent reversals must each see the
+          // amount the other already returned
+          await lockGrant(tx, id);
+          const grant = await tx.grant.findUnique({
+            where: { id },
+          });
+          if (!grant) {
+            return null;
+          }
+
+          // Validate status
+          if (grant.status !== 'FUNDED') {
+            throw new InvalidTransitionError(
+              `Cannot reverse grant in ${grant.status} status. Only FUNDED grants can be reversed.`,
+              { entityType: 'Grant', currentStatus: grant.status, action: 'reverse' }
+            );
+          }
+
+          // Validate the reversal amount against what is still outstanding
+          const outstanding = new Decimal(grant.amount).minus(grant.reversedAmount);
+          const reversal =
+            amount !== undefined ? new Decimal(amount) : outstanding;
+          if (reversal.isNegative() || reversal.isZero()) {
+            throw new ValidationError('Reversal amount must be positive', 'amount');
+          }
+          if (reversal.greaterThan(outstanding)) {
+            throw new ValidationError(
+              `Reversal exceeds amount outstanding on grant. Outstanding: $${outstanding.toFixed(2)}, Requested: $${reversal.toFixed(2)}`,
+              'amount'
+            );
+          }
+
+          // Credit the fund and record the reversal
+          await lockGivingFund(tx, grant.givingFundId);
+          await postFundTransaction(tx, {
+            givingFundId: grant.givingFundId,
+            type: 'REVERSAL',
+            amount: reversal,
+            grantId: grant.id,
+            memo: trimmedReason,
+          });
+
+          const fullyReversed = reversal.equals(outstanding);
+          const note = `Reversal of $${reversal.toFixed(2)}: ${trimmedReason}`;
+
+          const reversed = await tx.grant.update({
+            where: { id },
+            data: {
+              status: fullyReversed ? 'REVERSED' : 'FUNDED',
+              reversedAmount: { increment: reversal },
+              reversedAt: new Date(),
+              notes: `${grant.notes ? grant.notes + '\n' : ''}${note}`,
             },
-          },
-        });
+          });
 
-        // Update grant status to FUNDED
-        return tx.grant.update({
-          where: { id },
-          data: {
-            status: 'FUNDED',
-            fundedAt: new Date(),
-          },
+          // Money back in a closed fund reopens it until it is granted out
+          await syncFundClosure(tx, grant.givingFundId);
+          return reversed;
         });
-      });
-    },
+      }
+    ),
   },
 
   /**
@@ -297,11 +669,9 @@ export const grantResolvers = {
     givingFund: async (
       parent: Grant,
       _args: unknown,
-      { prisma }: Context
+      { loaders }: Context
     ): Promise<GivingFund | null> => {
-      return prisma.givingFund.findUnique({
-        where: { id: parent.givingFundId },
-      });
+      return loaders.givingFund.load(parent.givingFundId);
     },
 
     /**
@@ -310,10 +680,23 @@ export const grantResolvers = {
     ministry: async (
       parent: Grant,
       _args: unknown,
-      { prisma }: Context
+      { loaders }: Context
     ): Promise<Ministry | null> => {
-      return prisma.ministry.findUnique({
-        where: { id: parent.ministryId },
+      return loaders.ministry.load(parent.ministryId);
+    },
+
+    /**
+     * Resolves the audit trail for this grant, oldest first
+     * Covers the request and every status transition since
+     */
+    history: async (
+      parent: Grant,
+      _args: unknown,
+      { prisma }: Context
+    ): Promise<AuditEvent[]> => {
+      return prisma.auditEvent.findMany({
+        where: { entityType: 'Grant', entityId: parent.id },
+        orderBy: { id: 'asc' },
       });
     },
   },
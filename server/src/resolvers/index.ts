@@ -7,17 +7,31 @@
  * Uses deep merge to combine Query, Mutation, and type resolvers.
  *
  * Architecture:
- *   - Each domain (ministry, donor, fund, grant) has its own resolver file
+ *   - Each domain (ministry, donor, fund, grant, auth) has its own resolver file
  *   - Resolvers are combined here for the Apollo Server configuration
- *   - Custom scalars are defined for DateTime and Decimal handling
+ *   - Custom scalars are defined for DateTime, Decimal and JSON handling;
+ *     Upload comes from graphql-upload (file uploads, see http.ts)
+ *   - Every mutation is wrapped with the audit hook (see lib/audit.ts)
  */
 
 import { GraphQLScalarType, Kind } from 'graphql';
+import GraphQLUpload from 'graphql-upload/GraphQLUpload.mjs';
 import { ministryResolvers } from './ministry.resolvers.js';
 import { donorResolvers } from './donor.resolvers.js';
 import { givingFundResolvers } from './givingFund.resolvers.js';
+import { fundLifecycleResolvers } from './fundLifecycle.resolvers.js';
+import { contributionResolvers } from './contribution.resolvers.js';
+import { receiptResolvers } from './receipt.resolvers.js';
 import { grantResolvers } from './grant.resolvers.js';
+import { recurringGrantResolvers } from './recurringGrant.resolvers.js';
 import { dashboardResolvers } from './dashboard.resolvers.js';
+import { authResolvers } from './auth.resolvers.js';
+import { auditResolvers } from './audit.resolvers.js';
+import { verificationResolvers } from './verification.resolvers.js';
+import { screeningResolvers } from './screening.resolvers.js';
+import { ministryImportResolvers } from './ministryImport.resolvers.js';
+import { ministryMergeResolvers } from './ministryMerge.resolvers.js';
+import { auditMutations } from '../lib/audit.js';
 
 /**
  * Custom DateTime scalar for ISO 8601 date strings
@@ -101,6 +115,39 @@ const DecimalScalar = new GraphQLScalarType({
   },
 });
 
+/**
+ * graphql-upload's scalar, described as in the type definitions
+ */
+const UploadScalar = new GraphQLScalarType({
+  ...GraphQLUpload.toConfig(),
+  description:
+    'A file sent in a GraphQL multipart request\n' +
+    '(https://github.com/jaydenseric/graphql-multipart-request-spec)',
+});
+
+/**
+ * Custom JSON scalar for free-form objects (audit snapshots)
+ */
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value',
+
+  // Value from client → internal value
+  parseValue(value: unknown): unknown {
+    return value;
+  },
+
+  // Internal value → value for client
+  serialize(value: unknown): unknown {
+    return value;
+  },
+
+  // Value from AST (hardcoded in query)
+  parseLiteral(): never {
+    throw new Error('JSON literals are not supported; use a variable');
+  },
+});
+
 /**
  * Helper to deep merge resolver objects
  */
@@ -132,18 +179,41 @@ function mergeResolvers(
 }
 
 /**
- * Combined resolvers object for Apollo Server
+ * Domain resolvers merged together, before the audit hook is applied
  */
-export const resolvers = mergeResolvers(
+const domainResolvers = mergeResolvers(
   // Custom scalars
   {
     DateTime: DateTimeScalar,
     Decimal: DecimalScalar,
+    JSON: JSONScalar,
+    Upload: UploadScalar,
   },
   // Domain resolvers
   ministryResolvers,
+  verificationResolvers,
+  screeningResolvers,
+  ministryImportResolvers,
+  ministryMergeResolvers,
   donorResolvers,
   givingFundResolvers,
+  fundLifecycleResolvers,
+  contributionResolvers,
+  receiptResolvers,
   grantResolvers,
-  dashboardResolvers
+  recurringGrantResolvers,
+  dashboardResolvers,
+  authResolvers,
+  auditResolvers
 );
+
+/**
+ * Combined resolvers object for Apollo Server
+ * Every mutation records an audit event
+ */
+export const resolvers: Record<string, unknown> = {
+  ...domainResolvers,
+  Mutation: auditMutations(
+    domainResolvers['Mutation'] as Parameters<typeof auditMutations>[0]
+  ),
+};
@@ -4,46 +4,314 @@
  * =============================================================================
  *
  * Handles all GraphQL operations related to Ministry entities:
- *   - CRUD operations (Create, Read, Update, Delete)
- *   - Pagination with cursor-based navigation
+ *   - CRUD operations (Create, Read, Update, Archive/Restore)
+ *   - Pagination with keyset cursors in either direction
+ *   - Ordering by name, creation date, state or total funded
  *   - Filtering by category, verification status, and search terms
+ *   - Ranked full-text search with highlighted snippets
  *   - Computed fields for grant statistics
  *
+ * Ministry reads are public; changes need ADVISOR (ADMIN to archive or
+ * restore). Archived ministries are left out unless filter.archived is set.
+ *
  * Best practices demonstrated:
  *   - Type-safe context with Prisma client
  *   - Proper error handling with meaningful messages
  *   - Efficient database queries with select/include optimization
- *   - Base64 cursor encoding for pagination
+ *   - Opaque keyset cursors that encode the sort key, so pages stay
+ *     stable when ministries are added mid-pagination
  */
 
-import type { Ministry, GrantStatus, Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { Ministry, MinistryCategory } from '@prisma/client';
 import type { Context } from '../context.js';
+import { authorize, grantScope, requireUser } from '../lib/authorization.js';
+import { ValidationError } from '../lib/errors.js';
+import { archiveMinistry, archivedWhere, restoreMinistry } from '../lib/archive.js';
+import { assertEinAvailable, normalizeEin } from '../lib/ein.js';
+import { completeVerification, revokeVerifications } from '../lib/verification.js';
+import {
+  encodeKeysetCursor,
+  keysetWindow,
+  toConnection,
+  type ConnectionArgs,
+  type KeysetCursor,
+  type KeysetWindow,
+} from '../lib/pagination.js';
+
+interface MinistryFilter {
+  category?: string;
+  verified?: boolean;
+  active?: boolean;
+  archived?: boolean;
+  search?: string;
+  state?: string;
+}
 
 /**
- * Encodes a ministry ID as a cursor for pagination
+ * Ministry sort order
+ * ID (creation order) is the default and is not exposed in the schema
  */
-function encodeCursor(id: number): string {
-  return Buffer.from(`ministry:${id}`).toString('base64');
+type MinistryOrderField = 'ID' | 'NAME' | 'CREATED_AT' | 'STATE' | 'TOTAL_FUNDED';
+
+interface MinistryOrder {
+  field: Exclude<MinistryOrderField, 'ID'>;
+  direction?: 'ASC' | 'DESC';
 }
 
 /**
- * Decodes a cursor back to a ministry ID
+ * Ministry columns behind each column-backed sort field
+ */
+const ORDER_COLUMNS = {
+  ID: 'id',
+  NAME: 'name',
+  CREATED_AT: 'createdAt',
+  STATE: 'state',
+} as const;
+
+/**
+ * Builds a ministry where clause from a MinistryFilter
  */
-function decodeCursor(cursor: string): number {
-  const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
-  const id = parseInt(decoded.replace('ministry:', ''), 10);
-  if (isNaN(id)) {
-    throw new Error('Invalid cursor format');
+function ministryWhere(filter: MinistryFilter | undefined): Prisma.MinistryWhereInput {
+  const where: Prisma.MinistryWhereInput = archivedWhere(filter?.archived ?? false);
+
+  if (filter) {
+    if (filter.category) {
+      where.category = filter.category as Prisma.EnumMinistryCategoryFilter;
+    }
+    if (filter.verified !== undefined) {
+      where.verified = filter.verified;
+    }
+    if (filter.active !== undefined) {
+      where.active = filter.active;
+    }
+    if (filter.state) {
+      where.state = filter.state;
+    }
+    if (filter.search) {
+      where.name = {
+        contains: filter.search,
+        mode: 'insensitive',
+      };
+    }
   }
-  return id;
+
+  return where;
 }
 
-interface MinistryFilter {
-  category?: string;
-  verified?: boolean;
-  active?: boolean;
-  search?: string;
-  state?: string;
+/**
+ * Same filter as ministryWhere, as SQL over the "Ministry" table aliased m
+ */
+function ministryWhereSql(filter: MinistryFilter | undefined): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    filter?.archived ? Prisma.sql`m."archivedAt" IS NOT NULL` : Prisma.sql`m."archivedAt" IS NULL`,
+  ];
+
+  if (filter) {
+    if (filter.category) {
+      conditions.push(Prisma.sql`m."category" = CAST(${filter.category} AS "MinistryCategory")`);
+    }
+    if (filter.verified !== undefined) {
+      conditions.push(Prisma.sql`m."verified" = ${filter.verified}`);
+    }
+    if (filter.active !== undefined) {
+      conditions.push(Prisma.sql`m."active" = ${filter.active}`);
+    }
+    if (filter.state) {
+      conditions.push(Prisma.sql`m."state" = ${filter.state}`);
+    }
+    if (filter.search) {
+      const pattern = `%${filter.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(Prisma.sql`m."name" ILIKE ${pattern}`);
+    }
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Restricts a column-backed ministry order to rows strictly past the cursor
+ *
+ * `ascending` and `nullsFirst` describe the order rows are fetched in, which
+ * is reversed for backward pages. Only `state` is nullable.
+ */
+function ministryKeysetWhere(
+  field: keyof typeof ORDER_COLUMNS,
+  cursor: KeysetCursor,
+  ascending: boolean,
+  nullsFirst: boolean
+): Prisma.MinistryWhereInput {
+  const cmp = ascending ? 'gt' : 'lt';
+  const pastId: Prisma.MinistryWhereInput = { id: { [cmp]: cursor.id } };
+  if (field === 'ID') {
+    return pastId;
+  }
+
+  const column = ORDER_COLUMNS[field];
+  const value =
+    field === 'CREATED_AT' && cursor.value !== null
+      ? new Date(cursor.value)
+      : cursor.value;
+
+  if (value === null) {
+    // The cursor is inside the block of ministries with no state
+    return nullsFirst
+      ? { OR: [{ state: null, ...pastId }, { NOT: { state: null } }] }
+      : { state: null, ...pastId };
+  }
+
+  const past = [
+    { [column]: { [cmp]: value } },
+    { [column]: value, ...pastId },
+  ] as Prisma.MinistryWhereInput[];
+  if (field === 'STATE' && !nullsFirst) {
+    past.push({ state: null });
+  }
+  return { OR: past };
+}
+
+/**
+ * Maps a unique-index violation on Ministry.ein to a ValidationError
+ * The explicit check runs first; this covers two writes racing for one EIN
+ */
+function rethrowEinConflict(error: unknown, ein: string | null | undefined): never {
+  if (
+    ein &&
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002'
+  ) {
+    throw new ValidationError(`EIN ${ein} is already registered`, 'ein');
+  }
+  throw error;
+}
+
+/**
+ * Highlight delimiters handed to ts_headline
+ * Private-use characters cannot collide with markup, so the text can be
+ * HTML-escaped first and the delimiters swapped for <mark> afterwards
+ */
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+
+const NAME_HEADLINE_OPTIONS =
+  `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS =
+  `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", ` +
+  'MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "';
+
+const MAX_SEARCH_LENGTH = 200;
+
+interface MinistrySearchRow {
+  id: number;
+  rank: number;
+  highlightedName: string;
+  snippet: string;
+}
+
+/**
+ * Turns search box text into a prefix-matching tsquery
+ *
+ * Every word must match, and the last characters typed may be the start of
+ * a word, so results appear while the user is still typing. Returns null
+ * when the text has nothing searchable.
+ */
+function toPrefixTsQuery(text: string): string | null {
+  // Join EIN digits so "12-3456789" matches the dash-free indexed form
+  const terms = text.replace(/(\d)-(?=\d)/g, '$1').match(/[\p{L}\p{N}]+/gu);
+  if (!terms) {
+    return null;
+  }
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+/**
+ * HTML-escapes ts_headline output and marks the matched words
+ */
+function toHighlightedHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(new RegExp(HIGHLIGHT_START, 'g'), '<mark>')
+    .replace(new RegExp(HIGHLIGHT_STOP, 'g'), '</mark>');
+}
+
+/**
+ * Fetches one keyset page of ministries ordered by a stored column
+ * Rows come back in fetch order (reversed for backward pages)
+ */
+async function findMinistriesByColumn(
+  prisma: Context['prisma'],
+  field: keyof typeof ORDER_COLUMNS,
+  where: Prisma.MinistryWhereInput,
+  window: KeysetWindow,
+  ascending: boolean
+): Promise<Ministry[]> {
+  const direction = ascending ? 'asc' : 'desc';
+  // Ministries without a state always sort last in the requested order
+  const nullsFirst = window.backward;
+
+  const orderBy: Prisma.MinistryOrderByWithRelationInput[] =
+    field === 'STATE'
+      ? [{ state: { sort: direction, nulls: nullsFirst ? 'first' : 'last' } }]
+      : field === 'ID'
+        ? []
+        : [{ [ORDER_COLUMNS[field]]: direction }];
+
+  return prisma.ministry.findMany({
+    where: window.cursor
+      ? { AND: [where, ministryKeysetWhere(field, window.cursor, ascending, nullsFirst)] }
+      : where,
+    orderBy: [...orderBy, { id: direction }],
+    take: window.size + 1,
+  });
+}
+
+/**
+ * Fetches one keyset page of ministries ordered by total funded
+ *
+ * Total funded is not stored on the ministry, so the page is selected in
+ * SQL over FUNDED grants net of reversals (as Ministry.totalFunded reports)
+ * and the ministries are loaded by ID. Rows come back in fetch order.
+ */
+async function findMinistriesByTotalFunded(
+  prisma: Context['prisma'],
+  filter: MinistryFilter | undefined,
+  window: KeysetWindow,
+  ascending: boolean
+): Promise<{ ministries: Ministry[]; totals: Map<number, string> }> {
+  const direction = Prisma.raw(ascending ? 'ASC' : 'DESC');
+  const keyset = window.cursor
+    ? ascending
+      ? Prisma.sql`AND (COALESCE(t."total", 0), m."id") > (CAST(${window.cursor.value} AS DECIMAL), ${window.cursor.id})`
+      : Prisma.sql`AND (COALESCE(t."total", 0), m."id") < (CAST(${window.cursor.value} AS DECIMAL), ${window.cursor.id})`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<{ id: number; totalFunded: Prisma.Decimal }[]>`
+    SELECT m."id", COALESCE(t."total", 0) AS "totalFunded"
+    FROM "Ministry" m
+    LEFT JOIN (
+      SELECT "ministryId", SUM("amount" - "reversedAmount") AS "total"
+      FROM "Grant"
+      WHERE "status" = 'FUNDED'
+      GROUP BY "ministryId"
+    ) t ON t."ministryId" = m."id"
+    WHERE ${ministryWhereSql(filter)} ${keyset}
+    ORDER BY "totalFunded" ${direction}, m."id" ${direction}
+    LIMIT ${window.size + 1}
+  `;
+
+  const found = await prisma.ministry.findMany({
+    where: { id: { in: rows.map((row) => row.id) } },
+  });
+  const byId = new Map(found.map((ministry) => [ministry.id, ministry]));
+
+  return {
+    ministries: rows.flatMap((row) => byId.get(row.id) ?? []),
+    totals: new Map(rows.map((row) => [row.id, row.totalFunded.toString()])),
+  };
 }
 
 export const ministryResolvers = {
@@ -62,232 +330,303 @@ export const ministryResolvers = {
     },
 
     /**
-     * Fetches paginated ministries with optional filtering
-     * Implements Relay-style cursor pagination
+     * Fetches paginated ministries with optional filtering and ordering
+     * Implements Relay-style keyset pagination in both directions
      */
     ministries: async (
       _parent: unknown,
       {
         filter,
-        first = 20,
-        after,
-      }: {
+        orderBy,
+        ...page
+      }: ConnectionArgs & {
         filter?: MinistryFilter;
-        first?: number;
-        after?: string;
+        orderBy?: MinistryOrder;
       },
       { prisma }: Context
     ) => {
-      // Validate pagination parameters
-      const take = Math.min(Math.max(first, 1), 100); // Between 1 and 100
+      const field: MinistryOrderField = orderBy?.field ?? 'ID';
+      const window = keysetWindow('ministry', field, page);
 
-      // Build where clause from filter
-      const where: Prisma.MinistryWhereInput = {};
+      // Backward pages are fetched in reverse order from the cursor
+      const descending = orderBy?.direction === 'DESC';
+      const ascending = descending === window.backward;
 
-      if (filter) {
-        if (filter.category) {
-          where.category = filter.category as Prisma.EnumMinistryCategoryFilter;
-        }
-        if (filter.verified !== undefined) {
-          where.verified = filter.verified;
-        }
-        if (filter.active !== undefined) {
-          where.active = filter.active;
-        }
-        if (filter.state) {
-          where.state = filter.state;
-        }
-        if (filter.search) {
-          where.name = {
-            contains: filter.search,
-            mode: 'insensitive',
-          };
-        }
-      }
+      const where = ministryWhere(filter);
+      const totalCount = await prisma.ministry.count({ where });
 
-      // Handle cursor-based pagination
-      let cursor: { id: number } | undefined;
-      if (after) {
-        cursor = { id: decodeCursor(after) };
-      }
+      let items: Ministry[];
+      let sortValue: (ministry: Ministry) => string | number | null;
 
-      // Fetch total count for pagination info
-      const totalCount = await prisma.ministry.count({ where });
+      if (field === 'TOTAL_FUNDED') {
+        const { ministries, totals } = await findMinistriesByTotalFunded(
+          prisma,
+          filter,
+          window,
+          ascending
+        );
+        items = ministries;
+        sortValue = (ministry) => totals.get(ministry.id) ?? '0';
+      } else {
+        items = await findMinistriesByColumn(prisma, field, where, window, ascending);
+        sortValue = (ministry) => {
+          const value = ministry[ORDER_COLUMNS[field]];
+          return value instanceof Date ? value.toISOString() : value;
+        };
+      }
 
-      // Fetch items with one extra to determine if there's a next page
-      const items = await prisma.ministry.findMany({
-        where,
-        take: take + 1, // Fetch one extra to check for next page
-        skip: cursor ? 1 : 0, // Skip the cursor item itself
-        cursor,
-        orderBy: { id: 'asc' },
-      });
+      if (window.backward) {
+        items.reverse();
+      }
 
-      // Determine if there are more pages
-      const hasNextPage = items.length > take;
-      const edges = items.slice(0, take).map((ministry) => ({
-        node: ministry,
-        cursor: encodeCursor(ministry.id),
-      }));
-
-      return {
-        edges,
-        pageInfo: {
-          hasNextPage,
-          hasPreviousPage: !!after,
-          startCursor: edges[0]?.cursor ?? null,
-          endCursor: edges[edges.length - 1]?.cursor ?? null,
-          totalCount,
-        },
-      };
+      return toConnection('ministry', items, window, totalCount, (ministry) =>
+        encodeKeysetCursor('ministry', {
+          field,
+          value: sortValue(ministry),
+          id: ministry.id,
+        })
+      );
     },
-  },
 
-  Mutation: {
     /**
-     * Creates a new ministry record
-     * New ministries are unverified by default
+     * Full-text search over name, EIN, mission, description and city
+     * Best matches first, with highlighted name and snippet
      */
-    createMinistry: async (
+    searchMinistries: async (
       _parent: unknown,
       {
-        input,
+        query,
+        filter,
+        first = 20,
       }: {
-        input: {
-          name: string;
-          ein?: string;
-          category: string;
-          description?: string;
-          mission?: string;
-          website?: string;
-          city?: string;
-          state?: string;
-          country?: string;
-        };
+        query: string;
+        filter?: MinistryFilter;
+        first?: number;
       },
       { prisma }: Context
-    ): Promise<Ministry> => {
-      // Validate EIN format if provided (XX-XXXXXXX)
-      if (input.ein && !/^\d{2}-\d{7}$/.test(input.ein)) {
-        throw new Error('Invalid EIN format. Expected format: XX-XXXXXXX');
+    ) => {
+      if (query.length > MAX_SEARCH_LENGTH) {
+        throw new ValidationError(
+          `Search text must be at most ${MAX_SEARCH_LENGTH} characters`,
+          'query'
+        );
       }
 
-      return prisma.ministry.create({
-        data: {
-          name: input.name,
-          ein: input.ein,
-          category: input.category as Prisma.EnumMinistryCategoryFieldUpdateOperationsInput['set'],
-          description: input.description,
-          mission: input.mission,
-          website: input.website,
-          city: input.city,
-          state: input.state,
-          country: input.country ?? 'USA',
-          verified: false,
-          active: true,
-        },
+      const tsQuery = toPrefixTsQuery(query);
+      if (!tsQuery) {
+        return [];
+      }
+
+      const take = Math.min(Math.max(first, 1), 100); // Between 1 and 100
+      // The search text replaces the name-only filter.search
+      const { search: _nameSearch, ...criteria } = filter ?? {};
+
+      const rows = await prisma.$queryRaw<MinistrySearchRow[]>`
+        WITH q AS (SELECT to_tsquery('english', ${tsQuery}) AS query)
+        SELECT
+          m."id",
+          ts_rank(m."searchVector", q.query) AS "rank",
+          ts_headline('english', m."name", q.query, ${NAME_HEADLINE_OPTIONS}) AS "highlightedName",
+          ts_headline(
+            'english',
+            concat_ws(' ', m."mission", m."description"),
+            q.query,
+            ${SNIPPET_HEADLINE_OPTIONS}
+          ) AS "snippet"
+        FROM "Ministry" m, q
+        WHERE m."searchVector" @@ q.query AND ${ministryWhereSql(criteria)}
+        ORDER BY "rank" DESC, m."id" ASC
+        LIMIT ${take}
+      `;
+
+      const ministries = await prisma.ministry.findMany({
+        where: { id: { in: rows.map((row) => row.id) } },
+      });
+      const byId = new Map(ministries.map((ministry) => [ministry.id, ministry]));
+
+      return rows.flatMap((row) => {
+        const ministry = byId.get(row.id);
+        if (!ministry) return [];
+        return [
+          {
+            ministry,
+            rank: row.rank,
+            highlightedName: toHighlightedHtml(row.highlightedName),
+            snippet: row.snippet ? toHighlightedHtml(row.snippet) : null,
+          },
+        ];
       });
     },
+  },
+
+  Mutation: {
+    /**
+     * Creates a new ministry record
+     * New ministries are unverified by default
+     */
+    createMinistry: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          input,
+        }: {
+          input: {
+            name: string;
+            ein?: string;
+            category: string;
+            description?: string;
+            mission?: string;
+            website?: string;
+            city?: string;
+            state?: string;
+            country?: string;
+          };
+        },
+        { prisma }: Context
+      ): Promise<Ministry> => {
+        // Validate and normalize EIN if provided (stored as XX-XXXXXXX)
+        const ein = input.ein ? normalizeEin(input.ein) : undefined;
+        if (ein) {
+          await assertEinAvailable(prisma, ein);
+        }
+
+        return prisma.ministry.create({
+          data: {
+            name: input.name,
+            ein,
+            category: input.category as MinistryCategory,
+            description: input.description,
+            mission: input.mission,
+            website: input.website,
+            city: input.city,
+            state: input.state,
+            country: input.country ?? 'USA',
+            verified: false,
+            active: true,
+          },
+        }).catch((error: unknown) => rethrowEinConflict(error, ein));
+      }
+    ),
 
     /**
      * Updates an existing ministry
      * Returns null if ministry not found
      */
-    updateMinistry: async (
-      _parent: unknown,
-      {
-        id,
-        input,
-      }: {
-        id: number;
-        input: Partial<{
-          name: string;
-          ein: string;
-          category: string;
-          description: string;
-          mission: string;
-          website: string;
-          city: string;
-          state: string;
-          country: string;
-          verified: boolean;
-          active: boolean;
-        }>;
-      },
-      { prisma }: Context
-    ): Promise<Ministry | null> => {
-      // Check if ministry exists
-      const existing = await prisma.ministry.findUnique({ where: { id } });
-      if (!existing) {
-        return null;
-      }
+    updateMinistry: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          id,
+          input,
+        }: {
+          id: number;
+          input: Partial<{
+            name: string;
+            ein: string | null;
+            category: string;
+            description: string;
+            mission: string;
+            website: string;
+            city: string;
+            state: string;
+            country: string;
+            verified: boolean;
+            active: boolean;
+          }>;
+        },
+        context: Context
+      ): Promise<Ministry | null> => {
+        const { prisma } = context;
+        const user = requireUser(context);
+
+        // Check if ministry exists
+        const existing = await prisma.ministry.findUnique({ where: { id } });
+        if (!existing) {
+          return null;
+        }
 
-      // Build update data, only including provided fields
-      const data: Prisma.MinistryUpdateInput = {};
-      if (input.name !== undefined) data.name = input.name;
-      if (input.ein !== undefined) data.ein = input.ein;
-      if (input.category !== undefined) {
-        data.category = input.category as Prisma.EnumMinistryCategoryFieldUpdateOperationsInput['set'];
+        // Build update data, only including provided fields
+        const data: Prisma.MinistryUpdateInput = {};
+        if (input.name !== undefined) data.name = input.name;
+        // Blank clears the EIN; anything else is validated and normalized
+        const ein = input.ein?.trim() ? normalizeEin(input.ein) : null;
+        if (input.ein !== undefined) {
+          if (ein) {
+            await assertEinAvailable(prisma, ein, id);
+          }
+          data.ein = ein;
+        }
+        if (input.category !== undefined) {
+          data.category = input.category as Prisma.EnumMinistryCategoryFieldUpdateOperationsInput['set'];
+        }
+        if (input.description !== undefined) data.description = input.description;
+        if (input.mission !== undefined) data.mission = input.mission;
+        if (input.website !== undefined) data.website = input.website;
+        if (input.city !== undefined) data.city = input.city;
+        if (input.state !== undefined) data.state = input.state;
+        if (input.country !== undefined) data.country = input.country;
+        if (input.active !== undefined) data.active = input.active;
+
+        return prisma
+          .$transaction(async (tx) => {
+            // Deprecated verified flag: goes through the verification
+            // workflow so the change is recorded
+            if (input.verified === true && !existing.verified) {
+              await completeVerification(tx, id, user.id, {
+                notes: 'Marked verified when editing the ministry',
+              });
+            }
+            if (input.verified === false && existing.verified) {
+              await revokeVerifications(
+                tx,
+                existing,
+                user.id,
+                'Marked unverified when editing the ministry'
+              );
+            }
+
+            return tx.ministry.update({
+              where: { id },
+              data,
+            });
+          })
+          .catch((error: unknown) => rethrowEinConflict(error, ein));
       }
-      if (input.description !== undefined) data.description = input.description;
-      if (input.mission !== undefined) data.mission = input.mission;
-      if (input.website !== undefined) data.website = input.website;
-      if (input.city !== undefined) data.city = input.city;
-      if (input.state !== undefined) data.state = input.state;
-      if (input.country !== undefined) data.country = input.country;
-      if (input.verified !== undefined) data.verified = input.verified;
-      if (input.active !== undefined) data.active = input.active;
-
-      return prisma.ministry.update({
-        where: { id },
-        data,
-      });
-    },
+    ),
 
     /**
-     * Deletes a ministry by ID
-     * Will throw if ministry has associated grants (referential integrity)
+     * Archives a ministry by ID
+     * The ministry and its grant history are kept; it is left out of lists
+     * and takes no new grants until restored. Will throw if the ministry
+     * has PENDING or APPROVED grants or is already archived.
      */
-    deleteMinistry: async (
-      _parent: unknown,
-      { id }: { id: number },
-      { prisma }: Context
-    ): Promise<boolean> => {
-      try {
-        await prisma.ministry.delete({ where: { id } });
+    deleteMinistry: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<boolean> => {
+        await archiveMinistry(prisma, id);
         return true;
-      } catch (error) {
-        // Check if it's a foreign key constraint error
-        if (
-          error instanceof Error &&
-          error.message.includes('Foreign key constraint')
-        ) {
-          throw new Error(
-            'Cannot delete ministry with existing grants. Remove or reassign grants first.'
-          );
-        }
-        throw error;
       }
-    },
+    ),
 
     /**
-     * Marks a ministry as verified for grant eligibility
+     * Restores an archived ministry
      */
-    verifyMinistry: async (
-      _parent: unknown,
-      { id }: { id: number },
-      { prisma }: Context
-    ): Promise<Ministry | null> => {
-      const ministry = await prisma.ministry.findUnique({ where: { id } });
-      if (!ministry) {
-        return null;
+    restoreMinistry: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<Ministry> => {
+        return restoreMinistry(prisma, id);
       }
-
-      return prisma.ministry.update({
-        where: { id },
-        data: { verified: true },
-      });
-    },
+    ),
   },
 
   /**
@@ -296,30 +635,29 @@ export const ministryResolvers = {
   Ministry: {
     /**
      * Resolves all grants for this ministry
+     * Requires sign-in; donors only see grants from their own funds
      */
-    grants: async (parent: Ministry, _args: unknown, { prisma }: Context) => {
-      return prisma.grant.findMany({
-        where: { ministryId: parent.id },
+    grants: async (parent: Ministry, _args: unknown, context: Context) => {
+      return context.prisma.grant.findMany({
+        where: {
+          ministryId: parent.id,
+          ...grantScope(requireUser(context)),
+        },
         orderBy: { requestedAt: 'desc' },
       });
     },
 
     /**
      * Calculates total funded amount for this ministry
+     * Net of any amounts returned through partial reversals
      */
     totalFunded: async (
       parent: Ministry,
       _args: unknown,
-      { prisma }: Context
+      { loaders }: Context
     ) => {
-      const result = await prisma.grant.aggregate({
-        where: {
-          ministryId: parent.id,
-          status: 'FUNDED',
-        },
-        _sum: { amount: true },
-      });
-      return result._sum.amount ?? 0;
+      const stats = await loaders.grantStatsByMinistry.load(parent.id);
+      return stats.fundedAmount;
     },
 
     /**
@@ -328,32 +666,10 @@ export const ministryResolvers = {
     grantCounts: async (
       parent: Ministry,
       _args: unknown,
-      { prisma }: Context
+      { loaders }: Context
     ) => {
-      const counts = await prisma.grant.groupBy({
-        by: ['status'],
-        where: { ministryId: parent.id },
-        _count: true,
-      });
-
-      const countMap: Record<string, number> = {
-        PENDING: 0,
-        APPROVED: 0,
-        FUNDED: 0,
-        REJECTED: 0,
-      };
-
-      counts.forEach((c) => {
-        countMap[c.status] = c._count;
-      });
-
-      return {
-        pending: countMap['PENDING'] ?? 0,
-        approved: countMap['APPROVED'] ?? 0,
-        funded: countMap['FUNDED'] ?? 0,
-        rejected: countMap['REJECTED'] ?? 0,
-        total: Object.values(countMap).reduce((a, b) => a + b, 0),
-      };
+      const stats = await loaders.grantStatsByMinistry.load(parent.id);
+      return stats.counts;
     },
   },
 };
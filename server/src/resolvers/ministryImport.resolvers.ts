@@ -0,0 +1,63 @@
+/**
+ * =============================================================================
+ * Ministry Import Resolvers
+ * =============================================================================
+ *
+ * Bulk ministry onboarding from a spreadsheet (see lib/ministryImport.ts):
+ *   - importMinistries: validates an uploaded CSV or XLSX file row by row
+ *     and, unless a dry run, creates every ministry in one transaction
+ *
+ * The file arrives through the Upload scalar in a GraphQL multipart request
+ * (see http.ts).
+ */
+
+import type { FileUpload } from 'graphql-upload/processRequest.mjs';
+import type { Context } from '../context.js';
+import { authorize, requireUser } from '../lib/authorization.js';
+import {
+  importMinistries,
+  readSpreadsheet,
+  type MinistryImportResult,
+  type MinistryImportRow,
+} from '../lib/ministryImport.js';
+import { readUpload } from '../lib/upload.js';
+
+export const ministryImportResolvers = {
+  Mutation: {
+    /**
+     * Imports ministries from a spreadsheet
+     * A dry run (the default) only reports what would be created
+     */
+    importMinistries: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { file, dryRun = true }: { file: Promise<FileUpload>; dryRun?: boolean },
+        context: Context
+      ): Promise<MinistryImportResult> => {
+        const user = requireUser(context);
+        const rows = await readSpreadsheet(await readUpload(file));
+        return importMinistries(context.prisma, rows, { dryRun }, user.id);
+      }
+    ),
+  },
+
+  MinistryImportRow: {
+    /**
+     * Resolves the ministry already registered under the row's EIN
+     */
+    existingMinistry: (parent: MinistryImportRow, _args: unknown, { loaders }: Context) =>
+      parent.existingMinistryId === null ? null : loaders.ministry.load(parent.existingMinistryId),
+
+    /**
+     * Resolves the ministry created from the row
+     */
+    ministry: (parent: MinistryImportRow, _args: unknown, { loaders }: Context) =>
+      parent.ministryId === null ? null : loaders.ministry.load(parent.ministryId),
+
+    /**
+     * Whether the row passed validation
+     */
+    valid: (parent: MinistryImportRow): boolean => parent.errors.length === 0,
+  },
+};
@@ -0,0 +1,103 @@
+/**
+ * =============================================================================
+ * Ministry Merge Resolvers
+ * =============================================================================
+ *
+ * De-duplication of ministries (see lib/ministryMerge.ts):
+ *   - findDuplicateMinistries: pairs of ministries that may be the same
+ *     organization, by name, EIN, website domain and location
+ *   - mergeMinistries: an ADMIN folds duplicates into a surviving ministry
+ *   - Ministry.aliases: the records merged into a ministry
+ */
+
+import type { Ministry, MinistryAlias } from '@prisma/client';
+import type { Context } from '../context.js';
+import { authorize, requireUser } from '../lib/authorization.js';
+import {
+  findDuplicateMinistries,
+  mergeMinistries,
+  type DuplicateCandidate,
+} from '../lib/ministryMerge.js';
+
+export const ministryMergeResolvers = {
+  Query: {
+    /**
+     * Fetches possible duplicate pairs, most likely first
+     */
+    findDuplicateMinistries: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          ministryId,
+          minScore = 0.6,
+          first = 20,
+        }: { ministryId?: number; minScore?: number; first?: number },
+        { prisma }: Context
+      ): Promise<DuplicateCandidate[]> => {
+        return findDuplicateMinistries(prisma, {
+          ...(ministryId !== undefined ? { ministryId } : {}),
+          minScore,
+          first,
+        });
+      }
+    ),
+  },
+
+  Mutation: {
+    /**
+     * Merges duplicate ministries into a survivor and returns the survivor
+     */
+    mergeMinistries: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        { survivorId, duplicateIds }: { survivorId: number; duplicateIds: number[] },
+        context: Context
+      ): Promise<Ministry> => {
+        const user = requireUser(context);
+        return mergeMinistries(context.prisma, survivorId, duplicateIds, user.id);
+      }
+    ),
+  },
+
+  MinistryDuplicate: {
+    /**
+     * Resolves the two ministries of the pair
+     */
+    ministry: (parent: DuplicateCandidate, _args: unknown, { loaders }: Context) =>
+      loaders.ministry.load(parent.ministryId),
+    duplicate: (parent: DuplicateCandidate, _args: unknown, { loaders }: Context) =>
+      loaders.ministry.load(parent.duplicateId),
+  },
+
+  /**
+   * Merge fields on Ministry
+   */
+  Ministry: {
+    /**
+     * Resolves the records merged into the ministry, most recent first
+     */
+    aliases: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        parent: Ministry,
+        _args: unknown,
+        { prisma }: Context
+      ): Promise<MinistryAlias[]> => {
+        return prisma.ministryAlias.findMany({
+          where: { ministryId: parent.id },
+          orderBy: [{ mergedAt: 'desc' }, { id: 'desc' }],
+        });
+      }
+    ),
+  },
+
+  MinistryAlias: {
+    /**
+     * Resolves the ADMIN who merged the record
+     */
+    mergedBy: (parent: MinistryAlias, _args: unknown, { loaders }: Context) =>
+      parent.mergedById === null ? null : loaders.user.load(parent.mergedById),
+  },
+};
@@ -0,0 +1,80 @@
+/**
+ * =============================================================================
+ * Receipt Resolvers
+ * =============================================================================
+ *
+ * Receipts issued to donors (see lib/receipts.ts). Receipts are issued and
+ * downloaded over GET /receipts/... (see downloads.ts); GraphQL lists them:
+ *   - Contribution.receipt and Donor.receipts
+ *   - Receipt.downloadPath for fetching the PDF
+ */
+
+import type { Contribution, Donor, Receipt } from '@prisma/client';
+import type { Context } from '../context.js';
+import { receiptPath } from '../downloads.js';
+import { formatReceiptNumber } from '../lib/receipts.js';
+
+export const receiptResolvers = {
+  Receipt: {
+    /**
+     * The number as printed on the receipt
+     */
+    number: (parent: Receipt) => formatReceiptNumber(parent.number),
+
+    /**
+     * Where the PDF is downloaded from
+     */
+    downloadPath: (parent: Receipt) => receiptPath(parent),
+
+    /**
+     * Resolves the donor and the contribution acknowledged
+     */
+    donor: (parent: Receipt, _args: unknown, { loaders }: Context) =>
+      loaders.donor.load(parent.donorId),
+    contribution: async (
+      parent: Receipt,
+      _args: unknown,
+      { prisma }: Context
+    ): Promise<Contribution | null> => {
+      if (parent.contributionId === null) {
+        return null;
+      }
+      return prisma.contribution.findUnique({ where: { id: parent.contributionId } });
+    },
+  },
+
+  /**
+   * Receipt field on Contribution
+   */
+  Contribution: {
+    /**
+     * Resolves the contribution's receipt, once issued
+     */
+    receipt: async (
+      parent: Contribution,
+      _args: unknown,
+      { prisma }: Context
+    ): Promise<Receipt | null> => {
+      return prisma.receipt.findUnique({ where: { contributionId: parent.id } });
+    },
+  },
+
+  /**
+   * Receipt field on Donor
+   */
+  Donor: {
+    /**
+     * Resolves receipts issued to the donor, newest first
+     */
+    receipts: async (
+      parent: Donor,
+      _args: unknown,
+      { prisma }: Context
+    ): Promise<Receipt[]> => {
+      return prisma.receipt.findMany({
+        where: { donorId: parent.id },
+        orderBy: [{ issuedAt: 'desc' }, { id: 'desc' }],
+      });
+    },
+  },
+};
@@ -0,0 +1,200 @@
+/**
+ * =============================================================================
+ * Recurring Grant Resolvers
+ * =============================================================================
+ *
+ * Grants requested on a schedule (see lib/recurringGrants.ts):
+ *   - createRecurringGrant, updateRecurringGrant, cancelRecurringGrant:
+ *     donors manage schedules on their own funds
+ *   - runRecurringGrants: an ADMIN runs the scheduler job now
+ *   - recurringGrants lists running schedules; flaggedOnly finds those whose
+ *     last run was skipped
+ *   - GivingFund.recurringGrants and Grant.recurringGrant
+ */
+
+import type { GivingFund, Grant, Prisma, RecurringGrant } from '@prisma/client';
+import type { Context } from '../context.js';
+import { authorize, fundScope, requireUser } from '../lib/authorization.js';
+import {
+  cancelRecurringGrant,
+  createRecurringGrant,
+  runRecurringGrants,
+  updateRecurringGrant,
+  type RecurringGrantInput,
+  type RecurringGrantRunSummary,
+  type RecurringGrantUpdate,
+} from '../lib/recurringGrants.js';
+
+export const recurringGrantResolvers = {
+  Query: {
+    /**
+     * Fetches a single recurring grant by ID
+     */
+    recurringGrant: authorize(
+      { requires: 'DONOR', ownsRecurringGrant: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<RecurringGrant | null> => {
+        return prisma.recurringGrant.findUnique({ where: { id } });
+      }
+    ),
+
+    /**
+     * Lists running schedules the user may see, next run first
+     */
+    recurringGrants: authorize(
+      { requires: 'DONOR' },
+      async (
+        _parent: unknown,
+        { givingFundId, flaggedOnly }: { givingFundId?: number; flaggedOnly?: boolean },
+        context: Context
+      ): Promise<RecurringGrant[]> => {
+        const where: Prisma.RecurringGrantWhereInput = {
+          nextRunDate: { not: null },
+          givingFund: fundScope(requireUser(context)),
+        };
+        if (givingFundId !== undefined) {
+          where.givingFundId = givingFundId;
+        }
+        if (flaggedOnly) {
+          where.flaggedAt = { not: null };
+        }
+        return context.prisma.recurringGrant.findMany({
+          where,
+          orderBy: [{ nextRunDate: 'asc' }, { id: 'asc' }],
+        });
+      }
+    ),
+  },
+
+  Mutation: {
+    /**
+     * Creates a schedule; its first run is on the start date
+     */
+    createRecurringGrant: authorize(
+      { requires: 'DONOR', ownsFund: (args) => args.input.givingFundId },
+      async (
+        _parent: unknown,
+        { input }: { input: RecurringGrantInput },
+        context: Context
+      ): Promise<RecurringGrant> => {
+        const user = requireUser(context);
+        return createRecurringGrant(context.prisma, input, user.id);
+      }
+    ),
+
+    /**
+     * Changes a running schedule and clears its flag
+     */
+    updateRecurringGrant: authorize(
+      { requires: 'DONOR', ownsRecurringGrant: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id, input }: { id: number; input: RecurringGrantUpdate },
+        { prisma }: Context
+      ): Promise<RecurringGrant> => {
+        return updateRecurringGrant(prisma, id, input);
+      }
+    ),
+
+    /**
+     * Cancels a running schedule
+     */
+    cancelRecurringGrant: authorize(
+      { requires: 'DONOR', ownsRecurringGrant: (args) => args.id },
+      async (
+        _parent: unknown,
+        { id }: { id: number },
+        { prisma }: Context
+      ): Promise<RecurringGrant> => {
+        return cancelRecurringGrant(prisma, id);
+      }
+    ),
+
+    /**
+     * Runs the scheduler job now
+     */
+    runRecurringGrants: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        _args: unknown,
+        { prisma }: Context
+      ): Promise<RecurringGrantRunSummary> => {
+        return runRecurringGrants(prisma);
+      }
+    ),
+  },
+
+  RecurringGrant: {
+    /**
+     * Cancelled, ended (no run left) or active
+     */
+    status: (parent: RecurringGrant) =>
+      parent.cancelledAt ? 'CANCELLED' : parent.nextRunDate ? 'ACTIVE' : 'ENDED',
+
+    /**
+     * Resolves the fund, ministry and creator
+     */
+    givingFund: (parent: RecurringGrant, _args: unknown, { loaders }: Context) =>
+      loaders.givingFund.load(parent.givingFundId),
+    ministry: (parent: RecurringGrant, _args: unknown, { loaders }: Context) =>
+      loaders.ministry.load(parent.ministryId),
+    createdBy: (parent: RecurringGrant, _args: unknown, { loaders }: Context) =>
+      parent.createdById === null ? null : loaders.user.load(parent.createdById),
+
+    /**
+     * Resolves the grants the schedule made, newest first
+     */
+    grants: async (
+      parent: RecurringGrant,
+      _args: unknown,
+      { prisma }: Context
+    ): Promise<Grant[]> => {
+      return prisma.grant.findMany({
+        where: { recurringGrantId: parent.id },
+        orderBy: [{ requestedAt: 'desc' }, { id: 'desc' }],
+      });
+    },
+  },
+
+  /**
+   * Recurring grant fields on GivingFund
+   */
+  GivingFund: {
+    /**
+     * Resolves every schedule on the fund, newest first
+     */
+    recurringGrants: async (
+      parent: GivingFund,
+      _args: unknown,
+      { prisma }: Context
+    ): Promise<RecurringGrant[]> => {
+      return prisma.recurringGrant.findMany({
+        where: { givingFundId: parent.id },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      });
+    },
+  },
+
+  /**
+   * Recurring grant field on Grant
+   */
+  Grant: {
+    /**
+     * Resolves the schedule that made the grant
+     */
+    recurringGrant: async (
+      parent: Grant,
+      _args: unknown,
+      { prisma }: Context
+    ): Promise<RecurringGrant | null> => {
+      if (parent.recurringGrantId === null) {
+        return null;
+      }
+      return prisma.recurringGrant.findUnique({ where: { id: parent.recurringGrantId } });
+    },
+  },
+};
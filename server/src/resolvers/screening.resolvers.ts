@@ -0,0 +1,142 @@
+/**
+ * =============================================================================
+ * Sanctions Screening Resolvers
+ * =============================================================================
+ *
+ * Restricted-party screening of ministries (see lib/screening.ts):
+ *   - screeningResults: the review queue and screening history
+ *   - screenMinistry: screens a ministry ahead of funding
+ *   - resolveScreeningResult: an ADMIN clears or confirms a potential match
+ *
+ * fundGrant screens MISSIONS and HUMANITARIAN ministries itself and refuses
+ * to fund while a hit is unresolved.
+ */
+
+import type { Grant, Ministry, ScreeningResult, ScreeningStatus } from '@prisma/client';
+import type { Context } from '../context.js';
+import { authorize, requireUser } from '../lib/authorization.js';
+import { NotFoundError } from '../lib/errors.js';
+import { resolveScreeningResult, screenMinistry } from '../lib/screening.js';
+
+export const screeningResolvers = {
+  Query: {
+    /**
+     * Fetches screening results newest first, optionally for one ministry
+     * or by status (e.g. POTENTIAL_MATCH for the review queue)
+     */
+    screeningResults: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          ministryId,
+          status,
+          first = 50,
+        }: { ministryId?: number; status?: ScreeningStatus[]; first?: number },
+        { prisma }: Context
+      ): Promise<ScreeningResult[]> => {
+        return prisma.screeningResult.findMany({
+          where: {
+            ...(ministryId !== undefined ? { ministryId } : {}),
+            ...(status?.length ? { status: { in: status } } : {}),
+          },
+          orderBy: { id: 'desc' },
+          take: Math.min(Math.max(first, 1), 100), // Between 1 and 100
+        });
+      }
+    ),
+  },
+
+  Mutation: {
+    /**
+     * Screens a ministry against the current sanctions list
+     * Returns the results recorded by this screening
+     */
+    screenMinistry: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { ministryId }: { ministryId: number },
+        context: Context
+      ): Promise<ScreeningResult[]> => {
+        const user = requireUser(context);
+        const ministry = await context.prisma.ministry.findUnique({
+          where: { id: ministryId },
+        });
+        if (!ministry) {
+          throw new NotFoundError('Ministry', ministryId);
+        }
+
+        return screenMinistry(context.prisma, ministry, { screenedById: user.id });
+      }
+    ),
+
+    /**
+     * Clears (false positive) or confirms a potential match
+     * Returns null if the result is not found
+     */
+    resolveScreeningResult: authorize(
+      { requires: 'ADMIN' },
+      async (
+        _parent: unknown,
+        {
+          id,
+          resolution,
+          notes,
+        }: { id: number; resolution: 'CLEARED' | 'CONFIRMED'; notes: string },
+        context: Context
+      ): Promise<ScreeningResult | null> => {
+        const user = requireUser(context);
+        return resolveScreeningResult(context.prisma, id, resolution, notes, user.id);
+      }
+    ),
+  },
+
+  /**
+   * Screening fields on Ministry
+   */
+  Ministry: {
+    /**
+     * Resolves the ministry's screening history, newest first
+     */
+    screeningResults: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        parent: Ministry,
+        _args: unknown,
+        { prisma }: Context
+      ): Promise<ScreeningResult[]> => {
+        return prisma.screeningResult.findMany({
+          where: { ministryId: parent.id },
+          orderBy: { id: 'desc' },
+        });
+      }
+    ),
+  },
+
+  ScreeningResult: {
+    /**
+     * Resolves the ministry screened
+     */
+    ministry: (parent: ScreeningResult, _args: unknown, { loaders }: Context) =>
+      loaders.ministry.load(parent.ministryId),
+
+    /**
+     * Resolves the grant whose funding triggered the screening, if any
+     */
+    grant: (
+      parent: ScreeningResult,
+      _args: unknown,
+      { loaders }: Context
+    ): Promise<Grant | null> | null =>
+      parent.grantId === null ? null : loaders.grant.load(parent.grantId),
+
+    /**
+     * Resolves the users who ran and resolved the screening
+     */
+    screenedBy: (parent: ScreeningResult, _args: unknown, { loaders }: Context) =>
+      parent.screenedById === null ? null : loaders.user.load(parent.screenedById),
+    resolvedBy: (parent: ScreeningResult, _args: unknown, { loaders }: Context) =>
+      parent.resolvedById === null ? null : loaders.user.load(parent.resolvedById),
+  },
+};
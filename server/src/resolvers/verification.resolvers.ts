@@ -0,0 +1,252 @@
+/**
+ * =============================================================================
+ * Ministry Verification Resolvers
+ * =============================================================================
+ *
+ * The verification workflow for ministries (see lib/verification.ts):
+ *   - requestVerification: opens a request with its supporting evidence
+ *   - verifyMinistry: completes the request, or records a verification
+ *     directly, valid until expiresAt
+ *   - revokeVerification: withdraws a ministry's verification with a reason
+ *   - lookupExemptOrganization / Ministry.exemptOrganizationMatch: the
+ *     imported IRS lists, as evidence for verifyMinistry
+ *
+ * Verification records (evidence, notes, reviewers) and IRS lookups need
+ * ADVISOR. Ministry.verificationExpiresAt is public alongside
+ * Ministry.verified.
+ */
+
+import type {
+  ExemptOrganization,
+  Ministry,
+  MinistryVerification,
+  VerificationMethod,
+  VerificationStatus,
+} from '@prisma/client';
+import type { Context } from '../context.js';
+import { authorize, requireUser } from '../lib/authorization.js';
+import { NotFoundError } from '../lib/errors.js';
+import { normalizeEin } from '../lib/ein.js';
+import {
+  findExemptOrganizationMatch,
+  isDeductible,
+  type ExemptOrganizationMatch,
+} from '../lib/exemptOrganizations.js';
+import {
+  completeVerification,
+  isVerificationExpired,
+  requestVerification,
+  revokeVerifications,
+} from '../lib/verification.js';
+
+export const verificationResolvers = {
+  Query: {
+    /**
+     * Looks an EIN up in the imported IRS exempt-organization lists
+     * Returns null if the IRS data has no such organization
+     */
+    lookupExemptOrganization: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { ein }: { ein: string },
+        { loaders }: Context
+      ): Promise<ExemptOrganization | null> => {
+        return loaders.exemptOrganizationByEin.load(normalizeEin(ein));
+      }
+    ),
+  },
+
+  Mutation: {
+    /**
+     * Opens a verification request for a ministry
+     * Fails if the ministry already has one pending
+     */
+    requestVerification: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          ministryId,
+          input,
+        }: {
+          ministryId: number;
+          input: {
+            method: VerificationMethod;
+            documentRefs?: string[];
+            notes?: string;
+          };
+        },
+        context: Context
+      ): Promise<MinistryVerification> => {
+        const user = requireUser(context);
+
+        return context.prisma.$transaction(async (tx) => {
+          const ministry = await tx.ministry.findUnique({ where: { id: ministryId } });
+          if (!ministry) {
+            throw new NotFoundError('Ministry', ministryId);
+          }
+
+          return requestVerification(tx, ministryId, user.id, input);
+        });
+      }
+    ),
+
+    /**
+     * Marks a ministry as verified for grant eligibility
+     * Completes the pending request if there is one; the verification
+     * lasts twelve months unless input.expiresAt says otherwise.
+     * Returns null if ministry not found
+     */
+    verifyMinistry: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        {
+          id,
+          input,
+        }: {
+          id: number;
+          input?: {
+            method?: VerificationMethod;
+            documentRefs?: string[];
+            notes?: string;
+            expiresAt?: Date;
+          };
+        },
+        context: Context
+      ): Promise<Ministry | null> => {
+        const user = requireUser(context);
+
+        return context.prisma.$transaction(async (tx) => {
+          const ministry = await tx.ministry.findUnique({ where: { id } });
+          if (!ministry) {
+            return null;
+          }
+
+          await completeVerification(tx, id, user.id, input ?? {});
+          return tx.ministry.findUnique({ where: { id } });
+        });
+      }
+    ),
+
+    /**
+     * Withdraws a ministry's verification
+     * Pending grants are unaffected; new grant requests are refused
+     */
+    revokeVerification: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        _parent: unknown,
+        { ministryId, reason }: { ministryId: number; reason: string },
+        context: Context
+      ): Promise<Ministry> => {
+        const user = requireUser(context);
+
+        return context.prisma.$transaction(async (tx) => {
+          const ministry = await tx.ministry.findUnique({ where: { id: ministryId } });
+          if (!ministry) {
+            throw new NotFoundError('Ministry', ministryId);
+          }
+
+          await revokeVerifications(tx, ministry, user.id, reason);
+          return tx.ministry.findUniqueOrThrow({ where: { id: ministryId } });
+        });
+      }
+    ),
+  },
+
+  /**
+   * Verification fields on Ministry
+   */
+  Ministry: {
+    /**
+     * Resolves the ministry's verification history, newest first
+     */
+    verifications: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        parent: Ministry,
+        { status }: { status?: VerificationStatus },
+        { prisma }: Context
+      ): Promise<MinistryVerification[]> => {
+        return prisma.ministryVerification.findMany({
+          where: {
+            ministryId: parent.id,
+            ...(status ? { status } : {}),
+          },
+          orderBy: [{ requestedAt: 'desc' }, { id: 'desc' }],
+        });
+      }
+    ),
+
+    /**
+     * When the ministry's current verification expires
+     * Null if it is unverified or the verification never expires
+     */
+    verificationExpiresAt: async (
+      parent: Ministry,
+      _args: unknown,
+      { loaders }: Context
+    ): Promise<Date | null> => {
+      if (!parent.verified) {
+        return null;
+      }
+      const latest = await loaders.latestVerificationByMinistry.load(parent.id);
+      return latest?.expiresAt ?? null;
+    },
+
+    /**
+     * Suggests the IRS exempt-organization record for this ministry
+     */
+    exemptOrganizationMatch: authorize(
+      { requires: 'ADVISOR' },
+      async (
+        parent: Ministry,
+        _args: unknown,
+        { prisma, loaders }: Context
+      ): Promise<ExemptOrganizationMatch | null> => {
+        return findExemptOrganizationMatch(prisma, parent, (ein) =>
+          loaders.exemptOrganizationByEin.load(ein)
+        );
+      }
+    ),
+  },
+
+  ExemptOrganization: {
+    /**
+     * Whether contributions are tax-deductible; null if the IRS data
+     * does not say
+     */
+    deductible: (parent: ExemptOrganization): boolean | null => isDeductible(parent),
+
+    /**
+     * Whether the organization was in the last Publication 78 import
+     */
+    listedInPub78: (parent: ExemptOrganization): boolean => parent.pub78ImportedAt !== null,
+  },
+
+  MinistryVerification: {
+    /**
+     * Resolves the ministry this verification belongs to
+     */
+    ministry: (parent: MinistryVerification, _args: unknown, { loaders }: Context) =>
+      loaders.ministry.load(parent.ministryId),
+
+    /**
+     * Resolves the users who requested, completed and revoked the verification
+     */
+    requestedBy: (parent: MinistryVerification, _args: unknown, { loaders }: Context) =>
+      parent.requestedById === null ? null : loaders.user.load(parent.requestedById),
+    verifiedBy: (parent: MinistryVerification, _args: unknown, { loaders }: Context) =>
+      parent.verifiedById === null ? null : loaders.user.load(parent.verifiedById),
+    revokedBy: (parent: MinistryVerification, _args: unknown, { loaders }: Context) =>
+      parent.revokedById === null ? null : loaders.user.load(parent.revokedById),
+
+    /**
+     * Whether a completed verification has passed its expiry date
+     */
+    expired: (parent: MinistryVerification): boolean =>
+      parent.status === 'VERIFIED' && isVerificationExpired(parent),
+  },
+};
@@ -35,6 +35,17 @@ export const typeDefs = `#graphql
   """
   scalar Decimal
 
+  """
+  Arbitrary JSON value
+  """
+  scalar JSON
+
+  """
+  A file sent in a GraphQL multipart request
+  (https://github.com/jaydenseric/graphql-multipart-request-spec)
+  """
+  scalar Upload
+
   # ==========================================================================
   # ENUMS
   # ==========================================================================
@@ -66,7 +77,8 @@ export const typeDefs = `#graphql
 
   """
   Grant status representing the lifecycle of a grant request.
-  Grants flow: PENDING → APPROVED → FUNDED (or REJECTED at any point)
+  Grants flow: PENDING → APPROVED → FUNDED (or REJECTED at any point).
+  A FUNDED grant whose money is fully returned becomes REVERSED.
   """
   enum GrantStatus {
     "Grant request submitted, awaiting review"
@@ -77,6 +89,259 @@ export const typeDefs = `#graphql
     FUNDED
     "Grant request was declined"
     REJECTED
+    "Funded grant whose full amount was returned to the giving fund"
+    REVERSED
+  }
+
+  """
+  Access roles for API users
+  """
+  enum UserRole {
+    "Manages their own giving funds"
+    DONOR
+    "Reviews and processes grant requests"
+    ADVISOR
+    "Full administrative access"
+    ADMIN
+  }
+
+  """
+  Kinds of entries recorded in a giving fund's ledger.
+  Every balance change is explained by exactly one ledger entry.
+  """
+  enum FundTransactionType {
+    "Donor contribution into the fund"
+    CONTRIBUTION
+    "Grant paid out to a ministry"
+    GRANT_DISBURSEMENT
+    "Previously disbursed grant returned to the fund"
+    REVERSAL
+    "Administrative fee charged to the fund"
+    FEE
+    "Manual correction or opening balance"
+    ADJUSTMENT
+    "Moved to another giving fund"
+    TRANSFER_OUT
+    "Received from another giving fund"
+    TRANSFER_IN
+  }
+
+  """
+  Evidence used to verify a ministry
+  """
+  enum VerificationMethod {
+    "Listed in IRS Publication 78 (Tax Exempt Organization Search)"
+    IRS_PUB78
+    "IRS determination letter on file"
+    IRS_DETERMINATION_LETTER
+    "Letter from a church or denomination confirming its status"
+    CHURCH_LETTER
+    "Reviewed by an advisor without a listed source"
+    MANUAL
+  }
+
+  """
+  Where a ministry verification is in its workflow
+  """
+  enum VerificationStatus {
+    "Requested, awaiting review"
+    PENDING
+    "Reviewed and accepted; valid until expiresAt"
+    VERIFIED
+    "Withdrawn by an advisor"
+    REVOKED
+  }
+
+  """
+  How an IRS record was matched to a ministry
+  """
+  enum ExemptOrganizationMatchType {
+    "Same EIN"
+    EIN
+    "Same normalized name in the same state (the ministry has no EIN)"
+    NAME_AND_STATE
+  }
+
+  """
+  How a ministry's location compares with an IRS record
+  """
+  enum LocationMatch {
+    CITY_AND_STATE
+    "Same state, different city"
+    STATE
+    "Different state"
+    NONE
+    "One of the records has no state"
+    UNKNOWN
+  }
+
+  """
+  How strongly a suggested match can be relied on
+  """
+  enum MatchConfidence {
+    HIGH
+    MEDIUM
+    LOW
+  }
+
+  """
+  Why two ministries may be the same organization
+  """
+  enum DuplicateReason {
+    "Both have the same EIN"
+    SAME_EIN
+    "The names are at least 80% similar"
+    SIMILAR_NAME
+    "Both websites are on the same domain"
+    SAME_WEBSITE_DOMAIN
+    "Both are in the same city and state"
+    SAME_LOCATION
+  }
+
+  """
+  Outcome of screening a ministry against the sanctions list
+  """
+  enum ScreeningStatus {
+    "No listed party matched"
+    NO_MATCH
+    "A listed party matched; funding is held until an ADMIN reviews it"
+    POTENTIAL_MATCH
+    "Reviewed and found to be a false positive"
+    CLEARED
+    "Reviewed and found to be the listed party; funding stays held"
+    CONFIRMED
+    "Screened again; every party that matched already has an open result"
+    UNCHANGED
+  }
+
+  """
+  An ADMIN's decision on a potential sanctions match
+  """
+  enum ScreeningResolution {
+    CLEARED
+    CONFIRMED
+  }
+
+  """
+  How a household contact is related to the donor
+  """
+  enum ContactRelationship {
+    SPOUSE
+    PARTNER
+    CHILD
+    PARENT
+    SIBLING
+    OTHER
+  }
+
+  """
+  Kind of asset given in a contribution
+  """
+  enum ContributionAssetType {
+    "Cash, check or wire; credited to the fund at once"
+    CASH
+    "Publicly traded stock, bonds and mutual funds"
+    PUBLIC_SECURITIES
+    "Real estate"
+    REAL_ESTATE
+    "Cryptocurrency"
+    CRYPTOCURRENCY
+    "Private company shares or partnership interests"
+    BUSINESS_INTEREST
+    "Any other asset"
+    OTHER
+  }
+
+  """
+  Where a contribution is in being turned into cash
+  """
+  enum LiquidationStatus {
+    "Received; awaiting sale"
+    PENDING
+    "Sold and the net proceeds credited to the fund"
+    LIQUIDATED
+    "Declined or returned; nothing credited"
+    CANCELLED
+  }
+
+  """
+  How often a recurring grant runs
+  """
+  enum GrantCadence {
+    "Every seven days from the start date"
+    WEEKLY
+    "On the start date's day of each month"
+    MONTHLY
+    "On the start date's day every three months"
+    QUARTERLY
+    "On the start date's anniversary"
+    ANNUALLY
+  }
+
+  """
+  Whether a recurring grant is still running
+  """
+  enum RecurringGrantStatus {
+    "Runs remain"
+    ACTIVE
+    "Passed its end date"
+    ENDED
+    "Cancelled; no further runs"
+    CANCELLED
+  }
+
+  """
+  What a receipt acknowledges
+  """
+  enum ReceiptType {
+    "A single contribution"
+    CONTRIBUTION
+    "A donor's contributions for one tax year"
+    ANNUAL_SUMMARY
+  }
+
+  """
+  Sort direction for ordered lists
+  """
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  """
+  Fields ministries can be ordered by
+  """
+  enum MinistryOrderField {
+    "Ministry name"
+    NAME
+    "When the ministry was created"
+    CREATED_AT
+    "State (ministries without a state sort last)"
+    STATE
+    "Total funded, net of reversals"
+    TOTAL_FUNDED
+  }
+
+  """
+  Fields grants can be ordered by
+  """
+  enum GrantOrderField {
+    "When the grant was requested"
+    REQUESTED_AT
+    "Grant amount"
+    AMOUNT
+    "When the grant last changed"
+    UPDATED_AT
+  }
+
+  """
+  Fields donors can be ordered by
+  """
+  enum DonorOrderField {
+    "Last name, then first name"
+    LAST_NAME
+    "When the donor was created"
+    CREATED_AT
   }
 
   # ==========================================================================
@@ -92,7 +357,7 @@ export const typeDefs = `#graphql
     id: Int!
     "Organization name"
     name: String!
-    "IRS Employer Identification Number (EIN) for verification"
+    "IRS Employer Identification Number (EIN) for verification, as XX-XXXXXXX"
     ein: String
     "Primary ministry category"
     category: MinistryCategory!
@@ -108,7 +373,7 @@ export const typeDefs = `#graphql
     state: String
     "Country (defaults to USA)"
     country: String!
-    "Whether the ministry has been verified for grant eligibility"
+    "Whether the ministry has been verified for grant eligibility. Stays true after the verification expires; see verificationExpiresAt"
     verified: Boolean!
     "Whether the ministry is currently accepting grants"
     active: Boolean!
@@ -116,14 +381,172 @@ export const typeDefs = `#graphql
     createdAt: DateTime!
     "When the ministry record was last updated"
     updatedAt: DateTime!
+    "When the ministry was archived (null while the ministry is current)"
+    archivedAt: DateTime
+    "The ministry this one was merged into, if it was archived by mergeMinistries"
+    mergedIntoId: Int
 
     # Computed/Related fields
     "All grants received by this ministry"
     grants: [Grant!]!
-    "Total amount of funded grants"
+    "Total amount of funded grants (net of reversals)"
     totalFunded: Decimal!
     "Count of grants by status"
     grantCounts: GrantCounts!
+    "When the current verification expires; grants are refused after this. Null if unverified or it never expires"
+    verificationExpiresAt: DateTime
+    "Verification history, newest first (requires ADVISOR)"
+    verifications(status: VerificationStatus): [MinistryVerification!]!
+    "Suggested IRS exempt-organization record, to review before verifying (requires ADVISOR)"
+    exemptOrganizationMatch: ExemptOrganizationMatch
+    "Sanctions screening history, newest first (requires ADVISOR)"
+    screeningResults: [ScreeningResult!]!
+    "Duplicate records merged into this ministry, most recent first (requires ADVISOR)"
+    aliases: [MinistryAlias!]!
+  }
+
+  """
+  An organization from the imported IRS exempt-organization lists
+  (Business Master File and Publication 78)
+  """
+  type ExemptOrganization {
+    "Unique identifier"
+    id: Int!
+    "EIN as XX-XXXXXXX"
+    ein: String!
+    "Legal name on file with the IRS"
+    name: String!
+    "City"
+    city: String
+    "State"
+    state: String
+    "ZIP code"
+    zip: String
+    "Country (Publication 78 only)"
+    country: String
+    "501(c) subsection, e.g. 03 for 501(c)(3)"
+    subsection: String
+    "BMF deductibility code: 1 deductible, 2 not deductible, 4 deductible by treaty"
+    deductibilityCode: String
+    "Whether contributions are tax-deductible; null if the IRS data does not say"
+    deductible: Boolean
+    "National Taxonomy of Exempt Entities code"
+    nteeCode: String
+    "Whether the organization was in the last Publication 78 import"
+    listedInPub78: Boolean!
+    "Publication 78 deductibility status codes, e.g. PC"
+    pub78Status: String
+    "When the organization was last seen in the Business Master File"
+    bmfImportedAt: DateTime
+    "When the organization was last seen in Publication 78"
+    pub78ImportedAt: DateTime
+  }
+
+  """
+  A suggested IRS record for a ministry and how well it agrees.
+  A suggestion only; verification stays with the advisor.
+  """
+  type ExemptOrganizationMatch {
+    "The IRS record"
+    organization: ExemptOrganization!
+    "How the record was found"
+    matchedBy: ExemptOrganizationMatchType!
+    "Name similarity from 0 to 1"
+    nameSimilarity: Float!
+    "How the locations compare"
+    locationMatch: LocationMatch!
+    "Whether contributions are tax-deductible; null if unknown"
+    deductible: Boolean
+    "Overall confidence in the match"
+    confidence: MatchConfidence!
+    "Method to pass to verifyMinistry if the match is accepted"
+    suggestedMethod: VerificationMethod
+    "Disagreements to check before verifying"
+    warnings: [String!]!
+  }
+
+  """
+  A request to verify a ministry and its outcome, with the supporting
+  evidence. A ministry is eligible for grants while its latest VERIFIED
+  record has not expired.
+  """
+  type MinistryVerification {
+    "Unique identifier"
+    id: Int!
+    "The ministry being verified"
+    ministry: Ministry!
+    "Workflow status"
+    status: VerificationStatus!
+    "Evidence used for the verification"
+    method: VerificationMethod!
+    "Links or file references for the supporting documents"
+    documentRefs: [String!]!
+    "Reviewer notes"
+    notes: String
+    "User who requested the verification"
+    requestedBy: User
+    "When the verification was requested"
+    requestedAt: DateTime!
+    "Advisor who completed the verification"
+    verifiedBy: User
+    "When the verification was completed"
+    verifiedAt: DateTime
+    "When the verification stops counting (null never expires)"
+    expiresAt: DateTime
+    "Whether a completed verification has passed its expiry date"
+    expired: Boolean!
+    "Advisor who revoked the verification"
+    revokedBy: User
+    "When the verification was revoked"
+    revokedAt: DateTime
+    "Why the verification was revoked"
+    revocationReason: String
+    "When the record last changed"
+    updatedAt: DateTime!
+  }
+
+  """
+  One ministry screened against the sanctions list. A screening writes a
+  NO_MATCH row, one row per listed party newly matched, or an UNCHANGED
+  row when every party that matched already has an open result.
+  """
+  type ScreeningResult {
+    "Unique identifier"
+    id: Int!
+    "The ministry screened"
+    ministry: Ministry!
+    "The grant whose funding triggered the screening, if any"
+    grant: Grant
+    "Outcome"
+    status: ScreeningStatus!
+    "Import time of the sanctions list screened against"
+    listVersion: DateTime!
+    "Ministry name at the time of screening"
+    screenedName: String!
+    "Ministry country at the time of screening"
+    screenedCountry: String
+    "SDN entry number of the matched party"
+    partyEntryNumber: Int
+    "Primary name of the matched party"
+    partyName: String
+    "The party name or alias that matched"
+    matchedName: String
+    "Sanctions programs the party is listed under"
+    partyPrograms: [String!]!
+    "Name similarity from 0 to 1"
+    score: Float
+    "Whether the party is listed in the ministry's country; null if unknown"
+    countryMatch: Boolean
+    "User who ran the screening"
+    screenedBy: User
+    "When the screening ran"
+    screenedAt: DateTime!
+    "ADMIN who resolved the match"
+    resolvedBy: User
+    "When the match was resolved"
+    resolvedAt: DateTime
+    "Why the match was cleared or confirmed"
+    resolutionNotes: String
   }
 
   """
@@ -134,9 +557,125 @@ export const typeDefs = `#graphql
     approved: Int!
     funded: Int!
     rejected: Int!
+    reversed: Int!
     total: Int!
   }
 
+  """
+  Outcome of a bulk ministry import
+  """
+  type MinistryImportResult {
+    "Whether this was a dry run"
+    dryRun: Boolean!
+    "Whether the ministries were created; false for dry runs and files with invalid rows"
+    committed: Boolean!
+    "Data rows in the file (blank rows are skipped)"
+    totalRows: Int!
+    "Rows that passed validation"
+    validRows: Int!
+    "Rows with errors"
+    invalidRows: Int!
+    "Rows whose EIN repeats an earlier row or an existing ministry"
+    duplicateEinRows: Int!
+    "Ministries created"
+    createdCount: Int!
+    "Header columns that match no ministry field"
+    ignoredColumns: [String!]!
+    "Every data row, in file order"
+    rows: [MinistryImportRow!]!
+  }
+
+  """
+  One row of a ministry import file
+  """
+  type MinistryImportRow {
+    "Row number in the spreadsheet; the header is row 1"
+    rowNumber: Int!
+    "Ministry name"
+    name: String
+    "EIN as XX-XXXXXXX when valid, otherwise as given"
+    ein: String
+    "Ministry category, when recognized"
+    category: MinistryCategory
+    "Whether the row passed validation"
+    valid: Boolean!
+    "Problems with the row"
+    errors: [MinistryImportRowError!]!
+    "Earlier row with the same EIN"
+    duplicateOfRow: Int
+    "Ministry already registered under the row's EIN"
+    existingMinistry: Ministry
+    "Ministry created from the row"
+    ministry: Ministry
+  }
+
+  """
+  A problem with one row of a ministry import file
+  """
+  type MinistryImportRowError {
+    "Column at fault (a CreateMinistryInput field); null for the row as a whole"
+    field: String
+    "What is wrong"
+    message: String!
+  }
+
+  """
+  Two ministries that may be the same organization
+  """
+  type MinistryDuplicate {
+    "The older record, suggested as the survivor of a merge"
+    ministry: Ministry!
+    "The newer record"
+    duplicate: Ministry!
+    "Likelihood that both are the same organization, 0-1 (1 for the same EIN)"
+    score: Float!
+    "Similarity of the names, 0-1"
+    nameSimilarity: Float!
+    "What the two records have in common"
+    reasons: [DuplicateReason!]!
+  }
+
+  """
+  A duplicate ministry record merged into another. Keeps the details the
+  duplicate had, so its old name and ID can still be traced.
+  """
+  type MinistryAlias {
+    "Unique identifier"
+    id: Int!
+    "Name of the merged record"
+    name: String!
+    "EIN of the merged record"
+    ein: String
+    "Website of the merged record"
+    website: String
+    "City of the merged record"
+    city: String
+    "State of the merged record"
+    state: String
+    "ID the merged record had"
+    mergedMinistryId: Int!
+    "ADMIN who merged the record"
+    mergedBy: User
+    "When the record was merged"
+    mergedAt: DateTime!
+  }
+
+  """
+  A ministry matched by full-text search.
+  Highlighted fields are HTML-escaped text whose only markup is <mark> around
+  the matched words.
+  """
+  type MinistrySearchResult {
+    "The matching ministry"
+    ministry: Ministry!
+    "Relevance score; higher is a better match"
+    rank: Float!
+    "Ministry name with matched words highlighted"
+    highlightedName: String!
+    "Excerpt of the mission and description with matched words highlighted"
+    snippet: String
+  }
+
   # ==========================================================================
   # DONOR TYPE
   # ==========================================================================
@@ -158,16 +697,61 @@ export const typeDefs = `#graphql
     email: String!
     "Phone number"
     phone: String
+    "Street address"
+    addressLine1: String
+    "Apartment, suite or other second address line"
+    addressLine2: String
+    "City"
+    city: String
+    "State or province"
+    state: String
+    "ZIP or postal code"
+    postalCode: String
+    "Country"
+    country: String!
+    "Whether the donor may open funds and add money or grants"
+    active: Boolean!
     "When the donor record was created"
     createdAt: DateTime!
     "When the donor record was last updated"
     updatedAt: DateTime!
+    "When the donor was archived (null while the donor is current)"
+    archivedAt: DateTime
 
     # Related fields
-    "All giving funds owned by this donor"
+    "Other members of the donor's household, oldest first"
+    contacts: [DonorContact!]!
+    "Giving funds owned by this donor; archived funds only once the donor is archived"
     givingFunds: [GivingFund!]!
-    "Total balance across all giving funds"
+    "Total balance across the giving funds above"
     totalBalance: Decimal!
+    "Receipts issued to the donor, newest first, including superseded summaries"
+    receipts: [Receipt!]!
+  }
+
+  """
+  Another member of a donor's household, such as a spouse.
+  Contacts are details only; they do not sign in or own funds.
+  """
+  type DonorContact {
+    "Unique identifier"
+    id: Int!
+    "Donor whose household the contact belongs to"
+    donorId: Int!
+    "First name"
+    firstName: String!
+    "Last name"
+    lastName: String!
+    "How the contact is related to the donor"
+    relationship: ContactRelationship!
+    "Email address"
+    email: String
+    "Phone number"
+    phone: String
+    "When the contact was added"
+    createdAt: DateTime!
+    "When the contact was last updated"
+    updatedAt: DateTime!
   }
 
   # ==========================================================================
@@ -185,14 +769,24 @@ export const typeDefs = `#graphql
     name: String!
     "Optional description of the fund's purpose"
     description: String
-    "Current fund balance available for grants"
+    "Current fund balance (cash in the fund, explained by the ledger)"
     balance: Decimal!
+    "Total of APPROVED grants holding funds awaiting disbursement"
+    committedAmount: Decimal!
+    "Balance minus committed amount; what new approvals can draw on"
+    availableBalance: Decimal!
     "Whether the fund is active"
     active: Boolean!
     "When the fund was created"
     createdAt: DateTime!
     "When the fund was last updated"
     updatedAt: DateTime!
+    "When the fund was archived (null while the fund is current)"
+    archivedAt: DateTime
+    "When closing began; a closing fund takes only its final grants"
+    closingAt: DateTime
+    "When the fund closed with a zero balance"
+    closedAt: DateTime
 
     # Related fields
     "The donor who owns this fund"
@@ -201,10 +795,207 @@ export const typeDefs = `#graphql
     donorId: Int!
     "All grants made from this fund"
     grants: [Grant!]!
-    "Total amount disbursed from this fund"
+    "Total amount disbursed from this fund (net of reversals)"
     totalDisbursed: Decimal!
     "Grant counts by status"
     grantCounts: GrantCounts!
+    "Ledger entries explaining every balance change, newest first"
+    transactions(
+      "Number of items per page (default: 20, max: 100)"
+      first: Int
+      "Cursor to start after (for forward pagination)"
+      after: String
+    ): FundTransactionConnection!
+    "Donors named to inherit this fund, in order (revoked and succeeded left out)"
+    successors: [FundSuccessor!]!
+    "Transfers into and out of this fund, newest first"
+    transfers: [FundTransfer!]!
+    "Contributions to this fund, newest first"
+    contributions(
+      "Only contributions with this liquidation status"
+      status: LiquidationStatus
+    ): [Contribution!]!
+    "Recurring grant schedules from this fund, newest first"
+    recurringGrants: [RecurringGrant!]!
+  }
+
+  """
+  A donor named to inherit a giving fund.
+  Designations are never deleted: revoking or succeeding stamps a time.
+  """
+  type FundSuccessor {
+    "Unique identifier"
+    id: Int!
+    "Order of succession, starting at 1"
+    position: Int!
+    "The fund to be inherited"
+    givingFund: GivingFund!
+    "The successor donor; null unless the viewer is staff or the successor"
+    donor: Donor
+    "The successor's full name"
+    donorName: String!
+    "User who named the successor"
+    designatedBy: User
+    "When the successor was named"
+    designatedAt: DateTime!
+    "When the designation was revoked"
+    revokedAt: DateTime
+    "When the fund was transferred to this successor"
+    succeededAt: DateTime
+    "When the designation was last updated"
+    updatedAt: DateTime!
+  }
+
+  """
+  A single entry in a giving fund's ledger.
+  Amounts are signed: credits are positive, debits are negative.
+  """
+  type FundTransaction {
+    "Unique identifier"
+    id: Int!
+    "Kind of ledger entry"
+    type: FundTransactionType!
+    "Signed amount (positive credit, negative debit)"
+    amount: Decimal!
+    "Fund balance immediately after this entry"
+    balanceAfter: Decimal!
+    "Optional memo describing the entry"
+    memo: String
+    "Giving fund ID"
+    givingFundId: Int!
+    "Grant ID (for disbursements and reversals)"
+    grantId: Int
+    "The grant this entry relates to, if any"
+    grant: Grant
+    "Fund transfer ID (for both legs of a transfer)"
+    transferId: Int
+    "The fund-to-fund transfer this entry is a leg of, if any"
+    transfer: FundTransfer
+    "Contribution ID (for contribution credits)"
+    contributionId: Int
+    "The contribution this credit is for, if any"
+    contribution: Contribution
+    "When the entry was recorded"
+    createdAt: DateTime!
+  }
+
+  """
+  An asset given to a giving fund. Cash is credited at once; other assets
+  are credited with their net proceeds when liquidated.
+  """
+  type Contribution {
+    "Unique identifier"
+    id: Int!
+    "Kind of asset"
+    assetType: ContributionAssetType!
+    "What was given (e.g., '500 shares of ACME Corp')"
+    description: String!
+    "Shares, coins or units, at full precision (null for cash)"
+    quantity: String
+    "Fair-market value when given"
+    fairMarketValue: Decimal!
+    "Date the fair-market value was determined"
+    valuationDate: DateTime!
+    "Liquidation status"
+    liquidationStatus: LiquidationStatus!
+    "Amount credited to the fund on liquidation"
+    netProceeds: Decimal
+    "Notes, including any cancellation reason"
+    notes: String
+    "Giving fund ID"
+    givingFundId: Int!
+    "The fund the contribution was given to"
+    givingFund: GivingFund!
+    "Donor ID"
+    donorId: Int!
+    "The donor who gave it: the fund's holder at the time, who receives its receipts"
+    donor: Donor!
+    "User who recorded the contribution"
+    recordedBy: User
+    "When the contribution was received"
+    receivedAt: DateTime!
+    "When the asset was sold"
+    liquidatedAt: DateTime
+    "When the contribution was cancelled"
+    cancelledAt: DateTime
+    "When the contribution was last updated"
+    updatedAt: DateTime!
+    "Receipt for the contribution (null until first downloaded)"
+    receipt: Receipt
+  }
+
+  """
+  An acknowledgement issued to a donor, downloaded as a PDF from
+  downloadPath with the same bearer token as the API. Numbers are never
+  reused; a year-end summary is reissued under a new number when the
+  year's contributions change.
+  """
+  type Receipt {
+    "Unique identifier"
+    id: Int!
+    "Printed receipt number (e.g., 'R-000042')"
+    number: String!
+    "What the receipt acknowledges"
+    type: ReceiptType!
+    "Year covered by an ANNUAL_SUMMARY"
+    taxYear: Int
+    "Cash acknowledged; non-cash gifts are described, not valued"
+    cashAmount: Decimal!
+    "Number of contributions acknowledged"
+    contributionCount: Int!
+    "Donor the receipt was issued to"
+    donor: Donor!
+    "The contribution a CONTRIBUTION receipt acknowledges"
+    contribution: Contribution
+    "When the receipt was issued"
+    issuedAt: DateTime!
+    "When a newer summary for the same year replaced this one, or the contribution was cancelled"
+    supersededAt: DateTime
+    "Path to download the PDF; for a summary, the current one for its year"
+    downloadPath: String!
+  }
+
+  """
+  Money moved from one giving fund to another, posted to the ledger as a
+  TRANSFER_OUT debit on the source and a TRANSFER_IN credit on the destination
+  """
+  type FundTransfer {
+    "Unique identifier"
+    id: Int!
+    "Amount moved (always positive)"
+    amount: Decimal!
+    "Optional memo"
+    memo: String
+    "Fund the money left"
+    fromFund: GivingFund!
+    "Fund the money went to"
+    toFund: GivingFund!
+    "User who made the transfer"
+    createdBy: User
+    "The two ledger legs, debit first"
+    transactions: [FundTransaction!]!
+    "When the transfer was made"
+    createdAt: DateTime!
+  }
+
+  """
+  Result of recomputing a fund balance from its ledger
+  """
+  type FundReconciliation {
+    "Giving fund ID"
+    fundId: Int!
+    "Balance currently stored on the fund"
+    recordedBalance: Decimal!
+    "Balance recomputed from the sum of ledger entries"
+    ledgerBalance: Decimal!
+    "Recorded balance minus ledger balance (zero when balanced)"
+    drift: Decimal!
+    "Number of ledger entries for the fund"
+    transactionCount: Int!
+    "Whether the recorded balance matches the ledger"
+    balanced: Boolean!
+    "When the reconciliation was performed"
+    reconciledAt: DateTime!
   }
 
   # ==========================================================================
@@ -236,6 +1027,10 @@ export const typeDefs = `#graphql
     fundedAt: DateTime
     "When the grant was rejected (if rejected)"
     rejectedAt: DateTime
+    "When the most recent reversal was recorded (if any)"
+    reversedAt: DateTime
+    "Total amount returned to the giving fund through reversals"
+    reversedAmount: Decimal!
     "When the grant record was last updated"
     updatedAt: DateTime!
 
@@ -248,6 +1043,141 @@ export const typeDefs = `#graphql
     ministry: Ministry!
     "Ministry ID"
     ministryId: Int!
+    "Audit trail for this grant, oldest first"
+    history: [AuditEvent!]!
+    "The recurring schedule that made this grant, if any"
+    recurringGrant: RecurringGrant
+  }
+
+  """
+  A schedule that requests the same grant every week, month, quarter or
+  year. Each run makes a PENDING grant for the usual approval; a run is
+  skipped and the schedule flagged when the ministry can no longer receive
+  grants or the fund can no longer make them.
+  """
+  type RecurringGrant {
+    "Unique identifier"
+    id: Int!
+    "Amount of each grant in USD"
+    amount: Decimal!
+    "Purpose given on each grant"
+    purpose: String
+    "How often the schedule runs"
+    cadence: GrantCadence!
+    "Date of the first run"
+    startDate: DateTime!
+    "Last date a run may fall on (null runs until cancelled)"
+    endDate: DateTime
+    "Date of the next run (null once ended or cancelled)"
+    nextRunDate: DateTime
+    "Whether the schedule is still running"
+    status: RecurringGrantStatus!
+    "Number of runs skipped"
+    skippedRuns: Int!
+    "When the last run was skipped (cleared by the next grant or an update)"
+    flaggedAt: DateTime
+    "Why the last run was skipped"
+    flagReason: String
+    "When the last grant was made"
+    lastRunAt: DateTime
+    "When the schedule was cancelled"
+    cancelledAt: DateTime
+    "When the schedule was created"
+    createdAt: DateTime!
+    "When the schedule was last updated"
+    updatedAt: DateTime!
+
+    # Related fields
+    "The giving fund the grants come from"
+    givingFund: GivingFund!
+    "Giving fund ID"
+    givingFundId: Int!
+    "The ministry receiving the grants"
+    ministry: Ministry!
+    "Ministry ID"
+    ministryId: Int!
+    "User who created the schedule"
+    createdBy: User
+    "Grants the schedule has made, newest first"
+    grants: [Grant!]!
+  }
+
+  """
+  What one run of the recurring grant job did
+  """
+  type RecurringGrantRunSummary {
+    "PENDING grants made"
+    grantsCreated: Int!
+    "Runs skipped and flagged"
+    runsSkipped: Int!
+    "Schedules that passed their end date"
+    schedulesEnded: Int!
+  }
+
+  # ==========================================================================
+  # USER TYPES
+  # ==========================================================================
+
+  """
+  An account that can sign in to the API
+  """
+  type User {
+    "Unique identifier"
+    id: Int!
+    "Sign-in email address (unique)"
+    email: String!
+    "Display name"
+    name: String
+    "Access role"
+    role: UserRole!
+    "Donor ID for DONOR users"
+    donorId: Int
+    "Donor record owned by this user, if any"
+    donor: Donor
+    "When the user last signed in"
+    lastLoginAt: DateTime
+    "When the user record was created"
+    createdAt: DateTime!
+  }
+
+  """
+  Result of a successful login
+  """
+  type AuthPayload {
+    "Bearer token for the Authorization header"
+    token: String!
+    "When the token expires"
+    expiresAt: DateTime!
+    "The signed-in user"
+    user: User!
+  }
+
+  # ==========================================================================
+  # AUDIT TYPES
+  # ==========================================================================
+
+  """
+  A record of one successful mutation.
+  before/after hold only the fields that changed; before is null for
+  creates and after is null for deletes.
+  """
+  type AuditEvent {
+    "Unique identifier"
+    id: Int!
+    "GraphQL type of the entity changed (e.g. Grant)"
+    entityType: String!
+    "ID of the entity changed"
+    entityId: Int
+    "Mutation that made the change (e.g. approveGrant)"
+    action: String!
+    "Changed fields before the mutation"
+    before: JSON
+    "Changed fields after the mutation"
+    after: JSON
+    "User who made the change (null if anonymous)"
+    actor: User
+    "When the change was made"
+    createdAt: DateTime!
   }
 
   # ==========================================================================
@@ -290,6 +1220,86 @@ export const typeDefs = `#graphql
     pageInfo: PageInfo!
   }
 
+  """
+  A single ledger entry in a paginated list
+  """
+  type FundTransactionEdge {
+    "The ledger entry"
+    node: FundTransaction!
+    "Cursor for this item"
+    cursor: String!
+  }
+
+  """
+  Paginated list of fund ledger entries using Relay-style connections
+  """
+  type FundTransactionConnection {
+    "List of ledger entry edges"
+    edges: [FundTransactionEdge!]!
+    "Pagination information"
+    pageInfo: PageInfo!
+  }
+
+  """
+  A single audit event in a paginated list
+  """
+  type AuditEventEdge {
+    "The audit event"
+    node: AuditEvent!
+    "Cursor for this item"
+    cursor: String!
+  }
+
+  """
+  Paginated list of audit events using Relay-style connections
+  """
+  type AuditEventConnection {
+    "List of audit event edges"
+    edges: [AuditEventEdge!]!
+    "Pagination information"
+    pageInfo: PageInfo!
+  }
+
+  """
+  A single grant in a paginated list
+  """
+  type GrantEdge {
+    "The grant"
+    node: Grant!
+    "Cursor for this item"
+    cursor: String!
+  }
+
+  """
+  Paginated list of grants using Relay-style connections
+  """
+  type GrantConnection {
+    "List of grant edges"
+    edges: [GrantEdge!]!
+    "Pagination information"
+    pageInfo: PageInfo!
+  }
+
+  """
+  A single donor in a paginated list
+  """
+  type DonorEdge {
+    "The donor"
+    node: Donor!
+    "Cursor for this item"
+    cursor: String!
+  }
+
+  """
+  Paginated list of donors using Relay-style connections
+  """
+  type DonorConnection {
+    "List of donor edges"
+    edges: [DonorEdge!]!
+    "Pagination information"
+    pageInfo: PageInfo!
+  }
+
   # ==========================================================================
   # DASHBOARD STATISTICS
   # ==========================================================================
@@ -308,7 +1318,7 @@ export const typeDefs = `#graphql
     totalFunds: Int!
     "Total balance across all funds"
     totalBalance: Decimal!
-    "Total amount disbursed in funded grants"
+    "Total amount disbursed in funded grants (net of reversals)"
     totalDisbursed: Decimal!
     "Total pending grant amount"
     pendingAmount: Decimal!
@@ -316,24 +1326,95 @@ export const typeDefs = `#graphql
     grantsByStatus: GrantCounts!
   }
 
-  # ==========================================================================
-  # INPUT TYPES
-  # ==========================================================================
+  # ==========================================================================
+  # INPUT TYPES
+  # ==========================================================================
+
+  """
+  Input for filtering ministry queries
+  """
+  input MinistryFilter {
+    "Filter by category"
+    category: MinistryCategory
+    "Filter by verification status"
+    verified: Boolean
+    "Filter by active status"
+    active: Boolean
+    "Search by name (case-insensitive, partial match); see searchMinistries for full-text search"
+    search: String
+    "Filter by state"
+    state: String
+    "List archived ministries instead of current ones (default: false)"
+    archived: Boolean
+  }
+
+  """
+  Sort order for ministry queries
+  """
+  input MinistryOrder {
+    "Field to order by"
+    field: MinistryOrderField!
+    "Sort direction (default: ASC)"
+    direction: SortDirection
+  }
+
+  """
+  Input for filtering grant queries.
+  All criteria must match; ranges are inclusive.
+  """
+  input GrantFilter {
+    "Match any of these statuses"
+    status: [GrantStatus!]
+    "Filter by ministry ID"
+    ministryId: Int
+    "Filter by giving fund ID"
+    givingFundId: Int
+    "Filter by the donor who owns the giving fund"
+    donorId: Int
+    "Filter by the recipient ministry's category"
+    ministryCategory: MinistryCategory
+    "Minimum grant amount"
+    minAmount: Decimal
+    "Maximum grant amount"
+    maxAmount: Decimal
+    "Requested on or after"
+    requestedFrom: DateTime
+    "Requested on or before"
+    requestedTo: DateTime
+    "Funded on or after"
+    fundedFrom: DateTime
+    "Funded on or before"
+    fundedTo: DateTime
+  }
+
+  """
+  Sort order for grant queries
+  """
+  input GrantOrder {
+    "Field to order by"
+    field: GrantOrderField!
+    "Sort direction (default: DESC)"
+    direction: SortDirection
+  }
 
   """
-  Input for filtering ministry queries
+  Input for filtering donor queries
   """
-  input MinistryFilter {
-    "Filter by category"
-    category: MinistryCategory
-    "Filter by verification status"
-    verified: Boolean
-    "Filter by active status"
-    active: Boolean
-    "Search by name (case-insensitive, partial match)"
+  input DonorFilter {
+    "Search by first name, last name or email (case-insensitive, partial match)"
     search: String
-    "Filter by state"
-    state: String
+    "List archived donors instead of current ones (default: false)"
+    archived: Boolean
+  }
+
+  """
+  Sort order for donor queries
+  """
+  input DonorOrder {
+    "Field to order by"
+    field: DonorOrderField!
+    "Sort direction (default: ASC)"
+    direction: SortDirection
   }
 
   """
@@ -342,7 +1423,7 @@ export const typeDefs = `#graphql
   input CreateMinistryInput {
     "Organization name (required)"
     name: String!
-    "IRS Employer Identification Number"
+    "IRS Employer Identification Number; nine digits with or without the dash, stored as XX-XXXXXXX"
     ein: String
     "Ministry category (required)"
     category: MinistryCategory!
@@ -366,7 +1447,7 @@ export const typeDefs = `#graphql
   input UpdateMinistryInput {
     "Organization name"
     name: String
-    "IRS Employer Identification Number"
+    "IRS Employer Identification Number; nine digits with or without the dash, stored as XX-XXXXXXX. Null or blank clears it"
     ein: String
     "Ministry category"
     category: MinistryCategory
@@ -382,12 +1463,39 @@ export const typeDefs = `#graphql
     state: String
     "Country"
     country: String
-    "Verification status (admin only)"
-    verified: Boolean
+    "Verification status. Setting it records a manual verification or revokes the current one"
+    verified: Boolean @deprecated(reason: "Use verifyMinistry or revokeVerification")
     "Active status"
     active: Boolean
   }
 
+  """
+  Input for requesting a ministry verification
+  """
+  input RequestVerificationInput {
+    "Evidence to be reviewed (required)"
+    method: VerificationMethod!
+    "Links or file references for the supporting documents"
+    documentRefs: [String!]
+    "Notes for the reviewer"
+    notes: String
+  }
+
+  """
+  Input for completing a ministry verification.
+  Values add to the pending request, if there is one.
+  """
+  input VerifyMinistryInput {
+    "Evidence reviewed (defaults to the request's method, else MANUAL)"
+    method: VerificationMethod
+    "Links or file references for the supporting documents"
+    documentRefs: [String!]
+    "Reviewer notes"
+    notes: String
+    "When the verification expires (defaults to twelve months from now)"
+    expiresAt: DateTime
+  }
+
   """
   Input for creating a new donor
   """
@@ -400,6 +1508,60 @@ export const typeDefs = `#graphql
     email: String!
     "Phone number"
     phone: String
+    "Street address"
+    addressLine1: String
+    "Apartment, suite or other second address line"
+    addressLine2: String
+    "City"
+    city: String
+    "State or province"
+    state: String
+    "ZIP or postal code"
+    postalCode: String
+    "Country (default: USA)"
+    country: String
+  }
+
+  """
+  Input for updating a donor; only provided fields are changed
+  """
+  input UpdateDonorInput {
+    "First name"
+    firstName: String
+    "Last name"
+    lastName: String
+    "Email address (must be unique)"
+    email: String
+    "Phone number; null or blank clears it"
+    phone: String
+    "Street address; null or blank clears it"
+    addressLine1: String
+    "Second address line; null or blank clears it"
+    addressLine2: String
+    "City; null or blank clears it"
+    city: String
+    "State or province; null or blank clears it"
+    state: String
+    "ZIP or postal code; null or blank clears it"
+    postalCode: String
+    "Country; null or blank resets it to USA"
+    country: String
+  }
+
+  """
+  Input for adding or replacing a household contact
+  """
+  input DonorContactInput {
+    "First name (required)"
+    firstName: String!
+    "Last name (required)"
+    lastName: String!
+    "How the contact is related to the donor (required)"
+    relationship: ContactRelationship!
+    "Email address"
+    email: String
+    "Phone number"
+    phone: String
   }
 
   """
@@ -416,6 +1578,48 @@ export const typeDefs = `#graphql
     donorId: Int!
   }
 
+  """
+  Input for recording a contribution
+  """
+  input RecordContributionInput {
+    "ID of the giving fund (required)"
+    givingFundId: Int!
+    "Kind of asset (required)"
+    assetType: ContributionAssetType!
+    "What was given (required except for cash)"
+    description: String
+    "Shares, coins or units"
+    quantity: Decimal
+    "Fair-market value in USD (required)"
+    fairMarketValue: Decimal!
+    "Date the value was determined (defaults to now)"
+    valuationDate: DateTime
+    "Internal notes"
+    notes: String
+  }
+
+  """
+  Input for updating a giving fund; omitted fields are left unchanged
+  """
+  input UpdateGivingFundInput {
+    "Fund name"
+    name: String
+    "Description (blank clears it)"
+    description: String
+  }
+
+  """
+  One grant of a final-grant plan for closing a fund
+  """
+  input FinalGrantInput {
+    "ID of the recipient ministry (required)"
+    ministryId: Int!
+    "Grant amount in USD (required)"
+    amount: Decimal!
+    "Description of grant purpose (defaults to 'Final grant')"
+    purpose: String
+  }
+
   """
   Input for creating a grant request
   """
@@ -430,11 +1634,52 @@ export const typeDefs = `#graphql
     ministryId: Int!
   }
 
+  """
+  Input for creating a recurring grant
+  """
+  input CreateRecurringGrantInput {
+    "Amount of each grant in USD (required)"
+    amount: Decimal!
+    "Purpose given on each grant"
+    purpose: String
+    "How often to run (required)"
+    cadence: GrantCadence!
+    "Date of the first run; today or later (required)"
+    startDate: DateTime!
+    "Last date a run may fall on"
+    endDate: DateTime
+    "ID of the giving fund (required)"
+    givingFundId: Int!
+    "ID of the recipient ministry (required)"
+    ministryId: Int!
+  }
+
+  """
+  Input for updating a recurring grant; omitted fields are left unchanged.
+  Grants already made keep their amount and purpose.
+  """
+  input UpdateRecurringGrantInput {
+    "Amount of each grant in USD"
+    amount: Decimal
+    "Purpose given on each grant"
+    purpose: String
+    "How often to run"
+    cadence: GrantCadence
+    "Last date a run may fall on; null removes the end date"
+    endDate: DateTime
+  }
+
   # ==========================================================================
   # QUERIES
   # ==========================================================================
 
   type Query {
+    # Auth queries
+    """
+    Get the user behind the current bearer token (null when anonymous)
+    """
+    me: User
+
     # Ministry queries
     """
     Get a single ministry by ID
@@ -442,48 +1687,165 @@ export const typeDefs = `#graphql
     ministry(id: Int!): Ministry
 
     """
-    Get all ministries with optional filtering and pagination.
-    Uses Relay-style cursor pagination for efficient large dataset handling.
+    Get all ministries with optional filtering, ordering and pagination.
+    Page forward with first/after or backward with last/before.
+    Cursors encode the sort key, so pages stay stable when ministries are
+    added mid-pagination; a cursor is only valid for the order it came from.
     """
     ministries(
       "Filter criteria"
       filter: MinistryFilter
+      "Sort order (default: creation order)"
+      orderBy: MinistryOrder
       "Number of items per page (default: 20, max: 100)"
       first: Int
       "Cursor to start after (for forward pagination)"
       after: String
+      "Number of items before the cursor (default: 20, max: 100)"
+      last: Int
+      "Cursor to end before (for backward pagination)"
+      before: String
     ): MinistryConnection!
 
+    """
+    Full-text search over ministry name, EIN, mission, description and city.
+    Every word must match; the last word may be partial. Best matches first.
+    """
+    searchMinistries(
+      "Search text (at most 200 characters)"
+      query: String!
+      "Additional filter criteria (filter.search is ignored)"
+      filter: MinistryFilter
+      "Maximum number of results (default: 20, max: 100)"
+      first: Int
+    ): [MinistrySearchResult!]!
+
+    """
+    Look an EIN up in the imported IRS exempt-organization lists.
+    Returns null if the IRS data has no such organization.
+    Requires ADVISOR.
+    """
+    lookupExemptOrganization(ein: String!): ExemptOrganization
+
+    """
+    Sanctions screening results, newest first. Filter by status
+    POTENTIAL_MATCH for the review queue.
+    Requires ADVISOR.
+    """
+    screeningResults(
+      "Only results for this ministry"
+      ministryId: Int
+      "Only results with these statuses"
+      status: [ScreeningStatus!]
+      "Maximum number of results (default: 50, max: 100)"
+      first: Int
+    ): [ScreeningResult!]!
+
+    """
+    Pairs of ministries that may be the same organization, most likely
+    first. Pairs are compared when they share an EIN, website domain, state
+    or the first word of their name; with ministryId, that ministry is
+    compared with every other one.
+    Requires ADVISOR.
+    """
+    findDuplicateMinistries(
+      "Only pairs including this ministry"
+      ministryId: Int
+      "Lowest score reported, 0-1 (default: 0.6)"
+      minScore: Float
+      "Maximum number of pairs (default: 20, max: 100)"
+      first: Int
+    ): [MinistryDuplicate!]!
+
     # Donor queries
     """
-    Get a single donor by ID
+    Get a single donor by ID.
+    Requires sign-in; donors may only read their own record.
     """
     donor(id: Int!): Donor
 
     """
-    Get all donors
+    Get donors visible to the caller with filtering, ordering and pagination.
+    Page forward with first/after or backward with last/before.
+    Requires sign-in; donors see only their own record.
+    """
+    donorsConnection(
+      "Filter criteria"
+      filter: DonorFilter
+      "Sort order (default: last name ascending)"
+      orderBy: DonorOrder
+      "Number of items per page (default: 20, max: 100)"
+      first: Int
+      "Cursor to start after (for forward pagination)"
+      after: String
+      "Number of items before the cursor (default: 20, max: 100)"
+      last: Int
+      "Cursor to end before (for backward pagination)"
+      before: String
+    ): DonorConnection!
+
+    """
+    Get all donors visible to the caller.
+    Requires sign-in; donors see only their own record.
     """
-    donors: [Donor!]!
+    donors: [Donor!]! @deprecated(reason: "Unbounded; use donorsConnection")
 
     # Giving Fund queries
     """
-    Get a single giving fund by ID
+    Get a single giving fund by ID.
+    Requires sign-in; donors may only read their own funds.
     """
     givingFund(id: Int!): GivingFund
 
     """
-    Get all giving funds, optionally filtered by donor
+    Get all giving funds, optionally filtered by donor.
+    Archived funds are listed only with archived: true.
+    Requires sign-in; donors see only their own funds.
+    """
+    givingFunds(donorId: Int, archived: Boolean = false): [GivingFund!]!
+
+    """
+    Recompute a fund's balance from its ledger and report any drift.
+    Returns null if the fund does not exist. Requires ADVISOR.
     """
-    givingFunds(donorId: Int): [GivingFund!]!
+    reconcileFund(id: Int!): FundReconciliation
+
+    """
+    Get a single contribution by ID.
+    Requires sign-in; donors may only read contributions to their own funds.
+    """
+    contribution(id: Int!): Contribution
 
     # Grant queries
     """
-    Get a single grant by ID
+    Get a single grant by ID.
+    Requires sign-in; donors may only read grants from their own funds.
     """
     grant(id: Int!): Grant
 
     """
-    Get grants with optional status and ministry filters
+    Get grants with filtering, ordering and pagination.
+    Page forward with first/after or backward with last/before.
+    Requires sign-in; donors see only grants from their own funds.
+    """
+    grantsConnection(
+      "Filter criteria"
+      filter: GrantFilter
+      "Sort order (default: newest request first)"
+      orderBy: GrantOrder
+      "Number of items per page (default: 20, max: 100)"
+      first: Int
+      "Cursor to start after (for forward pagination)"
+      after: String
+      "Number of items before the cursor (default: 20, max: 100)"
+      last: Int
+      "Cursor to end before (for backward pagination)"
+      before: String
+    ): GrantConnection!
+
+    """
+    Get grants with optional status and ministry filters.
+    Requires sign-in; donors see only grants from their own funds.
     """
     grants(
       "Filter by grant status"
@@ -492,13 +1854,46 @@ export const typeDefs = `#graphql
       ministryId: Int
       "Filter by giving fund ID"
       givingFundId: Int
-    ): [Grant!]!
+    ): [Grant!]! @deprecated(reason: "Unbounded; use grantsConnection")
+
+    """
+    Get a single recurring grant by ID.
+    Requires sign-in; donors may only read schedules from their own funds.
+    """
+    recurringGrant(id: Int!): RecurringGrant
+
+    """
+    Get running recurring grants, next run first.
+    Requires sign-in; donors see only schedules from their own funds.
+    """
+    recurringGrants(
+      "Filter by giving fund ID"
+      givingFundId: Int
+      "Only schedules whose last run was skipped"
+      flaggedOnly: Boolean = false
+    ): [RecurringGrant!]!
 
     # Dashboard
     """
     Get aggregated statistics for the dashboard
     """
     dashboardStats: DashboardStats!
+
+    # Audit
+    """
+    Get audit events newest first for an entity type, or a single entity.
+    Requires ADVISOR.
+    """
+    auditEvents(
+      "GraphQL type of the entity (e.g. Grant, Ministry)"
+      entityType: String!
+      "Limit to a single entity"
+      entityId: Int
+      "Cursor to start after (for forward pagination)"
+      after: String
+      "Number of items per page (default: 20, max: 100)"
+      first: Int
+    ): AuditEventConnection!
   }
 
   # ==========================================================================
@@ -506,31 +1901,115 @@ export const typeDefs = `#graphql
   # ==========================================================================
 
   type Mutation {
+    # ========================================================================
+    # Auth Mutations
+    # ========================================================================
+
+    """
+    Sign in with email and password.
+    Returns a bearer token to send as 'Authorization: Bearer <token>'.
+    Only available when the server issues its own tokens (AUTH_MODE=local).
+    """
+    login(email: String!, password: String!): AuthPayload!
+
     # ========================================================================
     # Ministry Mutations (CRUD)
     # ========================================================================
 
     """
     Create a new ministry. New ministries are unverified by default.
+    Requires ADVISOR.
     """
     createMinistry(input: CreateMinistryInput!): Ministry!
 
     """
     Update an existing ministry by ID.
     Returns the updated ministry or null if not found.
+    Requires ADVISOR.
     """
     updateMinistry(id: Int!, input: UpdateMinistryInput!): Ministry
 
     """
-    Delete a ministry by ID.
-    Will fail if the ministry has associated grants (referential integrity).
+    Archive a ministry by ID; it and its grant history are kept.
+    Archived ministries are left out of lists and take no new grants.
+    Will fail if the ministry has PENDING or APPROVED grants.
+    Requires ADMIN.
     """
     deleteMinistry(id: Int!): Boolean!
 
     """
-    Verify a ministry for grant eligibility.
+    Restore an archived ministry. A merged ministry cannot be restored.
+    Requires ADMIN.
+    """
+    restoreMinistry(id: Int!): Ministry!
+
+    """
+    Import ministries from a CSV or XLSX file (GraphQL multipart upload,
+    at most 10 MB and 2000 rows). The header row names the columns: name and
+    category are required; ein, description, mission, website, city, state
+    and country are optional.
+    Every row is checked against the createMinistry rules, including EINs
+    repeated in the file or already registered. Unless dryRun, the
+    ministries are created in one transaction, and only if every row is
+    valid. dryRun defaults to true.
+    Requires ADVISOR.
+    """
+    importMinistries(file: Upload!, dryRun: Boolean = true): MinistryImportResult!
+
+    """
+    Merge duplicate ministries into a surviving one. Their grants,
+    verifications and screenings move to the survivor, which also takes any
+    details (EIN, website, location, description, mission) it lacks. Each
+    duplicate is kept as a MinistryAlias and archived with mergedIntoId set
+    to the survivor, and every grant moved is recorded in the audit trail.
+    Fails if the ministries have different EINs, or if more than one has a
+    pending verification request.
+    Requires ADMIN.
+    """
+    mergeMinistries(survivorId: Int!, duplicateIds: [Int!]!): Ministry!
+
+    """
+    Open a verification request for a ministry.
+    Fails if the ministry already has a pending request.
+    Requires ADVISOR.
+    """
+    requestVerification(ministryId: Int!, input: RequestVerificationInput!): MinistryVerification!
+
+    """
+    Verify a ministry for grant eligibility, completing its pending request
+    if there is one. The verification expires after twelve months unless
+    input.expiresAt is given.
+    Returns null if the ministry is not found.
+    Requires ADVISOR.
+    """
+    verifyMinistry(id: Int!, input: VerifyMinistryInput): Ministry
+
+    """
+    Revoke a ministry's verification. New grant requests are refused until
+    it is verified again; existing grants are unaffected.
+    Requires ADVISOR.
+    """
+    revokeVerification(ministryId: Int!, reason: String!): Ministry!
+
+    """
+    Screen a ministry against the current sanctions list.
+    Returns the results this screening recorded; a match already awaiting
+    review is not recorded again.
+    Fails with SCREENING_HOLD if no list has been imported.
+    Requires ADVISOR.
+    """
+    screenMinistry(ministryId: Int!): [ScreeningResult!]!
+
+    """
+    Clear (false positive) or confirm a potential sanctions match.
+    Notes are required. Returns null if the result is not found.
+    Requires ADMIN.
     """
-    verifyMinistry(id: Int!): Ministry
+    resolveScreeningResult(
+      id: Int!
+      resolution: ScreeningResolution!
+      notes: String!
+    ): ScreeningResult
 
     # ========================================================================
     # Donor Mutations
@@ -538,21 +2017,75 @@ export const typeDefs = `#graphql
 
     """
     Create a new donor.
+    Requires ADVISOR.
     """
     createDonor(input: CreateDonorInput!): Donor!
 
+    """
+    Archive a donor together with their giving funds.
+    Will fail if any of their funds has PENDING or APPROVED grants.
+    Requires ADMIN.
+    """
+    deleteDonor(id: Int!): Boolean!
+
+    """
+    Restore an archived donor and the funds archived with them.
+    Requires ADMIN.
+    """
+    restoreDonor(id: Int!): Donor!
+
+    """
+    Update a donor's name, contact details and postal address.
+    Donors may only update their own record.
+    """
+    updateDonor(id: Int!, input: UpdateDonorInput!): Donor!
+
+    """
+    Deactivate a donor. Their funds and history stay visible, but they can
+    open no new funds and add no money or grants until reactivated.
+    Requires ADVISOR.
+    """
+    deactivateDonor(id: Int!): Donor!
+
+    """
+    Reactivate a deactivated donor.
+    Requires ADVISOR.
+    """
+    reactivateDonor(id: Int!): Donor!
+
+    """
+    Add a household contact, such as a spouse, to a donor.
+    Donors may only add contacts to their own record.
+    """
+    addDonorContact(donorId: Int!, input: DonorContactInput!): DonorContact!
+
+    """
+    Replace a household contact's details.
+    Donors may only update contacts on their own record.
+    """
+    updateDonorContact(id: Int!, input: DonorContactInput!): DonorContact!
+
+    """
+    Remove a household contact.
+    Donors may only remove contacts from their own record.
+    """
+    removeDonorContact(id: Int!): Boolean!
+
     # ========================================================================
     # Giving Fund Mutations
     # ========================================================================
 
     """
     Create a new giving fund for a donor.
+    Donors may only create funds for themselves.
     """
     createGivingFund(input: CreateGivingFundInput!): GivingFund!
 
     """
-    Add funds to a giving fund (contribution).
+    Add cash to a giving fund.
+    Records a CASH contribution and its CONTRIBUTION ledger entry.
     Returns the updated fund with new balance.
+    Donors may only add to their own funds.
     """
     addFunds(
       "ID of the giving fund"
@@ -561,6 +2094,106 @@ export const typeDefs = `#graphql
       amount: Decimal!
     ): GivingFund
 
+    """
+    Archive a giving fund; its ledger and grant history are kept.
+    Will fail if the fund has PENDING or APPROVED grants.
+    Requires ADMIN.
+    """
+    deleteGivingFund(id: Int!): Boolean!
+
+    """
+    Restore an archived giving fund. Its donor must not be archived.
+    Requires ADMIN.
+    """
+    restoreGivingFund(id: Int!): GivingFund!
+
+    """
+    Rename a giving fund or change its description.
+    Donors may only update their own funds.
+    """
+    updateGivingFund(id: Int!, input: UpdateGivingFundInput!): GivingFund!
+
+    """
+    Close a giving fund. Without final grants the fund must have a zero
+    balance and no PENDING or APPROVED grants, or open grants that pay out
+    the whole balance; it then closes once they are funded. Otherwise the
+    final grants,
+    with the grants already open, must total the balance: they are created
+    PENDING and the fund is closing - it takes no new money or grants and
+    closes once the last of them is funded.
+    Donors may only close their own funds.
+    """
+    closeGivingFund(
+      "ID of the giving fund"
+      id: Int!
+      "Final grants paying out the remaining balance"
+      finalGrants: [FinalGrantInput!]
+    ): GivingFund!
+
+    """
+    Hand a giving fund to another active donor. A successor designation
+    for that donor is marked succeeded.
+    Requires ADVISOR.
+    """
+    transferGivingFund(id: Int!, toDonorId: Int!): GivingFund!
+
+    """
+    Name a donor to inherit a giving fund. Without a position the
+    successor goes last. Archived and inactive donors cannot be named.
+    Donors may only name successors for their own funds.
+    """
+    addFundSuccessor(fundId: Int!, donorId: Int!, position: Int): FundSuccessor!
+
+    """
+    Revoke a successor designation; the record is kept.
+    Donors may only revoke successors for their own funds.
+    """
+    removeFundSuccessor(id: Int!): FundSuccessor!
+
+    """
+    Move money from one giving fund to another. Both legs are posted to the
+    ledger in one transaction. The amount may not exceed the source fund's
+    available balance, and neither fund may be archived, inactive or closing.
+    Donors may only transfer from their own funds; funds of different
+    donors need ADMIN.
+    """
+    transferBetweenFunds(
+      "Source giving fund ID"
+      fromFundId: Int!
+      "Destination giving fund ID"
+      toFundId: Int!
+      "Amount to move (must be positive)"
+      amount: Decimal!
+      "Optional memo, recorded on the transfer and both ledger entries"
+      memo: String
+    ): FundTransfer!
+
+    """
+    Record a contribution to a giving fund. Cash is credited at once; other
+    assets stay PENDING and credit nothing until liquidated.
+    Donors may only contribute to their own funds.
+    """
+    recordContribution(input: RecordContributionInput!): Contribution!
+
+    """
+    Record the sale of a PENDING contribution and credit the fund with the
+    net proceeds. Requires ADVISOR.
+    """
+    liquidateContribution(
+      "ID of the contribution"
+      id: Int!
+      "Amount received after fees (must be positive)"
+      netProceeds: Decimal!
+      "When the asset was sold (defaults to now)"
+      liquidatedAt: DateTime
+    ): Contribution!
+
+    """
+    Cancel a PENDING contribution that was declined or returned; nothing is
+    credited. Requires ADVISOR.
+    """
+    cancelContribution(id: Int!, reason: String!): Contribution!
+
     # ========================================================================
     # Grant Workflow Mutations
     # ========================================================================
@@ -569,19 +2202,24 @@ export const typeDefs = `#graphql
     Create a new grant request.
     The grant starts in PENDING status awaiting approval.
     Does not affect fund balance until funded.
+    Donors may only request grants from their own funds.
     """
     createGrantRequest(input: CreateGrantInput!): Grant!
 
     """
     Approve a pending grant request.
     Changes status from PENDING to APPROVED.
-    Does not yet deduct from fund balance.
+    Does not yet deduct from fund balance, but places a hold against the
+    fund's available balance. Fails if the hold would overdraw the fund
+    (unless the server is configured to warn instead).
+    Requires ADVISOR.
     """
     approveGrant(id: Int!): Grant
 
     """
     Reject a grant request with optional reason.
     Changes status to REJECTED.
+    Requires ADVISOR.
     """
     rejectGrant(
       "ID of the grant to reject"
@@ -595,7 +2233,54 @@ export const typeDefs = `#graphql
     Changes status from APPROVED to FUNDED.
     Deducts the grant amount from the giving fund balance.
     Will fail if fund has insufficient balance.
+    Grants to MISSIONS and HUMANITARIAN ministries are screened against the
+    sanctions list first and fail with SCREENING_HOLD while a match is
+    unresolved or confirmed.
+    Requires ADVISOR.
     """
     fundGrant(id: Int!): Grant
+
+    """
+    Reverse a funded grant (bounced check, returned gift).
+    Credits the amount back to the giving fund with a REVERSAL ledger entry.
+    Omit amount to reverse everything not already returned. Partial
+    reversals leave the grant FUNDED; a full reversal moves it to REVERSED.
+    Requires ADVISOR.
+    """
+    reverseGrant(
+      "ID of the grant to reverse"
+      id: Int!
+      "Reason for the reversal (required)"
+      reason: String!
+      "Amount to return (defaults to the full outstanding amount)"
+      amount: Decimal
+    ): Grant
+
+    # Recurring grant mutations
+    """
+    Schedule a grant to be requested every week, month, quarter or year.
+    The first run is on the start date. The ministry must be able to
+    receive grants and the fund to make them.
+    Donors may only schedule grants from their own funds.
+    """
+    createRecurringGrant(input: CreateRecurringGrantInput!): RecurringGrant!
+
+    """
+    Change a running schedule and clear its flag.
+    Donors may only change schedules from their own funds.
+    """
+    updateRecurringGrant(id: Int!, input: UpdateRecurringGrantInput!): RecurringGrant!
+
+    """
+    Cancel a running schedule. Grants it already made are kept.
+    Donors may only cancel schedules from their own funds.
+    """
+    cancelRecurringGrant(id: Int!): RecurringGrant!
+
+    """
+    Make or skip every recurring grant run that has come due now, rather
+    than waiting for the scheduler. Requires ADMIN.
+    """
+    runRecurringGrants: RecurringGrantRunSummary!
   }
 `;
@@ -0,0 +1,49 @@
+/**
+ * =============================================================================
+ * graphql-upload Type Declarations
+ * =============================================================================
+ *
+ * graphql-upload is typed with JSDoc in its .mjs modules, which TypeScript
+ * only reads with allowJs. These declare the parts the server uses.
+ *
+ * @see https://github.com/jaydenseric/graphql-upload
+ */
+
+declare module 'graphql-upload/processRequest.mjs' {
+  import type { IncomingMessage, ServerResponse } from 'node:http';
+  import type { Readable } from 'node:stream';
+
+  /**
+   * An uploaded file, as resolved by the Upload scalar
+   */
+  export interface FileUpload {
+    filename: string;
+    /** Provided by the client; not to be trusted */
+    mimetype: string;
+    encoding: string;
+    createReadStream(options?: { encoding?: BufferEncoding; highWaterMark?: number }): Readable;
+  }
+
+  export interface ProcessRequestOptions {
+    maxFieldSize?: number;
+    maxFileSize?: number;
+    maxFiles?: number;
+  }
+
+  /**
+   * Parses a GraphQL multipart request into operations whose file
+   * variables hold uploads. Rejects with an http-errors error (`status`).
+   */
+  export default function processRequest(
+    request: IncomingMessage,
+    response: ServerResponse,
+    options?: ProcessRequestOptions
+  ): Promise<Record<string, unknown> | Record<string, unknown>[]>;
+}
+
+declare module 'graphql-upload/GraphQLUpload.mjs' {
+  import type { GraphQLScalarType } from 'graphql';
+
+  const GraphQLUpload: GraphQLScalarType;
+  export default GraphQLUpload;
+}
@@ -0,0 +1,109 @@
+/**
+ * =============================================================================
+ * Audit Trail
+ * =============================================================================
+ *
+ * The audit hook locks and loads a mutation's target at its first write,
+ * after the locks the mutation takes itself, so it never reorders them.
+ * The client logs row locks and writes in memory, so no database is needed.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { GraphQLInt, GraphQLObjectType, type GraphQLResolveInfo } from 'graphql';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { Context } from '../src/context.js';
+import { auditMutations } from '../src/lib/audit.js';
+
+const MINISTRY_INFO = {
+  returnType: new GraphQLObjectType({ name: 'Ministry', fields: { id: { type: GraphQLInt } } }),
+} as unknown as GraphQLResolveInfo;
+
+/**
+ * A client holding one ministry, logging each row lock and write, and
+ * keeping the audit events it is given
+ */
+function clientWith(ministry: { id: number; name: string }) {
+  const log: string[] = [];
+  const events: Prisma.AuditEventUncheckedCreateInput[] = [];
+  let row = { ...ministry };
+  const tx = {
+    $queryRaw: async (sql: TemplateStringsArray, ...values: unknown[]) => {
+      // Table names come through as Prisma.raw fragments
+      const text = sql.reduce((query, part, index) => {
+        const value = values[index - 1];
+        const fragment = value instanceof Object && 'sql' in value ? value.sql : value;
+        return `${query}${String(fragment)}${part}`;
+      });
+      const [, table, id] = /FROM\s+"(\w+)" WHERE "id" = (\d+)/.exec(text) ?? [];
+      log.push(`lock ${table} ${id}`);
+      return [];
+    },
+    ministry: {
+      findUnique: async () => ({ ...row }),
+      update: async ({ data }: { data: { name: string } }) => {
+        log.push('write Ministry');
+        row = { ...row, ...data };
+        return { ...row };
+      },
+    },
+    auditEvent: {
+      create: async ({ data }: { data: Prisma.AuditEventUncheckedCreateInput }) => {
+        events.push(data);
+        return data;
+      },
+    },
+  };
+  const prisma = {
+    ...tx,
+    $transaction: async (work: (client: typeof tx) => Promise<unknown>) => work(tx),
+  } as unknown as PrismaClient;
+  return { log, events, prisma };
+}
+
+/**
+ * A context for an anonymous caller on the client
+ */
+function contextFor(prisma: PrismaClient): Context {
+  return { prisma, user: null } as unknown as Context;
+}
+
+describe('auditMutations', () => {
+  test("locks the target after the mutation's own locks, before its first write", async () => {
+    const { log, events, prisma } = clientWith({ id: 1, name: 'Grace' });
+    const { renameMinistry } = auditMutations({
+      renameMinistry: async (_parent, _args, { prisma: client }) =>
+        client.$transaction(async (tx) => {
+          await tx.$queryRaw`SELECT "id" FROM "Grant" WHERE "id" = ${9} FOR UPDATE`;
+          await tx.$queryRaw`SELECT "id" FROM "Ministry" WHERE "id" = ${1} FOR UPDATE`;
+          return tx.ministry.update({ where: { id: 1 }, data: { name: 'Grace Church' } });
+        }),
+    });
+
+    await renameMinistry!(null, { id: 1 }, contextFor(prisma), MINISTRY_INFO);
+
+    assert.deepEqual(log, [
+      'lock Grant 9',
+      'lock Ministry 1',
+      'lock Ministry 1',
+      'write Ministry',
+    ]);
+    assert.equal(events.length, 1);
+    assert.deepEqual(events[0]!.before, { name: 'Grace' });
+    assert.deepEqual(events[0]!.after, { name: 'Grace Church' });
+  });
+
+  test('records a mutation that writes nothing with no changes', async () => {
+    const { log, events, prisma } = clientWith({ id: 1, name: 'Grace' });
+    const { touchMinistry } = auditMutations({
+      touchMinistry: async (_parent, _args, { prisma: client }) =>
+        client.ministry.findUnique({ where: { id: 1 } }),
+    });
+
+    await touchMinistry!(null, { id: 1 }, contextFor(prisma), MINISTRY_INFO);
+
+    assert.deepEqual(log, ['lock Ministry 1']);
+    assert.deepEqual(events[0]!.before, {});
+    assert.deepEqual(events[0]!.after, {});
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * =============================================================================
+ * CSV Parsing
+ * =============================================================================
+ *
+ * parseCsv reads uploaded spreadsheets exported as CSV: quoted fields with
+ * delimiters, escaped quotes and line breaks, both line endings and a
+ * leading byte-order mark. splitCsvLine reads one line of the data files.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseCsv, splitCsvLine } from '../src/lib/csv.js';
+
+describe('parseCsv', () => {
+  test('splits rows and fields', () => {
+    assert.deepEqual(parseCsv('name,category\nGrace Church,CHURCH\n'), [
+      ['name', 'category'],
+      ['Grace Church', 'CHURCH'],
+    ]);
+  });
+
+  test('reads a last line without a line break', () => {
+    assert.deepEqual(parseCsv('a,b\n1,2'), [
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  test('accepts \\r\\n line endings', () => {
+    assert.deepEqual(parseCsv('a,b\r\n1,2\r\n'), [
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  test('drops a leading byte-order mark', () => {
+    assert.deepEqual(parseCsv('\uFEFFname\nGrace'), [['name'], ['Grace']]);
+  });
+
+  test('keeps delimiters and escaped quotes inside quoted fields', () => {
+    assert.deepEqual(parseCsv('"Hope, Inc.","The ""best"" hope"\n'), [
+      ['Hope, Inc.', 'The "best" hope'],
+    ]);
+  });
+
+  test('keeps line breaks inside quoted fields', () => {
+    assert.deepEqual(parseCsv('name,mission\n"Grace","Feed\r\nthe hungry"\nHope,Serve\n'), [
+      ['name', 'mission'],
+      ['Grace', 'Feed\r\nthe hungry'],
+      ['Hope', 'Serve'],
+    ]);
+  });
+
+  test('keeps empty fields and blank lines', () => {
+    assert.deepEqual(parseCsv('a,,c\n\n,\n'), [['a', '', 'c'], [''], ['', '']]);
+  });
+
+  test('splits on another delimiter', () => {
+    assert.deepEqual(parseCsv('a|"b|c"\n', '|'), [['a', 'b|c']]);
+  });
+});
+
+describe('splitCsvLine', () => {
+  test('honours quoted fields and escaped quotes', () => {
+    assert.deepEqual(splitCsvLine('12-3456789,"Grace ""Chapel"", Inc.",GA'), [
+      '12-3456789',
+      'Grace "Chapel", Inc.',
+      'GA',
+    ]);
+  });
+
+  test('keeps a trailing empty field', () => {
+    assert.deepEqual(splitCsvLine('a,b,'), ['a', 'b', '']);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * =============================================================================
+ * Test Database
+ * =============================================================================
+ *
+ * Tests that need a migrated database read it from DATABASE_URL. Without
+ * one they are skipped locally but fail under CI, so a misconfigured
+ * pipeline cannot pass without running them.
+ */
+
+import assert from 'node:assert/strict';
+
+/**
+ * `skip` option for a suite that needs the database
+ */
+export const SKIP_WITHOUT_DATABASE =
+  !process.env['DATABASE_URL'] && !process.env['CI'] && 'DATABASE_URL is not set';
+
+/**
+ * Fails the suite when it runs without a database (under CI)
+ * Call first in the suite's `before` hook.
+ */
+export function assertDatabase(): void {
+  assert.ok(process.env['DATABASE_URL'], 'DATABASE_URL must point at a migrated test database');
+}
+
+/**
+ * Whether a database is configured, for `after` hooks to skip cleanup
+ */
+export function hasDatabase(): boolean {
+  return Boolean(process.env['DATABASE_URL']);
+}
@@ -0,0 +1,123 @@
+/**
+ * =============================================================================
+ * EIN Validation and Normalization
+ * =============================================================================
+ *
+ * normalizeEin accepts hyphenated and bare input and rejects other lengths
+ * and prefixes the IRS never assigns. The duplicate check finds a ministry
+ * stored under either spelling of the number.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { Ministry, PrismaClient } from '@prisma/client';
+import {
+  assertEinAvailable,
+  einVariants,
+  findEinConflict,
+  normalizeEin,
+} from '../src/lib/ein.js';
+import { ValidationError } from '../src/lib/errors.js';
+
+/**
+ * Asserts that `run` throws a ValidationError on `field`
+ */
+function assertInvalid(run: () => unknown, field: string, message: RegExp): void {
+  assert.throws(run, (error: unknown) => {
+    assert.ok(error instanceof ValidationError);
+    assert.equal(error.extensions['field'], field);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+/**
+ * A client whose ministry.findFirst answers from `ministries`, applying
+ * the `ein: { in }` and `NOT: { id }` conditions findEinConflict uses
+ */
+function clientWith(ministries: Pick<Ministry, 'id' | 'name' | 'ein'>[]): PrismaClient {
+  return {
+    ministry: {
+      findFirst: async ({ where }: { where: { ein: { in: string[] }; NOT?: { id: number } } }) =>
+        ministries.find(
+          (ministry) =>
+            ministry.ein !== null &&
+            where.ein.in.includes(ministry.ein) &&
+            ministry.id !== where.NOT?.id
+        ) ?? null,
+    },
+  } as unknown as PrismaClient;
+}
+
+describe('normalizeEin', () => {
+  test('keeps a hyphenated EIN', () => {
+    assert.equal(normalizeEin('58-1437002'), '58-1437002');
+  });
+
+  test('adds the hyphen to a bare EIN', () => {
+    assert.equal(normalizeEin('581437002'), '58-1437002');
+  });
+
+  test('ignores surrounding spaces', () => {
+    assert.equal(normalizeEin('  58-1437002 '), '58-1437002');
+  });
+
+  test('rejects a prefix the IRS never assigns', () => {
+    assertInvalid(() => normalizeEin('07-1234567'), 'ein', /07 is not a prefix the IRS assigns/);
+    assertInvalid(() => normalizeEin('001234567'), 'ein', /00 is not a prefix/);
+  });
+
+  test('rejects the wrong number of digits', () => {
+    assertInvalid(() => normalizeEin('58-143700'), 'ein', /Expected nine digits/);
+    assertInvalid(() => normalizeEin('5814370021'), 'ein', /Expected nine digits/);
+  });
+
+  test('rejects misplaced dashes and other characters', () => {
+    assertInvalid(() => normalizeEin('581-437002'), 'ein', /Expected nine digits/);
+    assertInvalid(() => normalizeEin('58 1437002'), 'ein', /Expected nine digits/);
+    assertInvalid(() => normalizeEin('58-14370O2'), 'ein', /Expected nine digits/);
+  });
+
+  test('reports the given field', () => {
+    assertInvalid(() => normalizeEin('12345', 'rows.ein'), 'rows.ein', /Expected nine digits/);
+  });
+});
+
+describe('einVariants', () => {
+  test('lists the hyphenated and bare spellings', () => {
+    assert.deepEqual(einVariants('58-1437002'), ['58-1437002', '581437002']);
+  });
+});
+
+describe('EIN duplicate check', () => {
+  const stored = [
+    { id: 1, name: 'Hyphenated Ministry', ein: '58-1437002' },
+    { id: 2, name: 'Bare Ministry', ein: '363673599' },
+    { id: 3, name: 'No EIN Ministry', ein: null },
+  ];
+  const prisma = clientWith(stored);
+
+  test('finds a ministry stored in the canonical form', async () => {
+    const conflict = await findEinConflict(prisma, normalizeEin('581437002'));
+    assert.equal(conflict?.id, 1);
+  });
+
+  test('finds a ministry stored before normalization, without the dash', async () => {
+    const conflict = await findEinConflict(prisma, normalizeEin('36-3673599'));
+    assert.equal(conflict?.id, 2);
+  });
+
+  test('ignores the ministry being updated', async () => {
+    assert.equal(await findEinConflict(prisma, '58-1437002', 1), null);
+  });
+
+  test('assertEinAvailable names the ministry holding the EIN', async () => {
+    await assert.rejects(assertEinAvailable(prisma, '36-3673599'), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.equal(error.extensions['field'], 'ein');
+      assert.match(error.message, /already registered to Bare Ministry \(ministry 2\)/);
+      return true;
+    });
+    await assertEinAvailable(prisma, '95-1643985');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * =============================================================================
+ * Giving Fund Lifecycle
+ * =============================================================================
+ *
+ * closeGivingFund without a final-grant plan: an empty fund closes at once,
+ * a fund whose open grants already pay out its balance starts closing and
+ * syncFundClosure closes it once they are funded, and any other balance is
+ * refused. The client keeps one fund and its open grants in memory, so no
+ * database is needed.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { GivingFund, PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { closeGivingFund, syncFundClosure } from '../src/lib/fundLifecycle.js';
+import { ValidationError } from '../src/lib/errors.js';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+
+/**
+ * A fund with the balance, and a client that holds it and the amounts of
+ * its open grants
+ */
+function clientWith(balance: number, openGrants: number[]) {
+  const state = {
+    fund: {
+      id: 1,
+      name: 'Closing Test Fund',
+      balance: new Decimal(balance),
+      active: true,
+      closingAt: null,
+      closedAt: null,
+      archivedAt: null,
+      donorId: 1,
+    } as unknown as GivingFund,
+    openGrants,
+  };
+  const client = {
+    $queryRaw: async () => [],
+    givingFund: {
+      findUnique: async () => state.fund,
+      update: async ({ data }: { data: Partial<GivingFund> }) => {
+        state.fund = { ...state.fund, ...data };
+        return state.fund;
+      },
+    },
+    contribution: {
+      count: async () => 0,
+    },
+    grant: {
+      aggregate: async () => ({
+        _count: state.openGrants.length,
+        _sum: {
+          amount: state.openGrants.length
+            ? state.openGrants.reduce((total, amount) => total + amount, 0)
+            : null,
+        },
+      }),
+    },
+  };
+  const prisma = {
+    ...client,
+    $transaction: async (work: (tx: typeof client) => Promise<unknown>) => work(client),
+  } as unknown as PrismaClient;
+  return { state, prisma };
+}
+
+describe('closeGivingFund without final grants', () => {
+  test('closes an empty fund with no open grants at once', async () => {
+    const { prisma } = clientWith(0, []);
+    const fund = await closeGivingFund(prisma, 1, [], null, now);
+
+    assert.equal(fund.active, false);
+    assert.deepEqual(fund.closingAt, now);
+    assert.deepEqual(fund.closedAt, now);
+  });
+
+  test('starts closing a fund whose open grants pay out the whole balance', async () => {
+    const { state, prisma } = clientWith(500, [200, 300]);
+    const fund = await closeGivingFund(prisma, 1, [], null, now);
+
+    assert.deepEqual(fund.closingAt, now);
+    assert.equal(fund.closedAt, null);
+    assert.equal(fund.active, true);
+
+    // Funding the last grant empties the fund and finishes the close
+    state.fund = { ...state.fund, balance: new Decimal(0) };
+    state.openGrants = [];
+    await syncFundClosure(prisma, 1, now);
+    assert.deepEqual(state.fund.closedAt, now);
+    assert.equal(state.fund.active, false);
+  });
+
+  test('refuses a balance the open grants do not pay out', async () => {
+    const { prisma } = clientWith(500, [200]);
+    await assert.rejects(closeGivingFund(prisma, 1, [], null, now), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.match(error.message, /still holds \$500\.00/);
+      return true;
+    });
+  });
+
+  test('refuses an empty fund with open grants', async () => {
+    const { prisma } = clientWith(0, [200]);
+    await assert.rejects(closeGivingFund(prisma, 1, [], null, now), /1 open grant\b/);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * =============================================================================
+ * DataLoader Query Count
+ * =============================================================================
+ *
+ * Lists grants with their fund, donor, ministry and fund aggregates selected,
+ * counting the Prisma queries each request makes. With the per-request
+ * loaders (src/lib/loaders.ts) the count must not grow with the list: 10
+ * grants and 100 grants take the same number of queries.
+ *
+ * Needs a migrated database in DATABASE_URL; the rows it creates are
+ * removed afterwards (see database.ts).
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import {
+  PrismaClient,
+  type Donor,
+  type GivingFund,
+  type Ministry,
+  type Prisma,
+} from '@prisma/client';
+import { createApolloServer } from '../src/apollo.js';
+import type { Context } from '../src/context.js';
+import { createLoaders } from '../src/lib/loaders.js';
+import { SKIP_WITHOUT_DATABASE, assertDatabase, hasDatabase } from './database.js';
+
+const GRANTS_QUERY = `
+  query Grants($ministryId: Int) {
+    grants(ministryId: $ministryId) {
+      id
+      amount
+      givingFund {
+        id
+        name
+        totalDisbursed
+        grantCounts { pending funded total }
+        donor { id firstName lastName }
+      }
+      ministry { id name }
+    }
+  }
+`;
+
+/** Funds the grants are spread across, so every fund loader sees many keys */
+const FUND_COUNT = 10;
+
+describe('grants list query count', { skip: SKIP_WITHOUT_DATABASE }, () => {
+  const server = createApolloServer();
+  const suffix = `${Date.now()}-${process.pid}`;
+  let prisma: PrismaClient<Prisma.PrismaClientOptions, 'query'>;
+  let queries = 0;
+  let donor: Donor;
+  let ministry: Ministry;
+  let funds: GivingFund[];
+
+  /**
+   * Adds grants to the test ministry, spread across the test funds
+   */
+  async function addGrants(count: number): Promise<void> {
+    await prisma.grant.createMany({
+      data: Array.from({ length: count }, (_, i) => ({
+        amount: 100 + i,
+        status: i % 2 === 0 ? ('PENDING' as const) : ('FUNDED' as const),
+        givingFundId: funds[i % FUND_COUNT]!.id,
+        ministryId: ministry.id,
+      })),
+    });
+  }
+
+  /**
+   * Runs the list query as an admin and returns how many Prisma queries it made
+   */
+  async function countListQueries(expectedGrants: number): Promise<number> {
+    const contextValue: Context = {
+      prisma: prisma as PrismaClient,
+      user: { id: 0, email: 'loader-test@example.com', role: 'ADMIN', donorId: null },
+      loaders: createLoaders(prisma),
+    };
+    queries = 0;
+    const response = await server.executeOperation(
+      { query: GRANTS_QUERY, variables: { ministryId: ministry.id } },
+      { contextValue }
+    );
+    const made = queries;
+
+    assert.equal(response.body.kind, 'single');
+    assert.ok(response.body.kind === 'single');
+    assert.equal(response.body.singleResult.errors, undefined);
+    const data = response.body.singleResult.data as { grants: unknown[] };
+    assert.equal(data.grants.length, expectedGrants);
+    return made;
+  }
+
+  before(async () => {
+    assertDatabase();
+    prisma = new PrismaClient({ log: [{ emit: 'event', level: 'query' }] });
+    prisma.$on('query', () => {
+      queries++;
+    });
+    await server.start();
+    ministry = await prisma.ministry.create({
+      data: { name: `Loader Test Ministry ${suffix}`, category: 'CHURCH', verified: true },
+    });
+    donor = await prisma.donor.create({
+      data: { firstName: 'Loader', lastName: 'Test', email: `loader-test-${suffix}@example.com` },
+    });
+    funds = await Promise.all(
+      Array.from({ length: FUND_COUNT }, (_, i) =>
+        prisma.givingFund.create({
+          data: { name: `Loader Test Fund ${i + 1}`, balance: 100000, donorId: donor.id },
+        })
+      )
+    );
+  });
+
+  after(async () => {
+    if (!hasDatabase()) return;
+    await prisma.grant.deleteMany({ where: { ministryId: ministry.id } });
+    await prisma.givingFund.deleteMany({ where: { donorId: donor.id } });
+    await prisma.donor.delete({ where: { id: donor.id } });
+    await prisma.ministry.delete({ where: { id: ministry.id } });
+    await server.stop();
+    await prisma.$disconnect();
+  });
+
+  test('100 grants take as many queries as 10', async () => {
+    await addGrants(10);
+    const forTen = await countListQueries(10);
+
+    await addGrants(90);
+    const forHundred = await countListQueries(100);
+
+    assert.equal(forHundred, forTen);
+    // One list query plus one batch per loader, not one per grant
+    assert.ok(forHundred < 10, `expected a handful of queries, got ${forHundred}`);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * =============================================================================
+ * Bulk Ministry Import
+ * =============================================================================
+ *
+ * Dry runs of importMinistries: the header mapping, the per-row checks and
+ * the EIN duplicate checks against earlier rows and existing ministries.
+ * The client answers ministry lookups from a fixed list, so no database is
+ * needed. readSpreadsheet refuses an XLSX sheet over the row limit.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import ExcelJS from 'exceljs';
+import type { Ministry, PrismaClient } from '@prisma/client';
+import {
+  MAX_IMPORT_ROWS,
+  importMinistries,
+  readSpreadsheet,
+  type MinistryImportRow,
+} from '../src/lib/ministryImport.js';
+import { ValidationError } from '../src/lib/errors.js';
+
+/**
+ * A client whose ministry.findMany answers `ein: { in }` from `ministries`
+ */
+function clientWith(ministries: Pick<Ministry, 'id' | 'name' | 'ein'>[]): PrismaClient {
+  return {
+    ministry: {
+      findMany: async ({ where }: { where: { ein: { in: string[] } } }) =>
+        ministries.filter((ministry) => ministry.ein !== null && where.ein.in.includes(ministry.ein)),
+    },
+  } as unknown as PrismaClient;
+}
+
+const prisma = clientWith([{ id: 7, name: 'Existing Ministry', ein: '363673599' }]);
+
+/**
+ * Dry-runs an import of the rows
+ */
+function dryRun(rows: string[][]) {
+  return importMinistries(prisma, rows, { dryRun: true }, null);
+}
+
+/**
+ * The fields a row's errors name
+ */
+function errorFields(row: MinistryImportRow | undefined): (string | null)[] {
+  return row?.errors.map((error) => error.field) ?? [];
+}
+
+describe('importMinistries row validation', () => {
+  test('accepts valid rows and normalizes EIN and category', async () => {
+    const result = await dryRun([
+      ['Ministry Name', 'EIN', 'Category', 'City'],
+      ['Grace Church', '581437002', 'church', 'Atlanta'],
+      ['Hope Relief', '', 'Humanitarian', ''],
+    ]);
+
+    assert.equal(result.committed, false);
+    assert.equal(result.totalRows, 2);
+    assert.equal(result.validRows, 2);
+    assert.equal(result.createdCount, 0);
+    assert.deepEqual(
+      result.rows.map((row) => [row.rowNumber, row.name, row.ein, row.category]),
+      [
+        [2, 'Grace Church', '58-1437002', 'CHURCH'],
+        [3, 'Hope Relief', null, 'HUMANITARIAN'],
+      ]
+    );
+  });
+
+  test('reports missing names, unknown categories and invalid EINs', async () => {
+    const result = await dryRun([
+      ['name', 'ein', 'category'],
+      ['', '58-1437002', 'CHURCH'],
+      ['Grace', '', 'Synagogue'],
+      ['Hope', '07-1234567', ''],
+    ]);
+
+    assert.equal(result.invalidRows, 3);
+    assert.deepEqual(errorFields(result.rows[0]), ['name']);
+    assert.deepEqual(errorFields(result.rows[1]), ['category']);
+    assert.match(result.rows[1]!.errors[0]!.message, /Unknown category "Synagogue"/);
+    assert.deepEqual(errorFields(result.rows[2]), ['category', 'ein']);
+  });
+
+  test('reports values longer than their columns', async () => {
+    const result = await dryRun([
+      ['name', 'category', 'state'],
+      ['Grace', 'CHURCH', 'S'.repeat(51)],
+    ]);
+
+    assert.deepEqual(errorFields(result.rows[0]), ['state']);
+  });
+
+  test('flags an EIN repeated on a later row, in either format', async () => {
+    const result = await dryRun([
+      ['name', 'ein', 'category'],
+      ['Grace', '58-1437002', 'CHURCH'],
+      ['Grace Again', '581437002', 'CHURCH'],
+    ]);
+
+    assert.equal(result.duplicateEinRows, 1);
+    assert.equal(result.rows[0]!.errors.length, 0);
+    assert.equal(result.rows[1]!.duplicateOfRow, 2);
+  });
+
+  test('flags an EIN an existing ministry holds, stored without the dash', async () => {
+    const result = await dryRun([
+      ['name', 'ein', 'category'],
+      ['Grace', '36-3673599', 'CHURCH'],
+    ]);
+
+    assert.equal(result.rows[0]!.existingMinistryId, 7);
+    assert.match(result.rows[0]!.errors[0]!.message, /already registered to Existing Ministry/);
+  });
+
+  test('skips blank rows but keeps the spreadsheet row numbers', async () => {
+    const result = await dryRun([
+      ['name', 'category'],
+      ['', ' '],
+      ['Grace', 'CHURCH'],
+    ]);
+
+    assert.equal(result.totalRows, 1);
+    assert.equal(result.rows[0]!.rowNumber, 3);
+  });
+
+  test('reports unknown columns and refuses a header without required ones', async () => {
+    const result = await dryRun([
+      ['name', 'category', 'Pastor'],
+      ['Grace', 'CHURCH', 'Smith'],
+    ]);
+    assert.deepEqual(result.ignoredColumns, ['Pastor']);
+
+    await assert.rejects(dryRun([['name', 'ein'], ['Grace', '']]), /missing the required column category/);
+  });
+});
+
+describe('readSpreadsheet', () => {
+  /**
+   * An XLSX upload with a header and `count` data rows
+   */
+  async function xlsxWithRows(count: number) {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Ministries');
+    sheet.addRow(['name', 'category']);
+    for (let i = 1; i <= count; i++) {
+      sheet.addRow([`Ministry ${i}`, 'CHURCH']);
+    }
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+    return { filename: 'ministries.xlsx', mimetype: 'application/octet-stream', buffer };
+  }
+
+  test('reads an XLSX sheet as text cells', async () => {
+    const rows = await readSpreadsheet(await xlsxWithRows(2));
+    assert.deepEqual(rows, [
+      ['name', 'category'],
+      ['Ministry 1', 'CHURCH'],
+      ['Ministry 2', 'CHURCH'],
+    ]);
+  });
+
+  test('refuses an XLSX sheet over the row limit', async () => {
+    const file = await xlsxWithRows(MAX_IMPORT_ROWS + 1);
+    await assert.rejects(readSpreadsheet(file), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.match(error.message, new RegExp(`has ${MAX_IMPORT_ROWS + 1} rows`));
+      return true;
+    });
+  });
+
+  test('reads CSV by extension and refuses other types', async () => {
+    const csv = { filename: 'ministries.csv', mimetype: 'text/csv', buffer: Buffer.from('name\nGrace\n') };
+    assert.deepEqual(await readSpreadsheet(csv), [['name'], ['Grace']]);
+
+    const xls = { ...csv, filename: 'ministries.xls' };
+    await assert.rejects(readSpreadsheet(xls), /Unsupported file type ".xls"/);
+  });
+});
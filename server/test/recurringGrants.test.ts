@@ -0,0 +1,189 @@
+/**
+ * =============================================================================
+ * Recurring Grants
+ * =============================================================================
+ *
+ * nextRunAfter for every cadence, including the month-end and leap-year
+ * clamping that keeps runs on the start date's day of the period.
+ *
+ * The job tests need a migrated database in DATABASE_URL (see database.ts):
+ * a run for a ministry that cannot receive grants is skipped and its
+ * schedule flagged.
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import {
+  PrismaClient,
+  type Donor,
+  type GivingFund,
+  type GrantCadence,
+  type Ministry,
+  type RecurringGrant,
+} from '@prisma/client';
+import { nextRunAfter, runRecurringGrants } from '../src/lib/recurringGrants.js';
+import { SKIP_WITHOUT_DATABASE, assertDatabase, hasDatabase } from './database.js';
+
+/**
+ * A UTC date from a YYYY-MM-DD string
+ */
+function day(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+/**
+ * The first `count` runs after the start date, as YYYY-MM-DD strings
+ */
+function runsAfter(cadence: GrantCadence, startDate: string, count: number): string[] {
+  const schedule = { cadence, startDate: day(startDate) };
+  const runs: string[] = [];
+  let runDate = schedule.startDate;
+  for (let i = 0; i < count; i++) {
+    runDate = nextRunAfter(schedule, runDate);
+    runs.push(runDate.toISOString().slice(0, 10));
+  }
+  return runs;
+}
+
+describe('nextRunAfter', () => {
+  test('weekly runs are seven days apart across month and year ends', () => {
+    assert.deepEqual(runsAfter('WEEKLY', '2025-12-24', 3), [
+      '2025-12-31',
+      '2026-01-07',
+      '2026-01-14',
+    ]);
+  });
+
+  test('monthly runs keep the start day', () => {
+    assert.deepEqual(runsAfter('MONTHLY', '2025-01-15', 3), [
+      '2025-02-15',
+      '2025-03-15',
+      '2025-04-15',
+    ]);
+  });
+
+  test('monthly runs from the 31st fall on the last day of shorter months', () => {
+    assert.deepEqual(runsAfter('MONTHLY', '2025-01-31', 4), [
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+      '2025-05-31',
+    ]);
+  });
+
+  test('monthly runs from the 31st fall on February 29 in a leap year', () => {
+    assert.deepEqual(runsAfter('MONTHLY', '2024-01-31', 2), ['2024-02-29', '2024-03-31']);
+  });
+
+  test('quarterly runs clamp to the end of the quarter month and recover', () => {
+    assert.deepEqual(runsAfter('QUARTERLY', '2023-11-30', 4), [
+      '2024-02-29',
+      '2024-05-30',
+      '2024-08-30',
+      '2024-11-30',
+    ]);
+  });
+
+  test('annual runs from February 29 fall on February 28 outside leap years', () => {
+    assert.deepEqual(runsAfter('ANNUALLY', '2024-02-29', 4), [
+      '2025-02-28',
+      '2026-02-28',
+      '2027-02-28',
+      '2028-02-29',
+    ]);
+  });
+
+  test('the run after a late run is the next one due, not one period later', () => {
+    const schedule = { cadence: 'MONTHLY' as const, startDate: day('2025-01-31') };
+    assert.equal(nextRunAfter(schedule, day('2025-03-05')).toISOString().slice(0, 10), '2025-04-30');
+  });
+});
+
+describe('runRecurringGrants skipped runs', { skip: SKIP_WITHOUT_DATABASE }, () => {
+  const suffix = `${Date.now()}-${process.pid}`;
+  const today = new Date(new Date().toISOString().slice(0, 10));
+  let prisma: PrismaClient;
+  let donor: Donor;
+  let fund: GivingFund;
+  let unverified: Ministry;
+  let inactive: Ministry;
+  let schedules: RecurringGrant[] = [];
+
+  /**
+   * A monthly schedule to the ministry whose first run is due today
+   */
+  function scheduleFor(ministry: Ministry): Promise<RecurringGrant> {
+    return prisma.recurringGrant.create({
+      data: {
+        amount: 50,
+        cadence: 'MONTHLY',
+        startDate: today,
+        nextRunDate: today,
+        givingFundId: fund.id,
+        ministryId: ministry.id,
+      },
+    });
+  }
+
+  before(async () => {
+    assertDatabase();
+    prisma = new PrismaClient();
+    donor = await prisma.donor.create({
+      data: { firstName: 'Recurring', lastName: 'Test', email: `recurring-test-${suffix}@example.com` },
+    });
+    fund = await prisma.givingFund.create({
+      data: { name: 'Recurring Test Fund', balance: 1000, donorId: donor.id },
+    });
+    unverified = await prisma.ministry.create({
+      data: { name: `Recurring Unverified Ministry ${suffix}`, category: 'CHURCH' },
+    });
+    inactive = await prisma.ministry.create({
+      data: {
+        name: `Recurring Inactive Ministry ${suffix}`,
+        category: 'CHURCH',
+        verified: true,
+        active: false,
+        verifications: {
+          create: { status: 'VERIFIED', method: 'MANUAL', verifiedAt: new Date() },
+        },
+      },
+    });
+    schedules = [await scheduleFor(unverified), await scheduleFor(inactive)];
+  });
+
+  after(async () => {
+    if (!hasDatabase()) return;
+    const ids = schedules.map((schedule) => schedule.id);
+    await prisma.auditEvent.deleteMany({ where: { entityType: 'RecurringGrant', entityId: { in: ids } } });
+    await prisma.recurringGrant.deleteMany({ where: { id: { in: ids } } });
+    await prisma.ministry.deleteMany({ where: { id: { in: [unverified.id, inactive.id] } } });
+    await prisma.givingFund.delete({ where: { id: fund.id } });
+    await prisma.donor.delete({ where: { id: donor.id } });
+    await prisma.$disconnect();
+  });
+
+  test('skips and flags the runs instead of making grants', async () => {
+    await runRecurringGrants(prisma);
+
+    const grants = await prisma.grant.count({
+      where: { recurringGrantId: { in: schedules.map((schedule) => schedule.id) } },
+    });
+    assert.equal(grants, 0);
+
+    const [forUnverified, forInactive] = await Promise.all(
+      schedules.map((schedule) => prisma.recurringGrant.findUniqueOrThrow({ where: { id: schedule.id } }))
+    );
+    for (const schedule of [forUnverified!, forInactive!]) {
+      assert.equal(schedule.skippedRuns, 1);
+      assert.ok(schedule.flaggedAt);
+      assert.equal(schedule.lastRunAt, null);
+      // The schedule moves on to its next run
+      assert.deepEqual(
+        schedule.nextRunDate,
+        nextRunAfter({ cadence: 'MONTHLY', startDate: today }, today)
+      );
+    }
+    assert.match(forUnverified!.flagReason ?? '', /unverified ministry/);
+    assert.match(forInactive!.flagReason ?? '', /inactive ministry/);
+  });
+});
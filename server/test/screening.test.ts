@@ -0,0 +1,107 @@
+/**
+ * =============================================================================
+ * Sanctions Screening
+ * =============================================================================
+ *
+ * Re-screening after a new list import: a hit still open is not recorded
+ * twice, but the screening is, so the ministry counts as screened against
+ * the new list and funding waits only on the hit's review. The client
+ * keeps the list and the results in memory, so no database is needed.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { Ministry, PrismaClient, ScreeningResult, ScreeningStatus } from '@prisma/client';
+import { ScreeningHoldError } from '../src/lib/errors.js';
+import { assertScreeningCurrent, screenMinistry } from '../src/lib/screening.js';
+
+const FIRST_LIST = new Date('2026-01-01T00:00:00.000Z');
+const NEW_LIST = new Date('2026-02-01T00:00:00.000Z');
+
+const ministry = {
+  id: 1,
+  name: 'Hope Relief International',
+  country: 'USA',
+  category: 'HUMANITARIAN',
+  updatedAt: new Date('2025-12-01T00:00:00.000Z'),
+} as Ministry;
+
+/**
+ * A client with a list imported at NEW_LIST holding one party named like
+ * the ministry, and the ministry's open hit on it from FIRST_LIST
+ */
+function clientWithOpenHit() {
+  const results: ScreeningResult[] = [
+    {
+      id: 1,
+      status: 'POTENTIAL_MATCH',
+      listVersion: FIRST_LIST,
+      ministryId: ministry.id,
+      partyEntryNumber: 100,
+      screenedAt: FIRST_LIST,
+    } as ScreeningResult,
+  ];
+  const matches = (
+    row: ScreeningResult,
+    where: {
+      ministryId: number;
+      partyEntryNumber?: { in: number[] };
+      status?: { in: ScreeningStatus[] };
+    }
+  ) =>
+    row.ministryId === where.ministryId &&
+    (!where.partyEntryNumber || where.partyEntryNumber.in.includes(row.partyEntryNumber!)) &&
+    (!where.status || where.status.in.includes(row.status));
+
+  const prisma = {
+    sanctionedParty: {
+      aggregate: async () => ({ _max: { importedAt: NEW_LIST } }),
+      findMany: async () => [
+        {
+          entryNumber: 100,
+          name: 'HOPE RELIEF INTERNATIONAL',
+          type: 'Entity',
+          programs: ['SDGT'],
+          aliases: [],
+          countries: ['United States'],
+        },
+      ],
+    },
+    screeningResult: {
+      findMany: async ({ where }: { where: Parameters<typeof matches>[1] }) =>
+        results.filter((row) => matches(row, where)).reverse(),
+      findFirst: async ({ where }: { where: Parameters<typeof matches>[1] }) =>
+        results.filter((row) => matches(row, where)).at(-1) ?? null,
+      create: async ({ data }: { data: Partial<ScreeningResult> }) => {
+        const row = { ...data, id: results.length + 1, screenedAt: new Date() } as ScreeningResult;
+        results.push(row);
+        return row;
+      },
+    },
+  } as unknown as PrismaClient;
+  return { results, prisma };
+}
+
+describe('screenMinistry against a new list', () => {
+  test('records an UNCHANGED screening when every hit is already open', async () => {
+    const { results, prisma } = clientWithOpenHit();
+    const written = await screenMinistry(prisma, ministry);
+
+    assert.equal(written.length, 1);
+    assert.equal(written[0]!.status, 'UNCHANGED');
+    assert.deepEqual(written[0]!.listVersion, NEW_LIST);
+    // The open hit is not recorded a second time
+    assert.equal(results.filter((row) => row.status === 'POTENTIAL_MATCH').length, 1);
+  });
+
+  test('leaves funding held by the open hit, not by a stale screening', async () => {
+    const { prisma } = clientWithOpenHit();
+    await screenMinistry(prisma, ministry);
+
+    await assert.rejects(assertScreeningCurrent(prisma, ministry), (error: unknown) => {
+      assert.ok(error instanceof ScreeningHoldError);
+      assert.match(error.message, /1 sanctions screening hit needs review/);
+      return true;
+    });
+  });
+});
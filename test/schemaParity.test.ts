@@ -0,0 +1,119 @@
+/**
+ * =============================================================================
+ * GraphQL Schema Parity
+ * =============================================================================
+ *
+ * Fails if a deployment serves a schema other than the committed export
+ * (docs/schema/schema.graphql). Each deployment is introspected over HTTP
+ * through its real entry point, the way a client would see it:
+ *   - the Vercel function, api/graphql.ts, behind a Next-style API route
+ *   - the standalone server, server/src/http.ts
+ *
+ * Run `npm run docs:export-schema` after changing the schema.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, test } from 'node:test';
+import {
+  buildClientSchema,
+  buildSchema,
+  getIntrospectionQuery,
+  lexicographicSortSchema,
+  printSchema,
+  type GraphQLSchema,
+  type IntrospectionQuery,
+} from 'graphql';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import vercelHandler, { server as vercelServer } from '../api/graphql.js';
+import { createApolloServer } from '../server/src/apollo.js';
+import { createContext } from '../server/src/context.js';
+import { startHttpServer } from '../server/src/http.js';
+
+const EXPORTED_SCHEMA = new URL('../docs/schema/schema.graphql', import.meta.url);
+
+/**
+ * Prints a schema as SDL in a stable order
+ */
+function sortedSdl(schema: GraphQLSchema): string {
+  return printSchema(lexicographicSortSchema(schema));
+}
+
+/**
+ * Introspects the GraphQL endpoint at a URL
+ */
+async function introspectSdl(url: string): Promise<string> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query: getIntrospectionQuery({ inputValueDeprecation: true, specifiedByUrl: true }) }),
+  });
+  assert.equal(response.status, 200, `introspection of ${url} failed`);
+  const result = (await response.json()) as { data: IntrospectionQuery; errors?: unknown };
+  assert.equal(result.errors, undefined);
+  return sortedSdl(buildClientSchema(result.data));
+}
+
+/**
+ * Adds the Next API route helpers the Vercel handler relies on
+ */
+function asNextApiRoute(
+  request: IncomingMessage,
+  response: ServerResponse
+): [NextApiRequest, NextApiResponse] {
+  const query = Object.fromEntries(new URL(request.url ?? '/', 'http://localhost').searchParams);
+  const nextResponse = Object.assign(response, {
+    status(code: number) {
+      response.statusCode = code;
+      return nextResponse;
+    },
+    send(body: unknown) {
+      response.write(body);
+    },
+    json(body: unknown) {
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(body));
+    },
+  });
+  return [
+    Object.assign(request, { query, cookies: {} }) as unknown as NextApiRequest,
+    nextResponse as unknown as NextApiResponse,
+  ];
+}
+
+describe('GraphQL schema parity', () => {
+  const exported = sortedSdl(buildSchema(readFileSync(EXPORTED_SCHEMA, 'utf-8')));
+  const standaloneServer = createApolloServer({ introspection: true });
+  const vercelHost = http.createServer((request, response) => {
+    void vercelHandler(...asNextApiRoute(request, response));
+  });
+  let vercelUrl: string;
+  let standaloneUrl: string;
+
+  before(async () => {
+    await new Promise<void>((resolve) => vercelHost.listen(0, resolve));
+    vercelUrl = `http://localhost:${(vercelHost.address() as AddressInfo).port}/api/graphql`;
+
+    ({ url: standaloneUrl } = await startHttpServer(standaloneServer, {
+      port: 0,
+      context: async (request) =>
+        createContext({ authorization: request.headers.authorization }),
+    }));
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => vercelHost.close(() => resolve()));
+    await vercelServer.stop();
+    await standaloneServer.stop();
+  });
+
+  test('the Vercel function serves the exported schema', async () => {
+    assert.equal(await introspectSdl(vercelUrl), exported);
+  });
+
+  test('the standalone server serves the exported schema', async () => {
+    assert.equal(await introspectSdl(standaloneUrl), exported);
+  });
+});